@@ -0,0 +1,83 @@
+import { getAddress, isAddress } from 'ethers';
+import { BadRequestError } from './errors';
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+const WINDOW_UNITS: Record<string, number> = {
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+export function parseAddress(value: string, name: string): string {
+  if (!isAddress(value)) {
+    throw new BadRequestError(`${name} must be an address`);
+  }
+  return getAddress(value);
+}
+
+export function parseUint(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new BadRequestError(`${name} must be a non-negative integer`);
+  }
+  return BigInt(value);
+}
+
+export function parseLimit(value: string | null): number {
+  if (value === null) {
+    return DEFAULT_LIMIT;
+  }
+
+  const limit = Number(parseUint(value, 'limit'));
+  if (limit === 0 || limit > MAX_LIMIT) {
+    throw new BadRequestError(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  return limit;
+}
+
+export function parseBoolean(value: string, name: string): boolean {
+  if (value !== 'true' && value !== 'false') {
+    throw new BadRequestError(`${name} must be true or false`);
+  }
+  return value === 'true';
+}
+
+// Parses a window such as `24h`, `7d` or `4w` into seconds; `all` means no window
+export function parseWindow(value: string): number | undefined {
+  if (value === 'all') {
+    return undefined;
+  }
+
+  const match = /^(\d+)([hdw])$/.exec(value);
+  if (!match) {
+    throw new BadRequestError('window must look like 24h, 7d, 4w or all');
+  }
+  return Number(match[1]) * WINDOW_UNITS[match[2]];
+}
+
+// Cursors are opaque to clients: base64url encoded JSON of the last item's sort key
+export function encodeCursor(key: Record<string, string>): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+// Every field must be a string, and the uint fields must also be digits only
+// so they can be passed to BigInt
+export function decodeCursor(
+  value: string,
+  fields: string[],
+  uintFields: string[] = []
+): Record<string, string> {
+  try {
+    const key = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      fields.every((field) => typeof key?.[field] === 'string') &&
+      uintFields.every((field) => /^\d+$/.test(key[field]))
+    ) {
+      return key;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new BadRequestError('cursor is invalid');
+}
@@ -0,0 +1,203 @@
+import type { IndexerStore, ListingSort, ListingStatus } from '../indexer';
+import { BadRequestError, NotFoundError } from './errors';
+import {
+  decodeCursor,
+  encodeCursor,
+  parseAddress,
+  parseBoolean,
+  parseLimit,
+  parseUint,
+  parseWindow,
+} from './params';
+
+export interface ApiContext {
+  store: IndexerStore;
+  // Contract used when a request does not name one, usually the MusicNFT
+  defaultNFTContract: string;
+  // Current unix time in seconds, used to resolve chart windows and to tell
+  // expired listings apart
+  now: () => number;
+}
+
+export interface ApiRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+export type RouteHandler = (
+  context: ApiContext,
+  request: ApiRequest
+) => unknown;
+
+const LISTING_SORTS: ListingSort[] = ['oldest', 'newest', 'price', '-price'];
+const LISTING_STATUSES: ListingStatus[] = [
+  'active',
+  'sold',
+  'cancelled',
+  'expired',
+  'invalidated',
+];
+
+function nftContractFrom(context: ApiContext, query: URLSearchParams): string {
+  const contract = query.get('contract');
+  return contract === null
+    ? context.defaultNFTContract
+    : parseAddress(contract, 'contract');
+}
+
+function tokenView(
+  store: IndexerStore,
+  token: NonNullable<ReturnType<IndexerStore['getToken']>>
+) {
+  return {
+    ...token,
+    listenCount: store.getListenCount(token.nftContract, token.tokenId),
+  };
+}
+
+export const getToken: RouteHandler = (context, request) => {
+  const { store } = context;
+  const nftContract = nftContractFrom(context, request.query);
+  const tokenId = parseUint(request.params.id, 'id');
+
+  const token = store.getToken(nftContract, tokenId);
+  if (!token) {
+    throw new NotFoundError(`Token ${tokenId} not found`);
+  }
+
+  return {
+    ...tokenView(store, token),
+    activeListing: store.getActiveListingByToken(nftContract, tokenId) ?? null,
+  };
+};
+
+export const getCreatorTokens: RouteHandler = ({ store }, request) => {
+  const creator = parseAddress(request.params.address, 'address');
+  const limit = parseLimit(request.query.get('limit'));
+  const cursor = request.query.get('cursor');
+
+  let after;
+  if (cursor !== null) {
+    const key = decodeCursor(cursor, ['nftContract', 'tokenId'], ['tokenId']);
+    after = { nftContract: key.nftContract, tokenId: BigInt(key.tokenId) };
+  }
+
+  const tokens = store.getTokensByCreator(creator, after, limit + 1);
+  const items = tokens.slice(0, limit).map((token) => tokenView(store, token));
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor:
+      tokens.length > limit
+        ? encodeCursor({
+            nftContract: last.nftContract,
+            tokenId: last.tokenId.toString(),
+          })
+        : null,
+  };
+};
+
+export const getListings: RouteHandler = ({ store, now }, { query }) => {
+  const limit = parseLimit(query.get('limit'));
+
+  const sort = (query.get('sort') ?? 'oldest') as ListingSort;
+  if (!LISTING_SORTS.includes(sort)) {
+    throw new BadRequestError(
+      `sort must be one of ${LISTING_SORTS.join(', ')}`
+    );
+  }
+
+  let status: ListingStatus[] | undefined;
+  let active: boolean | undefined;
+  const activeParam = query.get('active');
+  const statusParam = query.get('status');
+  if (statusParam !== null) {
+    if (!LISTING_STATUSES.includes(statusParam as ListingStatus)) {
+      throw new BadRequestError(
+        `status must be one of ${LISTING_STATUSES.join(', ')}`
+      );
+    }
+    status = [statusParam as ListingStatus];
+  } else if (activeParam !== null) {
+    // Expired listings keep the 'active' status until they are reclaimed,
+    // so the expiry is checked against the current time as well
+    active = parseBoolean(activeParam, 'active');
+  }
+
+  const seller = query.get('seller');
+  const nftContract = query.get('contract');
+  const currency = query.get('currency');
+  const minPrice = query.get('minPrice');
+  const maxPrice = query.get('maxPrice');
+  const cursor = query.get('cursor');
+
+  let after;
+  if (cursor !== null) {
+    const key = decodeCursor(
+      cursor,
+      ['listingId', 'price'],
+      ['listingId', 'price']
+    );
+    after = { listingId: BigInt(key.listingId), price: BigInt(key.price) };
+  }
+
+  const listings = store.queryListings({
+    status,
+    active,
+    now: now(),
+    seller: seller === null ? undefined : parseAddress(seller, 'seller'),
+    nftContract:
+      nftContract === null ? undefined : parseAddress(nftContract, 'contract'),
+    currency:
+      currency === null ? undefined : parseAddress(currency, 'currency'),
+    minPrice: minPrice === null ? undefined : parseUint(minPrice, 'minPrice'),
+    maxPrice: maxPrice === null ? undefined : parseUint(maxPrice, 'maxPrice'),
+    sort,
+    after,
+    limit: limit + 1,
+  });
+
+  const items = listings.slice(0, limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor:
+      listings.length > limit
+        ? encodeCursor({
+            listingId: last.listingId.toString(),
+            price: last.price.toString(),
+          })
+        : null,
+  };
+};
+
+export const getTopListened: RouteHandler = (context, { query }) => {
+  const nftContract = nftContractFrom(context, query);
+  const limit = parseLimit(query.get('limit'));
+  const window = query.get('window') ?? 'all';
+  const duration = parseWindow(window);
+  const since = duration === undefined ? 0 : context.now() - duration;
+
+  return {
+    nftContract,
+    window,
+    since,
+    items: context.store.getTopListenedTokens(nftContract, limit, since),
+  };
+};
+
+export const getPendingPayments: RouteHandler = ({ store }, { params }) => {
+  const account = parseAddress(params.address, 'address');
+  const payments = store.getPendingPayments(account);
+
+  // Amounts in different currencies cannot be added up, so totals are per currency
+  const totals: Record<string, bigint> = {};
+  for (const payment of payments) {
+    totals[payment.currency] =
+      (totals[payment.currency] ?? 0n) + payment.amount;
+  }
+
+  return { account, payments, totals };
+};
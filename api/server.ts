@@ -0,0 +1,99 @@
+import http from 'http';
+import type { IndexerStore } from '../indexer';
+import { HttpError, NotFoundError } from './errors';
+import {
+  ApiContext,
+  getCreatorTokens,
+  getListings,
+  getPendingPayments,
+  getToken,
+  getTopListened,
+  RouteHandler,
+} from './routes';
+
+export interface ApiServerOptions {
+  store: IndexerStore;
+  defaultNFTContract: string;
+  now?: () => number;
+}
+
+interface Route {
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const ROUTES: Route[] = [
+  { pattern: /^\/tokens\/(?<id>[^/]+)$/, handler: getToken },
+  {
+    pattern: /^\/creators\/(?<address>[^/]+)\/tokens$/,
+    handler: getCreatorTokens,
+  },
+  { pattern: /^\/listings$/, handler: getListings },
+  { pattern: /^\/charts\/top-listened$/, handler: getTopListened },
+  {
+    pattern: /^\/accounts\/(?<address>[^/]+)\/pending$/,
+    handler: getPendingPayments,
+  },
+];
+
+// The JSON form of a response body built from indexer records
+export type Serialized<T> = T extends bigint
+  ? string
+  : T extends (infer U)[]
+  ? Serialized<U>[]
+  : T extends object
+  ? { [K in keyof T]: Serialized<T[K]> }
+  : T;
+
+// uint256 values do not fit in JSON numbers, so they are sent as strings
+function serialize(body: unknown): string {
+  return JSON.stringify(body, (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(serialize(body));
+}
+
+export function createApiServer(options: ApiServerOptions): http.Server {
+  const context: ApiContext = {
+    store: options.store,
+    defaultNFTContract: options.defaultNFTContract,
+    now: options.now ?? (() => Math.floor(Date.now() / 1000)),
+  };
+
+  return http.createServer((request, response) => {
+    if (request.method !== 'GET') {
+      response.setHeader('Allow', 'GET');
+      send(response, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    try {
+      for (const route of ROUTES) {
+        const match = route.pattern.exec(url.pathname);
+        if (match) {
+          const body = route.handler(context, {
+            params: { ...match.groups },
+            query: url.searchParams,
+          });
+          send(response, 200, body);
+          return;
+        }
+      }
+
+      throw new NotFoundError();
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(response, error.status, { error: error.message });
+      } else {
+        console.error(error);
+        send(response, 500, { error: 'Internal server error' });
+      }
+    }
+  });
+}
@@ -0,0 +1,440 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+
+// Numbered editions of a song, such as 500 copies of a single, next to the
+// 1-of-1 masters of MusicNFT. Each token ID is one edition
+contract MusicEditions is ERC1155Supply, ERC2981, Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    // Who receives the holder share of an edition's streaming royalties
+    enum StreamingPayout {
+        Holders,
+        Creator
+    }
+
+    struct Edition {
+        address creator;
+        string uri;
+        uint256 maxSupply;
+        uint256 minted;
+        uint256 streamingRoyaltyPercentage;
+        StreamingPayout streamingPayout;
+    }
+
+    uint256 public constant MAX_ROYALTY_PERCENTAGE = 5000;
+
+    // Scales the royalty per copy so that small deposits on large editions
+    // do not round down to zero
+    uint256 private constant ROYALTY_PRECISION = 1e18;
+
+    uint256 private _editionIds;
+    mapping(uint256 => Edition) private _editions;
+    mapping(address => uint256[]) private _creatorEditions;
+
+    // Contracts allowed to deposit holder royalties, such as NFTStreaming
+    mapping(address => bool) public royaltyDepositors;
+
+    // Map editionId -> currency -> cumulative holder royalty per copy, scaled
+    // by ROYALTY_PRECISION (address(0) is native ETH)
+    mapping(uint256 => mapping(address => uint256)) private _royaltyPerCopy;
+
+    // Map editionId -> holder -> currency -> royalty per copy already credited
+    mapping(uint256 => mapping(address => mapping(address => uint256)))
+        private _royaltyCheckpoints;
+
+    // Map editionId -> holder -> currency -> credited and unclaimed royalties
+    mapping(uint256 => mapping(address => mapping(address => uint256)))
+        private _holderRoyalties;
+
+    // Map editionId -> currencies holder royalties were deposited in
+    mapping(uint256 => address[]) private _royaltyCurrencies;
+    mapping(uint256 => mapping(address => bool)) private _isRoyaltyCurrency;
+
+    error NonexistentToken(uint256 tokenId);
+    error EmptyTokenURI();
+    error MaxRoyaltyExceeded(uint256 percentage, uint256 maxAllowed);
+    error NotAuthorized();
+    error InvalidMaxSupply();
+    error InvalidAmount();
+    error EditionSupplyExceeded(uint256 editionId, uint256 maxSupply);
+    error UnauthorizedDepositor(address depositor);
+    error NoEditionHolders(uint256 editionId);
+    error InsufficientPayment();
+    error NativePaymentNotAccepted();
+    error NoPaymentsPending();
+    error TransferFailed();
+
+    event EditionCreated(
+        uint256 indexed editionId,
+        address indexed creator,
+        string uri,
+        uint256 maxSupply,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage
+    );
+
+    event StreamingPayoutUpdated(
+        uint256 indexed editionId,
+        StreamingPayout streamingPayout
+    );
+
+    event RoyaltyDepositorUpdated(address indexed depositor, bool allowed);
+
+    event HolderRoyaltiesDeposited(
+        uint256 indexed editionId,
+        address indexed currency,
+        uint256 amount
+    );
+
+    event HolderRoyaltiesClaimed(
+        uint256 indexed editionId,
+        address indexed holder,
+        address indexed currency,
+        uint256 amount
+    );
+
+    constructor() ERC1155("") Ownable(msg.sender) {}
+
+    // Creates an edition of up to `maxSupply` copies and mints
+    // `initialAmount` of them to the creator
+    function createEdition(
+        string calldata editionURI,
+        uint256 maxSupply,
+        uint256 initialAmount,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage
+    ) external returns (uint256) {
+        if (bytes(editionURI).length == 0) {
+            revert EmptyTokenURI();
+        }
+
+        if (maxSupply == 0) {
+            revert InvalidMaxSupply();
+        }
+
+        if (salesRoyaltyPercentage > MAX_ROYALTY_PERCENTAGE) {
+            revert MaxRoyaltyExceeded(
+                salesRoyaltyPercentage,
+                MAX_ROYALTY_PERCENTAGE
+            );
+        }
+
+        if (streamingRoyaltyPercentage > MAX_ROYALTY_PERCENTAGE) {
+            revert MaxRoyaltyExceeded(
+                streamingRoyaltyPercentage,
+                MAX_ROYALTY_PERCENTAGE
+            );
+        }
+
+        _editionIds++;
+        uint256 editionId = _editionIds;
+
+        Edition storage edition = _editions[editionId];
+        edition.creator = msg.sender;
+        edition.uri = editionURI;
+        edition.maxSupply = maxSupply;
+        edition.streamingRoyaltyPercentage = streamingRoyaltyPercentage;
+        _creatorEditions[msg.sender].push(editionId);
+
+        _setTokenRoyalty(
+            editionId,
+            msg.sender,
+            uint96(salesRoyaltyPercentage)
+        );
+
+        emit EditionCreated(
+            editionId,
+            msg.sender,
+            editionURI,
+            maxSupply,
+            salesRoyaltyPercentage,
+            streamingRoyaltyPercentage
+        );
+        emit URI(editionURI, editionId);
+
+        if (initialAmount > 0) {
+            _mintCopies(editionId, msg.sender, initialAmount);
+        }
+
+        return editionId;
+    }
+
+    function mintCopies(
+        uint256 editionId,
+        address to,
+        uint256 amount
+    ) external {
+        if (getCreator(editionId) != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        if (amount == 0) {
+            revert InvalidAmount();
+        }
+
+        _mintCopies(editionId, to, amount);
+    }
+
+    function setStreamingPayout(
+        uint256 editionId,
+        StreamingPayout streamingPayout
+    ) external {
+        if (getCreator(editionId) != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        _editions[editionId].streamingPayout = streamingPayout;
+        emit StreamingPayoutUpdated(editionId, streamingPayout);
+    }
+
+    function setRoyaltyDepositor(
+        address depositor,
+        bool allowed
+    ) external onlyOwner {
+        royaltyDepositors[depositor] = allowed;
+        emit RoyaltyDepositorUpdated(depositor, allowed);
+    }
+
+    // Divides `amount` among the current holders by copies held. Holders
+    // claim their part with claimHolderRoyalties; rounding dust stays in the
+    // contract. Depositors are restricted so that the currencies settled on
+    // every transfer stay few
+    function depositHolderRoyalties(
+        uint256 editionId,
+        address currency,
+        uint256 amount
+    ) external payable nonReentrant {
+        if (!royaltyDepositors[msg.sender]) {
+            revert UnauthorizedDepositor(msg.sender);
+        }
+
+        uint256 supply = totalSupply(editionId);
+        if (supply == 0) {
+            revert NoEditionHolders(editionId);
+        }
+
+        if (currency == address(0)) {
+            if (msg.value != amount) {
+                revert InsufficientPayment();
+            }
+        } else {
+            if (msg.value > 0) {
+                revert NativePaymentNotAccepted();
+            }
+            IERC20(currency).safeTransferFrom(
+                msg.sender,
+                address(this),
+                amount
+            );
+        }
+
+        if (!_isRoyaltyCurrency[editionId][currency]) {
+            _isRoyaltyCurrency[editionId][currency] = true;
+            _royaltyCurrencies[editionId].push(currency);
+        }
+
+        _royaltyPerCopy[editionId][currency] +=
+            (amount * ROYALTY_PRECISION) /
+            supply;
+
+        emit HolderRoyaltiesDeposited(editionId, currency, amount);
+    }
+
+    function claimHolderRoyalties(
+        uint256 editionId,
+        address currency
+    ) external nonReentrant returns (uint256) {
+        _settleHolderRoyalties(editionId, msg.sender);
+
+        uint256 amount = _holderRoyalties[editionId][msg.sender][currency];
+        if (amount == 0) {
+            revert NoPaymentsPending();
+        }
+
+        _holderRoyalties[editionId][msg.sender][currency] = 0;
+
+        if (currency == address(0)) {
+            (bool success, ) = msg.sender.call{value: amount}("");
+            if (!success) {
+                revert TransferFailed();
+            }
+        } else {
+            IERC20(currency).safeTransfer(msg.sender, amount);
+        }
+
+        emit HolderRoyaltiesClaimed(editionId, msg.sender, currency, amount);
+        return amount;
+    }
+
+    function getClaimableHolderRoyalties(
+        uint256 editionId,
+        address holder,
+        address currency
+    ) external view returns (uint256) {
+        return
+            _holderRoyalties[editionId][holder][currency] +
+            _unsettledHolderRoyalties(editionId, holder, currency);
+    }
+
+    function getEdition(
+        uint256 editionId
+    )
+        public
+        view
+        returns (
+            address creator,
+            string memory editionURI,
+            uint256 maxSupply,
+            uint256 minted,
+            uint256 streamingRoyaltyPercentage,
+            StreamingPayout streamingPayout
+        )
+    {
+        Edition storage edition = _getEdition(editionId);
+        return (
+            edition.creator,
+            edition.uri,
+            edition.maxSupply,
+            edition.minted,
+            edition.streamingRoyaltyPercentage,
+            edition.streamingPayout
+        );
+    }
+
+    function uri(
+        uint256 editionId
+    ) public view override returns (string memory) {
+        return _getEdition(editionId).uri;
+    }
+
+    function getCreator(uint256 editionId) public view returns (address) {
+        return _getEdition(editionId).creator;
+    }
+
+    function getStreamingRoyalty(
+        uint256 editionId
+    ) public view returns (uint256) {
+        return _getEdition(editionId).streamingRoyaltyPercentage;
+    }
+
+    function getStreamingPayout(
+        uint256 editionId
+    ) public view returns (StreamingPayout) {
+        return _getEdition(editionId).streamingPayout;
+    }
+
+    function getSalesRoyalty(
+        uint256 editionId
+    ) public view returns (address receiver, uint256 royaltyAmount) {
+        _getEdition(editionId);
+        return royaltyInfo(editionId, 10000);
+    }
+
+    function getTokensCreatedBy(
+        address creator
+    ) public view returns (uint256[] memory) {
+        return _creatorEditions[creator];
+    }
+
+    // Number of editions created. Editions cannot be removed, so this is
+    // also their total minted count
+    function getTotalSupply() public view returns (uint256) {
+        return _editionIds;
+    }
+
+    // Highest editionId, matching MusicNFT's minted count so that editions
+    // can be iterated the same way
+    function getTotalMinted() public view returns (uint256) {
+        return _editionIds;
+    }
+
+    function tokenExists(uint256 editionId) public view returns (bool) {
+        return _editions[editionId].creator != address(0);
+    }
+
+    function _mintCopies(
+        uint256 editionId,
+        address to,
+        uint256 amount
+    ) internal {
+        Edition storage edition = _editions[editionId];
+        if (edition.minted + amount > edition.maxSupply) {
+            revert EditionSupplyExceeded(editionId, edition.maxSupply);
+        }
+
+        edition.minted += amount;
+        _mint(to, editionId, amount, "");
+    }
+
+    // Credits the royalties earned by the holder's current balance before it
+    // changes, so that copies only earn deposits made while they are held
+    function _update(
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory values
+    ) internal override {
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (from != address(0)) {
+                _settleHolderRoyalties(ids[i], from);
+            }
+            if (to != address(0)) {
+                _settleHolderRoyalties(ids[i], to);
+            }
+        }
+
+        super._update(from, to, ids, values);
+    }
+
+    function _settleHolderRoyalties(
+        uint256 editionId,
+        address holder
+    ) internal {
+        address[] storage currencies = _royaltyCurrencies[editionId];
+
+        for (uint256 i = 0; i < currencies.length; i++) {
+            address currency = currencies[i];
+            uint256 unsettled = _unsettledHolderRoyalties(
+                editionId,
+                holder,
+                currency
+            );
+            uint256 perCopy = _royaltyPerCopy[editionId][currency];
+
+            _holderRoyalties[editionId][holder][currency] += unsettled;
+            _royaltyCheckpoints[editionId][holder][currency] = perCopy;
+        }
+    }
+
+    function _unsettledHolderRoyalties(
+        uint256 editionId,
+        address holder,
+        address currency
+    ) internal view returns (uint256) {
+        uint256 perCopy = _royaltyPerCopy[editionId][currency] -
+            _royaltyCheckpoints[editionId][holder][currency];
+        return (balanceOf(holder, editionId) * perCopy) / ROYALTY_PRECISION;
+    }
+
+    function _getEdition(
+        uint256 editionId
+    ) internal view returns (Edition storage edition) {
+        edition = _editions[editionId];
+        if (edition.creator == address(0)) {
+            revert NonexistentToken(editionId);
+        }
+    }
+
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view override(ERC1155, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+}
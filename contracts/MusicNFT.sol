@@ -4,21 +4,152 @@ pragma solidity ^0.8.28;
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 import "@openzeppelin/contracts/token/common/ERC2981.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+contract MusicNFT is
+    ERC721URIStorage,
+    ERC2981,
+    Ownable,
+    EIP712,
+    ReentrancyGuard
+{
+    // Signed off-chain by a creator so the first buyer can mint the token
+    struct MintVoucher {
+        address creator;
+        string tokenURI;
+        uint256 salesRoyaltyPercentage;
+        uint256 streamingRoyaltyPercentage;
+        uint256 minPrice;
+        uint256 nonce;
+        uint256 expiresAt;
+    }
+
+    bytes32 public constant MINT_VOUCHER_TYPEHASH =
+        keccak256(
+            "MintVoucher(address creator,string tokenURI,uint256 salesRoyaltyPercentage,uint256 streamingRoyaltyPercentage,uint256 minPrice,uint256 nonce,uint256 expiresAt)"
+        );
+
+    // A release grouping tokens minted by its creator, such as an album or EP
+    struct Album {
+        address creator;
+        string metadataURI;
+    }
+
+    // Royalties proposed by the creator that can take effect once
+    // `executableAt` has passed
+    struct RoyaltyUpdate {
+        uint256 salesRoyaltyPercentage;
+        uint256 streamingRoyaltyPercentage;
+        uint256 executableAt;
+    }
+
+    // Track details stored on-chain. The hashes bind the token to the exact
+    // bytes of the audio and artwork files, e.g. their keccak256 or sha256
+    struct TrackMetadata {
+        string title;
+        string artist;
+        string isrc;
+        // Length of the track in seconds
+        uint256 duration;
+        bytes32 contentHash;
+        bytes32 artworkHash;
+    }
+
+    // A token URI that was replaced, with who set it and when
+    struct URIVersion {
+        string uri;
+        address setBy;
+        uint256 setAt;
+    }
 
-contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
     uint256 private _tokenIds;
+    uint256 private _burnedTokens;
 
     mapping(uint256 => uint256) private _streamingRoyalties;
     mapping(uint256 => address) private _creators;
+
+    // Map creator -> tokenIds they minted that were not burned, and each
+    // token's position there
+    mapping(address => uint256[]) private _createdTokens;
+    mapping(uint256 => uint256) private _createdTokensIndex;
+
     mapping(address => uint256[]) private _ownedTokens;
     mapping(uint256 => uint256) private _ownedTokensIndex;
 
+    // Map tokenId -> collaborators sharing the creator's royalties, empty when
+    // the creator receives everything
+    mapping(uint256 => address[]) private _splitRecipients;
+    mapping(uint256 => uint256[]) private _splitShares;
+
+    // Map creator -> voucher nonce -> redeemed or cancelled
+    mapping(address => mapping(uint256 => bool)) private _usedVoucherNonces;
+
+    // Voucher sale proceeds waiting to be withdrawn by creators
+    mapping(address => uint256) private _pendingPayments;
+
+    mapping(uint256 => Album) private _albums;
+    uint256 private _albumIds;
+
+    // Map albumId -> tokenIds in track order
+    mapping(uint256 => uint256[]) private _albumTracks;
+
+    // Map tokenId -> album it belongs to (0 for none) and its position there
+    mapping(uint256 => uint256) private _tokenAlbum;
+    mapping(uint256 => uint256) private _albumTrackIndex;
+
+    // Map tokenId -> pending royalty update, with executableAt 0 when none
+    mapping(uint256 => RoyaltyUpdate) private _royaltyUpdates;
+
+    // Map tokenId -> replaced URIs, oldest first, and who set the current URI
+    // and when
+    mapping(uint256 => URIVersion[]) private _uriHistory;
+    mapping(uint256 => address) private _uriSetBy;
+    mapping(uint256 => uint256) private _uriSetAt;
+
+    // Map tokenId -> on-chain track metadata, with an empty title when the
+    // token only has a metadata URI
+    mapping(uint256 => TrackMetadata) private _trackMetadata;
+
+    mapping(uint256 => bool) private _metadataFrozen;
+    mapping(uint256 => bool) private _creatorOnlyUpdates;
+
+    // Number of times each token was minted, transferred or burned
+    mapping(uint256 => uint256) private _transferCounts;
+
     uint256 public constant MAX_ROYALTY_PERCENTAGE = 5000;
+    uint256 public constant MAX_SPLIT_RECIPIENTS = 10;
+    uint256 public constant TOTAL_SPLIT_SHARES = 10000;
+    uint256 public constant MAX_ALBUM_TRACKS = 100;
+
+    // Notice holders and open listings get before a royalty change applies
+    uint256 public constant ROYALTY_UPDATE_DELAY = 7 days;
 
     error NonexistentToken(uint256 tokenId);
     error EmptyTokenURI();
     error MaxRoyaltyExceeded(uint256 percentage, uint256 maxAllowed);
     error NotAuthorized();
+    error InvalidRoyaltySplit();
+    error InvalidSplitTotal(uint256 total, uint256 expected);
+    error VoucherExpired();
+    error VoucherNonceUsed(address creator, uint256 nonce);
+    error InvalidVoucherSignature();
+    error InsufficientPayment();
+    error NoPaymentsPending();
+    error TransferFailed();
+    error AlbumNotFound(uint256 albumId);
+    error EmptyAlbumURI();
+    error AlbumFull(uint256 albumId);
+    error TrackAlreadyInAlbum(uint256 tokenId, uint256 albumId);
+    error TrackNotInAlbum(uint256 tokenId, uint256 albumId);
+    error InvalidTrackOrder();
+    error NoRoyaltyUpdatePending(uint256 tokenId);
+    error RoyaltyUpdateTimelocked(uint256 tokenId, uint256 executableAt);
+    error MetadataIsFrozen(uint256 tokenId);
+    error InvalidTrackMetadata();
 
     event NFTMinted(
         uint256 indexed tokenId,
@@ -30,46 +161,315 @@ contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
 
     event MetadataUpdated(uint256 indexed tokenId, string newTokenURI);
 
-    constructor() ERC721("MusicNFT", "MUSIC") Ownable(msg.sender) {}
+    event RoyaltySplitSet(
+        uint256 indexed tokenId,
+        address[] recipients,
+        uint256[] shares
+    );
+
+    event VoucherRedeemed(
+        uint256 indexed tokenId,
+        address indexed creator,
+        address indexed buyer,
+        uint256 price,
+        uint256 nonce
+    );
+
+    event VoucherCancelled(address indexed creator, uint256 nonce);
+
+    event PaymentWithdrawn(address indexed recipient, uint256 amount);
+
+    event AlbumCreated(
+        uint256 indexed albumId,
+        address indexed creator,
+        string metadataURI
+    );
+
+    event AlbumTrackAdded(uint256 indexed albumId, uint256 indexed tokenId);
+
+    event AlbumTrackRemoved(uint256 indexed albumId, uint256 indexed tokenId);
+
+    event AlbumTracksReordered(uint256 indexed albumId, uint256[] tokenIds);
+
+    event RoyaltyUpdateProposed(
+        uint256 indexed tokenId,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage,
+        uint256 executableAt
+    );
+
+    event RoyaltyUpdateExecuted(
+        uint256 indexed tokenId,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage
+    );
+
+    event RoyaltyUpdateCancelled(uint256 indexed tokenId);
+
+    // Signals marketplaces that the token URI will never change again
+    event PermanentURI(string value, uint256 indexed tokenId);
+
+    event NFTBurned(uint256 indexed tokenId, address indexed creator);
+
+    event CreatorOnlyUpdatesSet(uint256 indexed tokenId, bool creatorOnly);
+
+    event TrackMetadataSet(
+        uint256 indexed tokenId,
+        bytes32 contentHash,
+        bytes32 artworkHash
+    );
+
+    constructor()
+        ERC721("MusicNFT", "MUSIC")
+        Ownable(msg.sender)
+        EIP712("MusicNFT", "1")
+    {}
 
     function mintNFT(
-        string memory tokenURI,
+        string memory uri,
         uint256 salesRoyaltyPercentage,
         uint256 streamingRoyaltyPercentage
     ) public returns (uint256) {
-        if (bytes(tokenURI).length == 0) {
-            revert EmptyTokenURI();
+        return
+            _mintMusicNFT(
+                msg.sender,
+                msg.sender,
+                uri,
+                salesRoyaltyPercentage,
+                streamingRoyaltyPercentage
+            );
+    }
+
+    function mintNFTWithSplits(
+        string memory uri,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage,
+        address[] calldata recipients,
+        uint256[] calldata shares
+    ) external returns (uint256) {
+        _validateRoyaltySplit(recipients, shares);
+
+        uint256 newItemId = _mintMusicNFT(
+            msg.sender,
+            msg.sender,
+            uri,
+            salesRoyaltyPercentage,
+            streamingRoyaltyPercentage
+        );
+
+        _splitRecipients[newItemId] = recipients;
+        _splitShares[newItemId] = shares;
+
+        emit RoyaltySplitSet(newItemId, recipients, shares);
+
+        return newItemId;
+    }
+
+    // Mints a token whose tokenURI is a JSON document generated on-chain from
+    // `metadata`. `uri` is the location of the audio file, returned as
+    // the document's animation_url
+    function mintNFTWithMetadata(
+        string calldata uri,
+        TrackMetadata calldata metadata,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage
+    ) external returns (uint256) {
+        if (bytes(metadata.title).length == 0) {
+            revert InvalidTrackMetadata();
+        }
+        _requireJSONSafe(uri);
+        _requireJSONSafe(metadata.title);
+        _requireJSONSafe(metadata.artist);
+        _requireJSONSafe(metadata.isrc);
+
+        uint256 newItemId = _mintMusicNFT(
+            msg.sender,
+            msg.sender,
+            uri,
+            salesRoyaltyPercentage,
+            streamingRoyaltyPercentage
+        );
+
+        _trackMetadata[newItemId] = metadata;
+
+        emit TrackMetadataSet(
+            newItemId,
+            metadata.contentHash,
+            metadata.artworkHash
+        );
+
+        return newItemId;
+    }
+
+    // Mints a tracklist into a new album, in order, with the same royalties
+    // for every track
+    function mintAlbum(
+        string calldata albumURI,
+        string[] calldata tokenURIs,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage
+    ) external returns (uint256 albumId, uint256[] memory tokenIds) {
+        if (tokenURIs.length > MAX_ALBUM_TRACKS) {
+            revert AlbumFull(_albumIds + 1);
         }
 
-        if (salesRoyaltyPercentage > MAX_ROYALTY_PERCENTAGE) {
-            revert MaxRoyaltyExceeded(
+        albumId = createAlbum(albumURI);
+        tokenIds = new uint256[](tokenURIs.length);
+
+        for (uint256 i = 0; i < tokenURIs.length; i++) {
+            tokenIds[i] = _mintMusicNFT(
+                msg.sender,
+                msg.sender,
+                tokenURIs[i],
                 salesRoyaltyPercentage,
-                MAX_ROYALTY_PERCENTAGE
+                streamingRoyaltyPercentage
             );
+            _addTrack(albumId, tokenIds[i]);
         }
 
-        if (streamingRoyaltyPercentage > MAX_ROYALTY_PERCENTAGE) {
-            revert MaxRoyaltyExceeded(
-                streamingRoyaltyPercentage,
-                MAX_ROYALTY_PERCENTAGE
+        return (albumId, tokenIds);
+    }
+
+    // Mints the token to the first buyer, who pays at least the voucher's
+    // minimum price. The payment is credited to the creator
+    function redeemVoucher(
+        MintVoucher calldata voucher,
+        bytes calldata signature
+    ) external payable nonReentrant returns (uint256) {
+        if (block.timestamp > voucher.expiresAt) {
+            revert VoucherExpired();
+        }
+
+        if (_usedVoucherNonces[voucher.creator][voucher.nonce]) {
+            revert VoucherNonceUsed(voucher.creator, voucher.nonce);
+        }
+
+        if (
+            ECDSA.recover(hashVoucher(voucher), signature) != voucher.creator
+        ) {
+            revert InvalidVoucherSignature();
+        }
+
+        if (msg.value < voucher.minPrice) {
+            revert InsufficientPayment();
+        }
+
+        _usedVoucherNonces[voucher.creator][voucher.nonce] = true;
+        _pendingPayments[voucher.creator] += msg.value;
+
+        uint256 newItemId = _mintMusicNFT(
+            voucher.creator,
+            msg.sender,
+            voucher.tokenURI,
+            voucher.salesRoyaltyPercentage,
+            voucher.streamingRoyaltyPercentage
+        );
+
+        emit VoucherRedeemed(
+            newItemId,
+            voucher.creator,
+            msg.sender,
+            msg.value,
+            voucher.nonce
+        );
+
+        return newItemId;
+    }
+
+    // Lets a creator invalidate a voucher that was signed but not redeemed
+    function cancelVoucher(uint256 nonce) external {
+        if (_usedVoucherNonces[msg.sender][nonce]) {
+            revert VoucherNonceUsed(msg.sender, nonce);
+        }
+
+        _usedVoucherNonces[msg.sender][nonce] = true;
+
+        emit VoucherCancelled(msg.sender, nonce);
+    }
+
+    function isVoucherNonceUsed(
+        address creator,
+        uint256 nonce
+    ) external view returns (bool) {
+        return _usedVoucherNonces[creator][nonce];
+    }
+
+    // EIP-712 digest the creator signs for a voucher
+    function hashVoucher(
+        MintVoucher calldata voucher
+    ) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        MINT_VOUCHER_TYPEHASH,
+                        voucher.creator,
+                        keccak256(bytes(voucher.tokenURI)),
+                        voucher.salesRoyaltyPercentage,
+                        voucher.streamingRoyaltyPercentage,
+                        voucher.minPrice,
+                        voucher.nonce,
+                        voucher.expiresAt
+                    )
+                )
             );
+    }
+
+    function withdrawPayments() external nonReentrant returns (uint256) {
+        uint256 amount = _pendingPayments[msg.sender];
+
+        if (amount == 0) {
+            revert NoPaymentsPending();
+        }
+
+        _pendingPayments[msg.sender] = 0;
+
+        (bool success, ) = msg.sender.call{value: amount}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+
+        emit PaymentWithdrawn(msg.sender, amount);
+        return amount;
+    }
+
+    function getPendingPayment(
+        address recipient
+    ) external view returns (uint256) {
+        return _pendingPayments[recipient];
+    }
+
+    function _mintMusicNFT(
+        address creator,
+        address recipient,
+        string memory uri,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage
+    ) internal returns (uint256) {
+        if (bytes(uri).length == 0) {
+            revert EmptyTokenURI();
         }
 
+        _validateRoyalty(salesRoyaltyPercentage);
+        _validateRoyalty(streamingRoyaltyPercentage);
+
         _tokenIds++;
         uint256 newItemId = _tokenIds;
 
-        _mint(msg.sender, newItemId);
-        _setTokenURI(newItemId, tokenURI);
+        _mint(recipient, newItemId);
+        _setVersionedTokenURI(newItemId, uri, creator);
 
         _streamingRoyalties[newItemId] = streamingRoyaltyPercentage;
-        _creators[newItemId] = msg.sender;
+        _creators[newItemId] = creator;
+        _createdTokensIndex[newItemId] = _createdTokens[creator].length;
+        _createdTokens[creator].push(newItemId);
 
-        _setTokenRoyalty(newItemId, msg.sender, uint96(salesRoyaltyPercentage));
+        _setTokenRoyalty(newItemId, creator, uint96(salesRoyaltyPercentage));
 
         emit NFTMinted(
             newItemId,
-            msg.sender,
-            tokenURI,
+            creator,
+            uri,
             salesRoyaltyPercentage,
             streamingRoyaltyPercentage
         );
@@ -77,16 +477,62 @@ contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
         return newItemId;
     }
 
+    // Burns a token held by the caller or by an owner who approved the caller,
+    // such as the creator. Its royalties, streaming settings, metadata and URI
+    // state, album track and creator index entry are cleared
+    function burn(uint256 tokenId) external {
+        address creator = getCreator(tokenId);
+        if (!_isAuthorized(ownerOf(tokenId), msg.sender, tokenId)) {
+            revert NotAuthorized();
+        }
+
+        _burn(tokenId);
+        _burnedTokens++;
+
+        uint256 albumId = _tokenAlbum[tokenId];
+        if (albumId != 0) {
+            _removeTrack(albumId, tokenId);
+        }
+
+        uint256[] storage created = _createdTokens[creator];
+        uint256 index = _createdTokensIndex[tokenId];
+        uint256 lastTokenId = created[created.length - 1];
+        created[index] = lastTokenId;
+        _createdTokensIndex[lastTokenId] = index;
+        created.pop();
+        delete _createdTokensIndex[tokenId];
+
+        _resetTokenRoyalty(tokenId);
+        delete _streamingRoyalties[tokenId];
+        delete _creators[tokenId];
+        delete _splitRecipients[tokenId];
+        delete _splitShares[tokenId];
+        delete _royaltyUpdates[tokenId];
+        delete _trackMetadata[tokenId];
+        delete _metadataFrozen[tokenId];
+        delete _creatorOnlyUpdates[tokenId];
+        delete _uriHistory[tokenId];
+        delete _uriSetBy[tokenId];
+        delete _uriSetAt[tokenId];
+
+        emit NFTBurned(tokenId, creator);
+    }
+
+    // The creator or the current owner can update the URI until it is frozen.
+    // Owners are excluded once the creator restricts updates to creator-only
     function updateTokenURI(
         uint256 tokenId,
         string memory newTokenURI
     ) external {
-        if (!_exists(tokenId)) {
-            revert NonexistentToken(tokenId);
+        _requireExists(tokenId);
+
+        if (_metadataFrozen[tokenId]) {
+            revert MetadataIsFrozen(tokenId);
         }
 
         if (
-            _creators[tokenId] != msg.sender && ownerOf(tokenId) != msg.sender
+            _creators[tokenId] != msg.sender &&
+            (_creatorOnlyUpdates[tokenId] || ownerOf(tokenId) != msg.sender)
         ) {
             revert NotAuthorized();
         }
@@ -95,33 +541,294 @@ contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
             revert EmptyTokenURI();
         }
 
-        _setTokenURI(tokenId, newTokenURI);
+        if (bytes(_trackMetadata[tokenId].title).length != 0) {
+            _requireJSONSafe(newTokenURI);
+        }
+
+        _setVersionedTokenURI(tokenId, newTokenURI, msg.sender);
 
         emit MetadataUpdated(tokenId, newTokenURI);
     }
 
+    // Permanently locks the current token URI. This cannot be undone
+    function freezeMetadata(uint256 tokenId) external {
+        if (getCreator(tokenId) != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        if (_metadataFrozen[tokenId]) {
+            revert MetadataIsFrozen(tokenId);
+        }
+
+        _metadataFrozen[tokenId] = true;
+
+        emit PermanentURI(tokenURI(tokenId), tokenId);
+    }
+
+    function setCreatorOnlyUpdates(uint256 tokenId, bool creatorOnly) external {
+        if (getCreator(tokenId) != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        _creatorOnlyUpdates[tokenId] = creatorOnly;
+
+        emit CreatorOnlyUpdatesSet(tokenId, creatorOnly);
+    }
+
+    function isMetadataFrozen(uint256 tokenId) public view returns (bool) {
+        _requireExists(tokenId);
+        return _metadataFrozen[tokenId];
+    }
+
+    function isCreatorOnlyUpdates(uint256 tokenId) public view returns (bool) {
+        _requireExists(tokenId);
+        return _creatorOnlyUpdates[tokenId];
+    }
+
+    // Returns every URI the token has had, oldest first, so the last entry is
+    // the current URI
+    function getTokenURIHistory(
+        uint256 tokenId
+    )
+        public
+        view
+        returns (
+            string[] memory uris,
+            address[] memory setters,
+            uint256[] memory timestamps
+        )
+    {
+        _requireExists(tokenId);
+
+        URIVersion[] storage history = _uriHistory[tokenId];
+        uint256 count = history.length;
+        uris = new string[](count + 1);
+        setters = new address[](count + 1);
+        timestamps = new uint256[](count + 1);
+
+        for (uint256 i = 0; i < count; i++) {
+            uris[i] = history[i].uri;
+            setters[i] = history[i].setBy;
+            timestamps[i] = history[i].setAt;
+        }
+
+        uris[count] = ERC721URIStorage.tokenURI(tokenId);
+        setters[count] = _uriSetBy[tokenId];
+        timestamps[count] = _uriSetAt[tokenId];
+    }
+
+    // Proposes new sales and streaming royalties for a token minted by the
+    // caller. They apply after ROYALTY_UPDATE_DELAY, and a new proposal
+    // replaces the pending one and restarts the delay
+    function proposeRoyaltyUpdate(
+        uint256 tokenId,
+        uint256 salesRoyaltyPercentage,
+        uint256 streamingRoyaltyPercentage
+    ) external {
+        if (getCreator(tokenId) != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        _validateRoyalty(salesRoyaltyPercentage);
+        _validateRoyalty(streamingRoyaltyPercentage);
+
+        uint256 executableAt = block.timestamp + ROYALTY_UPDATE_DELAY;
+        _royaltyUpdates[tokenId] = RoyaltyUpdate({
+            salesRoyaltyPercentage: salesRoyaltyPercentage,
+            streamingRoyaltyPercentage: streamingRoyaltyPercentage,
+            executableAt: executableAt
+        });
+
+        emit RoyaltyUpdateProposed(
+            tokenId,
+            salesRoyaltyPercentage,
+            streamingRoyaltyPercentage,
+            executableAt
+        );
+    }
+
+    // Applies a pending royalty update once its delay has passed. Anyone can
+    // execute it, since the creator committed to it when proposing
+    function executeRoyaltyUpdate(uint256 tokenId) external {
+        RoyaltyUpdate memory update = _getPendingRoyaltyUpdate(tokenId);
+
+        if (block.timestamp < update.executableAt) {
+            revert RoyaltyUpdateTimelocked(tokenId, update.executableAt);
+        }
+
+        delete _royaltyUpdates[tokenId];
+
+        _streamingRoyalties[tokenId] = update.streamingRoyaltyPercentage;
+        _setTokenRoyalty(
+            tokenId,
+            _creators[tokenId],
+            uint96(update.salesRoyaltyPercentage)
+        );
+
+        emit RoyaltyUpdateExecuted(
+            tokenId,
+            update.salesRoyaltyPercentage,
+            update.streamingRoyaltyPercentage
+        );
+    }
+
+    function cancelRoyaltyUpdate(uint256 tokenId) external {
+        if (getCreator(tokenId) != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        _getPendingRoyaltyUpdate(tokenId);
+        delete _royaltyUpdates[tokenId];
+
+        emit RoyaltyUpdateCancelled(tokenId);
+    }
+
+    // Returns zeros when no update is pending
+    function getPendingRoyaltyUpdate(
+        uint256 tokenId
+    )
+        public
+        view
+        returns (
+            uint256 salesRoyaltyPercentage,
+            uint256 streamingRoyaltyPercentage,
+            uint256 executableAt
+        )
+    {
+        _requireExists(tokenId);
+
+        RoyaltyUpdate storage update = _royaltyUpdates[tokenId];
+        return (
+            update.salesRoyaltyPercentage,
+            update.streamingRoyaltyPercentage,
+            update.executableAt
+        );
+    }
+
+    function createAlbum(string calldata metadataURI) public returns (uint256) {
+        if (bytes(metadataURI).length == 0) {
+            revert EmptyAlbumURI();
+        }
+
+        _albumIds++;
+        uint256 albumId = _albumIds;
+
+        _albums[albumId] = Album({
+            creator: msg.sender,
+            metadataURI: metadataURI
+        });
+
+        emit AlbumCreated(albumId, msg.sender, metadataURI);
+        return albumId;
+    }
+
+    // Appends a token minted by the album creator as the last track. A token
+    // belongs to at most one album
+    function addTrackToAlbum(uint256 albumId, uint256 tokenId) external {
+        _requireAlbumCreator(albumId);
+
+        _requireExists(tokenId);
+
+        if (_creators[tokenId] != msg.sender) {
+            revert NotAuthorized();
+        }
+
+        if (_albumTracks[albumId].length >= MAX_ALBUM_TRACKS) {
+            revert AlbumFull(albumId);
+        }
+
+        _addTrack(albumId, tokenId);
+    }
+
+    // Removes a track and moves the following tracks up by one position
+    function removeTrackFromAlbum(uint256 albumId, uint256 tokenId) external {
+        _requireAlbumCreator(albumId);
+
+        if (_tokenAlbum[tokenId] != albumId) {
+            revert TrackNotInAlbum(tokenId, albumId);
+        }
+
+        _removeTrack(albumId, tokenId);
+    }
+
+    // `tokenIds` must contain every track of the album exactly once
+    function setAlbumTrackOrder(
+        uint256 albumId,
+        uint256[] calldata tokenIds
+    ) external {
+        _requireAlbumCreator(albumId);
+
+        uint256[] storage tracks = _albumTracks[albumId];
+        if (tokenIds.length != tracks.length) {
+            revert InvalidTrackOrder();
+        }
+
+        // Marks the previous positions already taken to reject duplicates
+        bool[] memory seen = new bool[](tokenIds.length);
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            uint256 tokenId = tokenIds[i];
+            if (_tokenAlbum[tokenId] != albumId) {
+                revert TrackNotInAlbum(tokenId, albumId);
+            }
+
+            uint256 previousIndex = _albumTrackIndex[tokenId];
+            if (seen[previousIndex]) {
+                revert InvalidTrackOrder();
+            }
+            seen[previousIndex] = true;
+        }
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            tracks[i] = tokenIds[i];
+            _albumTrackIndex[tokenIds[i]] = i;
+        }
+
+        emit AlbumTracksReordered(albumId, tokenIds);
+    }
+
     function getStreamingRoyalty(
         uint256 tokenId
     ) public view returns (uint256) {
-        if (!_exists(tokenId)) {
-            revert NonexistentToken(tokenId);
-        }
+        _requireExists(tokenId);
         return _streamingRoyalties[tokenId];
     }
 
     function getSalesRoyalty(
         uint256 tokenId
     ) public view returns (address receiver, uint256 royaltyAmount) {
-        if (!_exists(tokenId)) {
-            revert NonexistentToken(tokenId);
-        }
+        _requireExists(tokenId);
         return royaltyInfo(tokenId, 10000);
     }
 
-    function getCreator(uint256 tokenId) public view returns (address) {
-        if (!_exists(tokenId)) {
-            revert NonexistentToken(tokenId);
+    // Grows on every mint, transfer and burn of the token. The marketplace
+    // compares it to tell a token that left and came back to its seller
+    function getTransferCount(uint256 tokenId) public view returns (uint256) {
+        return _transferCounts[tokenId];
+    }
+
+    // Returns the creator with the full share when no split was set at mint
+    function getRoyaltySplit(
+        uint256 tokenId
+    )
+        public
+        view
+        returns (address[] memory recipients, uint256[] memory shares)
+    {
+        _requireExists(tokenId);
+
+        if (_splitRecipients[tokenId].length == 0) {
+            recipients = new address[](1);
+            shares = new uint256[](1);
+            recipients[0] = _creators[tokenId];
+            shares[0] = TOTAL_SPLIT_SHARES;
+            return (recipients, shares);
         }
+
+        return (_splitRecipients[tokenId], _splitShares[tokenId]);
+    }
+
+    function getCreator(uint256 tokenId) public view returns (address) {
+        _requireExists(tokenId);
         return _creators[tokenId];
     }
 
@@ -131,26 +838,12 @@ contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
         return _ownedTokens[owner];
     }
 
+    // Returns the tokens in mint order until one is burned, which moves the
+    // creator's last token into its place
     function getTokensCreatedBy(
         address creator
     ) public view returns (uint256[] memory) {
-        uint256[] memory result = new uint256[](getTotalSupply());
-        uint256 count = 0;
-
-        for (uint256 i = 1; i <= _tokenIds; i++) {
-            if (_exists(i) && _creators[i] == creator) {
-                result[count] = i;
-                count++;
-            }
-        }
-
-        // Resize array to the actual count
-        uint256[] memory tokensCreated = new uint256[](count);
-        for (uint256 i = 0; i < count; i++) {
-            tokensCreated[i] = result[i];
-        }
-
-        return tokensCreated;
+        return _createdTokens[creator];
     }
 
     function getTokenDetails(
@@ -166,9 +859,7 @@ contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
             uint256 salesRoyaltyPercentage
         )
     {
-        if (!_exists(tokenId)) {
-            revert NonexistentToken(tokenId);
-        }
+        _requireExists(tokenId);
 
         creator = _creators[tokenId];
         currentOwner = ownerOf(tokenId);
@@ -189,7 +880,56 @@ contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
         );
     }
 
+    // Returns a base64 JSON data URI for tokens minted with track metadata and
+    // the stored URI for the others
+    function tokenURI(
+        uint256 tokenId
+    ) public view override returns (string memory) {
+        TrackMetadata storage track = _trackMetadata[tokenId];
+        if (bytes(track.title).length == 0) {
+            return super.tokenURI(tokenId);
+        }
+
+        bytes memory json = abi.encodePacked(
+            '{"name":"',
+            track.title,
+            '","artist":"',
+            track.artist,
+            '","isrc":"',
+            track.isrc,
+            '","duration":',
+            Strings.toString(track.duration),
+            ',"content_hash":"',
+            Strings.toHexString(uint256(track.contentHash), 32),
+            '","artwork_hash":"',
+            Strings.toHexString(uint256(track.artworkHash), 32),
+            '","animation_url":"',
+            super.tokenURI(tokenId),
+            '"}'
+        );
+
+        return
+            string.concat(
+                "data:application/json;base64,",
+                Base64.encode(json)
+            );
+    }
+
+    // Returns an empty title when the token has no on-chain metadata
+    function getTrackMetadata(
+        uint256 tokenId
+    ) public view returns (TrackMetadata memory) {
+        _requireExists(tokenId);
+        return _trackMetadata[tokenId];
+    }
+
+    // Number of tokens in circulation, excluding burned tokens
     function getTotalSupply() public view returns (uint256) {
+        return _tokenIds - _burnedTokens;
+    }
+
+    // Number of tokens ever minted, which is also the highest tokenId
+    function getTotalMinted() public view returns (uint256) {
         return _tokenIds;
     }
 
@@ -197,12 +937,98 @@ contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
         return _exists(tokenId);
     }
 
+    function getAlbum(
+        uint256 albumId
+    )
+        public
+        view
+        returns (
+            address creator,
+            string memory metadataURI,
+            uint256 trackCount
+        )
+    {
+        Album storage album = _albums[albumId];
+        if (album.creator == address(0)) {
+            revert AlbumNotFound(albumId);
+        }
+
+        return (
+            album.creator,
+            album.metadataURI,
+            _albumTracks[albumId].length
+        );
+    }
+
+    // Returns the tokenIds of an album in track order
+    function getAlbumTracks(
+        uint256 albumId
+    ) public view returns (uint256[] memory) {
+        if (_albums[albumId].creator == address(0)) {
+            revert AlbumNotFound(albumId);
+        }
+        return _albumTracks[albumId];
+    }
+
+    // Returns the album of a token and its zero-based track position, or an
+    // albumId of 0 when the token is not part of an album
+    function getTokenAlbum(
+        uint256 tokenId
+    ) public view returns (uint256 albumId, uint256 trackIndex) {
+        _requireExists(tokenId);
+        return (_tokenAlbum[tokenId], _albumTrackIndex[tokenId]);
+    }
+
+    function getTotalAlbums() public view returns (uint256) {
+        return _albumIds;
+    }
+
+    function _addTrack(uint256 albumId, uint256 tokenId) internal {
+        uint256 currentAlbum = _tokenAlbum[tokenId];
+        if (currentAlbum != 0) {
+            revert TrackAlreadyInAlbum(tokenId, currentAlbum);
+        }
+
+        _tokenAlbum[tokenId] = albumId;
+        _albumTrackIndex[tokenId] = _albumTracks[albumId].length;
+        _albumTracks[albumId].push(tokenId);
+
+        emit AlbumTrackAdded(albumId, tokenId);
+    }
+
+    function _removeTrack(uint256 albumId, uint256 tokenId) internal {
+        uint256[] storage tracks = _albumTracks[albumId];
+        uint256 lastIndex = tracks.length - 1;
+        for (uint256 i = _albumTrackIndex[tokenId]; i < lastIndex; i++) {
+            tracks[i] = tracks[i + 1];
+            _albumTrackIndex[tracks[i]] = i;
+        }
+        tracks.pop();
+
+        delete _tokenAlbum[tokenId];
+        delete _albumTrackIndex[tokenId];
+
+        emit AlbumTrackRemoved(albumId, tokenId);
+    }
+
+    function _requireAlbumCreator(uint256 albumId) internal view {
+        address creator = _albums[albumId].creator;
+        if (creator == address(0)) {
+            revert AlbumNotFound(albumId);
+        }
+
+        if (creator != msg.sender) {
+            revert NotAuthorized();
+        }
+    }
+
     function _update(
         address to,
         uint256 tokenId,
         address auth
     ) internal virtual override returns (address) {
         address from = super._update(to, tokenId, auth);
+        _transferCounts[tokenId]++;
 
         if (from != address(0)) {
             uint256 fromIndex = _ownedTokensIndex[tokenId];
@@ -225,10 +1051,88 @@ contract MusicNFT is ERC721URIStorage, ERC2981, Ownable {
         return from;
     }
 
+    // Sets the token URI and archives the one it replaces
+    function _setVersionedTokenURI(
+        uint256 tokenId,
+        string memory uri,
+        address setBy
+    ) internal {
+        if (_uriSetAt[tokenId] != 0) {
+            _uriHistory[tokenId].push(
+                URIVersion({
+                    uri: ERC721URIStorage.tokenURI(tokenId),
+                    setBy: _uriSetBy[tokenId],
+                    setAt: _uriSetAt[tokenId]
+                })
+            );
+        }
+
+        _setTokenURI(tokenId, uri);
+        _uriSetBy[tokenId] = setBy;
+        _uriSetAt[tokenId] = block.timestamp;
+    }
+
+    // Rejects quotes, backslashes and control characters, which would break
+    // the JSON document returned by tokenURI
+    function _requireJSONSafe(string memory value) internal pure {
+        bytes memory data = bytes(value);
+        for (uint256 i = 0; i < data.length; i++) {
+            if (data[i] < 0x20 || data[i] == '"' || data[i] == "\\") {
+                revert InvalidTrackMetadata();
+            }
+        }
+    }
+
+    function _validateRoyalty(uint256 percentage) internal pure {
+        if (percentage > MAX_ROYALTY_PERCENTAGE) {
+            revert MaxRoyaltyExceeded(percentage, MAX_ROYALTY_PERCENTAGE);
+        }
+    }
+
+    function _getPendingRoyaltyUpdate(
+        uint256 tokenId
+    ) internal view returns (RoyaltyUpdate memory update) {
+        update = _royaltyUpdates[tokenId];
+        if (update.executableAt == 0) {
+            revert NoRoyaltyUpdatePending(tokenId);
+        }
+    }
+
+    function _validateRoyaltySplit(
+        address[] calldata recipients,
+        uint256[] calldata shares
+    ) internal pure {
+        if (
+            recipients.length == 0 ||
+            recipients.length > MAX_SPLIT_RECIPIENTS ||
+            recipients.length != shares.length
+        ) {
+            revert InvalidRoyaltySplit();
+        }
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            if (recipients[i] == address(0) || shares[i] == 0) {
+                revert InvalidRoyaltySplit();
+            }
+            total += shares[i];
+        }
+
+        if (total != TOTAL_SPLIT_SHARES) {
+            revert InvalidSplitTotal(total, TOTAL_SPLIT_SHARES);
+        }
+    }
+
     function _exists(uint256 tokenId) internal view returns (bool) {
         return _ownerOf(tokenId) != address(0);
     }
 
+    function _requireExists(uint256 tokenId) internal view {
+        if (!_exists(tokenId)) {
+            revert NonexistentToken(tokenId);
+        }
+    }
+
     function supportsInterface(
         bytes4 interfaceId
     ) public view override(ERC721URIStorage, ERC2981) returns (bool) {
@@ -1,44 +1,226 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
 import "@openzeppelin/contracts/token/ERC721/utils/ERC721Holder.sol";
 import "@openzeppelin/contracts/interfaces/IERC2981.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "./MusicNFT.sol";
 
-contract NFTMarketplace is ERC721Holder, Ownable, ReentrancyGuard {
+contract NFTMarketplace is ERC721Holder, Ownable, Pausable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.UintSet;
+
     uint256 public marketFeePercentage = 250;
+    uint256 public constant MAX_MARKET_FEE_PERCENTAGE = 1000;
+
+    // Receives the market fee of every sale
+    address public feeTreasury;
 
+    // A currency of address(0) means the price is paid in native ETH
     struct Listing {
         address seller;
         address nftContract;
         uint256 tokenId;
         uint256 price;
+        address currency;
+        // Unix timestamp after which the listing can no longer be bought, or
+        // zero for a listing that never expires
+        uint256 expiresAt;
+        // Transfer count of the token when it was listed non-custodially, so
+        // that the listing stays invalid once the token left the seller. Only
+        // contracts that count transfers, like MusicNFT, are covered: on
+        // others the listing is valid again when the token comes back
+        uint256 transferCount;
+        // False for non-custodial listings, where the seller keeps the NFT and
+        // only approves the marketplace to transfer it
+        bool isEscrowed;
         bool isActive;
     }
 
     mapping(uint256 => Listing) public listings;
     uint256 private _listingIds;
 
-    mapping(address => uint256) private _pendingPayments;
+    // Indexes kept in sync with listings so that views don't scan every
+    // listing ever created
+    EnumerableSet.UintSet private _activeListingIds;
+
+    // Map NFT contract address -> tokenId -> active listing ID
+    mapping(address => mapping(uint256 => uint256))
+        private _activeListingByToken;
+
+    // Map seller -> IDs of every listing they created, in creation order
+    mapping(address => uint256[]) private _sellerListingIds;
+
+    // Map NFT contract address -> tokenId -> seller of a token held in escrow
+    // by a listing or auction
+    mapping(address => mapping(uint256 => address)) private _escrowSellers;
+
+    // One token of a bundle. The bundle price is divided among its items in
+    // proportion to their weights
+    struct BundleItem {
+        address nftContract;
+        uint256 tokenId;
+        uint256 weight;
+    }
+
+    struct Bundle {
+        address seller;
+        uint256 price;
+        address currency;
+        uint256 totalWeight;
+        bool isActive;
+    }
+
+    uint256 public constant MAX_BUNDLE_SIZE = 50;
+
+    mapping(uint256 => Bundle) public bundles;
+    mapping(uint256 => BundleItem[]) private _bundleItems;
+    uint256 private _bundleIds;
+    EnumerableSet.UintSet private _activeBundleIds;
+
+    // Copies of an ERC-1155 edition sold at a price per copy, possibly to
+    // several buyers. The seller keeps the copies until they are bought and
+    // only approves the marketplace to transfer them
+    struct EditionListing {
+        address seller;
+        address nftContract;
+        uint256 editionId;
+        uint256 quantity;
+        uint256 pricePerCopy;
+        address currency;
+        bool isActive;
+    }
+
+    mapping(uint256 => EditionListing) public editionListings;
+    uint256 private _editionListingIds;
+
+    enum AuctionType {
+        English,
+        Dutch
+    }
+
+    // English auctions use startPrice as the reserve price; Dutch auctions
+    // decline linearly from startPrice to endPrice between startTime and endTime
+    struct Auction {
+        address seller;
+        address nftContract;
+        uint256 tokenId;
+        AuctionType auctionType;
+        uint256 startPrice;
+        uint256 endPrice;
+        uint256 minBidIncrement;
+        uint256 startTime;
+        uint256 endTime;
+        address highestBidder;
+        uint256 highestBid;
+        bool isActive;
+    }
+
+    mapping(uint256 => Auction) public auctions;
+    uint256 private _auctionIds;
+
+    // Bids placed this close to the end push the end time back by the same amount
+    uint256 public constant AUCTION_EXTENSION_WINDOW = 10 minutes;
 
-    constructor() Ownable(msg.sender) {}
+    // Collection offers accept any token of nftContract and ignore tokenId
+    struct Offer {
+        address buyer;
+        address nftContract;
+        uint256 tokenId;
+        uint256 amount;
+        uint256 expiresAt;
+        bool isCollectionOffer;
+        bool isActive;
+    }
+
+    mapping(uint256 => Offer) public offers;
+    uint256 private _offerIds;
+
+    // Map recipient -> currency -> pending amount
+    mapping(address => mapping(address => uint256)) private _pendingPayments;
+
+    // ERC-20 tokens accepted as listing currencies; native ETH is always accepted
+    mapping(address => bool) public allowedCurrencies;
+
+    constructor() Ownable(msg.sender) {
+        feeTreasury = msg.sender;
+        emit FeeTreasuryUpdated(address(0), msg.sender);
+    }
 
     error InsufficientFunds();
+    error PriceAboveMaximum(uint256 price, uint256 maxPrice);
     error ListingNotActive();
+    error ListingExpired();
+    error ListingNotExpired();
+    error ListingInvalid();
+    error TokenAlreadyListed(uint256 listingId);
+    error MarketplaceNotApproved();
+    error BundleNotFound();
+    error BundleNotActive();
+    error NotBundleSeller();
+    error InvalidBundleSize(uint256 size);
+    error InvalidBundleWeight();
+    error EditionListingNotFound();
+    error EditionListingNotActive();
+    error InvalidQuantity(uint256 quantity, uint256 available);
     error TransferFailed();
     error NoPaymentsPending();
     error ListingNotFound();
     error NotListingOwner();
+    error CurrencyNotAllowed(address currency);
+    error NativePaymentNotAccepted();
+    error AuctionNotFound();
+    error AuctionNotActive();
+    error AuctionEnded();
+    error AuctionNotEnded();
+    error AuctionHasBids();
+    error NotAuctionSeller();
+    error InvalidAuctionType();
+    error InvalidAuctionDuration();
+    error InvalidAuctionPrice();
+    error BidTooLow(uint256 minimumBid);
+    error OfferNotFound();
+    error OfferNotActive();
+    error OfferExpired();
+    error OfferNotExpired();
+    error NotOfferBuyer();
+    error NotTokenOwner();
+    error OfferTokenMismatch();
+    error InvalidOfferAmount();
+    error InvalidExpiration();
+    error MarketFeeTooHigh(uint256 percentage, uint256 maxAllowed);
+    error InvalidFeeTreasury();
 
     event NFTListed(
         uint256 indexed listingId,
         address indexed seller,
         address indexed nftContract,
         uint256 tokenId,
-        uint256 price
+        uint256 price,
+        address currency,
+        uint256 expiresAt,
+        bool escrowed
+    );
+
+    event ListingInvalidated(uint256 indexed listingId);
+
+    event ListingPriceUpdated(
+        uint256 indexed listingId,
+        uint256 oldPrice,
+        uint256 newPrice
+    );
+
+    event ListingExpiredReclaimed(
+        uint256 indexed listingId,
+        address indexed seller,
+        address indexed caller
     );
 
     event NFTSold(
@@ -57,158 +239,1534 @@ contract NFTMarketplace is ERC721Holder, Ownable, ReentrancyGuard {
         uint256 tokenId
     );
 
-    event PaymentWithdrawn(address indexed recipient, uint256 amount);
+    event PaymentWithdrawn(
+        address indexed recipient,
+        address indexed currency,
+        uint256 amount
+    );
+
+    event CurrencyAllowed(address indexed currency, bool allowed);
+
+    event MarketFeeUpdated(uint256 previousPercentage, uint256 newPercentage);
+
+    event FeeTreasuryUpdated(
+        address indexed previousTreasury,
+        address indexed newTreasury
+    );
+
+    event EnglishAuctionCreated(
+        uint256 indexed auctionId,
+        address indexed seller,
+        address indexed nftContract,
+        uint256 tokenId,
+        uint256 reservePrice,
+        uint256 minBidIncrement,
+        uint256 endTime
+    );
+
+    event DutchAuctionCreated(
+        uint256 indexed auctionId,
+        address indexed seller,
+        address indexed nftContract,
+        uint256 tokenId,
+        uint256 startPrice,
+        uint256 endPrice,
+        uint256 startTime,
+        uint256 endTime
+    );
+
+    event BidPlaced(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 amount
+    );
+
+    event AuctionExtended(uint256 indexed auctionId, uint256 newEndTime);
+
+    event AuctionSettled(
+        uint256 indexed auctionId,
+        address indexed seller,
+        address indexed winner,
+        address nftContract,
+        uint256 tokenId,
+        uint256 price
+    );
+
+    event BundleListed(
+        uint256 indexed bundleId,
+        address indexed seller,
+        uint256 price,
+        address currency,
+        uint256 itemCount
+    );
+
+    event BundleSold(
+        uint256 indexed bundleId,
+        address indexed seller,
+        address indexed buyer,
+        uint256 price
+    );
+
+    // Emitted for each item of a new bundle, before BundleListed
+    event BundleItemListed(
+        uint256 indexed bundleId,
+        address indexed nftContract,
+        uint256 tokenId
+    );
+
+    // Emitted for every item of a sold bundle with its share of the price
+    event BundleItemSold(
+        uint256 indexed bundleId,
+        address indexed nftContract,
+        uint256 tokenId,
+        uint256 price
+    );
+
+    event BundleListingCancelled(
+        uint256 indexed bundleId,
+        address indexed seller
+    );
+
+    event EditionListed(
+        uint256 indexed listingId,
+        address indexed seller,
+        address indexed nftContract,
+        uint256 editionId,
+        uint256 quantity,
+        uint256 pricePerCopy,
+        address currency
+    );
+
+    event EditionSold(
+        uint256 indexed listingId,
+        address indexed seller,
+        address indexed buyer,
+        uint256 quantity,
+        uint256 price
+    );
+
+    event EditionListingCancelled(
+        uint256 indexed listingId,
+        address indexed seller
+    );
+
+    event AuctionCancelled(
+        uint256 indexed auctionId,
+        address indexed seller,
+        address indexed nftContract,
+        uint256 tokenId
+    );
+
+    event OfferCreated(
+        uint256 indexed offerId,
+        address indexed buyer,
+        address indexed nftContract,
+        uint256 tokenId,
+        uint256 amount,
+        uint256 expiresAt,
+        bool isCollectionOffer
+    );
+
+    event OfferAccepted(
+        uint256 indexed offerId,
+        address indexed seller,
+        address indexed buyer,
+        address nftContract,
+        uint256 tokenId,
+        uint256 amount
+    );
+
+    event OfferCancelled(uint256 indexed offerId, address indexed buyer);
+
+    event OfferExpiredRefunded(uint256 indexed offerId, address indexed buyer);
+
+    function createListing(
+        address nftContract,
+        uint256 tokenId,
+        uint256 price,
+        address currency,
+        uint256 expiresAt
+    ) external whenNotPaused returns (uint256) {
+        return
+            _createListing(
+                nftContract,
+                tokenId,
+                price,
+                currency,
+                expiresAt,
+                true
+            );
+    }
+
+    // The seller keeps the NFT until it is sold, so ownership based payouts
+    // such as streaming royalties keep reaching them. The listing stops being
+    // valid as soon as the seller transfers the token or revokes the approval
+    function createNonCustodialListing(
+        address nftContract,
+        uint256 tokenId,
+        uint256 price,
+        address currency,
+        uint256 expiresAt
+    ) external whenNotPaused returns (uint256) {
+        return
+            _createListing(
+                nftContract,
+                tokenId,
+                price,
+                currency,
+                expiresAt,
+                false
+            );
+    }
+
+    function _createListing(
+        address nftContract,
+        uint256 tokenId,
+        uint256 price,
+        address currency,
+        uint256 expiresAt,
+        bool escrowed
+    ) internal returns (uint256) {
+        if (currency != address(0) && !allowedCurrencies[currency]) {
+            revert CurrencyNotAllowed(currency);
+        }
+
+        if (expiresAt != 0 && expiresAt <= block.timestamp) {
+            revert InvalidExpiration();
+        }
+
+        _removeStaleListing(nftContract, tokenId);
+
+        if (escrowed) {
+            _depositToEscrow(nftContract, tokenId);
+        } else {
+            if (IERC721(nftContract).ownerOf(tokenId) != msg.sender) {
+                revert NotTokenOwner();
+            }
+
+            if (!_isMarketplaceApproved(nftContract, tokenId, msg.sender)) {
+                revert MarketplaceNotApproved();
+            }
+        }
+
+        _listingIds++;
+        uint256 listingId = _listingIds;
+
+        listings[listingId] = Listing({
+            seller: msg.sender,
+            nftContract: nftContract,
+            tokenId: tokenId,
+            price: price,
+            currency: currency,
+            expiresAt: expiresAt,
+            transferCount: escrowed ? 0 : _transferCount(nftContract, tokenId),
+            isEscrowed: escrowed,
+            isActive: true
+        });
+
+        _activeListingIds.add(listingId);
+        _activeListingByToken[nftContract][tokenId] = listingId;
+        _sellerListingIds[msg.sender].push(listingId);
+
+        emit NFTListed(
+            listingId,
+            msg.sender,
+            nftContract,
+            tokenId,
+            price,
+            currency,
+            expiresAt,
+            escrowed
+        );
+        return listingId;
+    }
+
+    // Reverts when the price is above `maxPrice`, so that a seller raising
+    // the price before the purchase is mined cannot charge more
+    function buyNFT(
+        uint256 listingId,
+        uint256 maxPrice
+    ) external payable whenNotPaused nonReentrant {
+        Listing storage listing = listings[listingId];
+
+        if (listing.seller == address(0)) {
+            revert ListingNotFound();
+        }
+
+        address seller = listing.seller;
+        address nftContract = listing.nftContract;
+        uint256 tokenId = listing.tokenId;
+        uint256 price = listing.price;
+        address currency = listing.currency;
+
+        if (price > maxPrice) {
+            revert PriceAboveMaximum(price, maxPrice);
+        }
+
+        if (currency == address(0)) {
+            if (msg.value < price) {
+                revert InsufficientFunds();
+            }
+        } else if (msg.value > 0) {
+            revert NativePaymentNotAccepted();
+        }
+
+        if (!listing.isActive) {
+            revert ListingNotActive();
+        }
+
+        if (_isExpired(listing)) {
+            revert ListingExpired();
+        }
+
+        bool escrowed = listing.isEscrowed;
+        if (!escrowed && !_holdsListedToken(listing)) {
+            revert ListingInvalid();
+        }
+
+        _deactivateListing(listingId);
+
+        if (currency != address(0)) {
+            IERC20(currency).safeTransferFrom(msg.sender, address(this), price);
+        }
+
+        _distributeSale(seller, nftContract, tokenId, price, currency);
+
+        if (escrowed) {
+            _releaseFromEscrow(nftContract, tokenId, msg.sender);
+        } else {
+            IERC721(nftContract).safeTransferFrom(seller, msg.sender, tokenId);
+        }
+
+        emit NFTSold(
+            listingId,
+            seller,
+            msg.sender,
+            nftContract,
+            tokenId,
+            price
+        );
+
+        if (currency == address(0)) {
+            uint256 excessAmount = msg.value - price;
+            if (excessAmount > 0) {
+                (bool success, ) = msg.sender.call{value: excessAmount}("");
+                if (!success) {
+                    revert TransferFailed();
+                }
+            }
+        }
+    }
+
+    function cancelListing(uint256 listingId) external nonReentrant {
+        Listing storage listing = listings[listingId];
+
+        if (listing.seller == address(0)) {
+            revert ListingNotFound();
+        }
+
+        if (listing.seller != msg.sender) {
+            revert NotListingOwner();
+        }
+
+        if (!listing.isActive) {
+            revert ListingNotActive();
+        }
+
+        _deactivateListing(listingId);
+        _returnEscrowedToken(listing);
+
+        emit NFTListingCancelled(
+            listingId,
+            listing.seller,
+            listing.nftContract,
+            listing.tokenId
+        );
+    }
+
+    function updateListingPrice(
+        uint256 listingId,
+        uint256 newPrice
+    ) external whenNotPaused {
+        Listing storage listing = listings[listingId];
+
+        if (listing.seller == address(0)) {
+            revert ListingNotFound();
+        }
+
+        if (listing.seller != msg.sender) {
+            revert NotListingOwner();
+        }
+
+        if (!listing.isActive) {
+            revert ListingNotActive();
+        }
+
+        if (_isExpired(listing)) {
+            revert ListingExpired();
+        }
+
+        uint256 oldPrice = listing.price;
+        listing.price = newPrice;
+
+        emit ListingPriceUpdated(listingId, oldPrice, newPrice);
+    }
+
+    // Anyone can return the escrowed NFT of an expired listing to its seller.
+    // Expired non-custodial listings are only deactivated
+    function reclaimExpiredListing(uint256 listingId) external nonReentrant {
+        Listing storage listing = listings[listingId];
+
+        if (listing.seller == address(0)) {
+            revert ListingNotFound();
+        }
+
+        if (!listing.isActive) {
+            revert ListingNotActive();
+        }
+
+        if (!_isExpired(listing)) {
+            revert ListingNotExpired();
+        }
+
+        _deactivateListing(listingId);
+        _returnEscrowedToken(listing);
+
+        emit ListingExpiredReclaimed(listingId, listing.seller, msg.sender);
+    }
+
+    // Escrows every item under a single price. Items can come from different
+    // NFT contracts; each receives a share of the price proportional to its
+    // weight, which its ERC-2981 royalty and the market fee are computed on
+    function createBundleListing(
+        BundleItem[] calldata items,
+        uint256 price,
+        address currency
+    ) external whenNotPaused returns (uint256) {
+        if (items.length < 2 || items.length > MAX_BUNDLE_SIZE) {
+            revert InvalidBundleSize(items.length);
+        }
+
+        if (currency != address(0) && !allowedCurrencies[currency]) {
+            revert CurrencyNotAllowed(currency);
+        }
+
+        _bundleIds++;
+        uint256 bundleId = _bundleIds;
+        BundleItem[] storage bundleItems = _bundleItems[bundleId];
+
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < items.length; i++) {
+            BundleItem calldata item = items[i];
+            if (item.weight == 0) {
+                revert InvalidBundleWeight();
+            }
+
+            _removeStaleListing(item.nftContract, item.tokenId);
+            _depositToEscrow(item.nftContract, item.tokenId);
+
+            bundleItems.push(item);
+            totalWeight += item.weight;
+
+            emit BundleItemListed(bundleId, item.nftContract, item.tokenId);
+        }
+
+        bundles[bundleId] = Bundle({
+            seller: msg.sender,
+            price: price,
+            currency: currency,
+            totalWeight: totalWeight,
+            isActive: true
+        });
+        _activeBundleIds.add(bundleId);
+
+        emit BundleListed(bundleId, msg.sender, price, currency, items.length);
+        return bundleId;
+    }
+
+    function buyBundle(
+        uint256 bundleId,
+        uint256 maxPrice
+    ) external payable whenNotPaused nonReentrant {
+        Bundle storage bundle = _getActiveBundle(bundleId);
+        uint256 price = bundle.price;
+        address currency = bundle.currency;
+
+        if (price > maxPrice) {
+            revert PriceAboveMaximum(price, maxPrice);
+        }
+
+        if (currency == address(0)) {
+            if (msg.value < price) {
+                revert InsufficientFunds();
+            }
+        } else if (msg.value > 0) {
+            revert NativePaymentNotAccepted();
+        }
+
+        bundle.isActive = false;
+        _activeBundleIds.remove(bundleId);
+
+        if (currency != address(0)) {
+            IERC20(currency).safeTransferFrom(msg.sender, address(this), price);
+        }
+
+        BundleItem[] storage items = _bundleItems[bundleId];
+        uint256 remainingPrice = price;
+        for (uint256 i = 0; i < items.length; i++) {
+            BundleItem storage item = items[i];
+
+            // The last item receives the rounding remainder
+            uint256 itemPrice = i == items.length - 1
+                ? remainingPrice
+                : (price * item.weight) / bundle.totalWeight;
+            remainingPrice -= itemPrice;
+
+            _distributeSale(
+                bundle.seller,
+                item.nftContract,
+                item.tokenId,
+                itemPrice,
+                currency
+            );
+            _releaseFromEscrow(item.nftContract, item.tokenId, msg.sender);
+
+            emit BundleItemSold(
+                bundleId,
+                item.nftContract,
+                item.tokenId,
+                itemPrice
+            );
+        }
+
+        emit BundleSold(bundleId, bundle.seller, msg.sender, price);
+
+        if (currency == address(0)) {
+            uint256 excessAmount = msg.value - price;
+            if (excessAmount > 0) {
+                (bool success, ) = msg.sender.call{value: excessAmount}("");
+                if (!success) {
+                    revert TransferFailed();
+                }
+            }
+        }
+    }
+
+    function cancelBundleListing(uint256 bundleId) external nonReentrant {
+        Bundle storage bundle = _getActiveBundle(bundleId);
+
+        if (bundle.seller != msg.sender) {
+            revert NotBundleSeller();
+        }
+
+        bundle.isActive = false;
+        _activeBundleIds.remove(bundleId);
+
+        BundleItem[] storage items = _bundleItems[bundleId];
+        for (uint256 i = 0; i < items.length; i++) {
+            _releaseFromEscrow(
+                items[i].nftContract,
+                items[i].tokenId,
+                bundle.seller
+            );
+        }
+
+        emit BundleListingCancelled(bundleId, bundle.seller);
+    }
+
+    function getBundleItems(
+        uint256 bundleId
+    ) external view returns (BundleItem[] memory) {
+        return _bundleItems[bundleId];
+    }
+
+    function getTotalBundles() public view returns (uint256) {
+        return _bundleIds;
+    }
+
+    function getActiveBundlesCount() public view returns (uint256) {
+        return _activeBundleIds.length();
+    }
+
+    // Same ordering caveat as getActiveListings
+    function getActiveBundles(
+        uint256 start,
+        uint256 limit
+    )
+        public
+        view
+        returns (
+            uint256[] memory bundleIds,
+            address[] memory sellers,
+            uint256[] memory prices,
+            address[] memory currencies,
+            uint256[] memory itemCounts
+        )
+    {
+        uint256 resultSize = _pageSize(
+            _activeBundleIds.length(),
+            start,
+            limit
+        );
+
+        bundleIds = new uint256[](resultSize);
+        sellers = new address[](resultSize);
+        prices = new uint256[](resultSize);
+        currencies = new address[](resultSize);
+        itemCounts = new uint256[](resultSize);
+
+        for (uint256 i = 0; i < resultSize; i++) {
+            uint256 bundleId = _activeBundleIds.at(start + i);
+            Bundle storage bundle = bundles[bundleId];
+
+            bundleIds[i] = bundleId;
+            sellers[i] = bundle.seller;
+            prices[i] = bundle.price;
+            currencies[i] = bundle.currency;
+            itemCounts[i] = _bundleItems[bundleId].length;
+        }
+
+        return (bundleIds, sellers, prices, currencies, itemCounts);
+    }
+
+    function _getActiveBundle(
+        uint256 bundleId
+    ) internal view returns (Bundle storage bundle) {
+        bundle = bundles[bundleId];
+
+        if (bundle.seller == address(0)) {
+            revert BundleNotFound();
+        }
+
+        if (!bundle.isActive) {
+            revert BundleNotActive();
+        }
+    }
+
+    function createEditionListing(
+        address nftContract,
+        uint256 editionId,
+        uint256 quantity,
+        uint256 pricePerCopy,
+        address currency
+    ) external whenNotPaused returns (uint256) {
+        if (currency != address(0) && !allowedCurrencies[currency]) {
+            revert CurrencyNotAllowed(currency);
+        }
+
+        uint256 balance = IERC1155(nftContract).balanceOf(
+            msg.sender,
+            editionId
+        );
+        if (quantity == 0 || quantity > balance) {
+            revert InvalidQuantity(quantity, balance);
+        }
+
+        if (
+            !IERC1155(nftContract).isApprovedForAll(msg.sender, address(this))
+        ) {
+            revert MarketplaceNotApproved();
+        }
+
+        _editionListingIds++;
+        uint256 listingId = _editionListingIds;
+
+        editionListings[listingId] = EditionListing({
+            seller: msg.sender,
+            nftContract: nftContract,
+            editionId: editionId,
+            quantity: quantity,
+            pricePerCopy: pricePerCopy,
+            currency: currency,
+            isActive: true
+        });
+
+        emit EditionListed(
+            listingId,
+            msg.sender,
+            nftContract,
+            editionId,
+            quantity,
+            pricePerCopy,
+            currency
+        );
+        return listingId;
+    }
+
+    // Buys part or all of the remaining copies. The sale royalty and market
+    // fee are computed on the total price of the copies bought
+    function buyEditionCopies(
+        uint256 listingId,
+        uint256 quantity
+    ) external payable whenNotPaused nonReentrant {
+        EditionListing storage listing = _getActiveEditionListing(listingId);
+        address seller = listing.seller;
+        address nftContract = listing.nftContract;
+        uint256 editionId = listing.editionId;
+        address currency = listing.currency;
+
+        if (quantity == 0 || quantity > listing.quantity) {
+            revert InvalidQuantity(quantity, listing.quantity);
+        }
+
+        uint256 price = listing.pricePerCopy * quantity;
+        if (currency == address(0)) {
+            if (msg.value < price) {
+                revert InsufficientFunds();
+            }
+        } else if (msg.value > 0) {
+            revert NativePaymentNotAccepted();
+        }
+
+        // The seller may have sold or moved the copies elsewhere
+        if (
+            IERC1155(nftContract).balanceOf(seller, editionId) < quantity ||
+            !IERC1155(nftContract).isApprovedForAll(seller, address(this))
+        ) {
+            revert ListingInvalid();
+        }
+
+        listing.quantity -= quantity;
+        if (listing.quantity == 0) {
+            listing.isActive = false;
+        }
+
+        if (currency != address(0)) {
+            IERC20(currency).safeTransferFrom(msg.sender, address(this), price);
+        }
+
+        _distributeSale(seller, nftContract, editionId, price, currency);
+
+        IERC1155(nftContract).safeTransferFrom(
+            seller,
+            msg.sender,
+            editionId,
+            quantity,
+            ""
+        );
+
+        emit EditionSold(listingId, seller, msg.sender, quantity, price);
+
+        if (currency == address(0)) {
+            uint256 excessAmount = msg.value - price;
+            if (excessAmount > 0) {
+                (bool success, ) = msg.sender.call{value: excessAmount}("");
+                if (!success) {
+                    revert TransferFailed();
+                }
+            }
+        }
+    }
+
+    function cancelEditionListing(uint256 listingId) external {
+        EditionListing storage listing = _getActiveEditionListing(listingId);
+
+        if (listing.seller != msg.sender) {
+            revert NotListingOwner();
+        }
+
+        listing.isActive = false;
+        emit EditionListingCancelled(listingId, msg.sender);
+    }
+
+    function getTotalEditionListings() public view returns (uint256) {
+        return _editionListingIds;
+    }
+
+    function _getActiveEditionListing(
+        uint256 listingId
+    ) internal view returns (EditionListing storage listing) {
+        listing = editionListings[listingId];
+
+        if (listing.seller == address(0)) {
+            revert EditionListingNotFound();
+        }
+
+        if (!listing.isActive) {
+            revert EditionListingNotActive();
+        }
+    }
+
+    function createEnglishAuction(
+        address nftContract,
+        uint256 tokenId,
+        uint256 reservePrice,
+        uint256 minBidIncrement,
+        uint256 duration
+    ) external whenNotPaused returns (uint256) {
+        if (duration == 0) {
+            revert InvalidAuctionDuration();
+        }
+
+        if (minBidIncrement == 0) {
+            revert InvalidAuctionPrice();
+        }
+
+        uint256 auctionId = _createAuction(
+            nftContract,
+            tokenId,
+            AuctionType.English,
+            reservePrice,
+            0,
+            minBidIncrement,
+            duration
+        );
+
+        emit EnglishAuctionCreated(
+            auctionId,
+            msg.sender,
+            nftContract,
+            tokenId,
+            reservePrice,
+            minBidIncrement,
+            block.timestamp + duration
+        );
+        return auctionId;
+    }
+
+    function createDutchAuction(
+        address nftContract,
+        uint256 tokenId,
+        uint256 startPrice,
+        uint256 endPrice,
+        uint256 duration
+    ) external whenNotPaused returns (uint256) {
+        if (duration == 0) {
+            revert InvalidAuctionDuration();
+        }
+
+        if (startPrice <= endPrice) {
+            revert InvalidAuctionPrice();
+        }
+
+        uint256 auctionId = _createAuction(
+            nftContract,
+            tokenId,
+            AuctionType.Dutch,
+            startPrice,
+            endPrice,
+            0,
+            duration
+        );
+
+        emit DutchAuctionCreated(
+            auctionId,
+            msg.sender,
+            nftContract,
+            tokenId,
+            startPrice,
+            endPrice,
+            block.timestamp,
+            block.timestamp + duration
+        );
+        return auctionId;
+    }
+
+    function placeBid(
+        uint256 auctionId
+    ) external payable whenNotPaused nonReentrant {
+        Auction storage auction = _getActiveAuction(auctionId);
+
+        if (auction.auctionType != AuctionType.English) {
+            revert InvalidAuctionType();
+        }
+
+        if (block.timestamp >= auction.endTime) {
+            revert AuctionEnded();
+        }
+
+        uint256 minimumBid = getMinimumBid(auctionId);
+        if (msg.value < minimumBid) {
+            revert BidTooLow(minimumBid);
+        }
+
+        // Outbid bidders are refunded through the pull-payment ledger
+        if (auction.highestBidder != address(0)) {
+            _recordPayment(
+                auction.highestBidder,
+                address(0),
+                auction.highestBid
+            );
+        }
+
+        auction.highestBidder = msg.sender;
+        auction.highestBid = msg.value;
+
+        emit BidPlaced(auctionId, msg.sender, msg.value);
+
+        if (auction.endTime - block.timestamp < AUCTION_EXTENSION_WINDOW) {
+            auction.endTime = block.timestamp + AUCTION_EXTENSION_WINDOW;
+            emit AuctionExtended(auctionId, auction.endTime);
+        }
+    }
+
+    // Anyone can settle an English auction once it has ended
+    function settleAuction(uint256 auctionId) external nonReentrant {
+        Auction storage auction = _getActiveAuction(auctionId);
+
+        if (auction.auctionType != AuctionType.English) {
+            revert InvalidAuctionType();
+        }
+
+        if (block.timestamp < auction.endTime) {
+            revert AuctionNotEnded();
+        }
+
+        auction.isActive = false;
+
+        if (auction.highestBidder == address(0)) {
+            _releaseFromEscrow(
+                auction.nftContract,
+                auction.tokenId,
+                auction.seller
+            );
+
+            emit AuctionCancelled(
+                auctionId,
+                auction.seller,
+                auction.nftContract,
+                auction.tokenId
+            );
+            return;
+        }
+
+        _distributeSale(
+            auction.seller,
+            auction.nftContract,
+            auction.tokenId,
+            auction.highestBid,
+            address(0)
+        );
+
+        _releaseFromEscrow(
+            auction.nftContract,
+            auction.tokenId,
+            auction.highestBidder
+        );
+
+        emit AuctionSettled(
+            auctionId,
+            auction.seller,
+            auction.highestBidder,
+            auction.nftContract,
+            auction.tokenId,
+            auction.highestBid
+        );
+    }
+
+    function buyDutchAuction(
+        uint256 auctionId
+    ) external payable whenNotPaused nonReentrant {
+        Auction storage auction = _getActiveAuction(auctionId);
+
+        if (auction.auctionType != AuctionType.Dutch) {
+            revert InvalidAuctionType();
+        }
+
+        if (block.timestamp >= auction.endTime) {
+            revert AuctionEnded();
+        }
+
+        uint256 price = getDutchAuctionPrice(auctionId);
+        if (msg.value < price) {
+            revert InsufficientFunds();
+        }
+
+        auction.isActive = false;
+        auction.highestBidder = msg.sender;
+        auction.highestBid = price;
+
+        _distributeSale(
+            auction.seller,
+            auction.nftContract,
+            auction.tokenId,
+            price,
+            address(0)
+        );
+
+        _releaseFromEscrow(
+            auction.nftContract,
+            auction.tokenId,
+            msg.sender
+        );
+
+        emit AuctionSettled(
+            auctionId,
+            auction.seller,
+            msg.sender,
+            auction.nftContract,
+            auction.tokenId,
+            price
+        );
+
+        uint256 excessAmount = msg.value - price;
+        if (excessAmount > 0) {
+            (bool success, ) = msg.sender.call{value: excessAmount}("");
+            if (!success) {
+                revert TransferFailed();
+            }
+        }
+    }
+
+    // Sellers can cancel Dutch auctions and English auctions without bids
+    function cancelAuction(uint256 auctionId) external nonReentrant {
+        Auction storage auction = _getActiveAuction(auctionId);
+
+        if (auction.seller != msg.sender) {
+            revert NotAuctionSeller();
+        }
+
+        if (auction.highestBidder != address(0)) {
+            revert AuctionHasBids();
+        }
+
+        auction.isActive = false;
+
+        _releaseFromEscrow(
+            auction.nftContract,
+            auction.tokenId,
+            auction.seller
+        );
+
+        emit AuctionCancelled(
+            auctionId,
+            auction.seller,
+            auction.nftContract,
+            auction.tokenId
+        );
+    }
+
+    function getMinimumBid(uint256 auctionId) public view returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+
+        if (auction.seller == address(0)) {
+            revert AuctionNotFound();
+        }
+
+        if (auction.highestBidder == address(0)) {
+            return auction.startPrice;
+        }
+        return auction.highestBid + auction.minBidIncrement;
+    }
+
+    function getDutchAuctionPrice(
+        uint256 auctionId
+    ) public view returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+
+        if (auction.seller == address(0)) {
+            revert AuctionNotFound();
+        }
+
+        if (auction.auctionType != AuctionType.Dutch) {
+            revert InvalidAuctionType();
+        }
+
+        if (block.timestamp >= auction.endTime) {
+            return auction.endPrice;
+        }
+
+        uint256 elapsed = block.timestamp - auction.startTime;
+        uint256 duration = auction.endTime - auction.startTime;
+        uint256 priceDrop = ((auction.startPrice - auction.endPrice) *
+            elapsed) / duration;
+
+        return auction.startPrice - priceDrop;
+    }
+
+    function getTotalAuctions() public view returns (uint256) {
+        return _auctionIds;
+    }
 
-    function createListing(
+    function _createAuction(
         address nftContract,
         uint256 tokenId,
-        uint256 price
-    ) external returns (uint256) {
-        IERC721(nftContract).safeTransferFrom(
-            msg.sender,
-            address(this),
-            tokenId
-        );
+        AuctionType auctionType,
+        uint256 startPrice,
+        uint256 endPrice,
+        uint256 minBidIncrement,
+        uint256 duration
+    ) internal returns (uint256) {
+        _depositToEscrow(nftContract, tokenId);
 
-        _listingIds++;
-        uint256 listingId = _listingIds;
+        _auctionIds++;
+        uint256 auctionId = _auctionIds;
 
-        listings[listingId] = Listing({
+        auctions[auctionId] = Auction({
             seller: msg.sender,
             nftContract: nftContract,
             tokenId: tokenId,
-            price: price,
+            auctionType: auctionType,
+            startPrice: startPrice,
+            endPrice: endPrice,
+            minBidIncrement: minBidIncrement,
+            startTime: block.timestamp,
+            endTime: block.timestamp + duration,
+            highestBidder: address(0),
+            highestBid: 0,
             isActive: true
         });
 
-        emit NFTListed(listingId, msg.sender, nftContract, tokenId, price);
-        return listingId;
+        return auctionId;
     }
 
-    function buyNFT(uint256 listingId) external payable nonReentrant {
-        Listing storage listing = listings[listingId];
+    function _getActiveAuction(
+        uint256 auctionId
+    ) internal view returns (Auction storage auction) {
+        auction = auctions[auctionId];
 
-        if (listing.seller == address(0)) {
-            revert ListingNotFound();
+        if (auction.seller == address(0)) {
+            revert AuctionNotFound();
         }
 
-        address seller = listing.seller;
-        address nftContract = listing.nftContract;
-        uint256 tokenId = listing.tokenId;
-        uint256 price = listing.price;
-
-        if (msg.value < price) {
-            revert InsufficientFunds();
+        if (!auction.isActive) {
+            revert AuctionNotActive();
         }
+    }
 
-        if (!listing.isActive) {
-            revert ListingNotActive();
-        }
+    function makeOffer(
+        address nftContract,
+        uint256 tokenId,
+        uint256 expiresAt
+    ) external payable whenNotPaused returns (uint256) {
+        return _createOffer(nftContract, tokenId, expiresAt, false);
+    }
 
-        listing.isActive = false;
+    function makeCollectionOffer(
+        address nftContract,
+        uint256 expiresAt
+    ) external payable whenNotPaused returns (uint256) {
+        return _createOffer(nftContract, 0, expiresAt, true);
+    }
 
-        uint256 remainingAmount = price;
+    // The token owner must have approved the marketplace for the token
+    function acceptOffer(
+        uint256 offerId,
+        uint256 tokenId
+    ) external whenNotPaused nonReentrant {
+        Offer storage offer = _getActiveOffer(offerId);
 
-        if (_isERC2981(nftContract)) {
-            (address royaltyReceiver, uint256 royaltyAmount) = IERC2981(
-                nftContract
-            ).royaltyInfo(tokenId, price);
+        if (block.timestamp >= offer.expiresAt) {
+            revert OfferExpired();
+        }
 
-            if (royaltyAmount > 0) {
-                _recordPayment(royaltyReceiver, royaltyAmount);
-                remainingAmount -= royaltyAmount;
-            }
+        if (!offer.isCollectionOffer && offer.tokenId != tokenId) {
+            revert OfferTokenMismatch();
         }
 
-        uint256 marketFee = (price * marketFeePercentage) / 10000;
-        if (marketFee > 0) {
-            _recordPayment(owner(), marketFee);
-            remainingAmount -= marketFee;
+        if (IERC721(offer.nftContract).ownerOf(tokenId) != msg.sender) {
+            revert NotTokenOwner();
         }
 
-        _recordPayment(seller, remainingAmount);
+        offer.isActive = false;
 
-        IERC721(nftContract).safeTransferFrom(
-            address(this),
+        _distributeSale(
+            msg.sender,
+            offer.nftContract,
+            tokenId,
+            offer.amount,
+            address(0)
+        );
+
+        IERC721(offer.nftContract).safeTransferFrom(
             msg.sender,
+            offer.buyer,
             tokenId
         );
 
-        emit NFTSold(
-            listingId,
-            seller,
+        emit OfferAccepted(
+            offerId,
+            msg.sender,
+            offer.buyer,
+            offer.nftContract,
+            tokenId,
+            offer.amount
+        );
+    }
+
+    function cancelOffer(uint256 offerId) external nonReentrant {
+        Offer storage offer = _getActiveOffer(offerId);
+
+        if (offer.buyer != msg.sender) {
+            revert NotOfferBuyer();
+        }
+
+        offer.isActive = false;
+        _recordPayment(offer.buyer, address(0), offer.amount);
+
+        emit OfferCancelled(offerId, offer.buyer);
+    }
+
+    // Anyone can release the escrow of an expired offer back to its buyer
+    function refundExpiredOffer(uint256 offerId) external nonReentrant {
+        Offer storage offer = _getActiveOffer(offerId);
+
+        if (block.timestamp < offer.expiresAt) {
+            revert OfferNotExpired();
+        }
+
+        offer.isActive = false;
+        _recordPayment(offer.buyer, address(0), offer.amount);
+
+        emit OfferExpiredRefunded(offerId, offer.buyer);
+    }
+
+    function getTotalOffers() public view returns (uint256) {
+        return _offerIds;
+    }
+
+    function _createOffer(
+        address nftContract,
+        uint256 tokenId,
+        uint256 expiresAt,
+        bool isCollectionOffer
+    ) internal returns (uint256) {
+        if (msg.value == 0) {
+            revert InvalidOfferAmount();
+        }
+
+        if (expiresAt <= block.timestamp) {
+            revert InvalidExpiration();
+        }
+
+        _offerIds++;
+        uint256 offerId = _offerIds;
+
+        offers[offerId] = Offer({
+            buyer: msg.sender,
+            nftContract: nftContract,
+            tokenId: tokenId,
+            amount: msg.value,
+            expiresAt: expiresAt,
+            isCollectionOffer: isCollectionOffer,
+            isActive: true
+        });
+
+        emit OfferCreated(
+            offerId,
             msg.sender,
             nftContract,
             tokenId,
-            price
+            msg.value,
+            expiresAt,
+            isCollectionOffer
         );
+        return offerId;
+    }
 
-        uint256 excessAmount = msg.value - price;
-        if (excessAmount > 0) {
-            (bool success, ) = msg.sender.call{value: excessAmount}("");
+    function _getActiveOffer(
+        uint256 offerId
+    ) internal view returns (Offer storage offer) {
+        offer = offers[offerId];
+
+        if (offer.buyer == address(0)) {
+            revert OfferNotFound();
+        }
+
+        if (!offer.isActive) {
+            revert OfferNotActive();
+        }
+    }
+
+    function withdrawPayments(
+        address currency
+    ) external nonReentrant returns (uint256) {
+        uint256 amount = _pendingPayments[msg.sender][currency];
+
+        if (amount == 0) {
+            revert NoPaymentsPending();
+        }
+
+        _pendingPayments[msg.sender][currency] = 0;
+
+        if (currency == address(0)) {
+            (bool success, ) = msg.sender.call{value: amount}("");
             if (!success) {
                 revert TransferFailed();
             }
+        } else {
+            IERC20(currency).safeTransfer(msg.sender, amount);
         }
+
+        emit PaymentWithdrawn(msg.sender, currency, amount);
+        return amount;
     }
 
-    function cancelListing(uint256 listingId) external nonReentrant {
+    function getPendingPayment(
+        address recipient,
+        address currency
+    ) external view returns (uint256) {
+        return _pendingPayments[recipient][currency];
+    }
+
+    function setCurrencyAllowed(
+        address currency,
+        bool allowed
+    ) external onlyOwner {
+        allowedCurrencies[currency] = allowed;
+        emit CurrencyAllowed(currency, allowed);
+    }
+
+    function setMarketFeePercentage(uint256 percentage) external onlyOwner {
+        if (percentage > MAX_MARKET_FEE_PERCENTAGE) {
+            revert MarketFeeTooHigh(percentage, MAX_MARKET_FEE_PERCENTAGE);
+        }
+
+        emit MarketFeeUpdated(marketFeePercentage, percentage);
+        marketFeePercentage = percentage;
+    }
+
+    function setFeeTreasury(address treasury) external onlyOwner {
+        if (treasury == address(0)) {
+            revert InvalidFeeTreasury();
+        }
+
+        emit FeeTreasuryUpdated(feeTreasury, treasury);
+        feeTreasury = treasury;
+    }
+
+    // Stops new listings, auctions, offers and purchases. Cancellations,
+    // settlements, refunds and withdrawals keep working so funds and NFTs
+    // can always be recovered
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    function _deactivateListing(uint256 listingId) internal {
         Listing storage listing = listings[listingId];
 
-        if (listing.seller == address(0)) {
-            revert ListingNotFound();
+        listing.isActive = false;
+        _activeListingIds.remove(listingId);
+
+        // A newer listing may already have replaced a stale one for the token
+        if (
+            _activeListingByToken[listing.nftContract][listing.tokenId] ==
+            listingId
+        ) {
+            delete _activeListingByToken[listing.nftContract][listing.tokenId];
         }
+    }
 
-        if (listing.seller != msg.sender) {
-            revert NotListingOwner();
+    // Only one listing per token can be active. A previous listing that can
+    // no longer be bought is replaced, a listing that still can is kept
+    function _removeStaleListing(
+        address nftContract,
+        uint256 tokenId
+    ) internal {
+        uint256 listingId = _activeListingByToken[nftContract][tokenId];
+        if (listingId == 0) {
+            return;
         }
 
-        if (!listing.isActive) {
-            revert ListingNotActive();
+        if (_isListingValid(listings[listingId])) {
+            revert TokenAlreadyListed(listingId);
         }
 
-        listing.isActive = false;
+        _deactivateListing(listingId);
+        emit ListingInvalidated(listingId);
+    }
 
-        IERC721(listing.nftContract).safeTransferFrom(
+    function _returnEscrowedToken(Listing storage listing) internal {
+        if (listing.isEscrowed) {
+            _releaseFromEscrow(
+                listing.nftContract,
+                listing.tokenId,
+                listing.seller
+            );
+        }
+    }
+
+    function _depositToEscrow(address nftContract, uint256 tokenId) internal {
+        IERC721(nftContract).safeTransferFrom(
+            msg.sender,
             address(this),
-            listing.seller,
-            listing.tokenId
+            tokenId
         );
+        _escrowSellers[nftContract][tokenId] = msg.sender;
+    }
 
-        emit NFTListingCancelled(
-            listingId,
-            listing.seller,
-            listing.nftContract,
-            listing.tokenId
-        );
+    function _releaseFromEscrow(
+        address nftContract,
+        uint256 tokenId,
+        address to
+    ) internal {
+        delete _escrowSellers[nftContract][tokenId];
+        IERC721(nftContract).safeTransferFrom(address(this), to, tokenId);
     }
 
-    function withdrawPayments() external nonReentrant returns (uint256) {
-        uint256 amount = _pendingPayments[msg.sender];
+    function _isListingValid(
+        Listing storage listing
+    ) internal view returns (bool) {
+        if (!listing.isActive || _isExpired(listing)) {
+            return false;
+        }
+
+        return listing.isEscrowed || _holdsListedToken(listing);
+    }
 
-        if (amount == 0) {
-            revert NoPaymentsPending();
+    // Whether the seller of a non-custodial listing still holds the listed
+    // token, approved for the marketplace, and it never left them since. A
+    // token that was sold elsewhere and bought back keeps its listing invalid
+    function _holdsListedToken(
+        Listing storage listing
+    ) internal view returns (bool) {
+        return
+            _holdsApprovedToken(
+                listing.seller,
+                listing.nftContract,
+                listing.tokenId
+            ) &&
+            _transferCount(listing.nftContract, listing.tokenId) ==
+            listing.transferCount;
+    }
+
+    // Transfer count of a token for NFT contracts that keep one, such as
+    // MusicNFT, or zero for those that don't
+    function _transferCount(
+        address nftContract,
+        uint256 tokenId
+    ) internal view returns (uint256) {
+        try MusicNFT(nftContract).getTransferCount(tokenId) returns (
+            uint256 count
+        ) {
+            return count;
+        } catch {
+            return 0;
         }
+    }
 
-        _pendingPayments[msg.sender] = 0;
+    // Whether `account` still owns the token and the marketplace may move it
+    function _holdsApprovedToken(
+        address account,
+        address nftContract,
+        uint256 tokenId
+    ) internal view returns (bool) {
+        try IERC721(nftContract).ownerOf(tokenId) returns (address owner) {
+            return
+                owner == account &&
+                _isMarketplaceApproved(nftContract, tokenId, account);
+        } catch {
+            return false;
+        }
+    }
 
-        (bool success, ) = msg.sender.call{value: amount}("");
-        if (!success) {
-            revert TransferFailed();
+    // The marketplace is not notified when the token of a non-custodial
+    // listing is burned, so its listing stays active until cancelled
+    function _isTokenBurned(
+        Listing storage listing
+    ) internal view returns (bool) {
+        if (listing.isEscrowed) {
+            return false;
         }
 
-        emit PaymentWithdrawn(msg.sender, amount);
-        return amount;
+        try IERC721(listing.nftContract).ownerOf(listing.tokenId) returns (
+            address
+        ) {
+            return false;
+        } catch {
+            return true;
+        }
     }
 
-    function getPendingPayment(
-        address recipient
-    ) external view returns (uint256) {
-        return _pendingPayments[recipient];
+    function _isMarketplaceApproved(
+        address nftContract,
+        uint256 tokenId,
+        address owner
+    ) internal view returns (bool) {
+        return
+            IERC721(nftContract).getApproved(tokenId) == address(this) ||
+            IERC721(nftContract).isApprovedForAll(owner, address(this));
+    }
+
+    function _isExpired(
+        Listing storage listing
+    ) internal view returns (bool) {
+        return listing.expiresAt != 0 && block.timestamp >= listing.expiresAt;
+    }
+
+    function _recordPayment(
+        address recipient,
+        address currency,
+        uint256 amount
+    ) internal {
+        _pendingPayments[recipient][currency] += amount;
+    }
+
+    // Splits a sale price into the ERC-2981 royalty, the market fee and the
+    // seller proceeds, crediting each to the pending-payments ledger
+    function _distributeSale(
+        address seller,
+        address nftContract,
+        uint256 tokenId,
+        uint256 price,
+        address currency
+    ) internal {
+        uint256 remainingAmount = price;
+
+        if (_isERC2981(nftContract)) {
+            (address royaltyReceiver, uint256 royaltyAmount) = IERC2981(
+                nftContract
+            ).royaltyInfo(tokenId, price);
+
+            if (royaltyAmount > 0) {
+                _recordRoyalty(
+                    nftContract,
+                    tokenId,
+                    royaltyReceiver,
+                    currency,
+                    royaltyAmount
+                );
+                remainingAmount -= royaltyAmount;
+            }
+        }
+
+        uint256 marketFee = (price * marketFeePercentage) / 10000;
+        if (marketFee > 0) {
+            _recordPayment(feeTreasury, currency, marketFee);
+            remainingAmount -= marketFee;
+        }
+
+        _recordPayment(seller, currency, remainingAmount);
     }
 
-    function _recordPayment(address recipient, uint256 amount) internal {
-        _pendingPayments[recipient] += amount;
+    // Divides a sales royalty among the MusicNFT collaborators of the token,
+    // or credits the ERC-2981 receiver for contracts without royalty splits
+    function _recordRoyalty(
+        address nftContract,
+        uint256 tokenId,
+        address royaltyReceiver,
+        address currency,
+        uint256 royaltyAmount
+    ) internal {
+        try MusicNFT(nftContract).getRoyaltySplit(tokenId) returns (
+            address[] memory recipients,
+            uint256[] memory shares
+        ) {
+            if (recipients.length > 0) {
+                uint256 remainingRoyalty = royaltyAmount;
+                uint256 lastIndex = recipients.length - 1;
+
+                for (uint256 i = 0; i < lastIndex; i++) {
+                    uint256 share = (royaltyAmount * shares[i]) / 10000;
+                    _recordPayment(recipients[i], currency, share);
+                    remainingRoyalty -= share;
+                }
+
+                // The last recipient receives the rounding remainder
+                _recordPayment(
+                    recipients[lastIndex],
+                    currency,
+                    remainingRoyalty
+                );
+                return;
+            }
+        } catch {}
+
+        _recordPayment(royaltyReceiver, currency, royaltyAmount);
     }
 
     function _isERC2981(address contractAddress) internal view returns (bool) {
@@ -223,7 +1781,8 @@ contract NFTMarketplace is ERC721Holder, Ownable, ReentrancyGuard {
         }
     }
 
-    // Get listing details by tokenId and NFT contract
+    // Get listing details by tokenId and NFT contract. A burned token has no
+    // listing, even while its non-custodial listing is not cancelled yet
     function getListingByToken(
         address nftContract,
         uint256 tokenId
@@ -237,21 +1796,13 @@ contract NFTMarketplace is ERC721Holder, Ownable, ReentrancyGuard {
             bool isActive
         )
     {
-        for (uint256 i = 1; i <= _listingIds; i++) {
-            if (
-                listings[i].nftContract == nftContract &&
-                listings[i].tokenId == tokenId &&
-                listings[i].isActive
-            ) {
-                return (
-                    i,
-                    listings[i].seller,
-                    listings[i].price,
-                    listings[i].isActive
-                );
-            }
+        listingId = _activeListingByToken[nftContract][tokenId];
+        if (listingId == 0 || _isTokenBurned(listings[listingId])) {
+            return (0, address(0), 0, false);
         }
-        return (0, address(0), 0, false);
+
+        Listing storage listing = listings[listingId];
+        return (listingId, listing.seller, listing.price, listing.isActive);
     }
 
     // Get total number of listings ever created
@@ -259,18 +1810,18 @@ contract NFTMarketplace is ERC721Holder, Ownable, ReentrancyGuard {
         return _listingIds;
     }
 
-    // Get total number of active listings
+    // Get total number of active listings. Listings that can no longer be
+    // bought count until they are sold, cancelled, reclaimed or replaced
     function getActiveListingsCount() public view returns (uint256) {
-        uint256 activeCount = 0;
-        for (uint256 i = 1; i <= _listingIds; i++) {
-            if (listings[i].isActive) {
-                activeCount++;
-            }
-        }
-        return activeCount;
+        return _activeListingIds.length();
     }
 
-    // Get all active listings with pagination
+    // Get all active listings with pagination, leaving out those that can no
+    // longer be bought because they expired or the seller no longer holds the
+    // token. A page can hold fewer than `limit` listings as a result, or
+    // none while more follow, so clients page by advancing `start` by `limit`
+    // up to getActiveListingsCount. Selling or cancelling a listing moves the
+    // last active listing into its place, so the order is not stable
     function getActiveListings(
         uint256 start,
         uint256 limit
@@ -285,60 +1836,42 @@ contract NFTMarketplace is ERC721Holder, Ownable, ReentrancyGuard {
             uint256[] memory prices
         )
     {
-        // First, count active listings to determine array size
-        uint256 activeCount = 0;
-        for (uint256 i = 1; i <= _listingIds; i++) {
-            if (listings[i].isActive) {
-                activeCount++;
+        uint256 pageSize = _pageSize(_activeListingIds.length(), start, limit);
+        uint256 resultSize = 0;
+        for (uint256 i = 0; i < pageSize; i++) {
+            if (_isListingValid(listings[_activeListingIds.at(start + i)])) {
+                resultSize++;
             }
         }
 
-        // Handle pagination bounds
-        if (start >= activeCount) {
-            return (
-                new uint256[](0),
-                new address[](0),
-                new address[](0),
-                new uint256[](0),
-                new uint256[](0)
-            );
-        }
-
-        uint256 end = start + limit;
-        if (end > activeCount) {
-            end = activeCount;
-        }
-        uint256 resultSize = end - start;
-
-        // Initialize return arrays
         listingIds = new uint256[](resultSize);
         sellers = new address[](resultSize);
         nftContracts = new address[](resultSize);
         tokenIds = new uint256[](resultSize);
         prices = new uint256[](resultSize);
 
-        // Fill arrays with listing data
-        uint256 currentIndex = 0;
-        uint256 resultIndex = 0;
-
-        for (uint256 i = 1; i <= _listingIds && resultIndex < resultSize; i++) {
-            if (listings[i].isActive) {
-                if (currentIndex >= start) {
-                    listingIds[resultIndex] = i;
-                    sellers[resultIndex] = listings[i].seller;
-                    nftContracts[resultIndex] = listings[i].nftContract;
-                    tokenIds[resultIndex] = listings[i].tokenId;
-                    prices[resultIndex] = listings[i].price;
-                    resultIndex++;
-                }
-                currentIndex++;
+        uint256 count = 0;
+        for (uint256 i = 0; i < pageSize; i++) {
+            uint256 listingId = _activeListingIds.at(start + i);
+            Listing storage listing = listings[listingId];
+
+            if (!_isListingValid(listing)) {
+                continue;
             }
+
+            listingIds[count] = listingId;
+            sellers[count] = listing.seller;
+            nftContracts[count] = listing.nftContract;
+            tokenIds[count] = listing.tokenId;
+            prices[count] = listing.price;
+            count++;
         }
 
         return (listingIds, sellers, nftContracts, tokenIds, prices);
     }
 
-    // Get all listings by seller with pagination
+    // Get all listings by seller with pagination. The listing of a burned
+    // token is reported as inactive
     function getListingsBySeller(
         address seller,
         uint256 start,
@@ -354,73 +1887,70 @@ contract NFTMarketplace is ERC721Holder, Ownable, ReentrancyGuard {
             bool[] memory isActive
         )
     {
-        // First, count listings by seller
-        uint256 sellerCount = 0;
-        for (uint256 i = 1; i <= _listingIds; i++) {
-            if (listings[i].seller == seller) {
-                sellerCount++;
-            }
-        }
-
-        // Handle pagination bounds
-        if (start >= sellerCount) {
-            return (
-                new uint256[](0),
-                new address[](0),
-                new uint256[](0),
-                new uint256[](0),
-                new bool[](0)
-            );
-        }
+        uint256[] storage sellerListingIds = _sellerListingIds[seller];
+        uint256 resultSize = _pageSize(sellerListingIds.length, start, limit);
 
-        uint256 end = start + limit;
-        if (end > sellerCount) {
-            end = sellerCount;
-        }
-        uint256 resultSize = end - start;
-
-        // Initialize return arrays
         listingIds = new uint256[](resultSize);
         nftContracts = new address[](resultSize);
         tokenIds = new uint256[](resultSize);
         prices = new uint256[](resultSize);
         isActive = new bool[](resultSize);
 
-        // Fill arrays with listing data
-        uint256 currentIndex = 0;
-        uint256 resultIndex = 0;
-
-        for (uint256 i = 1; i <= _listingIds && resultIndex < resultSize; i++) {
-            if (listings[i].seller == seller) {
-                if (currentIndex >= start) {
-                    listingIds[resultIndex] = i;
-                    nftContracts[resultIndex] = listings[i].nftContract;
-                    tokenIds[resultIndex] = listings[i].tokenId;
-                    prices[resultIndex] = listings[i].price;
-                    isActive[resultIndex] = listings[i].isActive;
-                    resultIndex++;
-                }
-                currentIndex++;
-            }
+        for (uint256 i = 0; i < resultSize; i++) {
+            uint256 listingId = sellerListingIds[start + i];
+            Listing storage listing = listings[listingId];
+
+            listingIds[i] = listingId;
+            nftContracts[i] = listing.nftContract;
+            tokenIds[i] = listing.tokenId;
+            prices[i] = listing.price;
+            isActive[i] = listing.isActive && !_isTokenBurned(listing);
         }
 
         return (listingIds, nftContracts, tokenIds, prices, isActive);
     }
 
-    // Check if a token is currently listed
+    // Seller of a token the marketplace holds in escrow for a listing or an
+    // auction, or address(0) when the token is not escrowed. NFTStreaming
+    // uses it to pay owner royalties to the seller instead of the marketplace
+    function getEscrowedTokenSeller(
+        address nftContract,
+        uint256 tokenId
+    ) public view returns (address) {
+        return _escrowSellers[nftContract][tokenId];
+    }
+
+    // Whether a listing can currently be bought: it is active and unexpired,
+    // and for non-custodial listings the seller still owns the token and
+    // has it approved for the marketplace
+    function isListingValid(uint256 listingId) public view returns (bool) {
+        return _isListingValid(listings[listingId]);
+    }
+
+    // Check if a token is currently listed. Burned tokens are not, even when
+    // the seller has not cancelled their non-custodial listing yet
     function isTokenListed(
         address nftContract,
         uint256 tokenId
     ) public view returns (bool) {
-        for (uint256 i = 1; i <= _listingIds; i++) {
-            if (
-                listings[i].nftContract == nftContract &&
-                listings[i].tokenId == tokenId &&
-                listings[i].isActive
-            ) {
-                return true;
-            }
+        uint256 listingId = _activeListingByToken[nftContract][tokenId];
+        return listingId != 0 && !_isTokenBurned(listings[listingId]);
+    }
+
+    // Number of entries in the page starting at `start`, given `total` entries
+    function _pageSize(
+        uint256 total,
+        uint256 start,
+        uint256 limit
+    ) internal pure returns (uint256) {
+        if (start >= total) {
+            return 0;
+        }
+
+        uint256 end = start + limit;
+        if (end > total) {
+            end = total;
         }
-        return false;
+        return end - start;
     }
 }
@@ -2,51 +2,724 @@
 pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "./MusicEditions.sol";
 import "./MusicNFT.sol";
+import "./NFTMarketplace.sol";
 
-contract NFTStreaming is Ownable, ReentrancyGuard {
-    mapping(address => uint256) private _pendingPayments;
+contract NFTStreaming is Ownable, Pausable, ReentrancyGuard, EIP712 {
+    using SafeERC20 for IERC20;
+
+    // Listens of one token reported by a streaming oracle for one period
+    struct ListenReport {
+        address nftContract;
+        uint256 tokenId;
+        uint256 count;
+        uint256 amount;
+        uint256 rate;
+        address currency;
+        uint256 period;
+        uint256 nonce;
+    }
+
+    // Top-N selection kept sorted by descending listen count, of which the
+    // first `size` entries are in use
+    struct TopTokens {
+        uint256[] tokenIds;
+        uint256[] listenCounts;
+        uint256 size;
+    }
+
+    // Listens of one token by subscribers, reported without a payment
+    struct SubscriptionListens {
+        address nftContract;
+        uint256 tokenId;
+        uint256 count;
+    }
+
+    bytes32 public constant LISTEN_REPORT_TYPEHASH =
+        keccak256(
+            "ListenReport(address nftContract,uint256 tokenId,uint256 count,uint256 amount,uint256 rate,address currency,uint256 period,uint256 nonce)"
+        );
+
+    // Reporting periods are consecutive windows of this length since the epoch
+    uint256 public constant LISTEN_PERIOD_LENGTH = 1 days;
+
+    // Longest subscription pass that can be bought at once, in periods
+    uint256 public constant MAX_PASS_PERIODS = 31;
+
+    // Streaming oracles allowed to report listens
+    mapping(address => bool) public authorizedReporters;
+
+    // Map reporter -> report nonce -> used
+    mapping(address => mapping(uint256 => bool)) private _usedReportNonces;
+
+    // Maximum listens accepted per token and period, 0 means no cap
+    uint256 public listenCapPerPeriod;
+
+    // Map NFT contract address -> tokenId -> period -> listen count
+    mapping(address => mapping(uint256 => mapping(uint256 => uint256)))
+        private _periodListenCount;
+
+    // Map NFT contract address -> period -> tokens with listens in the period
+    mapping(address => mapping(uint256 => uint256[])) private _periodTokens;
+
+    // Map recipient -> currency -> pending amount (address(0) is native ETH)
+    mapping(address => mapping(address => uint256)) private _pendingPayments;
+
+    // ERC-20 tokens accepted for listen payments; native ETH is always accepted
+    mapping(address => bool) public allowedCurrencies;
 
     // Map NFT contract address -> tokenId -> listen count
     mapping(address => mapping(uint256 => uint256)) private _listenCount;
 
+    // Marketplaces whose escrowed tokens earn owner royalties for the seller
+    mapping(address => bool) public escrowContracts;
+
+    // MusicEditions contracts, whose tokens are editions with many holders
+    mapping(address => bool) public editionContracts;
+
+    // Price of one period of a subscription pass in native ETH, 0 means
+    // passes are not on sale
+    uint256 public subscriptionPricePerPeriod;
+
+    // Map listener -> first period no longer covered by their pass
+    mapping(address => uint256) public passEndPeriods;
+
+    // Map period -> pass revenue to divide among the period's subscription
+    // listens
+    mapping(uint256 => uint256) private _subscriptionPools;
+
+    // Map period -> subscription listens of all tokens
+    mapping(uint256 => uint256) private _periodSubscriptionListens;
+
+    // Map NFT contract address -> tokenId -> period -> subscription listens
+    mapping(address => mapping(uint256 => mapping(uint256 => uint256)))
+        private _subscriptionListens;
+
+    // Periods whose subscription listens are final and whose pool is payable
+    mapping(uint256 => bool) private _closedPeriods;
+
+    // Map NFT contract address -> tokenId -> period -> pool share paid out
+    mapping(address => mapping(uint256 => mapping(uint256 => bool)))
+        private _subscriptionPayoutsClaimed;
+
     error NonexistentToken(address nftContract, uint256 tokenId);
     error InsufficientPayment();
     error NoPaymentsPending();
     error TransferFailed();
     error InvalidListenCount();
     error UnsupportedNFTContract(address nftContract);
+    error CurrencyNotAllowed(address currency);
+    error NativePaymentNotAccepted();
+    error UnauthorizedReporter(address reporter);
+    error InvalidListenRate();
+    error InvalidListenAmount(uint256 amount, uint256 expected);
+    error InvalidReportPeriod(uint256 period);
+    error ReportNonceUsed(address reporter, uint256 nonce);
+    error InvalidPeriodRange(uint256 fromPeriod, uint256 toPeriod);
+    error ListenCapExceeded(
+        address nftContract,
+        uint256 tokenId,
+        uint256 period,
+        uint256 cap
+    );
+    error SubscriptionsNotOnSale();
+    error InvalidPassDuration(uint256 periods);
+    error PeriodNotEnded(uint256 period);
+    error PeriodAlreadyClosed(uint256 period);
+    error PeriodNotClosed(uint256 period);
 
     event BatchListensRecorded(
         address indexed nftContract,
         uint256 indexed tokenId,
         uint256 count,
-        uint256 royaltyAmount
+        uint256 royaltyAmount,
+        address currency
+    );
+    event PaymentWithdrawn(
+        address indexed recipient,
+        address indexed currency,
+        uint256 amount
+    );
+    event CurrencyAllowed(address indexed currency, bool allowed);
+    event ReporterAdded(address indexed reporter);
+    event ReporterRevoked(address indexed reporter);
+    event ListenCapUpdated(uint256 previousCap, uint256 newCap);
+    event EscrowContractUpdated(address indexed escrow, bool registered);
+    event EditionContractUpdated(address indexed edition, bool registered);
+    event ListenReportSkipped(
+        address indexed nftContract,
+        uint256 indexed tokenId,
+        uint256 nonce
+    );
+    event ListenReportsSettled(
+        address indexed reporter,
+        uint256 recordedCount,
+        uint256 skippedCount,
+        uint256 totalListens,
+        uint256 nativeAmount
+    );
+    event ListenReportAccepted(
+        address indexed reporter,
+        uint256 indexed period,
+        uint256 nonce,
+        uint256 rate
+    );
+    event SubscriptionPriceUpdated(uint256 previousPrice, uint256 newPrice);
+    event SubscriptionPassPurchased(
+        address indexed listener,
+        address indexed buyer,
+        uint256 startPeriod,
+        uint256 endPeriod,
+        uint256 amount
+    );
+    event SubscriptionListensRecorded(
+        address indexed nftContract,
+        uint256 indexed tokenId,
+        uint256 indexed period,
+        uint256 count
+    );
+    event SubscriptionPeriodClosed(
+        uint256 indexed period,
+        uint256 pool,
+        uint256 totalListens
+    );
+    event SubscriptionPayoutClaimed(
+        address indexed nftContract,
+        uint256 indexed tokenId,
+        uint256 indexed period,
+        uint256 listens,
+        uint256 amount
+    );
+    event SubscriptionPayoutRolledOver(
+        address indexed nftContract,
+        uint256 indexed tokenId,
+        uint256 indexed period,
+        uint256 amount
     );
-    event PaymentWithdrawn(address indexed recipient, uint256 amount);
 
-    constructor() Ownable(msg.sender) {}
+    constructor() Ownable(msg.sender) EIP712("NFTStreaming", "1") {}
 
+    // Records a report sent directly by an authorized reporter
     function recordBatchListens(
+        ListenReport calldata report
+    ) external payable whenNotPaused nonReentrant {
+        if (!authorizedReporters[msg.sender]) {
+            revert UnauthorizedReporter(msg.sender);
+        }
+
+        _settleReport(report, msg.sender);
+    }
+
+    // Records reports for many tokens in one transaction. `msg.value` must
+    // cover the sum of the native ETH amounts. Reports for nonexistent tokens
+    // are skipped when `skipNonexistent` is set, otherwise the batch reverts
+    function settleListenReports(
+        ListenReport[] calldata reports,
+        bool skipNonexistent
+    ) external payable whenNotPaused nonReentrant {
+        if (!authorizedReporters[msg.sender]) {
+            revert UnauthorizedReporter(msg.sender);
+        }
+
+        uint256 nativeAmount = 0;
+        uint256 totalListens = 0;
+        uint256 skippedCount = 0;
+
+        for (uint256 i = 0; i < reports.length; i++) {
+            ListenReport calldata report = reports[i];
+
+            if (!_tokenExists(report.nftContract, report.tokenId)) {
+                if (!skipNonexistent) {
+                    revert NonexistentToken(report.nftContract, report.tokenId);
+                }
+
+                skippedCount++;
+                emit ListenReportSkipped(
+                    report.nftContract,
+                    report.tokenId,
+                    report.nonce
+                );
+                continue;
+            }
+
+            _recordListens(report, msg.sender);
+
+            totalListens += report.count;
+            if (report.currency == address(0)) {
+                nativeAmount += report.amount;
+            }
+        }
+
+        if (msg.value < nativeAmount) {
+            revert InsufficientPayment();
+        }
+
+        emit ListenReportsSettled(
+            msg.sender,
+            reports.length - skippedCount,
+            skippedCount,
+            totalListens,
+            nativeAmount
+        );
+
+        _refundExcess(nativeAmount);
+    }
+
+    // Records a report signed by an authorized reporter. Any relayer can
+    // submit it and pays the listen amount
+    function submitListenReport(
+        ListenReport calldata report,
+        bytes calldata signature
+    ) external payable whenNotPaused nonReentrant {
+        address reporter = ECDSA.recover(hashListenReport(report), signature);
+
+        if (!authorizedReporters[reporter]) {
+            revert UnauthorizedReporter(reporter);
+        }
+
+        _settleReport(report, reporter);
+    }
+
+    // EIP-712 digest a reporter signs for a listen report
+    function hashListenReport(
+        ListenReport calldata report
+    ) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        LISTEN_REPORT_TYPEHASH,
+                        report.nftContract,
+                        report.tokenId,
+                        report.count,
+                        report.amount,
+                        report.rate,
+                        report.currency,
+                        report.period,
+                        report.nonce
+                    )
+                )
+            );
+    }
+
+    function addReporter(address reporter) external onlyOwner {
+        authorizedReporters[reporter] = true;
+        emit ReporterAdded(reporter);
+    }
+
+    function revokeReporter(address reporter) external onlyOwner {
+        authorizedReporters[reporter] = false;
+        emit ReporterRevoked(reporter);
+    }
+
+    function setEscrowContract(
+        address escrow,
+        bool registered
+    ) external onlyOwner {
+        escrowContracts[escrow] = registered;
+        emit EscrowContractUpdated(escrow, registered);
+    }
+
+    function setEditionContract(
+        address edition,
+        bool registered
+    ) external onlyOwner {
+        editionContracts[edition] = registered;
+        emit EditionContractUpdated(edition, registered);
+    }
+
+    function setListenCapPerPeriod(uint256 cap) external onlyOwner {
+        emit ListenCapUpdated(listenCapPerPeriod, cap);
+        listenCapPerPeriod = cap;
+    }
+
+    function setSubscriptionPrice(uint256 pricePerPeriod) external onlyOwner {
+        emit SubscriptionPriceUpdated(
+            subscriptionPricePerPeriod,
+            pricePerPeriod
+        );
+        subscriptionPricePerPeriod = pricePerPeriod;
+    }
+
+    function currentPeriod() public view returns (uint256) {
+        return block.timestamp / LISTEN_PERIOD_LENGTH;
+    }
+
+    function isReportNonceUsed(
+        address reporter,
+        uint256 nonce
+    ) external view returns (bool) {
+        return _usedReportNonces[reporter][nonce];
+    }
+
+    function getPeriodListenCount(
         address nftContract,
         uint256 tokenId,
-        uint256 count,
-        uint256 amount
-    ) external payable {
-        if (!_tokenExists(nftContract, tokenId)) {
-            revert NonexistentToken(nftContract, tokenId);
+        uint256 period
+    ) external view returns (uint256) {
+        return _periodListenCount[nftContract][tokenId][period];
+    }
+
+    // Sums the listens of a token over an inclusive range of periods
+    function getListenCountInRange(
+        address nftContract,
+        uint256 tokenId,
+        uint256 fromPeriod,
+        uint256 toPeriod
+    ) public view returns (uint256 total) {
+        if (fromPeriod > toPeriod) {
+            revert InvalidPeriodRange(fromPeriod, toPeriod);
         }
 
-        if (count == 0) {
-            revert InvalidListenCount();
+        for (uint256 period = fromPeriod; period <= toPeriod; period++) {
+            total += _periodListenCount[nftContract][tokenId][period];
+        }
+    }
+
+    // Returns the tokens that received listens in a period
+    function getTokensListenedInPeriod(
+        address nftContract,
+        uint256 period
+    ) external view returns (uint256[] memory) {
+        return _periodTokens[nftContract][period];
+    }
+
+    // Buys `periods` periods of a subscription pass for `listener`, starting
+    // now or when their current pass ends. Each covered period's pool
+    // receives the price of one period
+    function buySubscriptionPass(
+        address listener,
+        uint256 periods
+    ) external payable whenNotPaused nonReentrant {
+        uint256 price = subscriptionPricePerPeriod;
+        if (price == 0) {
+            revert SubscriptionsNotOnSale();
         }
 
+        if (periods == 0 || periods > MAX_PASS_PERIODS) {
+            revert InvalidPassDuration(periods);
+        }
+
+        uint256 amount = price * periods;
         if (msg.value < amount) {
             revert InsufficientPayment();
         }
 
+        uint256 startPeriod = currentPeriod();
+        if (passEndPeriods[listener] > startPeriod) {
+            startPeriod = passEndPeriods[listener];
+        }
+        uint256 endPeriod = startPeriod + periods;
+
+        for (uint256 period = startPeriod; period < endPeriod; period++) {
+            _subscriptionPools[period] += price;
+        }
+        passEndPeriods[listener] = endPeriod;
+
+        emit SubscriptionPassPurchased(
+            listener,
+            msg.sender,
+            startPeriod,
+            endPeriod,
+            amount
+        );
+
+        _refundExcess(amount);
+    }
+
+    function hasActivePass(address listener) external view returns (bool) {
+        return passEndPeriods[listener] > currentPeriod();
+    }
+
+    // Records listens by pass holders, which earn a share of the period's
+    // pool instead of a payment. They also count towards listen statistics
+    function recordSubscriptionListens(
+        uint256 period,
+        SubscriptionListens[] calldata listens
+    ) external whenNotPaused {
+        if (!authorizedReporters[msg.sender]) {
+            revert UnauthorizedReporter(msg.sender);
+        }
+
+        if (period > currentPeriod()) {
+            revert InvalidReportPeriod(period);
+        }
+
+        if (_closedPeriods[period]) {
+            revert PeriodAlreadyClosed(period);
+        }
+
+        uint256 totalListens = 0;
+        for (uint256 i = 0; i < listens.length; i++) {
+            SubscriptionListens calldata entry = listens[i];
+
+            if (entry.count == 0) {
+                revert InvalidListenCount();
+            }
+
+            if (!_tokenExists(entry.nftContract, entry.tokenId)) {
+                revert NonexistentToken(entry.nftContract, entry.tokenId);
+            }
+
+            _addListens(entry.nftContract, entry.tokenId, period, entry.count);
+            _subscriptionListens[entry.nftContract][entry.tokenId][
+                period
+            ] += entry.count;
+            totalListens += entry.count;
+
+            emit SubscriptionListensRecorded(
+                entry.nftContract,
+                entry.tokenId,
+                period,
+                entry.count
+            );
+        }
+
+        _periodSubscriptionListens[period] += totalListens;
+    }
+
+    // Makes an ended period's subscription listens final so its pool can be
+    // claimed. A pool without listens moves to the current period
+    function closeSubscriptionPeriod(uint256 period) external {
+        if (!authorizedReporters[msg.sender]) {
+            revert UnauthorizedReporter(msg.sender);
+        }
+
+        if (period >= currentPeriod()) {
+            revert PeriodNotEnded(period);
+        }
+
+        if (_closedPeriods[period]) {
+            revert PeriodAlreadyClosed(period);
+        }
+
+        _closedPeriods[period] = true;
+
+        uint256 pool = _subscriptionPools[period];
+        uint256 totalListens = _periodSubscriptionListens[period];
+        if (totalListens == 0 && pool > 0) {
+            _subscriptionPools[period] = 0;
+            _subscriptionPools[currentPeriod()] += pool;
+        }
+
+        emit SubscriptionPeriodClosed(period, pool, totalListens);
+    }
+
+    // Credits the pool shares of a closed period to the given tokens with
+    // the usual streaming-royalty split. Anyone can claim, in as many
+    // batches as needed. Tokens without subscription listens in the period
+    // and tokens already paid out are skipped. A burned token has no owner
+    // to pay, so its share moves to the current period's pool
+    function claimSubscriptionPayouts(
+        address nftContract,
+        uint256 period,
+        uint256[] calldata tokenIds
+    ) external nonReentrant {
+        if (!_closedPeriods[period]) {
+            revert PeriodNotClosed(period);
+        }
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            uint256 tokenId = tokenIds[i];
+            uint256 listens = _subscriptionListens[nftContract][tokenId][
+                period
+            ];
+
+            if (
+                listens == 0 ||
+                _subscriptionPayoutsClaimed[nftContract][tokenId][period]
+            ) {
+                continue;
+            }
+
+            _subscriptionPayoutsClaimed[nftContract][tokenId][period] = true;
+
+            uint256 amount = _subscriptionPayout(nftContract, tokenId, period);
+            if (!_tokenExists(nftContract, tokenId)) {
+                _subscriptionPools[currentPeriod()] += amount;
+                emit SubscriptionPayoutRolledOver(
+                    nftContract,
+                    tokenId,
+                    period,
+                    amount
+                );
+                continue;
+            }
+
+            if (amount > 0) {
+                _creditListenPayment(nftContract, tokenId, address(0), amount);
+            }
+
+            emit SubscriptionPayoutClaimed(
+                nftContract,
+                tokenId,
+                period,
+                listens,
+                amount
+            );
+        }
+    }
+
+    function getSubscriptionPool(
+        uint256 period
+    )
+        external
+        view
+        returns (uint256 pool, uint256 totalListens, bool closed)
+    {
+        return (
+            _subscriptionPools[period],
+            _periodSubscriptionListens[period],
+            _closedPeriods[period]
+        );
+    }
+
+    // Returns a token's share of a period's pool so far, which is final once
+    // the period is closed
+    function getSubscriptionPayout(
+        address nftContract,
+        uint256 tokenId,
+        uint256 period
+    ) external view returns (uint256 listens, uint256 amount, bool claimed) {
+        return (
+            _subscriptionListens[nftContract][tokenId][period],
+            _subscriptionPayout(nftContract, tokenId, period),
+            _subscriptionPayoutsClaimed[nftContract][tokenId][period]
+        );
+    }
+
+    // Records a single report paid with `msg.value` or an ERC-20 allowance
+    function _settleReport(
+        ListenReport calldata report,
+        address reporter
+    ) internal {
+        if (!_tokenExists(report.nftContract, report.tokenId)) {
+            revert NonexistentToken(report.nftContract, report.tokenId);
+        }
+
+        if (report.currency == address(0)) {
+            if (msg.value < report.amount) {
+                revert InsufficientPayment();
+            }
+        } else if (msg.value > 0) {
+            revert NativePaymentNotAccepted();
+        }
+
+        _recordListens(report, reporter);
+
+        _refundExcess(report.currency == address(0) ? report.amount : 0);
+    }
+
+    // Validates a report for an existing token, pulls ERC-20 payments and
+    // credits the royalties. Native ETH payments are checked by the caller
+    function _recordListens(
+        ListenReport calldata report,
+        address reporter
+    ) internal {
+        address nftContract = report.nftContract;
+        uint256 tokenId = report.tokenId;
+        uint256 count = report.count;
+        uint256 amount = report.amount;
+        address currency = report.currency;
+
+        if (count == 0) {
+            revert InvalidListenCount();
+        }
+
+        if (report.rate == 0) {
+            revert InvalidListenRate();
+        }
+
+        if (amount != count * report.rate) {
+            revert InvalidListenAmount(amount, count * report.rate);
+        }
+
+        if (report.period > currentPeriod()) {
+            revert InvalidReportPeriod(report.period);
+        }
+
+        if (_usedReportNonces[reporter][report.nonce]) {
+            revert ReportNonceUsed(reporter, report.nonce);
+        }
+
+        _usedReportNonces[reporter][report.nonce] = true;
+        _addListens(nftContract, tokenId, report.period, count);
+
+        if (currency != address(0)) {
+            if (!allowedCurrencies[currency]) {
+                revert CurrencyNotAllowed(currency);
+            }
+            IERC20(currency).safeTransferFrom(
+                msg.sender,
+                address(this),
+                amount
+            );
+        }
+
+        _creditListenPayment(nftContract, tokenId, currency, amount);
+
+        emit BatchListensRecorded(
+            nftContract,
+            tokenId,
+            count,
+            amount,
+            currency
+        );
+        emit ListenReportAccepted(
+            reporter,
+            report.period,
+            report.nonce,
+            report.rate
+        );
+    }
+
+    // Checks the listen cap and adds listens to the per-period statistics
+    // and the token's total
+    function _addListens(
+        address nftContract,
+        uint256 tokenId,
+        uint256 period,
+        uint256 count
+    ) internal {
+        uint256 periodCount = _periodListenCount[nftContract][tokenId][
+            period
+        ] + count;
+        if (listenCapPerPeriod > 0 && periodCount > listenCapPerPeriod) {
+            revert ListenCapExceeded(
+                nftContract,
+                tokenId,
+                period,
+                listenCapPerPeriod
+            );
+        }
+
+        if (periodCount == count) {
+            _periodTokens[nftContract][period].push(tokenId);
+        }
+        _periodListenCount[nftContract][tokenId][period] = periodCount;
         _listenCount[nftContract][tokenId] += count;
+    }
+
+    // Credits a payment for a token's listens with the streaming-royalty
+    // split: the owner share to the token owner and the rest to the creator
+    // and collaborators
+    function _creditListenPayment(
+        address nftContract,
+        uint256 tokenId,
+        address currency,
+        uint256 amount
+    ) internal {
+        if (editionContracts[nftContract]) {
+            _recordEditionPayment(nftContract, tokenId, currency, amount);
+            return;
+        }
 
         uint256 remainingAmount = amount;
 
@@ -57,22 +730,33 @@ contract NFTStreaming is Ownable, ReentrancyGuard {
             uint256 royaltyAmount = (amount * royaltyPercentage) / 10000;
 
             if (royaltyAmount > 0) {
-                address tokenOwner = MusicNFT(nftContract).ownerOf(tokenId);
-                _recordPayment(tokenOwner, royaltyAmount);
+                _recordPayment(
+                    _royaltyOwner(nftContract, tokenId),
+                    currency,
+                    royaltyAmount
+                );
                 remainingAmount -= royaltyAmount;
             }
 
-            address creator = MusicNFT(nftContract).getCreator(tokenId);
-            _recordPayment(creator, remainingAmount);
+            _recordSplitPayment(
+                nftContract,
+                tokenId,
+                currency,
+                remainingAmount
+            );
         } catch {
-            // If it's not a MusicNFT, just send everything to the token owner
-            address tokenOwner = MusicNFT(nftContract).ownerOf(tokenId);
-            _recordPayment(tokenOwner, remainingAmount);
+            // Not a MusicNFT, so send everything to the token owner
+            _recordPayment(
+                _royaltyOwner(nftContract, tokenId),
+                currency,
+                remainingAmount
+            );
         }
+    }
 
-        emit BatchListensRecorded(nftContract, tokenId, count, amount);
-
-        uint256 excessAmount = msg.value - amount;
+    // Returns the part of `msg.value` that was not spent on listens
+    function _refundExcess(uint256 spent) internal {
+        uint256 excessAmount = msg.value - spent;
         if (excessAmount > 0) {
             (bool success, ) = msg.sender.call{value: excessAmount}("");
             if (!success) {
@@ -81,28 +765,52 @@ contract NFTStreaming is Ownable, ReentrancyGuard {
         }
     }
 
-    function withdrawPayments() external nonReentrant returns (uint256) {
-        uint256 amount = _pendingPayments[msg.sender];
+    function withdrawPayments(
+        address currency
+    ) external nonReentrant returns (uint256) {
+        uint256 amount = _pendingPayments[msg.sender][currency];
 
         if (amount == 0) {
             revert NoPaymentsPending();
         }
 
-        _pendingPayments[msg.sender] = 0;
+        _pendingPayments[msg.sender][currency] = 0;
 
-        (bool success, ) = msg.sender.call{value: amount}("");
-        if (!success) {
-            revert TransferFailed();
+        if (currency == address(0)) {
+            (bool success, ) = msg.sender.call{value: amount}("");
+            if (!success) {
+                revert TransferFailed();
+            }
+        } else {
+            IERC20(currency).safeTransfer(msg.sender, amount);
         }
 
-        emit PaymentWithdrawn(msg.sender, amount);
+        emit PaymentWithdrawn(msg.sender, currency, amount);
         return amount;
     }
 
     function getPendingPayment(
-        address recipient
+        address recipient,
+        address currency
     ) external view returns (uint256) {
-        return _pendingPayments[recipient];
+        return _pendingPayments[recipient][currency];
+    }
+
+    function setCurrencyAllowed(
+        address currency,
+        bool allowed
+    ) external onlyOwner {
+        allowedCurrencies[currency] = allowed;
+        emit CurrencyAllowed(currency, allowed);
+    }
+
+    // Stops listen recording; withdrawals keep working while paused
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
     }
 
     function getListenCount(
@@ -120,17 +828,13 @@ contract NFTStreaming is Ownable, ReentrancyGuard {
         address nftContract
     ) external view returns (uint256) {
         uint256 totalCount = 0;
+        uint256 totalMinted = _getTotalMinted(nftContract);
 
-        try MusicNFT(nftContract).getTotalSupply() returns (
-            uint256 totalSupply
-        ) {
-            for (uint256 i = 1; i <= totalSupply; i++) {
-                if (_tokenExists(nftContract, i)) {
-                    totalCount += _listenCount[nftContract][i];
-                }
+        // Iterates every minted tokenId, since burned tokens leave gaps
+        for (uint256 i = 1; i <= totalMinted; i++) {
+            if (_tokenExists(nftContract, i)) {
+                totalCount += _listenCount[nftContract][i];
             }
-        } catch {
-            revert UnsupportedNFTContract(nftContract);
         }
 
         return totalCount;
@@ -144,88 +848,447 @@ contract NFTStreaming is Ownable, ReentrancyGuard {
         view
         returns (uint256[] memory tokenIds, uint256[] memory listenCounts)
     {
-        uint256 totalSupply;
+        uint256 totalMinted = _getTotalMinted(nftContract);
 
-        try MusicNFT(nftContract).getTotalSupply() returns (uint256 supply) {
-            totalSupply = supply;
-        } catch {
-            revert UnsupportedNFTContract(nftContract);
-        }
+        TopTokens memory top = _newTopTokens(
+            limit < totalMinted ? limit : totalMinted
+        );
 
-        uint256[] memory allTokenIds = new uint256[](totalSupply);
-        uint256[] memory allListenCounts = new uint256[](totalSupply);
-
-        uint256 validTokenCount = 0;
-        for (uint256 i = 1; i <= totalSupply; i++) {
-            if (
-                _tokenExists(nftContract, i) && _listenCount[nftContract][i] > 0
-            ) {
-                allTokenIds[validTokenCount] = i;
-                allListenCounts[validTokenCount] = _listenCount[nftContract][i];
-                validTokenCount++;
+        for (uint256 i = 1; i <= totalMinted; i++) {
+            uint256 listenCount = _listenCount[nftContract][i];
+            if (listenCount > 0 && _tokenExists(nftContract, i)) {
+                _insertTopToken(top, i, listenCount);
             }
         }
 
-        if (limit > validTokenCount) {
-            limit = validTokenCount;
+        return _truncateTopTokens(top);
+    }
+
+    // Ranks the tokens listened in an inclusive range of periods. Only tokens
+    // with listens in the window are visited, not the whole supply
+    function getTopListenedTokensInWindow(
+        address nftContract,
+        uint256 fromPeriod,
+        uint256 toPeriod,
+        uint256 limit
+    )
+        external
+        view
+        returns (uint256[] memory tokenIds, uint256[] memory listenCounts)
+    {
+        if (fromPeriod > toPeriod) {
+            revert InvalidPeriodRange(fromPeriod, toPeriod);
         }
 
-        tokenIds = new uint256[](limit);
-        listenCounts = new uint256[](limit);
+        TopTokens memory top = _newTopTokens(
+            _capToWindowCandidates(nftContract, fromPeriod, toPeriod, limit)
+        );
 
-        for (uint256 i = 0; i < limit; i++) {
-            uint256 maxIndex = 0;
-            uint256 maxValue = 0;
+        for (uint256 period = fromPeriod; period <= toPeriod; period++) {
+            uint256[] storage tokens = _periodTokens[nftContract][period];
 
-            for (uint256 j = 0; j < validTokenCount; j++) {
-                if (allListenCounts[j] > maxValue) {
-                    maxValue = allListenCounts[j];
-                    maxIndex = j;
+            for (uint256 i = 0; i < tokens.length; i++) {
+                // Tokens listened in several periods are ranked once. A repeat
+                // has the same window total, so it can only be in the top
+                // list already or below its cut-off
+                if (
+                    !_containsToken(top, tokens[i]) &&
+                    _tokenExists(nftContract, tokens[i])
+                ) {
+                    _insertTopToken(
+                        top,
+                        tokens[i],
+                        getListenCountInRange(
+                            nftContract,
+                            tokens[i],
+                            fromPeriod,
+                            toPeriod
+                        )
+                    );
                 }
             }
+        }
+
+        return _truncateTopTokens(top);
+    }
 
-            tokenIds[i] = allTokenIds[maxIndex];
-            listenCounts[i] = allListenCounts[maxIndex];
+    function getListenDataByCreator(
+        address nftContract,
+        address creator
+    )
+        external
+        view
+        returns (uint256[] memory tokenIds, uint256[] memory listenCounts)
+    {
+        tokenIds = _getTokensCreatedBy(nftContract, creator);
+        listenCounts = new uint256[](tokenIds.length);
 
-            allListenCounts[maxIndex] = 0;
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            listenCounts[i] = _listenCount[nftContract][tokenIds[i]];
         }
 
         return (tokenIds, listenCounts);
     }
 
-    function getListenDataByCreator(
+    // Same as getListenDataByCreator for an inclusive range of periods
+    function getListenDataByCreatorInRange(
         address nftContract,
-        address creator
+        address creator,
+        uint256 fromPeriod,
+        uint256 toPeriod
     )
         external
         view
         returns (uint256[] memory tokenIds, uint256[] memory listenCounts)
     {
-        try MusicNFT(nftContract).getTokensCreatedBy(creator) returns (
-            uint256[] memory creatorTokens
+        tokenIds = _getTokensCreatedBy(nftContract, creator);
+        listenCounts = new uint256[](tokenIds.length);
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            listenCounts[i] = getListenCountInRange(
+                nftContract,
+                tokenIds[i],
+                fromPeriod,
+                toPeriod
+            );
+        }
+
+        return (tokenIds, listenCounts);
+    }
+
+    // Returns the listens of all of a creator's tokens for each period of an
+    // inclusive range, starting with `fromPeriod`
+    function getCreatorListensByPeriod(
+        address nftContract,
+        address creator,
+        uint256 fromPeriod,
+        uint256 toPeriod
+    ) external view returns (uint256[] memory periodTotals) {
+        if (fromPeriod > toPeriod) {
+            revert InvalidPeriodRange(fromPeriod, toPeriod);
+        }
+
+        uint256[] memory tokenIds = _getTokensCreatedBy(nftContract, creator);
+        periodTotals = new uint256[](toPeriod - fromPeriod + 1);
+
+        for (uint256 i = 0; i < periodTotals.length; i++) {
+            for (uint256 j = 0; j < tokenIds.length; j++) {
+                periodTotals[i] += _periodListenCount[nftContract][
+                    tokenIds[j]
+                ][fromPeriod + i];
+            }
+        }
+
+        return periodTotals;
+    }
+
+    // Returns the listens of every track of an album in track order along
+    // with their sum
+    function getAlbumListenData(
+        address nftContract,
+        uint256 albumId
+    )
+        external
+        view
+        returns (
+            uint256[] memory tokenIds,
+            uint256[] memory listenCounts,
+            uint256 totalListens
+        )
+    {
+        tokenIds = _getAlbumTracks(nftContract, albumId);
+        listenCounts = new uint256[](tokenIds.length);
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            listenCounts[i] = _listenCount[nftContract][tokenIds[i]];
+            totalListens += listenCounts[i];
+        }
+
+        return (tokenIds, listenCounts, totalListens);
+    }
+
+    // Sums the listens of all tracks of an album over an inclusive range of
+    // periods
+    function getAlbumListenCountInRange(
+        address nftContract,
+        uint256 albumId,
+        uint256 fromPeriod,
+        uint256 toPeriod
+    ) external view returns (uint256 total) {
+        if (fromPeriod > toPeriod) {
+            revert InvalidPeriodRange(fromPeriod, toPeriod);
+        }
+
+        uint256[] memory tokenIds = _getAlbumTracks(nftContract, albumId);
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            total += getListenCountInRange(
+                nftContract,
+                tokenIds[i],
+                fromPeriod,
+                toPeriod
+            );
+        }
+    }
+
+    function _recordPayment(
+        address recipient,
+        address currency,
+        uint256 amount
+    ) internal {
+        _pendingPayments[recipient][currency] += amount;
+    }
+
+    // Divides the creator's part of a listen payment among the collaborators
+    // recorded in the token's royalty split
+    function _recordSplitPayment(
+        address nftContract,
+        uint256 tokenId,
+        address currency,
+        uint256 amount
+    ) internal {
+        (address[] memory recipients, uint256[] memory shares) = MusicNFT(
+            nftContract
+        ).getRoyaltySplit(tokenId);
+
+        uint256 remainingAmount = amount;
+        uint256 lastIndex = recipients.length - 1;
+
+        for (uint256 i = 0; i < lastIndex; i++) {
+            uint256 share = (amount * shares[i]) / 10000;
+            _recordPayment(recipients[i], currency, share);
+            remainingAmount -= share;
+        }
+
+        // The last recipient receives the rounding remainder
+        _recordPayment(recipients[lastIndex], currency, remainingAmount);
+    }
+
+    // Deposits the holder share of an edition's listen payment with the
+    // edition contract, which divides it among the holders by copies held,
+    // and credits the rest to the creator. Editions set to pay the creator,
+    // or without copies in circulation, credit everything to the creator
+    function _recordEditionPayment(
+        address edition,
+        uint256 editionId,
+        address currency,
+        uint256 amount
+    ) internal {
+        MusicEditions editions = MusicEditions(edition);
+
+        uint256 holderAmount = 0;
+        if (
+            editions.getStreamingPayout(editionId) ==
+            MusicEditions.StreamingPayout.Holders &&
+            editions.totalSupply(editionId) > 0
         ) {
-            tokenIds = new uint256[](creatorTokens.length);
-            listenCounts = new uint256[](creatorTokens.length);
+            holderAmount =
+                (amount * editions.getStreamingRoyalty(editionId)) /
+                10000;
+        }
 
-            for (uint256 i = 0; i < creatorTokens.length; i++) {
-                tokenIds[i] = creatorTokens[i];
-                listenCounts[i] = _listenCount[nftContract][creatorTokens[i]];
+        if (holderAmount > 0) {
+            if (currency == address(0)) {
+                editions.depositHolderRoyalties{value: holderAmount}(
+                    editionId,
+                    currency,
+                    holderAmount
+                );
+            } else {
+                IERC20(currency).forceApprove(edition, holderAmount);
+                editions.depositHolderRoyalties(
+                    editionId,
+                    currency,
+                    holderAmount
+                );
             }
+        }
+
+        _recordPayment(
+            editions.getCreator(editionId),
+            currency,
+            amount - holderAmount
+        );
+    }
+
+    // Pool share of a token in proportion to its subscription listens. The
+    // rounding remainder stays in the contract
+    function _subscriptionPayout(
+        address nftContract,
+        uint256 tokenId,
+        uint256 period
+    ) internal view returns (uint256) {
+        uint256 totalListens = _periodSubscriptionListens[period];
+        if (totalListens == 0) {
+            return 0;
+        }
+
+        return
+            (_subscriptionPools[period] *
+                _subscriptionListens[nftContract][tokenId][period]) /
+            totalListens;
+    }
+
+    function _getTokensCreatedBy(
+        address nftContract,
+        address creator
+    ) internal view returns (uint256[] memory) {
+        try MusicNFT(nftContract).getTokensCreatedBy(creator) returns (
+            uint256[] memory tokenIds
+        ) {
+            return tokenIds;
         } catch {
             revert UnsupportedNFTContract(nftContract);
         }
+    }
+
+    // Bubbles up reverts such as AlbumNotFound and maps contracts without
+    // albums to UnsupportedNFTContract
+    function _getAlbumTracks(
+        address nftContract,
+        uint256 albumId
+    ) internal view returns (uint256[] memory) {
+        try MusicNFT(nftContract).getAlbumTracks(albumId) returns (
+            uint256[] memory tokenIds
+        ) {
+            return tokenIds;
+        } catch (bytes memory reason) {
+            if (reason.length == 0) {
+                revert UnsupportedNFTContract(nftContract);
+            }
+            assembly {
+                revert(add(reason, 32), mload(reason))
+            }
+        }
+    }
+
+    function _newTopTokens(
+        uint256 limit
+    ) internal pure returns (TopTokens memory) {
+        return TopTokens(new uint256[](limit), new uint256[](limit), 0);
+    }
+
+    // Inserts a token into the selection. When it is full the lowest entry is
+    // dropped. Earlier tokens stay ahead on equal counts
+    function _insertTopToken(
+        TopTokens memory top,
+        uint256 tokenId,
+        uint256 listenCount
+    ) internal pure {
+        uint256 capacity = top.tokenIds.length;
+
+        if (
+            top.size == capacity &&
+            (capacity == 0 || listenCount <= top.listenCounts[capacity - 1])
+        ) {
+            return;
+        }
+
+        uint256 position = top.size < capacity ? top.size : capacity - 1;
+        while (position > 0 && top.listenCounts[position - 1] < listenCount) {
+            top.tokenIds[position] = top.tokenIds[position - 1];
+            top.listenCounts[position] = top.listenCounts[position - 1];
+            position--;
+        }
+
+        top.tokenIds[position] = tokenId;
+        top.listenCounts[position] = listenCount;
+
+        if (top.size < capacity) {
+            top.size++;
+        }
+    }
+
+    // Caps a top-N limit to the number of token entries in the window
+    function _capToWindowCandidates(
+        address nftContract,
+        uint256 fromPeriod,
+        uint256 toPeriod,
+        uint256 limit
+    ) internal view returns (uint256) {
+        uint256 candidateCount = 0;
+        for (uint256 period = fromPeriod; period <= toPeriod; period++) {
+            candidateCount += _periodTokens[nftContract][period].length;
+        }
+
+        return limit < candidateCount ? limit : candidateCount;
+    }
+
+    function _containsToken(
+        TopTokens memory top,
+        uint256 tokenId
+    ) internal pure returns (bool) {
+        for (uint256 i = 0; i < top.size; i++) {
+            if (top.tokenIds[i] == tokenId) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    function _truncateTopTokens(
+        TopTokens memory top
+    ) internal pure returns (uint256[] memory, uint256[] memory) {
+        uint256[] memory tokenIds = new uint256[](top.size);
+        uint256[] memory listenCounts = new uint256[](top.size);
+
+        for (uint256 i = 0; i < top.size; i++) {
+            tokenIds[i] = top.tokenIds[i];
+            listenCounts[i] = top.listenCounts[i];
+        }
 
         return (tokenIds, listenCounts);
     }
 
-    function _recordPayment(address recipient, uint256 amount) internal {
-        _pendingPayments[recipient] += amount;
+    // The token owner, or the seller when a registered marketplace holds the
+    // token in escrow, since the marketplace cannot withdraw royalties
+    function _royaltyOwner(
+        address nftContract,
+        uint256 tokenId
+    ) internal view returns (address) {
+        address tokenOwner = MusicNFT(nftContract).ownerOf(tokenId);
+        if (!escrowContracts[tokenOwner]) {
+            return tokenOwner;
+        }
+
+        try
+            NFTMarketplace(tokenOwner).getEscrowedTokenSeller(
+                nftContract,
+                tokenId
+            )
+        returns (address seller) {
+            if (seller != address(0)) {
+                return seller;
+            }
+        } catch {}
+        return tokenOwner;
+    }
+
+    // Number of tokenIds ever minted by a MusicNFT contract. Deployments
+    // that predate getTotalMinted cannot burn tokens, so their supply is the
+    // same number
+    function _getTotalMinted(
+        address nftContract
+    ) internal view returns (uint256) {
+        try MusicNFT(nftContract).getTotalMinted() returns (uint256 minted) {
+            return minted;
+        } catch {}
+
+        try MusicNFT(nftContract).getTotalSupply() returns (uint256 supply) {
+            return supply;
+        } catch {
+            revert UnsupportedNFTContract(nftContract);
+        }
     }
 
     function _tokenExists(
         address nftContract,
         uint256 tokenId
     ) internal view returns (bool) {
+        if (editionContracts[nftContract]) {
+            return MusicEditions(nftContract).tokenExists(tokenId);
+        }
+
         try MusicNFT(nftContract).ownerOf(tokenId) returns (address) {
             return true;
         } catch {
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+// A MusicNFT deployment from before tokens could be burned, which only
+// exposes getTotalSupply
+contract MockLegacyMusicNFT is ERC721 {
+    uint256 private _tokenIds;
+
+    constructor() ERC721("MusicNFT", "MNFT") {}
+
+    function mint(address to) external {
+        _tokenIds++;
+        _mint(to, _tokenIds);
+    }
+
+    function getTotalSupply() public view returns (uint256) {
+        return _tokenIds;
+    }
+}
@@ -0,0 +1,8 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+
+const MusicEditionsModule = buildModule('MusicEditionsModule', (m) => {
+  const musicEditions = m.contract('MusicEditions', []);
+  return { musicEditions };
+});
+
+export default MusicEditionsModule;
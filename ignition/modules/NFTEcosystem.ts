@@ -1,4 +1,5 @@
 import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import MusicEditionsModule from './MusicEditions';
 import MusicNFTModule from './MusicNFT';
 import NFTMarketplaceModule from './NFTMarketplace';
 import NFTStreamingModule from './NFTStreaming';
@@ -7,11 +8,20 @@ const NFTEcosystemModule = buildModule('NFTEcosystemModule', (m) => {
   const { musicNFT } = m.useModule(MusicNFTModule);
   const { nftMarketplace } = m.useModule(NFTMarketplaceModule);
   const { nftStreaming } = m.useModule(NFTStreamingModule);
+  const { musicEditions } = m.useModule(MusicEditionsModule);
+
+  // Streaming royalties of listed or auctioned tokens go to their sellers
+  m.call(nftStreaming, 'setEscrowContract', [nftMarketplace, true]);
+
+  // Listens of editions pay the holder share into MusicEditions
+  m.call(nftStreaming, 'setEditionContract', [musicEditions, true]);
+  m.call(musicEditions, 'setRoyaltyDepositor', [nftStreaming, true]);
 
   return {
     musicNFT,
     nftMarketplace,
     nftStreaming,
+    musicEditions,
   };
 });
 
@@ -0,0 +1,217 @@
+import { Interface, Log, Provider } from 'ethers';
+import type { EcosystemAddresses } from '../sdk';
+import {
+  MusicEditions__factory,
+  MusicNFT__factory,
+  NFTMarketplace__factory,
+  NFTStreaming__factory,
+} from '../typechain-types';
+import { IndexerStore } from './IndexerStore';
+import { IndexedEvent } from './types';
+
+// Events that affect the indexed state; everything else is ignored
+export const INDEXED_EVENTS = [
+  'NFTMinted',
+  'MetadataUpdated',
+  'RoyaltySplitSet',
+  'RoyaltyUpdateExecuted',
+  'Transfer',
+  'NFTListed',
+  'NFTSold',
+  'NFTListingCancelled',
+  'ListingPriceUpdated',
+  'ListingExpiredReclaimed',
+  'ListingInvalidated',
+  'EnglishAuctionCreated',
+  'DutchAuctionCreated',
+  'BidPlaced',
+  'AuctionSettled',
+  'AuctionCancelled',
+  'BundleListed',
+  'BundleItemListed',
+  'BundleItemSold',
+  'BundleSold',
+  'BundleListingCancelled',
+  'OfferCreated',
+  'OfferAccepted',
+  'OfferCancelled',
+  'OfferExpiredRefunded',
+  'BatchListensRecorded',
+  'ListenReportAccepted',
+  'SubscriptionListensRecorded',
+  'SubscriptionPayoutClaimed',
+  'PaymentWithdrawn',
+  'VoucherRedeemed',
+  'MarketFeeUpdated',
+  'FeeTreasuryUpdated',
+  'EscrowContractUpdated',
+  'EditionContractUpdated',
+  'EditionCreated',
+  'StreamingPayoutUpdated',
+  'TransferSingle',
+  'EditionListed',
+  'EditionSold',
+];
+
+export interface IndexerOptions {
+  provider: Provider;
+  addresses: EcosystemAddresses;
+  store: IndexerStore;
+  // First block to index when the store is empty
+  startBlock?: number;
+  // Maximum number of blocks requested per eth_getLogs call
+  batchSize?: number;
+  // Blocks to stay behind the chain head
+  confirmations?: number;
+}
+
+export class Indexer {
+  public readonly store: IndexerStore;
+
+  private readonly _provider: Provider;
+  private readonly _interfaces: Map<string, Interface>;
+  private readonly _startBlock: number;
+  private readonly _batchSize: number;
+  private readonly _confirmations: number;
+  private _timer?: NodeJS.Timeout;
+
+  constructor(options: IndexerOptions) {
+    this.store = options.store;
+    this._provider = options.provider;
+    this._startBlock = options.startBlock ?? 0;
+    this._batchSize = options.batchSize ?? 2000;
+    this._confirmations = options.confirmations ?? 0;
+
+    const { musicNFT, nftMarketplace, nftStreaming, musicEditions } =
+      options.addresses;
+    this._interfaces = new Map<string, Interface>([
+      [musicNFT.toLowerCase(), MusicNFT__factory.createInterface()],
+      [nftMarketplace.toLowerCase(), NFTMarketplace__factory.createInterface()],
+      [nftStreaming.toLowerCase(), NFTStreaming__factory.createInterface()],
+    ]);
+    if (musicEditions !== undefined) {
+      this._interfaces.set(
+        musicEditions.toLowerCase(),
+        MusicEditions__factory.createInterface()
+      );
+    }
+  }
+
+  /**
+   * Indexes every block up to the current head (minus confirmations) and
+   * returns the new cursor. Reorgs are detected by comparing the stored
+   * checkpoints with the canonical chain before new blocks are fetched.
+   */
+  async sync(): Promise<number | undefined> {
+    await this._handleReorg();
+
+    const head = (await this._provider.getBlockNumber()) - this._confirmations;
+    let cursor = this.store.getCursor();
+
+    while ((cursor ?? this._startBlock - 1) < head) {
+      const fromBlock = cursor === undefined ? this._startBlock : cursor + 1;
+      const toBlock = Math.min(fromBlock + this._batchSize - 1, head);
+
+      const [logs, block] = await Promise.all([
+        this._provider.getLogs({
+          address: [...this._interfaces.keys()],
+          fromBlock,
+          toBlock,
+        }),
+        this._provider.getBlock(toBlock),
+      ]);
+
+      const events = await this._decodeLogs(logs);
+      this.store.applyBatch(events, {
+        blockNumber: toBlock,
+        blockHash: block!.hash!,
+      });
+
+      cursor = toBlock;
+    }
+
+    return cursor;
+  }
+
+  // Polls for new blocks until stop() is called
+  start(pollIntervalMs = 4000, onError: (error: unknown) => void = () => {}) {
+    const poll = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        onError(error);
+      }
+
+      if (this._timer !== undefined) {
+        this._timer = setTimeout(poll, pollIntervalMs);
+      }
+    };
+
+    this._timer = setTimeout(poll, 0);
+  }
+
+  stop() {
+    clearTimeout(this._timer);
+    this._timer = undefined;
+  }
+
+  private async _handleReorg() {
+    const checkpoints = this.store.getCheckpoints();
+    if (checkpoints.length === 0) {
+      return;
+    }
+
+    for (const checkpoint of checkpoints) {
+      const block = await this._provider.getBlock(checkpoint.blockNumber);
+      if (block?.hash === checkpoint.blockHash) {
+        if (checkpoint !== checkpoints[0]) {
+          this.store.rollback(checkpoint.blockNumber);
+        }
+        return;
+      }
+    }
+
+    // Every checkpoint was reorged out, so start again from scratch
+    this.store.reset();
+  }
+
+  private async _decodeLogs(logs: Log[]): Promise<IndexedEvent[]> {
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+
+    const sorted = [...logs].sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+    );
+
+    for (const log of sorted) {
+      const iface = this._interfaces.get(log.address.toLowerCase());
+      const parsed = iface?.parseLog(log);
+      if (!parsed || !INDEXED_EVENTS.includes(parsed.name)) {
+        continue;
+      }
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this._provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block!.timestamp);
+      }
+
+      const args: Record<string, string> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        args[input.name] = String(parsed.args[i]);
+      });
+
+      events.push({
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+        contract: log.address,
+        name: parsed.name,
+        args,
+      });
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,1269 @@
+import Database from 'better-sqlite3';
+import { ZeroAddress } from 'ethers';
+import { listenPeriodOf } from '../sdk';
+import type { ListenStats, RoyaltyShare } from '../sdk';
+import { DERIVED_TABLES, SCHEMA } from './schema';
+import {
+  Checkpoint,
+  IndexedEvent,
+  ListingQuery,
+  ListingRecord,
+  ListingStatus,
+  PendingPayment,
+  TokenKey,
+  TokenRecord,
+  WithdrawalRecord,
+} from './types';
+
+// Number of block checkpoints kept for reorg detection
+const DEFAULT_CHECKPOINT_HISTORY = 256;
+
+// Initial value of NFTMarketplace.marketFeePercentage, used until a
+// MarketFeeUpdated event is indexed
+const DEFAULT_MARKET_FEE_PERCENTAGE = 250n;
+
+/**
+ * SQLite store holding the indexed ecosystem state. The events table is the
+ * source of truth; every other table is derived from it and can be rebuilt
+ * by replaying the events, which is how rollbacks are handled.
+ */
+export class IndexerStore {
+  public readonly db: Database.Database;
+
+  constructor(
+    filename = ':memory:',
+    private readonly _checkpointHistory = DEFAULT_CHECKPOINT_HISTORY
+  ) {
+    this.db = new Database(filename);
+    if (filename !== ':memory:') {
+      this.db.pragma('journal_mode = WAL');
+    }
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // Last block fully indexed, or undefined when nothing was indexed yet
+  getCursor(): number | undefined {
+    const row = this.db
+      .prepare('SELECT block_number FROM cursor WHERE id = 1')
+      .get() as { block_number: number } | undefined;
+    return row?.block_number;
+  }
+
+  // Checkpoints ordered from the most recent to the oldest
+  getCheckpoints(): Checkpoint[] {
+    const rows = this.db
+      .prepare(
+        'SELECT block_number, block_hash FROM checkpoints ORDER BY block_number DESC'
+      )
+      .all() as { block_number: number; block_hash: string }[];
+
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+    }));
+  }
+
+  // Stores a batch of events and advances the cursor to `checkpoint`
+  applyBatch(events: IndexedEvent[], checkpoint: Checkpoint) {
+    this.db.transaction(() => {
+      const insertEvent = this.db.prepare(
+        `INSERT INTO events (block_number, log_index, block_hash, transaction_hash, timestamp, contract, name, args)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.blockHash,
+          event.transactionHash,
+          event.timestamp,
+          event.contract,
+          event.name,
+          JSON.stringify(event.args)
+        );
+        this._applyEvent(event);
+      }
+
+      this._setCursor(checkpoint.blockNumber);
+      this.db
+        .prepare(
+          'INSERT OR REPLACE INTO checkpoints (block_number, block_hash) VALUES (?, ?)'
+        )
+        .run(checkpoint.blockNumber, checkpoint.blockHash);
+      this.db
+        .prepare(
+          `DELETE FROM checkpoints WHERE block_number NOT IN (
+             SELECT block_number FROM checkpoints ORDER BY block_number DESC LIMIT ?
+           )`
+        )
+        .run(this._checkpointHistory);
+    })();
+  }
+
+  // Drops everything indexed after `blockNumber` and rebuilds the derived tables
+  rollback(blockNumber: number) {
+    this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM events WHERE block_number > ?')
+        .run(blockNumber);
+      this.db
+        .prepare('DELETE FROM checkpoints WHERE block_number > ?')
+        .run(blockNumber);
+      this._setCursor(blockNumber);
+
+      for (const table of DERIVED_TABLES) {
+        this.db.exec(`DELETE FROM ${table}`);
+      }
+
+      const rows = this.db
+        .prepare('SELECT * FROM events ORDER BY block_number, log_index')
+        .all() as EventRow[];
+      for (const row of rows) {
+        this._applyEvent(toIndexedEvent(row));
+      }
+    })();
+  }
+
+  // Removes all indexed data, including the cursor
+  reset() {
+    this.db.transaction(() => {
+      for (const table of [
+        'cursor',
+        'checkpoints',
+        'events',
+        ...DERIVED_TABLES,
+      ]) {
+        this.db.exec(`DELETE FROM ${table}`);
+      }
+    })();
+  }
+
+  getEvents(fromBlock = 0): IndexedEvent[] {
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM events WHERE block_number >= ? ORDER BY block_number, log_index'
+      )
+      .all(fromBlock) as EventRow[];
+    return rows.map(toIndexedEvent);
+  }
+
+  getToken(nftContract: string, tokenId: bigint): TokenRecord | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM tokens WHERE nft_contract = ? AND token_id = ?')
+      .get(nftContract, tokenId) as TokenRow | undefined;
+    return row && toTokenRecord(row);
+  }
+
+  getTokensByOwner(owner: string): TokenRecord[] {
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM tokens WHERE owner = ? ORDER BY nft_contract, token_id'
+      )
+      .all(owner) as TokenRow[];
+    return rows.map(toTokenRecord);
+  }
+
+  // Tokens minted by `creator`, optionally starting after a given token
+  getTokensByCreator(
+    creator: string,
+    after?: TokenKey,
+    limit = -1
+  ): TokenRecord[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM tokens WHERE creator = ? AND (nft_contract, token_id) > (?, ?)
+         ORDER BY nft_contract, token_id LIMIT ?`
+      )
+      .all(
+        creator,
+        after?.nftContract ?? '',
+        after?.tokenId ?? -1,
+        limit
+      ) as TokenRow[];
+    return rows.map(toTokenRecord);
+  }
+
+  queryListings(query: ListingQuery = {}): ListingRecord[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.status !== undefined) {
+      const statuses = [query.status].flat();
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+      params.push(...statuses);
+    }
+    if (query.active !== undefined) {
+      const buyable = `(status = 'active' AND (expires_at = 0 OR expires_at > ?))`;
+      conditions.push(query.active ? buyable : `NOT ${buyable}`);
+      params.push(query.now ?? Math.floor(Date.now() / 1000));
+    }
+    if (query.seller !== undefined) {
+      conditions.push('seller = ?');
+      params.push(query.seller);
+    }
+    if (query.nftContract !== undefined) {
+      conditions.push('nft_contract = ?');
+      params.push(query.nftContract);
+    }
+    if (query.currency !== undefined) {
+      conditions.push('currency = ?');
+      params.push(query.currency);
+    }
+    if (query.minPrice !== undefined) {
+      conditions.push('(length(price), price) >= (?, ?)');
+      params.push(...priceKey(query.minPrice));
+    }
+    if (query.maxPrice !== undefined) {
+      conditions.push('(length(price), price) <= (?, ?)');
+      params.push(...priceKey(query.maxPrice));
+    }
+
+    const sort = query.sort ?? 'oldest';
+    const { after } = query;
+    let order: string;
+
+    switch (sort) {
+      case 'price':
+      case '-price': {
+        const direction = sort === 'price' ? 'ASC' : 'DESC';
+        order = `length(price) ${direction}, price ${direction}, listing_id ${direction}`;
+        if (after) {
+          conditions.push(
+            `(length(price), price, listing_id) ${
+              sort === 'price' ? '>' : '<'
+            } (?, ?, ?)`
+          );
+          params.push(...priceKey(after.price), after.listingId);
+        }
+        break;
+      }
+      case 'newest':
+        order = 'listing_id DESC';
+        if (after) {
+          conditions.push('listing_id < ?');
+          params.push(after.listingId);
+        }
+        break;
+      case 'oldest':
+        order = 'listing_id ASC';
+        if (after) {
+          conditions.push('listing_id > ?');
+          params.push(after.listingId);
+        }
+        break;
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM listings ${where} ORDER BY ${order} LIMIT ?`)
+      .all(...params, query.limit ?? -1) as ListingRow[];
+
+    return rows.map(toListingRecord);
+  }
+
+  getListing(listingId: bigint): ListingRecord | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM listings WHERE listing_id = ?')
+      .get(listingId) as ListingRow | undefined;
+    return row && toListingRecord(row);
+  }
+
+  getActiveListingByToken(
+    nftContract: string,
+    tokenId: bigint
+  ): ListingRecord | undefined {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM listings WHERE nft_contract = ? AND token_id = ? AND status = 'active'`
+      )
+      .get(nftContract, tokenId) as ListingRow | undefined;
+    return row && toListingRecord(row);
+  }
+
+  getActiveListingsCount(): number {
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM listings WHERE status = 'active'`)
+      .get() as { count: number };
+    return row.count;
+  }
+
+  getListenCount(nftContract: string, tokenId: bigint): bigint {
+    const row = this.db
+      .prepare(
+        'SELECT COALESCE(SUM(count), 0) AS total FROM listens WHERE nft_contract = ? AND token_id = ?'
+      )
+      .get(nftContract, tokenId) as { total: number };
+    return BigInt(row.total);
+  }
+
+  getTotalListenCount(nftContract: string): bigint {
+    const row = this.db
+      .prepare(
+        'SELECT COALESCE(SUM(count), 0) AS total FROM listens WHERE nft_contract = ?'
+      )
+      .get(nftContract) as { total: number };
+    return BigInt(row.total);
+  }
+
+  // Most listened tokens, optionally only counting listens reported for the
+  // periods from the one containing `since` (unix seconds), however late
+  // they were recorded
+  getTopListenedTokens(
+    nftContract: string,
+    limit: number,
+    since = 0
+  ): ListenStats[] {
+    const sincePeriod = listenPeriodOf(since);
+    const rows = this.db
+      .prepare(
+        `SELECT token_id, SUM(count) AS total FROM listens
+         WHERE nft_contract = ? AND period >= ?
+         GROUP BY token_id ORDER BY total DESC, token_id ASC LIMIT ?`
+      )
+      .all(nftContract, sincePeriod, limit) as {
+      token_id: number;
+      total: number;
+    }[];
+
+    return rows.map((row) => ({
+      nftContract,
+      tokenId: BigInt(row.token_id),
+      listenCount: BigInt(row.total),
+    }));
+  }
+
+  getWithdrawals(recipient: string): WithdrawalRecord[] {
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM withdrawals WHERE recipient = ? ORDER BY block_number, log_index'
+      )
+      .all(recipient) as WithdrawalRow[];
+
+    return rows.map((row) => ({
+      contract: row.contract,
+      recipient: row.recipient,
+      currency: row.currency,
+      amount: BigInt(row.amount),
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+    }));
+  }
+
+  // Balances credited to `account` and not yet withdrawn, per contract and currency
+  getPendingPayments(account: string): PendingPayment[] {
+    const rows = this.db
+      .prepare(
+        'SELECT contract, currency, credited, withdrawn FROM payments WHERE account = ? ORDER BY contract, currency'
+      )
+      .all(account) as {
+      contract: string;
+      currency: string;
+      credited: string;
+      withdrawn: string;
+    }[];
+
+    return rows.map((row) => ({
+      contract: row.contract,
+      currency: row.currency,
+      amount: BigInt(row.credited) - BigInt(row.withdrawn),
+    }));
+  }
+
+  private _setCursor(blockNumber: number) {
+    this.db
+      .prepare(
+        'INSERT INTO cursor (id, block_number) VALUES (1, ?) ON CONFLICT (id) DO UPDATE SET block_number = excluded.block_number'
+      )
+      .run(blockNumber);
+  }
+
+  private _applyEvent(event: IndexedEvent) {
+    const { args, blockNumber } = event;
+
+    switch (event.name) {
+      case 'Transfer':
+        if (args.to === ZeroAddress) {
+          // Burned tokens are no longer served, nor listed for their creator
+          this.db
+            .prepare(
+              'DELETE FROM tokens WHERE nft_contract = ? AND token_id = ?'
+            )
+            .run(event.contract, args.tokenId);
+        } else {
+          // Mints emit Transfer before NFTMinted, so the row may not exist yet
+          this.db
+            .prepare(
+              `INSERT INTO tokens (nft_contract, token_id, owner, minted_block, updated_block)
+               VALUES (?, ?, ?, ?, ?)
+               ON CONFLICT (nft_contract, token_id) DO UPDATE SET owner = excluded.owner, updated_block = excluded.updated_block`
+            )
+            .run(
+              event.contract,
+              args.tokenId,
+              args.to,
+              blockNumber,
+              blockNumber
+            );
+        }
+
+        // A non-custodial listing can no longer be bought once its token left
+        // the seller, even if it comes back. A sale closes it again as sold
+        this.db
+          .prepare(
+            `UPDATE listings SET status = 'invalidated', closed_block = ?
+             WHERE nft_contract = ? AND token_id = ? AND seller = ? AND escrowed = 0 AND status = 'active'`
+          )
+          .run(blockNumber, event.contract, args.tokenId, args.from);
+        break;
+
+      case 'NFTMinted':
+        this.db
+          .prepare(
+            `UPDATE tokens SET creator = ?, token_uri = ?, sales_royalty_percentage = ?, streaming_royalty_percentage = ?, updated_block = ?
+             WHERE nft_contract = ? AND token_id = ?`
+          )
+          .run(
+            args.creator,
+            args.tokenURI,
+            args.salesRoyaltyPercentage,
+            args.streamingRoyaltyPercentage,
+            blockNumber,
+            event.contract,
+            args.tokenId
+          );
+        break;
+
+      case 'RoyaltySplitSet': {
+        // Array arguments are stored comma separated in the events log
+        const recipients = args.recipients.split(',');
+        const shares = args.shares.split(',');
+        const split = recipients.map((recipient, i) => ({
+          recipient,
+          share: shares[i],
+        }));
+
+        this.db
+          .prepare(
+            'UPDATE tokens SET royalty_split = ?, updated_block = ? WHERE nft_contract = ? AND token_id = ?'
+          )
+          .run(
+            JSON.stringify(split),
+            blockNumber,
+            event.contract,
+            args.tokenId
+          );
+        break;
+      }
+
+      case 'RoyaltyUpdateExecuted':
+        this.db
+          .prepare(
+            `UPDATE tokens SET sales_royalty_percentage = ?, streaming_royalty_percentage = ?, updated_block = ?
+             WHERE nft_contract = ? AND token_id = ?`
+          )
+          .run(
+            args.salesRoyaltyPercentage,
+            args.streamingRoyaltyPercentage,
+            blockNumber,
+            event.contract,
+            args.tokenId
+          );
+        break;
+
+      case 'MetadataUpdated':
+        this.db
+          .prepare(
+            'UPDATE tokens SET token_uri = ?, updated_block = ? WHERE nft_contract = ? AND token_id = ?'
+          )
+          .run(args.newTokenURI, blockNumber, event.contract, args.tokenId);
+        break;
+
+      case 'NFTListed':
+        this.db
+          .prepare(
+            `INSERT INTO listings (listing_id, seller, nft_contract, token_id, price, currency, expires_at, escrowed, status, created_block)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'active', ?)`
+          )
+          .run(
+            args.listingId,
+            args.seller,
+            args.nftContract,
+            args.tokenId,
+            args.price,
+            args.currency,
+            args.expiresAt,
+            args.escrowed === 'true' ? 1 : 0,
+            blockNumber
+          );
+        break;
+
+      case 'ListingPriceUpdated':
+        this.db
+          .prepare('UPDATE listings SET price = ? WHERE listing_id = ?')
+          .run(args.newPrice, args.listingId);
+        break;
+
+      case 'NFTSold':
+        this._closeListing(args.listingId, 'sold', args.buyer, blockNumber);
+        // NFTSold does not carry the currency, the listing it closes does
+        this._creditSale(
+          event.contract,
+          args.seller,
+          args.nftContract,
+          BigInt(args.tokenId),
+          BigInt(args.price),
+          this.getListing(BigInt(args.listingId))?.currency ?? ZeroAddress
+        );
+        break;
+
+      case 'NFTListingCancelled':
+        this._closeListing(args.listingId, 'cancelled', null, blockNumber);
+        break;
+
+      case 'ListingExpiredReclaimed':
+        this._closeListing(args.listingId, 'expired', null, blockNumber);
+        break;
+
+      case 'ListingInvalidated':
+        this._closeListing(args.listingId, 'invalidated', null, blockNumber);
+        break;
+
+      case 'EnglishAuctionCreated':
+      case 'DutchAuctionCreated':
+        this.db
+          .prepare(
+            `INSERT INTO auctions (auction_id, seller, nft_contract, token_id, highest_bid, status)
+             VALUES (?, ?, ?, ?, '0', 'active')`
+          )
+          .run(args.auctionId, args.seller, args.nftContract, args.tokenId);
+        break;
+
+      // Outbid bidders are refunded through the pull-payment ledger
+      case 'BidPlaced': {
+        const auction = this.db
+          .prepare(
+            'SELECT highest_bidder, highest_bid FROM auctions WHERE auction_id = ?'
+          )
+          .get(args.auctionId) as
+          | { highest_bidder: string | null; highest_bid: string }
+          | undefined;
+        if (auction?.highest_bidder) {
+          this._addPayment(
+            event.contract,
+            auction.highest_bidder,
+            ZeroAddress,
+            BigInt(auction.highest_bid),
+            0n
+          );
+        }
+
+        this.db
+          .prepare(
+            'UPDATE auctions SET highest_bidder = ?, highest_bid = ? WHERE auction_id = ?'
+          )
+          .run(args.bidder, args.amount, args.auctionId);
+        break;
+      }
+
+      // Auctions are always paid in native ETH
+      case 'AuctionSettled':
+        this.db
+          .prepare(
+            `UPDATE auctions SET highest_bidder = ?, highest_bid = ?, status = 'settled' WHERE auction_id = ?`
+          )
+          .run(args.winner, args.price, args.auctionId);
+        this._creditSale(
+          event.contract,
+          args.seller,
+          args.nftContract,
+          BigInt(args.tokenId),
+          BigInt(args.price),
+          ZeroAddress
+        );
+        break;
+
+      case 'AuctionCancelled':
+        this.db
+          .prepare(
+            `UPDATE auctions SET status = 'cancelled' WHERE auction_id = ?`
+          )
+          .run(args.auctionId);
+        break;
+
+      case 'BundleListed':
+        this.db
+          .prepare(
+            `INSERT INTO bundles (bundle_id, seller, price, currency, status) VALUES (?, ?, ?, ?, 'active')`
+          )
+          .run(args.bundleId, args.seller, args.price, args.currency);
+        break;
+
+      case 'BundleItemListed':
+        this.db
+          .prepare(
+            'INSERT INTO bundle_items (bundle_id, nft_contract, token_id) VALUES (?, ?, ?)'
+          )
+          .run(args.bundleId, args.nftContract, args.tokenId);
+        break;
+
+      // Each item pays its own royalty and market fee on its share of the
+      // bundle price
+      case 'BundleItemSold': {
+        const bundle = this.db
+          .prepare('SELECT seller, currency FROM bundles WHERE bundle_id = ?')
+          .get(args.bundleId) as
+          | { seller: string; currency: string }
+          | undefined;
+        if (bundle) {
+          this._creditSale(
+            event.contract,
+            bundle.seller,
+            args.nftContract,
+            BigInt(args.tokenId),
+            BigInt(args.price),
+            bundle.currency
+          );
+        }
+        break;
+      }
+
+      case 'BundleSold':
+      case 'BundleListingCancelled':
+        this.db
+          .prepare('UPDATE bundles SET status = ? WHERE bundle_id = ?')
+          .run(
+            event.name === 'BundleSold' ? 'sold' : 'cancelled',
+            args.bundleId
+          );
+        break;
+
+      case 'EditionListed':
+        this.db
+          .prepare(
+            `INSERT INTO edition_listings (listing_id, seller, nft_contract, edition_id, currency)
+             VALUES (?, ?, ?, ?, ?)`
+          )
+          .run(
+            args.listingId,
+            args.seller,
+            args.nftContract,
+            args.editionId,
+            args.currency
+          );
+        break;
+
+      case 'EditionSold': {
+        const listing = this.db
+          .prepare(
+            'SELECT nft_contract, edition_id, currency FROM edition_listings WHERE listing_id = ?'
+          )
+          .get(args.listingId) as
+          | { nft_contract: string; edition_id: number; currency: string }
+          | undefined;
+        if (listing) {
+          this._creditSale(
+            event.contract,
+            args.seller,
+            listing.nft_contract,
+            BigInt(listing.edition_id),
+            BigInt(args.price),
+            listing.currency
+          );
+        }
+        break;
+      }
+
+      case 'OfferCreated':
+        this.db
+          .prepare(
+            `INSERT INTO offers (offer_id, buyer, amount, status) VALUES (?, ?, ?, 'active')`
+          )
+          .run(args.offerId, args.buyer, args.amount);
+        break;
+
+      // Offers are always paid in native ETH
+      case 'OfferAccepted':
+        this.db
+          .prepare(`UPDATE offers SET status = 'accepted' WHERE offer_id = ?`)
+          .run(args.offerId);
+        this._creditSale(
+          event.contract,
+          args.seller,
+          args.nftContract,
+          BigInt(args.tokenId),
+          BigInt(args.amount),
+          ZeroAddress
+        );
+        break;
+
+      // Cancelled and expired offers are refunded through the pull-payment
+      // ledger
+      case 'OfferCancelled':
+      case 'OfferExpiredRefunded': {
+        const offer = this.db
+          .prepare('SELECT amount FROM offers WHERE offer_id = ?')
+          .get(args.offerId) as { amount: string } | undefined;
+        if (offer) {
+          this._addPayment(
+            event.contract,
+            args.buyer,
+            ZeroAddress,
+            BigInt(offer.amount),
+            0n
+          );
+        }
+
+        this.db
+          .prepare(`UPDATE offers SET status = ? WHERE offer_id = ?`)
+          .run(
+            event.name === 'OfferCancelled' ? 'cancelled' : 'expired',
+            args.offerId
+          );
+        break;
+      }
+
+      case 'BatchListensRecorded':
+        this._insertListens(event, args.royaltyAmount, args.currency, null);
+        this._creditListens(event);
+        break;
+
+      // Emitted right after the BatchListensRecorded of the same report
+      case 'ListenReportAccepted':
+        this.db
+          .prepare(
+            'UPDATE listens SET period = ? WHERE block_number = ? AND log_index = ?'
+          )
+          .run(args.period, blockNumber, event.logIndex - 1);
+        break;
+
+      // Subscription listens are paid later from the period's pool
+      case 'SubscriptionListensRecorded':
+        this._insertListens(event, '0', ZeroAddress, args.period);
+        break;
+
+      // Pool shares are paid in native ETH with the same split as listens
+      case 'SubscriptionPayoutClaimed':
+        this._creditListens({
+          ...event,
+          args: { ...args, royaltyAmount: args.amount, currency: ZeroAddress },
+        });
+        break;
+
+      case 'PaymentWithdrawn': {
+        // MusicNFT only pays out voucher proceeds in ETH and omits the currency
+        const currency = args.currency ?? ZeroAddress;
+        this.db
+          .prepare(
+            `INSERT INTO withdrawals (block_number, log_index, contract, recipient, currency, amount, timestamp)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            blockNumber,
+            event.logIndex,
+            event.contract,
+            args.recipient,
+            currency,
+            args.amount,
+            event.timestamp
+          );
+        this._addPayment(
+          event.contract,
+          args.recipient,
+          currency,
+          0n,
+          BigInt(args.amount)
+        );
+        break;
+      }
+
+      case 'VoucherRedeemed':
+        this._addPayment(
+          event.contract,
+          args.creator,
+          ZeroAddress,
+          BigInt(args.price),
+          0n
+        );
+        break;
+
+      case 'MarketFeeUpdated':
+        this.db
+          .prepare(
+            `INSERT INTO market_settings (contract, fee_percentage) VALUES (?, ?)
+             ON CONFLICT (contract) DO UPDATE SET fee_percentage = excluded.fee_percentage`
+          )
+          .run(event.contract, args.newPercentage);
+        break;
+
+      case 'FeeTreasuryUpdated':
+        this.db
+          .prepare(
+            `INSERT INTO market_settings (contract, fee_treasury) VALUES (?, ?)
+             ON CONFLICT (contract) DO UPDATE SET fee_treasury = excluded.fee_treasury`
+          )
+          .run(event.contract, args.newTreasury);
+        break;
+
+      case 'EscrowContractUpdated':
+        if (args.registered === 'true') {
+          this.db
+            .prepare(
+              'INSERT OR IGNORE INTO escrow_contracts (contract, escrow) VALUES (?, ?)'
+            )
+            .run(event.contract, args.escrow);
+        } else {
+          this.db
+            .prepare(
+              'DELETE FROM escrow_contracts WHERE contract = ? AND escrow = ?'
+            )
+            .run(event.contract, args.escrow);
+        }
+        break;
+
+      case 'EditionContractUpdated':
+        if (args.registered === 'true') {
+          this.db
+            .prepare(
+              'INSERT OR IGNORE INTO edition_contracts (contract, edition) VALUES (?, ?)'
+            )
+            .run(event.contract, args.edition);
+        } else {
+          this.db
+            .prepare(
+              'DELETE FROM edition_contracts WHERE contract = ? AND edition = ?'
+            )
+            .run(event.contract, args.edition);
+        }
+        break;
+
+      case 'EditionCreated':
+        this.db
+          .prepare(
+            `INSERT INTO editions (nft_contract, edition_id, creator, sales_royalty_percentage, streaming_royalty_percentage, holders_payout, supply)
+             VALUES (?, ?, ?, ?, ?, 1, 0)`
+          )
+          .run(
+            event.contract,
+            args.editionId,
+            args.creator,
+            args.salesRoyaltyPercentage,
+            args.streamingRoyaltyPercentage
+          );
+        break;
+
+      // MusicEditions.StreamingPayout.Holders is the first enum value
+      case 'StreamingPayoutUpdated':
+        this.db
+          .prepare(
+            'UPDATE editions SET holders_payout = ? WHERE nft_contract = ? AND edition_id = ?'
+          )
+          .run(
+            args.streamingPayout === '0' ? 1 : 0,
+            event.contract,
+            args.editionId
+          );
+        break;
+
+      case 'TransferSingle':
+        if (args.from === ZeroAddress) {
+          this.db
+            .prepare(
+              'UPDATE editions SET supply = supply + ? WHERE nft_contract = ? AND edition_id = ?'
+            )
+            .run(args.value, event.contract, args.id);
+        }
+        break;
+    }
+  }
+
+  // Replays how NFTMarketplace._distributeSale splits a sale price into the
+  // royalty, the market fee and the seller proceeds
+  private _creditSale(
+    contract: string,
+    seller: string,
+    nftContract: string,
+    tokenId: bigint,
+    price: bigint,
+    currency: string
+  ) {
+    const token = this.getToken(nftContract, tokenId);
+    const edition = token ? undefined : this._getEdition(nftContract, tokenId);
+
+    let remaining = price;
+
+    // Only MusicNFT and MusicEditions royalties are known to the indexer.
+    // Editions have no collaborator splits and pay their creator
+    if (token?.creator && token.salesRoyaltyPercentage) {
+      const royalty = (price * token.salesRoyaltyPercentage) / 10000n;
+      this._creditSplit(contract, token, currency, royalty);
+      remaining -= royalty;
+    } else if (edition && edition.salesRoyaltyPercentage > 0n) {
+      const royalty = (price * edition.salesRoyaltyPercentage) / 10000n;
+      this._addPayment(contract, edition.creator, currency, royalty, 0n);
+      remaining -= royalty;
+    }
+
+    // The fee is still deducted when the fee treasury is unknown, for
+    // example when indexing started after the deployment block
+    const settings = this._getMarketSettings(contract);
+    const marketFee = (price * settings.feePercentage) / 10000n;
+    if (settings.feeTreasury && marketFee > 0n) {
+      this._addPayment(contract, settings.feeTreasury, currency, marketFee, 0n);
+    }
+    remaining -= marketFee;
+
+    this._addPayment(contract, seller, currency, remaining, 0n);
+  }
+
+  private _insertListens(
+    event: IndexedEvent,
+    amount: string,
+    currency: string,
+    period: string | null
+  ) {
+    const { args } = event;
+    this.db
+      .prepare(
+        `INSERT INTO listens (block_number, log_index, nft_contract, token_id, count, amount, currency, timestamp, period)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        event.blockNumber,
+        event.logIndex,
+        args.nftContract,
+        args.tokenId,
+        args.count,
+        amount,
+        currency,
+        event.timestamp,
+        period
+      );
+  }
+
+  // Replays the owner and creator split of NFTStreaming.recordBatchListens
+  private _creditListens(event: IndexedEvent) {
+    const { args } = event;
+    const amount = BigInt(args.royaltyAmount);
+    const { currency } = args;
+
+    if (this._isEditionContract(event.contract, args.nftContract)) {
+      this._creditEditionListens(event, amount);
+      return;
+    }
+
+    const token = this.getToken(args.nftContract, BigInt(args.tokenId));
+    if (!token || amount === 0n) {
+      return;
+    }
+
+    const owner = this._royaltyOwner(event.contract, token);
+    if (!token.creator) {
+      this._addPayment(event.contract, owner, currency, amount, 0n);
+      return;
+    }
+
+    const royalty =
+      (amount * (token.streamingRoyaltyPercentage ?? 0n)) / 10000n;
+    if (royalty > 0n) {
+      this._addPayment(event.contract, owner, currency, royalty, 0n);
+    }
+    this._creditSplit(event.contract, token, currency, amount - royalty);
+  }
+
+  // Replays NFTStreaming._recordEditionPayment. The holder share is
+  // deposited with MusicEditions, whose per-holder balances are not indexed
+  private _creditEditionListens(event: IndexedEvent, amount: bigint) {
+    const { args } = event;
+    const edition = this._getEdition(args.nftContract, BigInt(args.tokenId));
+    if (!edition || amount === 0n) {
+      return;
+    }
+
+    const holderAmount =
+      edition.holdersPayout && edition.supply > 0n
+        ? (amount * edition.streamingRoyaltyPercentage) / 10000n
+        : 0n;
+    this._addPayment(
+      event.contract,
+      edition.creator,
+      args.currency,
+      amount - holderAmount,
+      0n
+    );
+  }
+
+  private _isEditionContract(streaming: string, nftContract: string) {
+    const row = this.db
+      .prepare(
+        'SELECT 1 FROM edition_contracts WHERE contract = ? AND edition = ?'
+      )
+      .get(streaming, nftContract);
+    return row !== undefined;
+  }
+
+  private _getEdition(nftContract: string, editionId: bigint) {
+    const row = this.db
+      .prepare(
+        'SELECT * FROM editions WHERE nft_contract = ? AND edition_id = ?'
+      )
+      .get(nftContract, editionId) as EditionRow | undefined;
+
+    return (
+      row && {
+        creator: row.creator,
+        salesRoyaltyPercentage: BigInt(row.sales_royalty_percentage),
+        streamingRoyaltyPercentage: BigInt(row.streaming_royalty_percentage),
+        holdersPayout: row.holders_payout === 1,
+        supply: BigInt(row.supply),
+      }
+    );
+  }
+
+  // Mirrors NFTStreaming paying the seller of a token escrowed by a
+  // registered marketplace for a listing, an auction or a bundle
+  private _royaltyOwner(streaming: string, token: TokenRecord): string {
+    const registered = this.db
+      .prepare(
+        'SELECT 1 FROM escrow_contracts WHERE contract = ? AND escrow = ?'
+      )
+      .get(streaming, token.owner);
+    if (!registered) {
+      return token.owner;
+    }
+
+    const listing = this.getActiveListingByToken(
+      token.nftContract,
+      token.tokenId
+    );
+    if (listing?.escrowed) {
+      return listing.seller;
+    }
+
+    const auction = this.db
+      .prepare(
+        `SELECT seller FROM auctions WHERE nft_contract = ? AND token_id = ? AND status = 'active'`
+      )
+      .get(token.nftContract, token.tokenId) as { seller: string } | undefined;
+    if (auction) {
+      return auction.seller;
+    }
+
+    const bundle = this.db
+      .prepare(
+        `SELECT bundles.seller FROM bundle_items
+         JOIN bundles ON bundles.bundle_id = bundle_items.bundle_id
+         WHERE bundle_items.nft_contract = ? AND bundle_items.token_id = ? AND bundles.status = 'active'`
+      )
+      .get(token.nftContract, token.tokenId) as { seller: string } | undefined;
+    return bundle?.seller ?? token.owner;
+  }
+
+  // Replays how the contracts divide a creator payment among collaborators,
+  // with the rounding remainder going to the last one
+  private _creditSplit(
+    contract: string,
+    token: TokenRecord,
+    currency: string,
+    amount: bigint
+  ) {
+    const split = token.royaltySplit ?? [
+      { recipient: token.creator!, share: 10000n },
+    ];
+
+    let remaining = amount;
+    split.forEach(({ recipient, share }, i) => {
+      const credited =
+        i === split.length - 1 ? remaining : (amount * share) / 10000n;
+      this._addPayment(contract, recipient, currency, credited, 0n);
+      remaining -= credited;
+    });
+  }
+
+  private _addPayment(
+    contract: string,
+    account: string,
+    currency: string,
+    credited: bigint,
+    withdrawn: bigint
+  ) {
+    const current = this.db
+      .prepare(
+        'SELECT credited, withdrawn FROM payments WHERE contract = ? AND account = ? AND currency = ?'
+      )
+      .get(contract, account, currency) as
+      | { credited: string; withdrawn: string }
+      | undefined;
+
+    this.db
+      .prepare(
+        'INSERT OR REPLACE INTO payments (contract, account, currency, credited, withdrawn) VALUES (?, ?, ?, ?, ?)'
+      )
+      .run(
+        contract,
+        account,
+        currency,
+        String(BigInt(current?.credited ?? 0) + credited),
+        String(BigInt(current?.withdrawn ?? 0) + withdrawn)
+      );
+  }
+
+  private _getMarketSettings(contract: string) {
+    const row = this.db
+      .prepare(
+        'SELECT fee_percentage, fee_treasury FROM market_settings WHERE contract = ?'
+      )
+      .get(contract) as
+      | { fee_percentage: number | null; fee_treasury: string | null }
+      | undefined;
+
+    return {
+      feePercentage:
+        row?.fee_percentage == null
+          ? DEFAULT_MARKET_FEE_PERCENTAGE
+          : BigInt(row.fee_percentage),
+      feeTreasury: row?.fee_treasury ?? undefined,
+    };
+  }
+
+  private _closeListing(
+    listingId: string,
+    status: ListingStatus,
+    buyer: string | null,
+    blockNumber: number
+  ) {
+    this.db
+      .prepare(
+        'UPDATE listings SET status = ?, buyer = ?, closed_block = ? WHERE listing_id = ?'
+      )
+      .run(status, buyer, blockNumber, listingId);
+  }
+}
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  transaction_hash: string;
+  timestamp: number;
+  contract: string;
+  name: string;
+  args: string;
+}
+
+interface TokenRow {
+  nft_contract: string;
+  token_id: number;
+  creator: string | null;
+  owner: string;
+  token_uri: string | null;
+  sales_royalty_percentage: number | null;
+  streaming_royalty_percentage: number | null;
+  royalty_split: string | null;
+  minted_block: number;
+  updated_block: number;
+}
+
+interface EditionRow {
+  nft_contract: string;
+  edition_id: number;
+  creator: string;
+  sales_royalty_percentage: number;
+  streaming_royalty_percentage: number;
+  holders_payout: number;
+  supply: number;
+}
+
+interface ListingRow {
+  listing_id: number;
+  seller: string;
+  nft_contract: string;
+  token_id: number;
+  price: string;
+  currency: string;
+  expires_at: number;
+  escrowed: number;
+  status: ListingStatus;
+  buyer: string | null;
+  created_block: number;
+  closed_block: number | null;
+}
+
+interface WithdrawalRow {
+  contract: string;
+  recipient: string;
+  currency: string;
+  amount: string;
+  block_number: number;
+  log_index: number;
+  timestamp: number;
+}
+
+function toIndexedEvent(row: EventRow): IndexedEvent {
+  return {
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    blockHash: row.block_hash,
+    transactionHash: row.transaction_hash,
+    timestamp: row.timestamp,
+    contract: row.contract,
+    name: row.name,
+    args: JSON.parse(row.args),
+  };
+}
+
+function toTokenRecord(row: TokenRow): TokenRecord {
+  return {
+    nftContract: row.nft_contract,
+    tokenId: BigInt(row.token_id),
+    creator: row.creator,
+    owner: row.owner,
+    tokenURI: row.token_uri,
+    salesRoyaltyPercentage: toOptionalBigInt(row.sales_royalty_percentage),
+    streamingRoyaltyPercentage: toOptionalBigInt(
+      row.streaming_royalty_percentage
+    ),
+    royaltySplit:
+      row.royalty_split === null ? null : parseRoyaltySplit(row.royalty_split),
+    mintedBlock: row.minted_block,
+    updatedBlock: row.updated_block,
+  };
+}
+
+function toListingRecord(row: ListingRow): ListingRecord {
+  return {
+    listingId: BigInt(row.listing_id),
+    seller: row.seller,
+    nftContract: row.nft_contract,
+    tokenId: BigInt(row.token_id),
+    price: BigInt(row.price),
+    currency: row.currency,
+    expiresAt: BigInt(row.expires_at),
+    escrowed: row.escrowed === 1,
+    status: row.status,
+    buyer: row.buyer,
+    createdBlock: row.created_block,
+    closedBlock: row.closed_block,
+  };
+}
+
+function parseRoyaltySplit(value: string): RoyaltyShare[] {
+  const split: { recipient: string; share: string }[] = JSON.parse(value);
+  return split.map(({ recipient, share }) => ({
+    recipient,
+    share: BigInt(share),
+  }));
+}
+
+function priceKey(price: bigint): [number, string] {
+  const value = price.toString();
+  return [value.length, value];
+}
+
+function toOptionalBigInt(value: number | null): bigint | null {
+  return value === null ? null : BigInt(value);
+}
@@ -0,0 +1,3 @@
+export * from './Indexer';
+export * from './IndexerStore';
+export * from './types';
@@ -0,0 +1,193 @@
+// Amounts are uint256 values stored as decimal strings. Comparing them as
+// numbers is done with `ORDER BY length(x), x`, which holds for decimals
+// without leading zeros. Currencies are ERC-20 token addresses, with the
+// zero address standing for native ETH.
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS cursor (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  block_number INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS checkpoints (
+  block_number INTEGER PRIMARY KEY,
+  block_hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  name TEXT NOT NULL,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS tokens (
+  nft_contract TEXT NOT NULL,
+  token_id INTEGER NOT NULL,
+  creator TEXT,
+  owner TEXT NOT NULL,
+  token_uri TEXT,
+  sales_royalty_percentage INTEGER,
+  streaming_royalty_percentage INTEGER,
+  royalty_split TEXT,
+  minted_block INTEGER NOT NULL,
+  updated_block INTEGER NOT NULL,
+  PRIMARY KEY (nft_contract, token_id)
+);
+CREATE INDEX IF NOT EXISTS tokens_creator ON tokens (creator);
+CREATE INDEX IF NOT EXISTS tokens_owner ON tokens (owner);
+
+CREATE TABLE IF NOT EXISTS listings (
+  listing_id INTEGER PRIMARY KEY,
+  seller TEXT NOT NULL,
+  nft_contract TEXT NOT NULL,
+  token_id INTEGER NOT NULL,
+  price TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,
+  escrowed INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  buyer TEXT,
+  created_block INTEGER NOT NULL,
+  closed_block INTEGER
+);
+CREATE INDEX IF NOT EXISTS listings_token ON listings (nft_contract, token_id, status);
+CREATE INDEX IF NOT EXISTS listings_seller ON listings (seller);
+CREATE INDEX IF NOT EXISTS listings_status ON listings (status);
+
+-- The highest bid stays escrowed by the marketplace until it is outbid
+CREATE TABLE IF NOT EXISTS auctions (
+  auction_id INTEGER PRIMARY KEY,
+  seller TEXT NOT NULL,
+  nft_contract TEXT NOT NULL,
+  token_id INTEGER NOT NULL,
+  highest_bidder TEXT,
+  highest_bid TEXT NOT NULL,
+  status TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS auctions_token ON auctions (nft_contract, token_id, status);
+
+CREATE TABLE IF NOT EXISTS bundles (
+  bundle_id INTEGER PRIMARY KEY,
+  seller TEXT NOT NULL,
+  price TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL
+);
+
+-- Tokens escrowed by the marketplace for a bundle
+CREATE TABLE IF NOT EXISTS bundle_items (
+  bundle_id INTEGER NOT NULL,
+  nft_contract TEXT NOT NULL,
+  token_id INTEGER NOT NULL,
+  PRIMARY KEY (bundle_id, nft_contract, token_id)
+);
+CREATE INDEX IF NOT EXISTS bundle_items_token ON bundle_items (nft_contract, token_id);
+
+-- Offer amounts are escrowed by the marketplace until accepted or refunded
+CREATE TABLE IF NOT EXISTS offers (
+  offer_id INTEGER PRIMARY KEY,
+  buyer TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  status TEXT NOT NULL
+);
+
+-- MusicEditions editions. Copies cannot be burned, so the supply only
+-- grows with mints
+CREATE TABLE IF NOT EXISTS editions (
+  nft_contract TEXT NOT NULL,
+  edition_id INTEGER NOT NULL,
+  creator TEXT NOT NULL,
+  sales_royalty_percentage INTEGER NOT NULL,
+  streaming_royalty_percentage INTEGER NOT NULL,
+  holders_payout INTEGER NOT NULL,
+  supply INTEGER NOT NULL,
+  PRIMARY KEY (nft_contract, edition_id)
+);
+
+CREATE TABLE IF NOT EXISTS edition_listings (
+  listing_id INTEGER PRIMARY KEY,
+  seller TEXT NOT NULL,
+  nft_contract TEXT NOT NULL,
+  edition_id INTEGER NOT NULL,
+  currency TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS listens (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  nft_contract TEXT NOT NULL,
+  token_id INTEGER NOT NULL,
+  count INTEGER NOT NULL,
+  amount TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  -- Reporting period the listens happened in, which can be before the block.
+  -- Paid listens get it from the ListenReportAccepted event that follows
+  period INTEGER,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS listens_token ON listens (nft_contract, token_id);
+CREATE INDEX IF NOT EXISTS listens_period ON listens (period);
+
+CREATE TABLE IF NOT EXISTS withdrawals (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS withdrawals_recipient ON withdrawals (recipient);
+
+CREATE TABLE IF NOT EXISTS payments (
+  contract TEXT NOT NULL,
+  account TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  credited TEXT NOT NULL,
+  withdrawn TEXT NOT NULL,
+  PRIMARY KEY (contract, account, currency)
+);
+
+CREATE TABLE IF NOT EXISTS market_settings (
+  contract TEXT PRIMARY KEY,
+  fee_percentage INTEGER,
+  fee_treasury TEXT
+);
+
+CREATE TABLE IF NOT EXISTS escrow_contracts (
+  contract TEXT NOT NULL,
+  escrow TEXT NOT NULL,
+  PRIMARY KEY (contract, escrow)
+);
+
+CREATE TABLE IF NOT EXISTS edition_contracts (
+  contract TEXT NOT NULL,
+  edition TEXT NOT NULL,
+  PRIMARY KEY (contract, edition)
+);
+`;
+
+// Tables rebuilt from the events log after a rollback
+export const DERIVED_TABLES = [
+  'tokens',
+  'listings',
+  'auctions',
+  'bundles',
+  'bundle_items',
+  'offers',
+  'editions',
+  'edition_listings',
+  'listens',
+  'withdrawals',
+  'payments',
+  'market_settings',
+  'escrow_contracts',
+  'edition_contracts',
+];
@@ -0,0 +1,100 @@
+import type { RoyaltyShare } from '../sdk';
+
+// A decoded contract event as stored in the events log. Numeric arguments
+// are kept as decimal strings so the log can be serialized as JSON.
+export interface IndexedEvent {
+  blockNumber: number;
+  logIndex: number;
+  blockHash: string;
+  transactionHash: string;
+  timestamp: number;
+  contract: string;
+  name: string;
+  args: Record<string, string>;
+}
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export type ListingStatus =
+  | 'active'
+  | 'sold'
+  | 'cancelled'
+  | 'expired'
+  // Replaced by a newer listing after the seller lost the token or approval,
+  // or a non-custodial listing whose token left the seller
+  | 'invalidated';
+
+export interface TokenKey {
+  nftContract: string;
+  tokenId: bigint;
+}
+
+export interface TokenRecord {
+  nftContract: string;
+  tokenId: bigint;
+  creator: string | null;
+  owner: string;
+  tokenURI: string | null;
+  salesRoyaltyPercentage: bigint | null;
+  streamingRoyaltyPercentage: bigint | null;
+  // Collaborator shares set at mint, null when the creator receives everything
+  royaltySplit: RoyaltyShare[] | null;
+  mintedBlock: number;
+  updatedBlock: number;
+}
+
+export interface ListingRecord {
+  listingId: bigint;
+  seller: string;
+  nftContract: string;
+  tokenId: bigint;
+  price: bigint;
+  currency: string;
+  // Zero when the listing never expires. Listings stay active past their
+  // expiry until the NFT is reclaimed
+  expiresAt: bigint;
+  // False when the seller keeps the NFT until it is sold
+  escrowed: boolean;
+  status: ListingStatus;
+  buyer: string | null;
+  createdBlock: number;
+  closedBlock: number | null;
+}
+
+export type ListingSort = 'oldest' | 'newest' | 'price' | '-price';
+
+export interface ListingQuery {
+  status?: ListingStatus | ListingStatus[];
+  // Listings that can (true) or can no longer (false) be bought at `now`,
+  // in unix seconds. Expired listings stay 'active' until reclaimed
+  active?: boolean;
+  now?: number;
+  seller?: string;
+  nftContract?: string;
+  // Prices are only comparable within one currency
+  currency?: string;
+  minPrice?: bigint;
+  maxPrice?: bigint;
+  sort?: ListingSort;
+  // Keyset cursor: only return listings ordered after this one
+  after?: { listingId: bigint; price: bigint };
+  limit?: number;
+}
+
+export interface WithdrawalRecord {
+  contract: string;
+  recipient: string;
+  currency: string;
+  amount: bigint;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface PendingPayment {
+  contract: string;
+  currency: string;
+  amount: bigint;
+}
@@ -0,0 +1,144 @@
+import { AddressLike, BigNumberish, ContractRunner, ZeroAddress } from 'ethers';
+import { MusicEditions, MusicEditions__factory } from '../typechain-types';
+import { withContractErrors } from './errors';
+import { Edition, StreamingPayout, TransactionResult } from './types';
+import { findEventArgs } from './utils';
+
+export class MusicEditionsClient {
+  public readonly contract: MusicEditions;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = MusicEditions__factory.connect(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  // Creates an edition of up to `maxSupply` copies and mints `initialAmount`
+  // of them to the caller
+  async createEdition(
+    uri: string,
+    maxSupply: BigNumberish,
+    initialAmount: BigNumberish,
+    salesRoyaltyPercentage: BigNumberish,
+    streamingRoyaltyPercentage: BigNumberish
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.createEdition(
+        uri,
+        maxSupply,
+        initialAmount,
+        salesRoyaltyPercentage,
+        streamingRoyaltyPercentage
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'EditionCreated'
+      );
+
+      return { value: args.editionId as bigint, receipt };
+    });
+  }
+
+  async mintCopies(
+    editionId: BigNumberish,
+    to: AddressLike,
+    amount: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.mintCopies(editionId, to, amount);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async setStreamingPayout(
+    editionId: BigNumberish,
+    streamingPayout: StreamingPayout
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setStreamingPayout(
+        editionId,
+        streamingPayout
+      );
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async setApprovalForAll(
+    operator: AddressLike,
+    approved = true
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setApprovalForAll(operator, approved);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Resolves to the amount claimed in the currency, native ETH by default
+  async claimHolderRoyalties(
+    editionId: BigNumberish,
+    currency: AddressLike = ZeroAddress
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.claimHolderRoyalties(editionId, currency);
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'HolderRoyaltiesClaimed'
+      );
+
+      return { value: args.amount as bigint, receipt };
+    });
+  }
+
+  async getClaimableHolderRoyalties(
+    editionId: BigNumberish,
+    holder: AddressLike,
+    currency: AddressLike = ZeroAddress
+  ): Promise<bigint> {
+    return this._call(() =>
+      this.contract.getClaimableHolderRoyalties(editionId, holder, currency)
+    );
+  }
+
+  async getEdition(editionId: BigNumberish): Promise<Edition> {
+    return this._call(async () => {
+      const edition = await this.contract.getEdition(editionId);
+
+      return {
+        editionId: BigInt(editionId),
+        creator: edition.creator,
+        uri: edition.editionURI,
+        maxSupply: edition.maxSupply,
+        minted: edition.minted,
+        streamingRoyaltyPercentage: edition.streamingRoyaltyPercentage,
+        streamingPayout: Number(edition.streamingPayout) as StreamingPayout,
+      };
+    });
+  }
+
+  async balanceOf(
+    holder: AddressLike,
+    editionId: BigNumberish
+  ): Promise<bigint> {
+    return this._call(() => this.contract.balanceOf(holder, editionId));
+  }
+
+  async getTokensCreatedBy(creator: AddressLike): Promise<bigint[]> {
+    return this._call(async () => [
+      ...(await this.contract.getTokensCreatedBy(creator)),
+    ]);
+  }
+
+  async getTotalEditions(): Promise<bigint> {
+    return this._call(() => this.contract.getTotalSupply());
+  }
+
+  private _call<T>(call: () => Promise<T>): Promise<T> {
+    return withContractErrors(this.contract.interface, call);
+  }
+}
@@ -0,0 +1,468 @@
+import { AddressLike, BigNumberish, ContractRunner } from 'ethers';
+import { MusicNFT, MusicNFT__factory } from '../typechain-types';
+import { withContractErrors } from './errors';
+import {
+  Album,
+  RoyaltyShare,
+  RoyaltyUpdate,
+  TokenAlbum,
+  TokenDetails,
+  TokenURIVersion,
+  TrackMetadata,
+  TransactionResult,
+} from './types';
+import { filterEventArgs, findEventArgs } from './utils';
+import { SignedMintVoucher } from './vouchers';
+
+export class MusicNFTClient {
+  public readonly contract: MusicNFT;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = MusicNFT__factory.connect(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  async mint(
+    tokenURI: string,
+    salesRoyaltyPercentage: BigNumberish,
+    streamingRoyaltyPercentage: BigNumberish
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.mintNFT(
+        tokenURI,
+        salesRoyaltyPercentage,
+        streamingRoyaltyPercentage
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(this.contract.interface, receipt, 'NFTMinted');
+
+      return { value: args.tokenId as bigint, receipt };
+    });
+  }
+
+  // Shares are basis points and must add up to 10,000
+  async mintWithSplits(
+    tokenURI: string,
+    salesRoyaltyPercentage: BigNumberish,
+    streamingRoyaltyPercentage: BigNumberish,
+    splits: { recipient: AddressLike; share: BigNumberish }[]
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.mintNFTWithSplits(
+        tokenURI,
+        salesRoyaltyPercentage,
+        streamingRoyaltyPercentage,
+        splits.map((split) => split.recipient),
+        splits.map((split) => split.share)
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(this.contract.interface, receipt, 'NFTMinted');
+
+      return { value: args.tokenId as bigint, receipt };
+    });
+  }
+
+  // The token URI becomes a JSON document generated on-chain, with `audioURI`
+  // as its animation_url
+  async mintWithMetadata(
+    audioURI: string,
+    metadata: TrackMetadata,
+    salesRoyaltyPercentage: BigNumberish,
+    streamingRoyaltyPercentage: BigNumberish
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.mintNFTWithMetadata(
+        audioURI,
+        metadata,
+        salesRoyaltyPercentage,
+        streamingRoyaltyPercentage
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(this.contract.interface, receipt, 'NFTMinted');
+
+      return { value: args.tokenId as bigint, receipt };
+    });
+  }
+
+  // Mints every URI as a track of a new album, in order
+  async mintAlbum(
+    albumURI: string,
+    tokenURIs: string[],
+    salesRoyaltyPercentage: BigNumberish,
+    streamingRoyaltyPercentage: BigNumberish
+  ): Promise<TransactionResult<{ albumId: bigint; tokenIds: bigint[] }>> {
+    return this._call(async () => {
+      const tx = await this.contract.mintAlbum(
+        albumURI,
+        tokenURIs,
+        salesRoyaltyPercentage,
+        streamingRoyaltyPercentage
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'AlbumCreated'
+      );
+      const tokenIds = filterEventArgs(
+        this.contract.interface,
+        receipt,
+        'NFTMinted'
+      ).map((minted) => minted.tokenId as bigint);
+
+      return { value: { albumId: args.albumId as bigint, tokenIds }, receipt };
+    });
+  }
+
+  async createAlbum(metadataURI: string): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.createAlbum(metadataURI);
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'AlbumCreated'
+      );
+
+      return { value: args.albumId as bigint, receipt };
+    });
+  }
+
+  async addTrackToAlbum(
+    albumId: BigNumberish,
+    tokenId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.addTrackToAlbum(albumId, tokenId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async removeTrackFromAlbum(
+    albumId: BigNumberish,
+    tokenId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.removeTrackFromAlbum(albumId, tokenId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // `tokenIds` must list every track of the album exactly once
+  async setAlbumTrackOrder(
+    albumId: BigNumberish,
+    tokenIds: BigNumberish[]
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setAlbumTrackOrder(albumId, tokenIds);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Mints a lazily minted token to the caller, paying the creator `value`
+  async redeemVoucher(
+    { voucher, signature }: SignedMintVoucher,
+    value: BigNumberish = voucher.minPrice
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.redeemVoucher(voucher, signature, {
+        value,
+      });
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'VoucherRedeemed'
+      );
+
+      return { value: args.tokenId as bigint, receipt };
+    });
+  }
+
+  async cancelVoucher(nonce: BigNumberish): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.cancelVoucher(nonce);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async withdrawPayments(): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.withdrawPayments();
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'PaymentWithdrawn'
+      );
+
+      return { value: args.amount as bigint, receipt };
+    });
+  }
+
+  // Owner or approved operator only. Clears the token's royalties and
+  // creator index entry
+  async burn(tokenId: BigNumberish): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.burn(tokenId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async updateTokenURI(
+    tokenId: BigNumberish,
+    newTokenURI: string
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.updateTokenURI(tokenId, newTokenURI);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Creator only. Permanently locks the current token URI
+  async freezeMetadata(
+    tokenId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.freezeMetadata(tokenId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Creator only. While enabled, owners can no longer update the token URI
+  async setCreatorOnlyUpdates(
+    tokenId: BigNumberish,
+    creatorOnly = true
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setCreatorOnlyUpdates(
+        tokenId,
+        creatorOnly
+      );
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Creator only. Resolves to the timestamp from which the update can be
+  // executed
+  async proposeRoyaltyUpdate(
+    tokenId: BigNumberish,
+    salesRoyaltyPercentage: BigNumberish,
+    streamingRoyaltyPercentage: BigNumberish
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.proposeRoyaltyUpdate(
+        tokenId,
+        salesRoyaltyPercentage,
+        streamingRoyaltyPercentage
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'RoyaltyUpdateProposed'
+      );
+
+      return { value: args.executableAt as bigint, receipt };
+    });
+  }
+
+  async executeRoyaltyUpdate(
+    tokenId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.executeRoyaltyUpdate(tokenId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Creator only
+  async cancelRoyaltyUpdate(
+    tokenId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.cancelRoyaltyUpdate(tokenId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async approve(
+    operator: AddressLike,
+    tokenId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.approve(operator, tokenId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async getTokenDetails(tokenId: BigNumberish): Promise<TokenDetails> {
+    return this._call(async () => {
+      // Read sequentially so that a missing token always surfaces as
+      // NonexistentToken rather than ERC721's own revert from tokenURI
+      const details = await this.contract.getTokenDetails(tokenId);
+      const tokenURI = await this.contract.tokenURI(tokenId);
+
+      return {
+        tokenId: BigInt(tokenId),
+        tokenURI,
+        creator: details.creator,
+        owner: details.currentOwner,
+        streamingRoyaltyPercentage: details.streamingRoyaltyPercentage,
+        salesRoyaltyReceiver: details.salesRoyaltyReceiver,
+        salesRoyaltyPercentage: details.salesRoyaltyPercentage,
+      };
+    });
+  }
+
+  async getCreator(tokenId: BigNumberish): Promise<string> {
+    return this._call(() => this.contract.getCreator(tokenId));
+  }
+
+  async getRoyaltySplit(tokenId: BigNumberish): Promise<RoyaltyShare[]> {
+    return this._call(async () => {
+      const { recipients, shares } = await this.contract.getRoyaltySplit(
+        tokenId
+      );
+      return recipients.map((recipient, i) => ({
+        recipient,
+        share: shares[i],
+      }));
+    });
+  }
+
+  async isVoucherNonceUsed(
+    creator: AddressLike,
+    nonce: BigNumberish
+  ): Promise<boolean> {
+    return this._call(() => this.contract.isVoucherNonceUsed(creator, nonce));
+  }
+
+  async getPendingPayment(recipient: AddressLike): Promise<bigint> {
+    return this._call(() => this.contract.getPendingPayment(recipient));
+  }
+
+  async getStreamingRoyalty(tokenId: BigNumberish): Promise<bigint> {
+    return this._call(() => this.contract.getStreamingRoyalty(tokenId));
+  }
+
+  async isMetadataFrozen(tokenId: BigNumberish): Promise<boolean> {
+    return this._call(() => this.contract.isMetadataFrozen(tokenId));
+  }
+
+  async isCreatorOnlyUpdates(tokenId: BigNumberish): Promise<boolean> {
+    return this._call(() => this.contract.isCreatorOnlyUpdates(tokenId));
+  }
+
+  // Every URI the token has had, oldest first, ending with the current one
+  async getTokenURIHistory(tokenId: BigNumberish): Promise<TokenURIVersion[]> {
+    return this._call(async () => {
+      const { uris, setters, timestamps } =
+        await this.contract.getTokenURIHistory(tokenId);
+      return uris.map((uri, i) => ({
+        uri,
+        setBy: setters[i],
+        setAt: timestamps[i],
+      }));
+    });
+  }
+
+  // Resolves to null when the token was minted without on-chain metadata
+  async getTrackMetadata(tokenId: BigNumberish): Promise<TrackMetadata | null> {
+    return this._call(async () => {
+      const metadata = await this.contract.getTrackMetadata(tokenId);
+      if (metadata.title === '') {
+        return null;
+      }
+
+      return {
+        title: metadata.title,
+        artist: metadata.artist,
+        isrc: metadata.isrc,
+        duration: metadata.duration,
+        contentHash: metadata.contentHash,
+        artworkHash: metadata.artworkHash,
+      };
+    });
+  }
+
+  // Resolves to null when no update is pending
+  async getPendingRoyaltyUpdate(
+    tokenId: BigNumberish
+  ): Promise<RoyaltyUpdate | null> {
+    return this._call(async () => {
+      const update = await this.contract.getPendingRoyaltyUpdate(tokenId);
+      if (update.executableAt === 0n) {
+        return null;
+      }
+
+      return {
+        tokenId: BigInt(tokenId),
+        salesRoyaltyPercentage: update.salesRoyaltyPercentage,
+        streamingRoyaltyPercentage: update.streamingRoyaltyPercentage,
+        executableAt: update.executableAt,
+      };
+    });
+  }
+
+  async getTokensOfOwner(owner: AddressLike): Promise<bigint[]> {
+    return this._call(async () => [
+      ...(await this.contract.getTokensOfOwner(owner)),
+    ]);
+  }
+
+  async getTokensCreatedBy(creator: AddressLike): Promise<bigint[]> {
+    return this._call(async () => [
+      ...(await this.contract.getTokensCreatedBy(creator)),
+    ]);
+  }
+
+  async getAlbum(albumId: BigNumberish): Promise<Album> {
+    return this._call(async () => {
+      const album = await this.contract.getAlbum(albumId);
+      const tracks = await this.contract.getAlbumTracks(albumId);
+
+      return {
+        albumId: BigInt(albumId),
+        creator: album.creator,
+        metadataURI: album.metadataURI,
+        tracks: [...tracks],
+      };
+    });
+  }
+
+  // Resolves to null when the token is not part of an album
+  async getTokenAlbum(tokenId: BigNumberish): Promise<TokenAlbum | null> {
+    return this._call(async () => {
+      const { albumId, trackIndex } = await this.contract.getTokenAlbum(
+        tokenId
+      );
+      return albumId === 0n ? null : { albumId, trackIndex };
+    });
+  }
+
+  async getTotalAlbums(): Promise<bigint> {
+    return this._call(() => this.contract.getTotalAlbums());
+  }
+
+  // Tokens in circulation, excluding burned tokens
+  async getTotalSupply(): Promise<bigint> {
+    return this._call(() => this.contract.getTotalSupply());
+  }
+
+  // Tokens ever minted, which is also the highest token ID
+  async getTotalMinted(): Promise<bigint> {
+    return this._call(() => this.contract.getTotalMinted());
+  }
+
+  async tokenExists(tokenId: BigNumberish): Promise<boolean> {
+    return this._call(() => this.contract.tokenExists(tokenId));
+  }
+
+  private _call<T>(call: () => Promise<T>): Promise<T> {
+    return withContractErrors(this.contract.interface, call);
+  }
+}
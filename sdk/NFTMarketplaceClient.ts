@@ -0,0 +1,513 @@
+import {
+  AddressLike,
+  BigNumberish,
+  ContractRunner,
+  ZeroAddress,
+  resolveAddress,
+} from 'ethers';
+import { NFTMarketplace, NFTMarketplace__factory } from '../typechain-types';
+import { withContractErrors } from './errors';
+import {
+  Bundle,
+  BundleItem,
+  EditionListing,
+  Listing,
+  Pagination,
+  TransactionResult,
+} from './types';
+import { findEventArgs, resolvePagination } from './utils';
+
+export class NFTMarketplaceClient {
+  public readonly contract: NFTMarketplace;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = NFTMarketplace__factory.connect(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  // The NFT must already be approved for the marketplace. The currency
+  // defaults to native ETH; ERC-20 currencies must be allow-listed. An
+  // expiry of zero keeps the listing open until it is sold or cancelled
+  async createListing(
+    nftContract: AddressLike,
+    tokenId: BigNumberish,
+    price: BigNumberish,
+    currency: AddressLike = ZeroAddress,
+    expiresAt: BigNumberish = 0
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.createListing(
+        nftContract,
+        tokenId,
+        price,
+        currency,
+        expiresAt
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(this.contract.interface, receipt, 'NFTListed');
+
+      return { value: args.listingId as bigint, receipt };
+    });
+  }
+
+  // Lists an NFT the seller keeps until it is sold. The marketplace must be
+  // approved for the token, and the listing becomes invalid when the seller
+  // transfers it or revokes the approval
+  async createNonCustodialListing(
+    nftContract: AddressLike,
+    tokenId: BigNumberish,
+    price: BigNumberish,
+    currency: AddressLike = ZeroAddress,
+    expiresAt: BigNumberish = 0
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.createNonCustodialListing(
+        nftContract,
+        tokenId,
+        price,
+        currency,
+        expiresAt
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(this.contract.interface, receipt, 'NFTListed');
+
+      return { value: args.listingId as bigint, receipt };
+    });
+  }
+
+  // Pays the listing price unless an explicit value is given. ERC-20 listings
+  // send no ETH and need the price approved for the marketplace beforehand.
+  // The purchase reverts when the price is raised above `maxPrice`, which
+  // defaults to the price read before sending
+  async buy(
+    listingId: BigNumberish,
+    value?: BigNumberish,
+    maxPrice?: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const listing = await this.contract.listings(listingId);
+      const payment =
+        value ?? (listing.currency === ZeroAddress ? listing.price : 0n);
+      const tx = await this.contract.buyNFT(
+        listingId,
+        maxPrice ?? listing.price,
+        { value: payment }
+      );
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async cancelListing(
+    listingId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.cancelListing(listingId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async updateListingPrice(
+    listingId: BigNumberish,
+    newPrice: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.updateListingPrice(listingId, newPrice);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Callable by anyone once the listing has expired; the NFT goes back to
+  // the seller
+  async reclaimExpiredListing(
+    listingId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.reclaimExpiredListing(listingId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async withdrawPayments(
+    currency: AddressLike = ZeroAddress
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.withdrawPayments(currency);
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'PaymentWithdrawn'
+      );
+
+      return { value: args.amount as bigint, receipt };
+    });
+  }
+
+  async getPendingPayment(
+    recipient: AddressLike,
+    currency: AddressLike = ZeroAddress
+  ): Promise<bigint> {
+    return this._call(() =>
+      this.contract.getPendingPayment(recipient, currency)
+    );
+  }
+
+  // Returns null when the listing ID was never used
+  async getListing(listingId: BigNumberish): Promise<Listing | null> {
+    return this._call(async () => {
+      const listing = await this.contract.listings(listingId);
+      if (listing.seller === ZeroAddress) {
+        return null;
+      }
+
+      return {
+        listingId: BigInt(listingId),
+        seller: listing.seller,
+        nftContract: listing.nftContract,
+        tokenId: listing.tokenId,
+        price: listing.price,
+        currency: listing.currency,
+        expiresAt: listing.expiresAt,
+        isEscrowed: listing.isEscrowed,
+        isActive: listing.isActive,
+      };
+    });
+  }
+
+  // Returns the active listing for a token, or null when it is not listed
+  async getListingByToken(
+    nftContract: AddressLike,
+    tokenId: BigNumberish
+  ): Promise<Listing | null> {
+    return this._call(async () => {
+      const result = await this.contract.getListingByToken(
+        nftContract,
+        tokenId
+      );
+      if (result.listingId === 0n) {
+        return null;
+      }
+
+      return {
+        listingId: result.listingId,
+        seller: result.seller,
+        nftContract: await resolveAddress(nftContract),
+        tokenId: BigInt(tokenId),
+        price: result.price,
+        isActive: result.isActive,
+      };
+    });
+  }
+
+  // Returns null when the marketplace does not hold the token in escrow
+  async getEscrowedTokenSeller(
+    nftContract: AddressLike,
+    tokenId: BigNumberish
+  ): Promise<string | null> {
+    return this._call(async () => {
+      const seller = await this.contract.getEscrowedTokenSeller(
+        nftContract,
+        tokenId
+      );
+      return seller === ZeroAddress ? null : seller;
+    });
+  }
+
+  // Whether the listing can currently be bought
+  async isListingValid(listingId: BigNumberish): Promise<boolean> {
+    return this._call(() => this.contract.isListingValid(listingId));
+  }
+
+  async isTokenListed(
+    nftContract: AddressLike,
+    tokenId: BigNumberish
+  ): Promise<boolean> {
+    return this._call(() => this.contract.isTokenListed(nftContract, tokenId));
+  }
+
+  // Listings that can no longer be bought are left out, so a page can be
+  // short or empty while more follow. Advance `start` by `limit` to page
+  async getActiveListings(pagination?: Pagination): Promise<Listing[]> {
+    return this._call(async () => {
+      const [start, limit] = resolvePagination(pagination);
+      const result = await this.contract.getActiveListings(start, limit);
+
+      return result.listingIds.map((listingId, i) => ({
+        listingId,
+        seller: result.sellers[i],
+        nftContract: result.nftContracts[i],
+        tokenId: result.tokenIds[i],
+        price: result.prices[i],
+        isActive: true,
+      }));
+    });
+  }
+
+  async getListingsBySeller(
+    seller: AddressLike,
+    pagination?: Pagination
+  ): Promise<Listing[]> {
+    return this._call(async () => {
+      const [start, limit] = resolvePagination(pagination);
+      const sellerAddress = await resolveAddress(seller);
+      const result = await this.contract.getListingsBySeller(
+        sellerAddress,
+        start,
+        limit
+      );
+
+      return result.listingIds.map((listingId, i) => ({
+        listingId,
+        seller: sellerAddress,
+        nftContract: result.nftContracts[i],
+        tokenId: result.tokenIds[i],
+        price: result.prices[i],
+        isActive: result.isActive[i],
+      }));
+    });
+  }
+
+  async getActiveListingsCount(): Promise<bigint> {
+    return this._call(() => this.contract.getActiveListingsCount());
+  }
+
+  async getTotalListings(): Promise<bigint> {
+    return this._call(() => this.contract.getTotalListings());
+  }
+
+  // Every item must be approved for the marketplace. Weights decide how the
+  // price, and with it each token's royalty, is divided among the items
+  async createBundleListing(
+    items: BundleItem[],
+    price: BigNumberish,
+    currency: AddressLike = ZeroAddress
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.createBundleListing(
+        items,
+        price,
+        currency
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'BundleListed'
+      );
+
+      return { value: args.bundleId as bigint, receipt };
+    });
+  }
+
+  // Pays the bundle price unless an explicit value is given. ERC-20 bundles
+  // need the price approved for the marketplace beforehand. Like buy, it
+  // reverts when the price is above `maxPrice`
+  async buyBundle(
+    bundleId: BigNumberish,
+    value?: BigNumberish,
+    maxPrice?: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const bundle = await this.contract.bundles(bundleId);
+      const payment =
+        value ?? (bundle.currency === ZeroAddress ? bundle.price : 0n);
+      const tx = await this.contract.buyBundle(
+        bundleId,
+        maxPrice ?? bundle.price,
+        { value: payment }
+      );
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async cancelBundleListing(
+    bundleId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.cancelBundleListing(bundleId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Returns null when the bundle ID was never used
+  async getBundle(bundleId: BigNumberish): Promise<Bundle | null> {
+    return this._call(async () => {
+      const [bundle, items] = await Promise.all([
+        this.contract.bundles(bundleId),
+        this.contract.getBundleItems(bundleId),
+      ]);
+      if (bundle.seller === ZeroAddress) {
+        return null;
+      }
+
+      return {
+        bundleId: BigInt(bundleId),
+        seller: bundle.seller,
+        price: bundle.price,
+        currency: bundle.currency,
+        isActive: bundle.isActive,
+        itemCount: items.length,
+        items: items.map((item) => ({
+          nftContract: item.nftContract,
+          tokenId: item.tokenId,
+          weight: item.weight,
+        })),
+      };
+    });
+  }
+
+  async getActiveBundles(pagination?: Pagination): Promise<Bundle[]> {
+    return this._call(async () => {
+      const [start, limit] = resolvePagination(pagination);
+      const result = await this.contract.getActiveBundles(start, limit);
+
+      return result.bundleIds.map((bundleId, i) => ({
+        bundleId,
+        seller: result.sellers[i],
+        price: result.prices[i],
+        currency: result.currencies[i],
+        isActive: true,
+        itemCount: Number(result.itemCounts[i]),
+      }));
+    });
+  }
+
+  async getActiveBundlesCount(): Promise<bigint> {
+    return this._call(() => this.contract.getActiveBundlesCount());
+  }
+
+  // The seller keeps the copies, which must be approved for the marketplace
+  // with setApprovalForAll. Buyers can take any part of the quantity
+  async createEditionListing(
+    nftContract: AddressLike,
+    editionId: BigNumberish,
+    quantity: BigNumberish,
+    pricePerCopy: BigNumberish,
+    currency: AddressLike = ZeroAddress
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.createEditionListing(
+        nftContract,
+        editionId,
+        quantity,
+        pricePerCopy,
+        currency
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'EditionListed'
+      );
+
+      return { value: args.listingId as bigint, receipt };
+    });
+  }
+
+  // Pays the price of `quantity` copies unless an explicit value is given.
+  // ERC-20 listings need the price approved for the marketplace beforehand
+  async buyEditionCopies(
+    listingId: BigNumberish,
+    quantity: BigNumberish,
+    value?: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const listing = await this.contract.editionListings(listingId);
+      const payment =
+        value ??
+        (listing.currency === ZeroAddress
+          ? listing.pricePerCopy * BigInt(quantity)
+          : 0n);
+      const tx = await this.contract.buyEditionCopies(listingId, quantity, {
+        value: payment,
+      });
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async cancelEditionListing(
+    listingId: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.cancelEditionListing(listingId);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Returns null when the listing ID was never used
+  async getEditionListing(
+    listingId: BigNumberish
+  ): Promise<EditionListing | null> {
+    return this._call(async () => {
+      const listing = await this.contract.editionListings(listingId);
+      if (listing.seller === ZeroAddress) {
+        return null;
+      }
+
+      return {
+        listingId: BigInt(listingId),
+        seller: listing.seller,
+        nftContract: listing.nftContract,
+        editionId: listing.editionId,
+        quantity: listing.quantity,
+        pricePerCopy: listing.pricePerCopy,
+        currency: listing.currency,
+        isActive: listing.isActive,
+      };
+    });
+  }
+
+  async getMarketFeePercentage(): Promise<bigint> {
+    return this._call(() => this.contract.marketFeePercentage());
+  }
+
+  async getFeeTreasury(): Promise<string> {
+    return this._call(() => this.contract.feeTreasury());
+  }
+
+  async isPaused(): Promise<boolean> {
+    return this._call(() => this.contract.paused());
+  }
+
+  // Owner only, capped at MAX_MARKET_FEE_PERCENTAGE basis points
+  async setMarketFeePercentage(
+    percentage: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setMarketFeePercentage(percentage);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Owner only
+  async setFeeTreasury(
+    treasury: AddressLike
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setFeeTreasury(treasury);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Owner only. Withdrawals, cancellations and refunds keep working while paused
+  async pause(): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.pause();
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async unpause(): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.unpause();
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  private _call<T>(call: () => Promise<T>): Promise<T> {
+    return withContractErrors(this.contract.interface, call);
+  }
+}
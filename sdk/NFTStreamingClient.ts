@@ -0,0 +1,533 @@
+import {
+  AddressLike,
+  BigNumberish,
+  ContractRunner,
+  ZeroAddress,
+  resolveAddress,
+} from 'ethers';
+import { NFTStreaming, NFTStreaming__factory } from '../typechain-types';
+import { withContractErrors } from './errors';
+import { ListenReport, SignedListenReport } from './listenReports';
+import {
+  AlbumListenStats,
+  ListenSettlement,
+  ListenStats,
+  SubscriptionListens,
+  SubscriptionPayout,
+  SubscriptionPool,
+  TransactionResult,
+} from './types';
+import { filterEventArgs, findEventArgs } from './utils';
+
+export class NFTStreamingClient {
+  public readonly contract: NFTStreaming;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = NFTStreaming__factory.connect(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  // Reports listens as an authorized reporter. Sends exactly the report
+  // amount unless an explicit value is given. ERC-20 payments send no ETH and
+  // need the amount approved for the streaming contract
+  async recordListens(
+    report: ListenReport,
+    value?: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.recordBatchListens(report, {
+        value: value ?? reportValue(report),
+      });
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Reports listens for many tokens in one transaction as an authorized
+  // reporter. Sends the sum of the native ETH amounts unless an explicit value
+  // is given, including amounts of reports that end up skipped
+  async settleListenReports(
+    reports: ListenReport[],
+    skipNonexistent = false,
+    value?: BigNumberish
+  ): Promise<TransactionResult<ListenSettlement>> {
+    return this._call(async () => {
+      const total = reports.reduce(
+        (sum, report) => sum + BigInt(reportValue(report)),
+        0n
+      );
+      const tx = await this.contract.settleListenReports(
+        reports,
+        skipNonexistent,
+        { value: value ?? total }
+      );
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'ListenReportsSettled'
+      );
+
+      return {
+        value: {
+          recordedCount: args.recordedCount,
+          skippedCount: args.skippedCount,
+          totalListens: args.totalListens,
+          nativeAmount: args.nativeAmount,
+        },
+        receipt,
+      };
+    });
+  }
+
+  // Relays a report signed by an authorized reporter, paying its amount
+  async submitListenReport(
+    { report, signature }: SignedListenReport,
+    value?: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.submitListenReport(report, signature, {
+        value: value ?? reportValue(report),
+      });
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Buys `periods` periods of a subscription pass for `listener`, paying the
+  // current price per period unless an explicit value is given. Resolves to
+  // the first period no longer covered
+  async buySubscriptionPass(
+    listener: AddressLike,
+    periods: BigNumberish,
+    value?: BigNumberish
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const price = await this.contract.subscriptionPricePerPeriod();
+      const tx = await this.contract.buySubscriptionPass(listener, periods, {
+        value: value ?? price * BigInt(periods),
+      });
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'SubscriptionPassPurchased'
+      );
+
+      return { value: args.endPeriod as bigint, receipt };
+    });
+  }
+
+  // Reports listens by pass holders as an authorized reporter. They earn a
+  // share of the period's pool instead of a payment
+  async recordSubscriptionListens(
+    period: BigNumberish,
+    listens: SubscriptionListens[]
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.recordSubscriptionListens(period, listens);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Authorized reporters only. No more subscription listens are accepted for
+  // the period afterwards
+  async closeSubscriptionPeriod(
+    period: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.closeSubscriptionPeriod(period);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Credits the pool shares of a closed period to a batch of tokens, see
+  // `getTokensListenedInPeriod` for candidates. Resolves to the total amount
+  // credited; tokens already paid out are skipped
+  async claimSubscriptionPayouts(
+    nftContract: AddressLike,
+    period: BigNumberish,
+    tokenIds: BigNumberish[]
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.claimSubscriptionPayouts(
+        nftContract,
+        period,
+        tokenIds
+      );
+      const receipt = (await tx.wait())!;
+      const total = filterEventArgs(
+        this.contract.interface,
+        receipt,
+        'SubscriptionPayoutClaimed'
+      ).reduce((sum, args) => sum + (args.amount as bigint), 0n);
+
+      return { value: total, receipt };
+    });
+  }
+
+  async withdrawPayments(
+    currency: AddressLike = ZeroAddress
+  ): Promise<TransactionResult<bigint>> {
+    return this._call(async () => {
+      const tx = await this.contract.withdrawPayments(currency);
+      const receipt = (await tx.wait())!;
+      const args = findEventArgs(
+        this.contract.interface,
+        receipt,
+        'PaymentWithdrawn'
+      );
+
+      return { value: args.amount as bigint, receipt };
+    });
+  }
+
+  async getPendingPayment(
+    recipient: AddressLike,
+    currency: AddressLike = ZeroAddress
+  ): Promise<bigint> {
+    return this._call(() =>
+      this.contract.getPendingPayment(recipient, currency)
+    );
+  }
+
+  async getListenStats(
+    nftContract: AddressLike,
+    tokenId: BigNumberish
+  ): Promise<ListenStats> {
+    return this._call(async () => ({
+      nftContract: await resolveAddress(nftContract),
+      tokenId: BigInt(tokenId),
+      listenCount: await this.contract.getListenCount(nftContract, tokenId),
+    }));
+  }
+
+  async getTotalListenCount(nftContract: AddressLike): Promise<bigint> {
+    return this._call(() => this.contract.getTotalListenCount(nftContract));
+  }
+
+  async getTopListenedTokens(
+    nftContract: AddressLike,
+    limit: BigNumberish
+  ): Promise<ListenStats[]> {
+    return this._call(async () => {
+      const address = await resolveAddress(nftContract);
+      const result = await this.contract.getTopListenedTokens(address, limit);
+
+      return toListenStats(address, result.tokenIds, result.listenCounts);
+    });
+  }
+
+  async getListenDataByCreator(
+    nftContract: AddressLike,
+    creator: AddressLike
+  ): Promise<ListenStats[]> {
+    return this._call(async () => {
+      const address = await resolveAddress(nftContract);
+      const result = await this.contract.getListenDataByCreator(
+        address,
+        creator
+      );
+
+      return toListenStats(address, result.tokenIds, result.listenCounts);
+    });
+  }
+
+  // Periods are inclusive day numbers, see `listenPeriodOf`
+  async getListenCountInRange(
+    nftContract: AddressLike,
+    tokenId: BigNumberish,
+    fromPeriod: BigNumberish,
+    toPeriod: BigNumberish
+  ): Promise<bigint> {
+    return this._call(() =>
+      this.contract.getListenCountInRange(
+        nftContract,
+        tokenId,
+        fromPeriod,
+        toPeriod
+      )
+    );
+  }
+
+  async getTopListenedTokensInWindow(
+    nftContract: AddressLike,
+    fromPeriod: BigNumberish,
+    toPeriod: BigNumberish,
+    limit: BigNumberish
+  ): Promise<ListenStats[]> {
+    return this._call(async () => {
+      const address = await resolveAddress(nftContract);
+      const result = await this.contract.getTopListenedTokensInWindow(
+        address,
+        fromPeriod,
+        toPeriod,
+        limit
+      );
+
+      return toListenStats(address, result.tokenIds, result.listenCounts);
+    });
+  }
+
+  async getListenDataByCreatorInRange(
+    nftContract: AddressLike,
+    creator: AddressLike,
+    fromPeriod: BigNumberish,
+    toPeriod: BigNumberish
+  ): Promise<ListenStats[]> {
+    return this._call(async () => {
+      const address = await resolveAddress(nftContract);
+      const result = await this.contract.getListenDataByCreatorInRange(
+        address,
+        creator,
+        fromPeriod,
+        toPeriod
+      );
+
+      return toListenStats(address, result.tokenIds, result.listenCounts);
+    });
+  }
+
+  // One total per period, starting with `fromPeriod`
+  async getCreatorListensByPeriod(
+    nftContract: AddressLike,
+    creator: AddressLike,
+    fromPeriod: BigNumberish,
+    toPeriod: BigNumberish
+  ): Promise<bigint[]> {
+    return this._call(async () => [
+      ...(await this.contract.getCreatorListensByPeriod(
+        nftContract,
+        creator,
+        fromPeriod,
+        toPeriod
+      )),
+    ]);
+  }
+
+  async getAlbumListenData(
+    nftContract: AddressLike,
+    albumId: BigNumberish
+  ): Promise<AlbumListenStats> {
+    return this._call(async () => {
+      const address = await resolveAddress(nftContract);
+      const result = await this.contract.getAlbumListenData(address, albumId);
+
+      return {
+        albumId: BigInt(albumId),
+        totalListens: result.totalListens,
+        tracks: toListenStats(address, result.tokenIds, result.listenCounts),
+      };
+    });
+  }
+
+  // Periods are inclusive day numbers, see `listenPeriodOf`
+  async getAlbumListenCountInRange(
+    nftContract: AddressLike,
+    albumId: BigNumberish,
+    fromPeriod: BigNumberish,
+    toPeriod: BigNumberish
+  ): Promise<bigint> {
+    return this._call(() =>
+      this.contract.getAlbumListenCountInRange(
+        nftContract,
+        albumId,
+        fromPeriod,
+        toPeriod
+      )
+    );
+  }
+
+  async getSubscriptionPool(period: BigNumberish): Promise<SubscriptionPool> {
+    return this._call(async () => {
+      const result = await this.contract.getSubscriptionPool(period);
+
+      return {
+        period: BigInt(period),
+        pool: result.pool,
+        totalListens: result.totalListens,
+        closed: result.closed,
+      };
+    });
+  }
+
+  // The amount is final once the period is closed
+  async getSubscriptionPayout(
+    nftContract: AddressLike,
+    tokenId: BigNumberish,
+    period: BigNumberish
+  ): Promise<SubscriptionPayout> {
+    return this._call(async () => {
+      const address = await resolveAddress(nftContract);
+      const result = await this.contract.getSubscriptionPayout(
+        address,
+        tokenId,
+        period
+      );
+
+      return {
+        nftContract: address,
+        tokenId: BigInt(tokenId),
+        period: BigInt(period),
+        listens: result.listens,
+        amount: result.amount,
+        claimed: result.claimed,
+      };
+    });
+  }
+
+  async getTokensListenedInPeriod(
+    nftContract: AddressLike,
+    period: BigNumberish
+  ): Promise<bigint[]> {
+    return this._call(async () => [
+      ...(await this.contract.getTokensListenedInPeriod(nftContract, period)),
+    ]);
+  }
+
+  async hasActivePass(listener: AddressLike): Promise<boolean> {
+    return this._call(() => this.contract.hasActivePass(listener));
+  }
+
+  // First period no longer covered by the listener's pass
+  async getPassEndPeriod(listener: AddressLike): Promise<bigint> {
+    return this._call(() => this.contract.passEndPeriods(listener));
+  }
+
+  async getSubscriptionPrice(): Promise<bigint> {
+    return this._call(() => this.contract.subscriptionPricePerPeriod());
+  }
+
+  async getCurrentPeriod(): Promise<bigint> {
+    return this._call(() => this.contract.currentPeriod());
+  }
+
+  async getPeriodListenCount(
+    nftContract: AddressLike,
+    tokenId: BigNumberish,
+    period: BigNumberish
+  ): Promise<bigint> {
+    return this._call(() =>
+      this.contract.getPeriodListenCount(nftContract, tokenId, period)
+    );
+  }
+
+  async isReporter(reporter: AddressLike): Promise<boolean> {
+    return this._call(() => this.contract.authorizedReporters(reporter));
+  }
+
+  async isReportNonceUsed(
+    reporter: AddressLike,
+    nonce: BigNumberish
+  ): Promise<boolean> {
+    return this._call(() => this.contract.isReportNonceUsed(reporter, nonce));
+  }
+
+  // Owner only
+  async addReporter(reporter: AddressLike): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.addReporter(reporter);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async revokeReporter(
+    reporter: AddressLike
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.revokeReporter(reporter);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Owner only. A cap of 0 removes the limit
+  async setListenCapPerPeriod(
+    cap: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setListenCapPerPeriod(cap);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  // Owner only. A price of 0 stops pass sales
+  async setSubscriptionPrice(
+    pricePerPeriod: BigNumberish
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setSubscriptionPrice(pricePerPeriod);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async isEscrowContract(escrow: AddressLike): Promise<boolean> {
+    return this._call(() => this.contract.escrowContracts(escrow));
+  }
+
+  // Owner only. Owner royalties of tokens held by a registered marketplace
+  // are credited to the seller of the listing or auction instead
+  async setEscrowContract(
+    escrow: AddressLike,
+    registered = true
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setEscrowContract(escrow, registered);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async isEditionContract(edition: AddressLike): Promise<boolean> {
+    return this._call(() => this.contract.editionContracts(edition));
+  }
+
+  // Owner only
+  async setEditionContract(
+    edition: AddressLike,
+    registered = true
+  ): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.setEditionContract(edition, registered);
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async isPaused(): Promise<boolean> {
+    return this._call(() => this.contract.paused());
+  }
+
+  // Owner only. Withdrawals keep working while paused
+  async pause(): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.pause();
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  async unpause(): Promise<TransactionResult<void>> {
+    return this._call(async () => {
+      const tx = await this.contract.unpause();
+      return { value: undefined, receipt: (await tx.wait())! };
+    });
+  }
+
+  private _call<T>(call: () => Promise<T>): Promise<T> {
+    return withContractErrors(this.contract.interface, call);
+  }
+}
+
+function reportValue(report: ListenReport): BigNumberish {
+  return report.currency === ZeroAddress ? report.amount : 0n;
+}
+
+function toListenStats(
+  nftContract: string,
+  tokenIds: bigint[],
+  listenCounts: bigint[]
+): ListenStats[] {
+  return tokenIds.map((tokenId, i) => ({
+    nftContract,
+    tokenId,
+    listenCount: listenCounts[i],
+  }));
+}
@@ -0,0 +1,42 @@
+import { readFile } from 'fs/promises';
+import { BigNumberish, ZeroHash, keccak256, sha256 } from 'ethers';
+import type { MusicNFTClient } from './MusicNFTClient';
+import { ContentHashCheck } from './types';
+
+export type ContentHashAlgorithm = 'keccak256' | 'sha256';
+
+// Which of a track's hashes a file is checked against
+export type TrackFile = 'content' | 'artwork';
+
+// Hashes the raw bytes of a local file, as recorded by mintNFTWithMetadata.
+// The sha256 digest is not the one in the file's IPFS CID, which hashes the
+// file's UnixFS encoding rather than its bytes
+export async function hashFile(
+  filePath: string,
+  algorithm: ContentHashAlgorithm = 'keccak256'
+): Promise<string> {
+  const contents = await readFile(filePath);
+  return algorithm === 'sha256' ? sha256(contents) : keccak256(contents);
+}
+
+// Compares a local file with the audio or artwork hash recorded for a token.
+// The algorithm must be the one used when the token was minted
+export async function verifyTrackFile(
+  musicNFT: MusicNFTClient,
+  tokenId: BigNumberish,
+  filePath: string,
+  file: TrackFile = 'content',
+  algorithm: ContentHashAlgorithm = 'keccak256'
+): Promise<ContentHashCheck> {
+  const [metadata, actual] = await Promise.all([
+    musicNFT.getTrackMetadata(tokenId),
+    hashFile(filePath, algorithm),
+  ]);
+
+  const recorded =
+    file === 'artwork' ? metadata?.artworkHash : metadata?.contentHash;
+  const expected =
+    recorded === undefined || recorded === ZeroHash ? null : recorded;
+
+  return { expected, actual, matches: expected === actual };
+}
@@ -0,0 +1,701 @@
+import { Interface, isHexString } from 'ethers';
+
+// Base class for every error raised by the SDK
+export class SDKError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// A custom error reverted by one of the ecosystem contracts
+export class ContractError extends SDKError {
+  constructor(
+    public readonly errorName: string,
+    public readonly args: readonly unknown[] = [],
+    message?: string
+  ) {
+    super(message ?? `${errorName}(${args.map(String).join(', ')})`);
+  }
+}
+
+export class NonexistentTokenError extends ContractError {
+  public readonly tokenId: bigint;
+  public readonly nftContract?: string;
+
+  constructor(args: readonly unknown[]) {
+    super('NonexistentToken', args);
+    // MusicNFT reverts with (tokenId), NFTStreaming with (nftContract, tokenId)
+    if (args.length > 1) {
+      this.nftContract = args[0] as string;
+      this.tokenId = args[1] as bigint;
+    } else {
+      this.tokenId = args[0] as bigint;
+    }
+  }
+}
+
+export class EmptyTokenURIError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('EmptyTokenURI', args);
+  }
+}
+
+export class MaxRoyaltyExceededError extends ContractError {
+  public readonly percentage: bigint;
+  public readonly maxAllowed: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('MaxRoyaltyExceeded', args);
+    this.percentage = args[0] as bigint;
+    this.maxAllowed = args[1] as bigint;
+  }
+}
+
+export class NotAuthorizedError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('NotAuthorized', args);
+  }
+}
+
+export class InsufficientFundsError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InsufficientFunds', args);
+  }
+}
+
+export class ListingNotActiveError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('ListingNotActive', args);
+  }
+}
+
+export class ListingNotFoundError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('ListingNotFound', args);
+  }
+}
+
+export class NotListingOwnerError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('NotListingOwner', args);
+  }
+}
+
+export class ListingExpiredError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('ListingExpired', args);
+  }
+}
+
+export class ListingNotExpiredError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('ListingNotExpired', args);
+  }
+}
+
+export class InvalidExpirationError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidExpiration', args);
+  }
+}
+
+export class ListingInvalidError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('ListingInvalid', args);
+  }
+}
+
+export class TokenAlreadyListedError extends ContractError {
+  public readonly listingId: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('TokenAlreadyListed', args);
+    this.listingId = args[0] as bigint;
+  }
+}
+
+export class MarketplaceNotApprovedError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('MarketplaceNotApproved', args);
+  }
+}
+
+export class NotTokenOwnerError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('NotTokenOwner', args);
+  }
+}
+
+export class BundleNotFoundError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('BundleNotFound', args);
+  }
+}
+
+export class BundleNotActiveError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('BundleNotActive', args);
+  }
+}
+
+export class NotBundleSellerError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('NotBundleSeller', args);
+  }
+}
+
+export class InvalidBundleSizeError extends ContractError {
+  public readonly size: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('InvalidBundleSize', args);
+    this.size = args[0] as bigint;
+  }
+}
+
+export class InvalidBundleWeightError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidBundleWeight', args);
+  }
+}
+
+export class TransferFailedError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('TransferFailed', args);
+  }
+}
+
+export class NoPaymentsPendingError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('NoPaymentsPending', args);
+  }
+}
+
+export class InsufficientPaymentError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InsufficientPayment', args);
+  }
+}
+
+export class InvalidListenCountError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidListenCount', args);
+  }
+}
+
+export class UnsupportedNFTContractError extends ContractError {
+  public readonly nftContract: string;
+
+  constructor(args: readonly unknown[]) {
+    super('UnsupportedNFTContract', args);
+    this.nftContract = args[0] as string;
+  }
+}
+
+export class CurrencyNotAllowedError extends ContractError {
+  public readonly currency: string;
+
+  constructor(args: readonly unknown[]) {
+    super('CurrencyNotAllowed', args);
+    this.currency = args[0] as string;
+  }
+}
+
+export class NativePaymentNotAcceptedError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('NativePaymentNotAccepted', args);
+  }
+}
+
+export class InvalidRoyaltySplitError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidRoyaltySplit', args);
+  }
+}
+
+export class InvalidSplitTotalError extends ContractError {
+  public readonly total: bigint;
+  public readonly expected: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('InvalidSplitTotal', args);
+    this.total = args[0] as bigint;
+    this.expected = args[1] as bigint;
+  }
+}
+
+export class MarketFeeTooHighError extends ContractError {
+  public readonly percentage: bigint;
+  public readonly maxAllowed: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('MarketFeeTooHigh', args);
+    this.percentage = args[0] as bigint;
+    this.maxAllowed = args[1] as bigint;
+  }
+}
+
+export class InvalidFeeTreasuryError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidFeeTreasury', args);
+  }
+}
+
+// Raised by OpenZeppelin's Pausable when a paused function is called
+export class EnforcedPauseError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('EnforcedPause', args);
+  }
+}
+
+export class VoucherExpiredError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('VoucherExpired', args);
+  }
+}
+
+export class VoucherNonceUsedError extends ContractError {
+  public readonly creator: string;
+  public readonly nonce: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('VoucherNonceUsed', args);
+    this.creator = args[0] as string;
+    this.nonce = args[1] as bigint;
+  }
+}
+
+export class InvalidVoucherSignatureError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidVoucherSignature', args);
+  }
+}
+
+export class AlbumNotFoundError extends ContractError {
+  public readonly albumId: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('AlbumNotFound', args);
+    this.albumId = args[0] as bigint;
+  }
+}
+
+export class EmptyAlbumURIError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('EmptyAlbumURI', args);
+  }
+}
+
+export class AlbumFullError extends ContractError {
+  public readonly albumId: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('AlbumFull', args);
+    this.albumId = args[0] as bigint;
+  }
+}
+
+export class TrackAlreadyInAlbumError extends ContractError {
+  public readonly tokenId: bigint;
+  public readonly albumId: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('TrackAlreadyInAlbum', args);
+    this.tokenId = args[0] as bigint;
+    this.albumId = args[1] as bigint;
+  }
+}
+
+export class TrackNotInAlbumError extends ContractError {
+  public readonly tokenId: bigint;
+  public readonly albumId: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('TrackNotInAlbum', args);
+    this.tokenId = args[0] as bigint;
+    this.albumId = args[1] as bigint;
+  }
+}
+
+export class InvalidTrackOrderError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidTrackOrder', args);
+  }
+}
+
+export class InvalidMaxSupplyError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidMaxSupply', args);
+  }
+}
+
+export class InvalidAmountError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidAmount', args);
+  }
+}
+
+export class EditionSupplyExceededError extends ContractError {
+  public readonly editionId: bigint;
+  public readonly maxSupply: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('EditionSupplyExceeded', args);
+    this.editionId = args[0] as bigint;
+    this.maxSupply = args[1] as bigint;
+  }
+}
+
+export class UnauthorizedDepositorError extends ContractError {
+  public readonly depositor: string;
+
+  constructor(args: readonly unknown[]) {
+    super('UnauthorizedDepositor', args);
+    this.depositor = args[0] as string;
+  }
+}
+
+export class NoEditionHoldersError extends ContractError {
+  public readonly editionId: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('NoEditionHolders', args);
+    this.editionId = args[0] as bigint;
+  }
+}
+
+export class EditionListingNotFoundError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('EditionListingNotFound', args);
+  }
+}
+
+export class EditionListingNotActiveError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('EditionListingNotActive', args);
+  }
+}
+
+export class InvalidQuantityError extends ContractError {
+  public readonly quantity: bigint;
+  public readonly available: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('InvalidQuantity', args);
+    this.quantity = args[0] as bigint;
+    this.available = args[1] as bigint;
+  }
+}
+
+export class UnauthorizedReporterError extends ContractError {
+  public readonly reporter: string;
+
+  constructor(args: readonly unknown[]) {
+    super('UnauthorizedReporter', args);
+    this.reporter = args[0] as string;
+  }
+}
+
+export class InvalidListenRateError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidListenRate', args);
+  }
+}
+
+export class InvalidListenAmountError extends ContractError {
+  public readonly amount: bigint;
+  public readonly expected: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('InvalidListenAmount', args);
+    this.amount = args[0] as bigint;
+    this.expected = args[1] as bigint;
+  }
+}
+
+export class InvalidReportPeriodError extends ContractError {
+  public readonly period: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('InvalidReportPeriod', args);
+    this.period = args[0] as bigint;
+  }
+}
+
+export class ReportNonceUsedError extends ContractError {
+  public readonly reporter: string;
+  public readonly nonce: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('ReportNonceUsed', args);
+    this.reporter = args[0] as string;
+    this.nonce = args[1] as bigint;
+  }
+}
+
+export class InvalidPeriodRangeError extends ContractError {
+  public readonly fromPeriod: bigint;
+  public readonly toPeriod: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('InvalidPeriodRange', args);
+    this.fromPeriod = args[0] as bigint;
+    this.toPeriod = args[1] as bigint;
+  }
+}
+
+export class ListenCapExceededError extends ContractError {
+  public readonly nftContract: string;
+  public readonly tokenId: bigint;
+  public readonly period: bigint;
+  public readonly cap: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('ListenCapExceeded', args);
+    this.nftContract = args[0] as string;
+    this.tokenId = args[1] as bigint;
+    this.period = args[2] as bigint;
+    this.cap = args[3] as bigint;
+  }
+}
+
+export class SubscriptionsNotOnSaleError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('SubscriptionsNotOnSale', args);
+  }
+}
+
+export class InvalidPassDurationError extends ContractError {
+  public readonly periods: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('InvalidPassDuration', args);
+    this.periods = args[0] as bigint;
+  }
+}
+
+export class PeriodNotEndedError extends ContractError {
+  public readonly period: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('PeriodNotEnded', args);
+    this.period = args[0] as bigint;
+  }
+}
+
+export class PeriodAlreadyClosedError extends ContractError {
+  public readonly period: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('PeriodAlreadyClosed', args);
+    this.period = args[0] as bigint;
+  }
+}
+
+export class PeriodNotClosedError extends ContractError {
+  public readonly period: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('PeriodNotClosed', args);
+    this.period = args[0] as bigint;
+  }
+}
+
+export class NoRoyaltyUpdatePendingError extends ContractError {
+  public readonly tokenId: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('NoRoyaltyUpdatePending', args);
+    this.tokenId = args[0] as bigint;
+  }
+}
+
+export class RoyaltyUpdateTimelockedError extends ContractError {
+  public readonly tokenId: bigint;
+  public readonly executableAt: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('RoyaltyUpdateTimelocked', args);
+    this.tokenId = args[0] as bigint;
+    this.executableAt = args[1] as bigint;
+  }
+}
+
+export class MetadataIsFrozenError extends ContractError {
+  public readonly tokenId: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('MetadataIsFrozen', args);
+    this.tokenId = args[0] as bigint;
+  }
+}
+
+export class InvalidTrackMetadataError extends ContractError {
+  constructor(args: readonly unknown[]) {
+    super('InvalidTrackMetadata', args);
+  }
+}
+
+export class PriceAboveMaximumError extends ContractError {
+  public readonly price: bigint;
+  public readonly maxPrice: bigint;
+
+  constructor(args: readonly unknown[]) {
+    super('PriceAboveMaximum', args);
+    this.price = args[0] as bigint;
+    this.maxPrice = args[1] as bigint;
+  }
+}
+
+type ContractErrorClass = new (args: readonly unknown[]) => ContractError;
+
+const ERROR_CLASSES: Record<string, ContractErrorClass> = {
+  NonexistentToken: NonexistentTokenError,
+  EmptyTokenURI: EmptyTokenURIError,
+  MaxRoyaltyExceeded: MaxRoyaltyExceededError,
+  NotAuthorized: NotAuthorizedError,
+  InsufficientFunds: InsufficientFundsError,
+  ListingNotActive: ListingNotActiveError,
+  ListingNotFound: ListingNotFoundError,
+  NotListingOwner: NotListingOwnerError,
+  ListingExpired: ListingExpiredError,
+  ListingNotExpired: ListingNotExpiredError,
+  InvalidExpiration: InvalidExpirationError,
+  ListingInvalid: ListingInvalidError,
+  TokenAlreadyListed: TokenAlreadyListedError,
+  MarketplaceNotApproved: MarketplaceNotApprovedError,
+  NotTokenOwner: NotTokenOwnerError,
+  BundleNotFound: BundleNotFoundError,
+  BundleNotActive: BundleNotActiveError,
+  NotBundleSeller: NotBundleSellerError,
+  InvalidBundleSize: InvalidBundleSizeError,
+  InvalidBundleWeight: InvalidBundleWeightError,
+  TransferFailed: TransferFailedError,
+  NoPaymentsPending: NoPaymentsPendingError,
+  InsufficientPayment: InsufficientPaymentError,
+  InvalidListenCount: InvalidListenCountError,
+  UnsupportedNFTContract: UnsupportedNFTContractError,
+  CurrencyNotAllowed: CurrencyNotAllowedError,
+  NativePaymentNotAccepted: NativePaymentNotAcceptedError,
+  InvalidRoyaltySplit: InvalidRoyaltySplitError,
+  InvalidSplitTotal: InvalidSplitTotalError,
+  MarketFeeTooHigh: MarketFeeTooHighError,
+  InvalidFeeTreasury: InvalidFeeTreasuryError,
+  EnforcedPause: EnforcedPauseError,
+  VoucherExpired: VoucherExpiredError,
+  VoucherNonceUsed: VoucherNonceUsedError,
+  InvalidVoucherSignature: InvalidVoucherSignatureError,
+  AlbumNotFound: AlbumNotFoundError,
+  EmptyAlbumURI: EmptyAlbumURIError,
+  AlbumFull: AlbumFullError,
+  TrackAlreadyInAlbum: TrackAlreadyInAlbumError,
+  TrackNotInAlbum: TrackNotInAlbumError,
+  InvalidTrackOrder: InvalidTrackOrderError,
+  InvalidMaxSupply: InvalidMaxSupplyError,
+  InvalidAmount: InvalidAmountError,
+  EditionSupplyExceeded: EditionSupplyExceededError,
+  UnauthorizedDepositor: UnauthorizedDepositorError,
+  NoEditionHolders: NoEditionHoldersError,
+  EditionListingNotFound: EditionListingNotFoundError,
+  EditionListingNotActive: EditionListingNotActiveError,
+  InvalidQuantity: InvalidQuantityError,
+  UnauthorizedReporter: UnauthorizedReporterError,
+  InvalidListenRate: InvalidListenRateError,
+  InvalidListenAmount: InvalidListenAmountError,
+  InvalidReportPeriod: InvalidReportPeriodError,
+  ReportNonceUsed: ReportNonceUsedError,
+  InvalidPeriodRange: InvalidPeriodRangeError,
+  ListenCapExceeded: ListenCapExceededError,
+  SubscriptionsNotOnSale: SubscriptionsNotOnSaleError,
+  InvalidPassDuration: InvalidPassDurationError,
+  PeriodNotEnded: PeriodNotEndedError,
+  PeriodAlreadyClosed: PeriodAlreadyClosedError,
+  PeriodNotClosed: PeriodNotClosedError,
+  NoRoyaltyUpdatePending: NoRoyaltyUpdatePendingError,
+  RoyaltyUpdateTimelocked: RoyaltyUpdateTimelockedError,
+  MetadataIsFrozen: MetadataIsFrozenError,
+  InvalidTrackMetadata: InvalidTrackMetadataError,
+  PriceAboveMaximum: PriceAboveMaximumError,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Reads a nested property, or undefined when a step on the way is not an
+// object
+function getPath(value: unknown, ...keys: string[]): unknown {
+  let current = value;
+  for (const key of keys) {
+    if (!isRecord(current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+// Finds the raw revert data on errors thrown by ethers or by the Hardhat network
+function findRevertData(error: unknown): string | undefined {
+  const candidates = [
+    getPath(error, 'data'),
+    getPath(error, 'error', 'data'),
+    getPath(error, 'info', 'error', 'data'),
+    getPath(error, 'data', 'data'),
+  ];
+
+  return candidates.find(
+    (candidate): candidate is string =>
+      isHexString(candidate) && candidate.length >= 10
+  );
+}
+
+/**
+ * Converts an error thrown by a contract call into a typed ContractError.
+ * Returns undefined when the error does not carry a custom error known to
+ * the given interface.
+ */
+export function decodeContractError(
+  error: unknown,
+  iface: Interface
+): ContractError | undefined {
+  // ethers decodes the revert itself when the contract ABI is known
+  const decoded = getPath(error, 'revert');
+  if (isRecord(decoded) && typeof decoded.name === 'string' && decoded.name) {
+    const args = Array.isArray(decoded.args) ? Array.from(decoded.args) : [];
+    return createContractError(decoded.name, args);
+  }
+
+  const data = findRevertData(error);
+  if (data === undefined) {
+    return undefined;
+  }
+
+  const parsed = iface.parseError(data);
+  if (parsed === null) {
+    return undefined;
+  }
+
+  return createContractError(parsed.name, Array.from(parsed.args));
+}
+
+export function createContractError(
+  errorName: string,
+  args: readonly unknown[]
+): ContractError {
+  const ErrorClass = ERROR_CLASSES[errorName];
+  return ErrorClass ? new ErrorClass(args) : new ContractError(errorName, args);
+}
+
+// Runs a contract call and rethrows known custom errors as typed SDK errors
+export async function withContractErrors<T>(
+  iface: Interface,
+  call: () => Promise<T>
+): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw decodeContractError(error, iface) ?? error;
+  }
+}
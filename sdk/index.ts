@@ -0,0 +1,48 @@
+import { ContractRunner } from 'ethers';
+import { MusicEditionsClient } from './MusicEditionsClient';
+import { MusicNFTClient } from './MusicNFTClient';
+import { NFTMarketplaceClient } from './NFTMarketplaceClient';
+import { NFTStreamingClient } from './NFTStreamingClient';
+
+export * from './contentHash';
+export * from './errors';
+export * from './listenReports';
+export * from './types';
+export * from './vouchers';
+export {
+  MusicEditionsClient,
+  MusicNFTClient,
+  NFTMarketplaceClient,
+  NFTStreamingClient,
+};
+
+export interface EcosystemAddresses {
+  musicNFT: string;
+  nftMarketplace: string;
+  nftStreaming: string;
+  // Missing from deployments made before MusicEditions was added
+  musicEditions?: string;
+}
+
+export interface EcosystemClients {
+  musicNFT: MusicNFTClient;
+  nftMarketplace: NFTMarketplaceClient;
+  nftStreaming: NFTStreamingClient;
+  musicEditions?: MusicEditionsClient;
+}
+
+// Connects clients for the contracts deployed by NFTEcosystemModule
+export function connectEcosystem(
+  addresses: EcosystemAddresses,
+  runner: ContractRunner
+): EcosystemClients {
+  return {
+    musicNFT: new MusicNFTClient(addresses.musicNFT, runner),
+    nftMarketplace: new NFTMarketplaceClient(addresses.nftMarketplace, runner),
+    nftStreaming: new NFTStreamingClient(addresses.nftStreaming, runner),
+    musicEditions:
+      addresses.musicEditions === undefined
+        ? undefined
+        : new MusicEditionsClient(addresses.musicEditions, runner),
+  };
+}
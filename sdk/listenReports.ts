@@ -0,0 +1,101 @@
+import {
+  BigNumberish,
+  Signer,
+  TypedDataDomain,
+  ZeroAddress,
+  randomBytes,
+  toBigInt,
+} from 'ethers';
+import { getSignerChainId } from './utils';
+
+// Listens of one token in one reporting period, as reported by a streaming
+// oracle. NFTStreaming requires `amount == count * rate`
+export interface ListenReport {
+  nftContract: string;
+  tokenId: BigNumberish;
+  count: BigNumberish;
+  amount: BigNumberish;
+  rate: BigNumberish;
+  // ERC-20 token the amount is paid in, or the zero address for native ETH
+  currency: string;
+  period: BigNumberish;
+  // Must be unused for the reporter
+  nonce: BigNumberish;
+}
+
+export interface SignedListenReport {
+  report: ListenReport;
+  signature: string;
+}
+
+// Must match NFTStreaming.LISTEN_PERIOD_LENGTH
+export const LISTEN_PERIOD_LENGTH = 86400n;
+
+export const LISTEN_REPORT_TYPES = {
+  ListenReport: [
+    { name: 'nftContract', type: 'address' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'count', type: 'uint256' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'rate', type: 'uint256' },
+    { name: 'currency', type: 'address' },
+    { name: 'period', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+// Returns the reporting period containing a unix timestamp in seconds
+export function listenPeriodOf(timestamp: BigNumberish): bigint {
+  return BigInt(timestamp) / LISTEN_PERIOD_LENGTH;
+}
+
+// Fills in the amount from the count and rate, and a random nonce when none is given
+export function buildListenReport({
+  nftContract,
+  tokenId,
+  count,
+  rate,
+  period,
+  currency = ZeroAddress,
+  nonce = toBigInt(randomBytes(16)),
+}: Omit<ListenReport, 'amount' | 'currency' | 'nonce'> &
+  Partial<Pick<ListenReport, 'currency' | 'nonce'>>): ListenReport {
+  return {
+    nftContract,
+    tokenId,
+    count,
+    amount: BigInt(count) * BigInt(rate),
+    rate,
+    currency,
+    period,
+    nonce,
+  };
+}
+
+// Must match the EIP712 constructor arguments of NFTStreaming
+export function listenReportDomain(
+  streamingAddress: string,
+  chainId: BigNumberish
+): TypedDataDomain {
+  return {
+    name: 'NFTStreaming',
+    version: '1',
+    chainId,
+    verifyingContract: streamingAddress,
+  };
+}
+
+export async function signListenReport(
+  signer: Signer,
+  streamingAddress: string,
+  report: ListenReport
+): Promise<SignedListenReport> {
+  const chainId = await getSignerChainId(signer);
+  const signature = await signer.signTypedData(
+    listenReportDomain(streamingAddress, chainId),
+    LISTEN_REPORT_TYPES,
+    report
+  );
+
+  return { report, signature };
+}
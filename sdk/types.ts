@@ -0,0 +1,194 @@
+import { BigNumberish, ContractTransactionReceipt } from 'ethers';
+
+export interface Listing {
+  listingId: bigint;
+  seller: string;
+  nftContract: string;
+  tokenId: bigint;
+  price: bigint;
+  // ERC-20 token the price is paid in, or the zero address for native ETH.
+  // Only populated when the full listing record is read
+  currency?: string;
+  // Unix timestamp after which the listing can no longer be bought, zero when
+  // it never expires. Only populated when the full listing record is read
+  expiresAt?: bigint;
+  // False when the seller keeps the NFT until it is sold. Only populated
+  // when the full listing record is read
+  isEscrowed?: boolean;
+  isActive: boolean;
+}
+
+// One token of a bundle listing. The bundle price is divided among the
+// items in proportion to their weights
+export interface BundleItem {
+  nftContract: string;
+  tokenId: BigNumberish;
+  weight: BigNumberish;
+}
+
+export interface Bundle {
+  bundleId: bigint;
+  seller: string;
+  price: bigint;
+  // ERC-20 token the price is paid in, or the zero address for native ETH
+  currency: string;
+  isActive: boolean;
+  itemCount: number;
+  // Only populated when a single bundle is read
+  items?: BundleItem[];
+}
+
+// Receiver of the holder share of an edition's streaming royalties,
+// matching MusicEditions.StreamingPayout
+export enum StreamingPayout {
+  Holders = 0,
+  Creator = 1,
+}
+
+export interface Edition {
+  editionId: bigint;
+  creator: string;
+  uri: string;
+  maxSupply: bigint;
+  minted: bigint;
+  streamingRoyaltyPercentage: bigint;
+  streamingPayout: StreamingPayout;
+}
+
+export interface EditionListing {
+  listingId: bigint;
+  seller: string;
+  nftContract: string;
+  editionId: bigint;
+  // Copies still for sale
+  quantity: bigint;
+  pricePerCopy: bigint;
+  // ERC-20 token the price is paid in, or the zero address for native ETH
+  currency: string;
+  isActive: boolean;
+}
+
+export interface TokenDetails {
+  tokenId: bigint;
+  tokenURI: string;
+  creator: string;
+  owner: string;
+  streamingRoyaltyPercentage: bigint;
+  salesRoyaltyReceiver: string;
+  salesRoyaltyPercentage: bigint;
+}
+
+// Royalties proposed by a token's creator, applied once `executableAt` (a
+// unix timestamp) has passed
+export interface RoyaltyUpdate {
+  tokenId: bigint;
+  salesRoyaltyPercentage: bigint;
+  streamingRoyaltyPercentage: bigint;
+  executableAt: bigint;
+}
+
+// A URI a token has had, with who set it and when (a unix timestamp)
+export interface TokenURIVersion {
+  uri: string;
+  setBy: string;
+  setAt: bigint;
+}
+
+// Track details stored on-chain by MusicNFT.mintNFTWithMetadata. The hashes
+// are 32-byte hex strings, zero when not recorded
+export interface TrackMetadata {
+  title: string;
+  artist: string;
+  isrc: string;
+  // Length of the track in seconds
+  duration: BigNumberish;
+  contentHash: string;
+  artworkHash: string;
+}
+
+// Result of comparing a local file with the hash recorded for a token
+export interface ContentHashCheck {
+  // Null when the token has no hash recorded for the file
+  expected: string | null;
+  actual: string;
+  matches: boolean;
+}
+
+export interface Album {
+  albumId: bigint;
+  creator: string;
+  metadataURI: string;
+  // Token ids in track order
+  tracks: bigint[];
+}
+
+// Album a token belongs to, with its zero-based position in the tracklist
+export interface TokenAlbum {
+  albumId: bigint;
+  trackIndex: bigint;
+}
+
+export interface AlbumListenStats {
+  albumId: bigint;
+  totalListens: bigint;
+  // One entry per track, in track order
+  tracks: ListenStats[];
+}
+
+// One collaborator's part of a token's royalties, in basis points
+export interface RoyaltyShare {
+  recipient: string;
+  share: bigint;
+}
+
+export interface ListenStats {
+  nftContract: string;
+  tokenId: bigint;
+  listenCount: bigint;
+}
+
+// Summary of NFTStreaming.settleListenReports. Skipped reports were for
+// nonexistent tokens and their ETH amounts are refunded
+export interface ListenSettlement {
+  recordedCount: bigint;
+  skippedCount: bigint;
+  totalListens: bigint;
+  nativeAmount: bigint;
+}
+
+// Listens of one token by subscription pass holders
+export interface SubscriptionListens {
+  nftContract: string;
+  tokenId: BigNumberish;
+  count: BigNumberish;
+}
+
+// Pass revenue of one period and the subscription listens it is divided by
+export interface SubscriptionPool {
+  period: bigint;
+  pool: bigint;
+  totalListens: bigint;
+  closed: boolean;
+}
+
+export interface SubscriptionPayout {
+  nftContract: string;
+  tokenId: bigint;
+  period: bigint;
+  listens: bigint;
+  amount: bigint;
+  claimed: boolean;
+}
+
+export interface Pagination {
+  start?: number | bigint;
+  limit?: number | bigint;
+}
+
+// Result of a state-changing call together with the value it produced
+export interface TransactionResult<T> {
+  value: T;
+  receipt: ContractTransactionReceipt;
+}
+
+export const DEFAULT_PAGE_SIZE = 50n;
@@ -0,0 +1,50 @@
+import { ContractTransactionReceipt, Interface, Result, Signer } from 'ethers';
+import { SDKError } from './errors';
+import { DEFAULT_PAGE_SIZE, Pagination } from './types';
+
+// Returns the arguments of the first `eventName` log emitted by `iface` in the receipt
+export function findEventArgs(
+  iface: Interface,
+  receipt: ContractTransactionReceipt,
+  eventName: string
+): Result {
+  for (const log of receipt.logs) {
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === eventName) {
+      return parsed.args;
+    }
+  }
+
+  throw new SDKError(`${eventName} event not found in transaction receipt`);
+}
+
+// Returns the arguments of every `eventName` log emitted by `iface` in the receipt
+export function filterEventArgs(
+  iface: Interface,
+  receipt: ContractTransactionReceipt,
+  eventName: string
+): Result[] {
+  return receipt.logs
+    .map((log) => iface.parseLog(log))
+    .filter((parsed) => parsed?.name === eventName)
+    .map((parsed) => parsed!.args);
+}
+
+export function resolvePagination({ start, limit }: Pagination = {}): [
+  bigint,
+  bigint
+] {
+  return [BigInt(start ?? 0), BigInt(limit ?? DEFAULT_PAGE_SIZE)];
+}
+
+// Returns the chain ID of the signer's provider, which signatures are bound to
+export async function getSignerChainId(signer: Signer): Promise<bigint> {
+  if (!signer.provider) {
+    throw new SDKError(
+      'Signer must be connected to a provider to read the chain ID'
+    );
+  }
+
+  const network = await signer.provider.getNetwork();
+  return network.chainId;
+}
@@ -0,0 +1,60 @@
+import { BigNumberish, Signer, TypedDataDomain } from 'ethers';
+import { getSignerChainId } from './utils';
+
+// Off-chain authorization for MusicNFT.redeemVoucher. The creator signs it
+// and the first buyer submits it, paying at least `minPrice`
+export interface MintVoucher {
+  creator: string;
+  tokenURI: string;
+  salesRoyaltyPercentage: BigNumberish;
+  streamingRoyaltyPercentage: BigNumberish;
+  minPrice: BigNumberish;
+  nonce: BigNumberish;
+  // Unix timestamp in seconds after which the voucher can no longer be redeemed
+  expiresAt: BigNumberish;
+}
+
+export interface SignedMintVoucher {
+  voucher: MintVoucher;
+  signature: string;
+}
+
+export const MINT_VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: 'creator', type: 'address' },
+    { name: 'tokenURI', type: 'string' },
+    { name: 'salesRoyaltyPercentage', type: 'uint256' },
+    { name: 'streamingRoyaltyPercentage', type: 'uint256' },
+    { name: 'minPrice', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiresAt', type: 'uint256' },
+  ],
+};
+
+// Must match the EIP712 constructor arguments of MusicNFT
+export function mintVoucherDomain(
+  musicNFTAddress: string,
+  chainId: BigNumberish
+): TypedDataDomain {
+  return {
+    name: 'MusicNFT',
+    version: '1',
+    chainId,
+    verifyingContract: musicNFTAddress,
+  };
+}
+
+export async function signMintVoucher(
+  signer: Signer,
+  musicNFTAddress: string,
+  voucher: MintVoucher
+): Promise<SignedMintVoucher> {
+  const chainId = await getSignerChainId(signer);
+  const signature = await signer.signTypedData(
+    mintVoucherDomain(musicNFTAddress, chainId),
+    MINT_VOUCHER_TYPES,
+    voucher
+  );
+
+  return { voucher, signature };
+}
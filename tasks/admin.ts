@@ -0,0 +1,153 @@
+import { task, types } from 'hardhat/config';
+import { getEcosystem, printEvents, withReadableErrors } from './utils';
+
+task('admin:set-fee', 'Sets the marketplace fee (owner only)')
+  .addParam('percentage', 'Market fee in basis points', undefined, types.int)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftMarketplace.setMarketFeePercentage(
+        args.percentage
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'admin:set-treasury',
+  'Sets the address receiving market fees (owner only)'
+)
+  .addParam('treasury', 'Fee treasury address')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftMarketplace.setFeeTreasury(
+        args.treasury
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'admin:pause',
+  'Pauses listing, buying and listen recording on the marketplace and streaming contracts (owner only)'
+)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      for (const client of [clients.nftMarketplace, clients.nftStreaming]) {
+        if (!(await client.isPaused())) {
+          printEvents(clients, (await client.pause()).receipt);
+        }
+      }
+    });
+  });
+
+task(
+  'admin:unpause',
+  'Unpauses the marketplace and streaming contracts (owner only)'
+)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      for (const client of [clients.nftMarketplace, clients.nftStreaming]) {
+        if (await client.isPaused()) {
+          printEvents(clients, (await client.unpause()).receipt);
+        }
+      }
+    });
+  });
+
+task(
+  'admin:add-reporter',
+  'Authorizes a streaming oracle to report listens (owner only)'
+)
+  .addParam('reporter', 'Reporter address')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftStreaming.addReporter(args.reporter);
+      printEvents(clients, receipt);
+    });
+  });
+
+task('admin:revoke-reporter', 'Revokes a streaming oracle (owner only)')
+  .addParam('reporter', 'Reporter address')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftStreaming.revokeReporter(
+        args.reporter
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'admin:set-listen-cap',
+  'Sets the maximum listens accepted per token and period, 0 for no cap (owner only)'
+)
+  .addParam('cap', 'Listen cap per period', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftStreaming.setListenCapPerPeriod(
+        args.cap
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'admin:set-subscription-price',
+  'Sets the price of one period of a subscription pass in ETH, 0 to stop sales (owner only)'
+)
+  .addParam('price', 'Price per period in ETH')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftStreaming.setSubscriptionPrice(
+        hre.ethers.parseEther(args.price)
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'admin:set-escrow',
+  'Registers a marketplace whose escrowed tokens earn streaming royalties for the seller (owner only)'
+)
+  .addOptionalParam(
+    'escrow',
+    'Marketplace address (defaults to the deployed NFTMarketplace)'
+  )
+  .addFlag('unregister', 'Remove the marketplace instead')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const escrow = args.escrow ?? clients.nftMarketplace.address;
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftStreaming.setEscrowContract(
+        escrow,
+        !args.unregister
+      );
+      printEvents(clients, receipt);
+    });
+  });
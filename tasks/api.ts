@@ -0,0 +1,46 @@
+import { task, types } from 'hardhat/config';
+import { getEcosystemAddresses } from './utils';
+
+task('api:serve', 'Indexes ecosystem events and serves them over HTTP')
+  .addOptionalParam('db', 'Path of the SQLite database', 'indexer.db')
+  .addOptionalParam('port', 'Port to listen on', 3000, types.int)
+  .addOptionalParam(
+    'startBlock',
+    'First block to index on an empty database',
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    'pollInterval',
+    'Milliseconds between polls for new blocks',
+    4000,
+    types.int
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const { Indexer, IndexerStore } = await import('../indexer');
+    const { createApiServer } = await import('../api');
+
+    const addresses = await getEcosystemAddresses(hre, args.deploymentId);
+    const store = new IndexerStore(args.db);
+    const indexer = new Indexer({
+      provider: hre.ethers.provider,
+      addresses,
+      store,
+      startBlock: args.startBlock,
+    });
+    const server = createApiServer({
+      store,
+      defaultNFTContract: addresses.musicNFT,
+    });
+
+    indexer.start(args.pollInterval, (error) => console.error(error));
+    server.listen(args.port);
+    console.log(`Serving indexed data on http://localhost:${args.port}`);
+
+    await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+
+    indexer.stop();
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
@@ -0,0 +1,6 @@
+import './music';
+import './market';
+import './stream';
+import './indexer';
+import './api';
+import './admin';
@@ -0,0 +1,47 @@
+import { task, types } from 'hardhat/config';
+import { getEcosystemAddresses } from './utils';
+
+task('indexer:run', 'Indexes ecosystem events into a SQLite database')
+  .addOptionalParam('db', 'Path of the SQLite database', 'indexer.db')
+  .addOptionalParam(
+    'startBlock',
+    'First block to index on an empty database',
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    'pollInterval',
+    'Milliseconds between polls for new blocks',
+    4000,
+    types.int
+  )
+  .addOptionalParam(
+    'confirmations',
+    'Blocks to stay behind the chain head',
+    0,
+    types.int
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const { Indexer, IndexerStore } = await import('../indexer');
+
+    const indexer = new Indexer({
+      provider: hre.ethers.provider,
+      addresses: await getEcosystemAddresses(hre, args.deploymentId),
+      store: new IndexerStore(args.db),
+      startBlock: args.startBlock,
+      confirmations: args.confirmations,
+    });
+
+    console.log(`Indexing into ${args.db}, press Ctrl+C to stop`);
+
+    await new Promise<void>((resolve) => {
+      indexer.start(args.pollInterval, (error) => console.error(error));
+      process.once('SIGINT', () => {
+        indexer.stop();
+        resolve();
+      });
+    });
+
+    indexer.store.close();
+  });
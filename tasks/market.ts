@@ -0,0 +1,372 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { ZeroAddress } from 'ethers';
+import {
+  PLUGIN_NAME,
+  ensureCurrencyAllowance,
+  getEcosystem,
+  parseCurrencyAmount,
+  printEvents,
+  requireMusicEditions,
+  withReadableErrors,
+} from './utils';
+
+// Parses "<tokenId>:<weight>,<tokenId>:<weight>" into bundle items
+function parseBundleItems(value: string, nftContract: string) {
+  return value.split(',').map((entry) => {
+    const [tokenId, weight] = entry.split(':').map((part) => part.trim());
+    if (!/^\d+$/.test(tokenId ?? '') || !/^\d+$/.test(weight ?? '')) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Invalid bundle item "${entry}", expected <tokenId>:<weight>`
+      );
+    }
+    return { nftContract, tokenId: BigInt(tokenId), weight: BigInt(weight) };
+  });
+}
+
+task('market:list', 'Lists a MusicNFT on the marketplace')
+  .addParam('tokenId', 'ID of the token to list', undefined, types.bigint)
+  .addParam('price', 'Listing price in units of the listing currency')
+  .addOptionalParam(
+    'nftContract',
+    'NFT contract address (defaults to the deployed MusicNFT)'
+  )
+  .addOptionalParam(
+    'currency',
+    'Allow-listed ERC-20 token to price the listing in (defaults to ETH)',
+    ZeroAddress
+  )
+  .addOptionalParam(
+    'expiresAt',
+    'Unix timestamp after which the listing can no longer be bought',
+    0n,
+    types.bigint
+  )
+  .addFlag(
+    'nonCustodial',
+    'Keep the NFT in the wallet and only approve the marketplace'
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const nftContract = args.nftContract ?? clients.musicNFT.address;
+    const price = await parseCurrencyAmount(hre, args.price, args.currency);
+
+    return withReadableErrors(async () => {
+      const [signer] = await hre.ethers.getSigners();
+      const nft = await hre.ethers.getContractAt('IERC721', nftContract);
+      const marketplace = clients.nftMarketplace.address;
+
+      const approved =
+        (await nft.getApproved(args.tokenId)) === marketplace ||
+        (await nft.isApprovedForAll(signer.address, marketplace));
+      if (!approved) {
+        await (await nft.approve(marketplace, args.tokenId)).wait();
+      }
+
+      const listing = [
+        nftContract,
+        args.tokenId,
+        price,
+        args.currency,
+        args.expiresAt,
+      ] as const;
+      const { value: listingId, receipt } = args.nonCustodial
+        ? await clients.nftMarketplace.createNonCustodialListing(...listing)
+        : await clients.nftMarketplace.createListing(...listing);
+
+      printEvents(clients, receipt);
+      return listingId;
+    });
+  });
+
+task('market:buy', 'Buys an active marketplace listing')
+  .addParam('listingId', 'ID of the listing', undefined, types.bigint)
+  .addOptionalParam(
+    'value',
+    'Amount of ETH to send (defaults to the listing price)'
+  )
+  .addOptionalParam(
+    'maxPrice',
+    'Highest price to pay in units of the listing currency (defaults to the current price)'
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const value =
+      args.value === undefined ? undefined : hre.ethers.parseEther(args.value);
+
+    return withReadableErrors(async () => {
+      // ERC-20 listings are paid by allowance instead of attached ETH
+      const listing = await clients.nftMarketplace.contract.listings(
+        args.listingId
+      );
+      const maxPrice =
+        args.maxPrice === undefined
+          ? listing.price
+          : await parseCurrencyAmount(hre, args.maxPrice, listing.currency);
+      await ensureCurrencyAllowance(
+        hre,
+        listing.currency,
+        clients.nftMarketplace.address,
+        maxPrice
+      );
+
+      const { receipt } = await clients.nftMarketplace.buy(
+        args.listingId,
+        value,
+        maxPrice
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task('market:cancel', 'Cancels a listing and returns the NFT to the seller')
+  .addParam('listingId', 'ID of the listing', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftMarketplace.cancelListing(
+        args.listingId
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task('market:update-price', 'Changes the price of an active listing')
+  .addParam('listingId', 'ID of the listing', undefined, types.bigint)
+  .addParam('price', 'New price in units of the listing currency')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const listing = await clients.nftMarketplace.contract.listings(
+        args.listingId
+      );
+      const price = await parseCurrencyAmount(
+        hre,
+        args.price,
+        listing.currency
+      );
+
+      const { receipt } = await clients.nftMarketplace.updateListingPrice(
+        args.listingId,
+        price
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task('market:reclaim', 'Returns the NFT of an expired listing to its seller')
+  .addParam('listingId', 'ID of the listing', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftMarketplace.reclaimExpiredListing(
+        args.listingId
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task('market:list-bundle', 'Lists several MusicNFTs under one price')
+  .addParam(
+    'items',
+    'Bundle items as <tokenId>:<weight>, comma separated; the price is split by weight'
+  )
+  .addParam('price', 'Bundle price in units of the listing currency')
+  .addOptionalParam(
+    'nftContract',
+    'NFT contract address of every item (defaults to the deployed MusicNFT)'
+  )
+  .addOptionalParam(
+    'currency',
+    'Allow-listed ERC-20 token to price the bundle in (defaults to ETH)',
+    ZeroAddress
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const nftContract = args.nftContract ?? clients.musicNFT.address;
+    const items = parseBundleItems(args.items, nftContract);
+    const price = await parseCurrencyAmount(hre, args.price, args.currency);
+
+    return withReadableErrors(async () => {
+      const [signer] = await hre.ethers.getSigners();
+      const nft = await hre.ethers.getContractAt('IERC721', nftContract);
+      const marketplace = clients.nftMarketplace.address;
+
+      if (!(await nft.isApprovedForAll(signer.address, marketplace))) {
+        await (await nft.setApprovalForAll(marketplace, true)).wait();
+      }
+
+      const { value: bundleId, receipt } =
+        await clients.nftMarketplace.createBundleListing(
+          items,
+          price,
+          args.currency
+        );
+
+      printEvents(clients, receipt);
+      return bundleId;
+    });
+  });
+
+task('market:buy-bundle', 'Buys every item of an active bundle listing')
+  .addParam('bundleId', 'ID of the bundle', undefined, types.bigint)
+  .addOptionalParam(
+    'maxPrice',
+    'Highest price to pay in units of the bundle currency (defaults to the current price)'
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const bundle = await clients.nftMarketplace.contract.bundles(
+        args.bundleId
+      );
+      const maxPrice =
+        args.maxPrice === undefined
+          ? bundle.price
+          : await parseCurrencyAmount(hre, args.maxPrice, bundle.currency);
+      await ensureCurrencyAllowance(
+        hre,
+        bundle.currency,
+        clients.nftMarketplace.address,
+        maxPrice
+      );
+
+      const { receipt } = await clients.nftMarketplace.buyBundle(
+        args.bundleId,
+        undefined,
+        maxPrice
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'market:cancel-bundle',
+  'Cancels a bundle listing and returns every item to the seller'
+)
+  .addParam('bundleId', 'ID of the bundle', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftMarketplace.cancelBundleListing(
+        args.bundleId
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'market:list-edition',
+  'Lists copies of a MusicEditions edition at a price per copy'
+)
+  .addParam('editionId', 'ID of the edition', undefined, types.bigint)
+  .addParam('quantity', 'Number of copies for sale', undefined, types.bigint)
+  .addParam('price', 'Price per copy in units of the listing currency')
+  .addOptionalParam(
+    'currency',
+    'Allow-listed ERC-20 token to price the copies in (defaults to ETH)',
+    ZeroAddress
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const musicEditions = requireMusicEditions(clients);
+    const price = await parseCurrencyAmount(hre, args.price, args.currency);
+
+    return withReadableErrors(async () => {
+      const [signer] = await hre.ethers.getSigners();
+      const marketplace = clients.nftMarketplace.address;
+
+      // The copies stay with the seller until they are bought
+      if (
+        !(await musicEditions.contract.isApprovedForAll(signer, marketplace))
+      ) {
+        await musicEditions.setApprovalForAll(marketplace);
+      }
+
+      const { value: listingId, receipt } =
+        await clients.nftMarketplace.createEditionListing(
+          musicEditions.address,
+          args.editionId,
+          args.quantity,
+          price,
+          args.currency
+        );
+
+      printEvents(clients, receipt);
+      return listingId;
+    });
+  });
+
+task('market:buy-edition', 'Buys copies from an edition listing')
+  .addParam('listingId', 'ID of the edition listing', undefined, types.bigint)
+  .addParam('quantity', 'Number of copies to buy', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const listing = await clients.nftMarketplace.contract.editionListings(
+        args.listingId
+      );
+      await ensureCurrencyAllowance(
+        hre,
+        listing.currency,
+        clients.nftMarketplace.address,
+        listing.pricePerCopy * args.quantity
+      );
+
+      const { receipt } = await clients.nftMarketplace.buyEditionCopies(
+        args.listingId,
+        args.quantity
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task('market:cancel-edition', 'Cancels the rest of an edition listing')
+  .addParam('listingId', 'ID of the edition listing', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftMarketplace.cancelEditionListing(
+        args.listingId
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task('market:withdraw', 'Withdraws pending marketplace payments')
+  .addOptionalParam(
+    'currency',
+    'ERC-20 token to withdraw (defaults to ETH)',
+    ZeroAddress
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { value: amount, receipt } =
+        await clients.nftMarketplace.withdrawPayments(args.currency);
+
+      printEvents(clients, receipt);
+      return amount;
+    });
+  });
@@ -0,0 +1,464 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { ZeroAddress, ZeroHash } from 'ethers';
+import { StreamingPayout } from '../sdk/types';
+import { hashFile, verifyTrackFile } from '../sdk/contentHash';
+import {
+  PLUGIN_NAME,
+  getEcosystem,
+  printEvents,
+  requireMusicEditions,
+  withReadableErrors,
+} from './utils';
+
+// Parses "<address>:<share>,<address>:<share>" into royalty split entries
+function parseSplits(value: string) {
+  return value.split(',').map((entry) => {
+    const [recipient, share] = entry.split(':');
+    if (!recipient || !share || !/^\d+$/.test(share.trim())) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Invalid split "${entry}", expected <address>:<basis points>`
+      );
+    }
+    return { recipient: recipient.trim(), share: BigInt(share.trim()) };
+  });
+}
+
+task('music:mint', 'Mints a new MusicNFT from the first signer')
+  .addParam('uri', 'Metadata URI of the song')
+  .addParam(
+    'salesRoyalty',
+    'Sales royalty in basis points',
+    undefined,
+    types.int
+  )
+  .addParam(
+    'streamingRoyalty',
+    'Streaming royalty in basis points',
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    'splits',
+    'Collaborator royalty splits as <address>:<basis points>, comma separated'
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { value: tokenId, receipt } =
+        args.splits === undefined
+          ? await clients.musicNFT.mint(
+              args.uri,
+              args.salesRoyalty,
+              args.streamingRoyalty
+            )
+          : await clients.musicNFT.mintWithSplits(
+              args.uri,
+              args.salesRoyalty,
+              args.streamingRoyalty,
+              parseSplits(args.splits)
+            );
+
+      printEvents(clients, receipt);
+      return tokenId;
+    });
+  });
+
+task(
+  'music:mint-track',
+  'Mints a MusicNFT with on-chain track metadata and file hashes from the first signer'
+)
+  .addParam('uri', 'URI of the audio file')
+  .addParam('title', 'Title of the track')
+  .addParam('artist', 'Name of the artist')
+  .addOptionalParam('isrc', 'International Standard Recording Code', '')
+  .addParam('duration', 'Length of the track in seconds', undefined, types.int)
+  .addOptionalParam('audioFile', 'Local audio file to record the hash of')
+  .addOptionalParam('artworkFile', 'Local artwork file to record the hash of')
+  .addParam(
+    'salesRoyalty',
+    'Sales royalty in basis points',
+    undefined,
+    types.int
+  )
+  .addParam(
+    'streamingRoyalty',
+    'Streaming royalty in basis points',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const hashOrZero = async (filePath?: string) =>
+      filePath === undefined ? ZeroHash : hashFile(filePath);
+
+    const metadata = {
+      title: args.title,
+      artist: args.artist,
+      isrc: args.isrc,
+      duration: args.duration,
+      contentHash: await hashOrZero(args.audioFile),
+      artworkHash: await hashOrZero(args.artworkFile),
+    };
+
+    return withReadableErrors(async () => {
+      const { value: tokenId, receipt } =
+        await clients.musicNFT.mintWithMetadata(
+          args.uri,
+          metadata,
+          args.salesRoyalty,
+          args.streamingRoyalty
+        );
+
+      printEvents(clients, receipt);
+      return tokenId;
+    });
+  });
+
+task(
+  'music:verify-file',
+  'Checks a local file against the audio or artwork hash recorded for a token'
+)
+  .addParam('tokenId', 'ID of the token', undefined, types.bigint)
+  .addParam('file', 'Path of the local file')
+  .addFlag('artwork', 'Check the artwork hash instead of the audio hash')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const check = await verifyTrackFile(
+        clients.musicNFT,
+        args.tokenId,
+        args.file,
+        args.artwork ? 'artwork' : 'content'
+      );
+
+      if (check.expected === null) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `Token ${args.tokenId} has no ${
+            args.artwork ? 'artwork' : 'audio'
+          } hash recorded`
+        );
+      }
+      if (!check.matches) {
+        throw new HardhatPluginError(
+          PLUGIN_NAME,
+          `${args.file} hashes to ${check.actual}, expected ${check.expected}`
+        );
+      }
+
+      console.log(`${args.file} matches token ${args.tokenId}`);
+      return check;
+    });
+  });
+
+task(
+  'music:mint-album',
+  'Mints a tracklist into a new album from the first signer'
+)
+  .addParam('uri', 'Metadata URI of the album')
+  .addParam(
+    'tracks',
+    'Metadata URIs of the songs in track order, comma separated'
+  )
+  .addParam(
+    'salesRoyalty',
+    'Sales royalty of every track in basis points',
+    undefined,
+    types.int
+  )
+  .addParam(
+    'streamingRoyalty',
+    'Streaming royalty of every track in basis points',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const tokenURIs = (args.tracks as string)
+      .split(',')
+      .map((uri) => uri.trim());
+
+    return withReadableErrors(async () => {
+      const { value, receipt } = await clients.musicNFT.mintAlbum(
+        args.uri,
+        tokenURIs,
+        args.salesRoyalty,
+        args.streamingRoyalty
+      );
+
+      printEvents(clients, receipt);
+      return value;
+    });
+  });
+
+task('music:create-album', 'Creates an empty album owned by the first signer')
+  .addParam('uri', 'Metadata URI of the album')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { value: albumId, receipt } = await clients.musicNFT.createAlbum(
+        args.uri
+      );
+
+      printEvents(clients, receipt);
+      return albumId;
+    });
+  });
+
+task(
+  'music:add-track',
+  'Appends a token minted by the first signer to one of their albums'
+)
+  .addParam('albumId', 'ID of the album', undefined, types.bigint)
+  .addParam('tokenId', 'ID of the token to add', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.musicNFT.addTrackToAlbum(
+        args.albumId,
+        args.tokenId
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'music:propose-royalty',
+  'Proposes new royalties for a token minted by the first signer, applied after a 7 day timelock'
+)
+  .addParam('tokenId', 'ID of the token', undefined, types.bigint)
+  .addParam(
+    'salesRoyalty',
+    'New sales royalty in basis points',
+    undefined,
+    types.int
+  )
+  .addParam(
+    'streamingRoyalty',
+    'New streaming royalty in basis points',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { value: executableAt, receipt } =
+        await clients.musicNFT.proposeRoyaltyUpdate(
+          args.tokenId,
+          args.salesRoyalty,
+          args.streamingRoyalty
+        );
+
+      printEvents(clients, receipt);
+      return executableAt;
+    });
+  });
+
+task(
+  'music:execute-royalty',
+  'Applies a proposed royalty update once its timelock has passed'
+)
+  .addParam('tokenId', 'ID of the token', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.musicNFT.executeRoyaltyUpdate(
+        args.tokenId
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task('music:cancel-royalty', 'Cancels a proposed royalty update')
+  .addParam('tokenId', 'ID of the token', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.musicNFT.cancelRoyaltyUpdate(
+        args.tokenId
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task('music:burn', 'Burns a token owned by the first signer or approved to it')
+  .addParam('tokenId', 'ID of the token', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.musicNFT.burn(args.tokenId);
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'music:update-uri',
+  'Updates the metadata URI of a token created or owned by the first signer'
+)
+  .addParam('tokenId', 'ID of the token', undefined, types.bigint)
+  .addParam('uri', 'New metadata URI')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.musicNFT.updateTokenURI(
+        args.tokenId,
+        args.uri
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'music:freeze-metadata',
+  'Permanently locks the metadata URI of a token minted by the first signer'
+)
+  .addParam('tokenId', 'ID of the token', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.musicNFT.freezeMetadata(args.tokenId);
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'music:set-creator-only',
+  'Restricts metadata updates of a token minted by the first signer to its creator'
+)
+  .addParam('tokenId', 'ID of the token', undefined, types.bigint)
+  .addFlag('disable', 'Let owners update the URI again instead')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.musicNFT.setCreatorOnlyUpdates(
+        args.tokenId,
+        !args.disable
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'music:create-edition',
+  'Creates a MusicEditions edition and mints copies to the first signer'
+)
+  .addParam('uri', 'Metadata URI of the song')
+  .addParam('maxSupply', 'Maximum number of copies', undefined, types.bigint)
+  .addOptionalParam(
+    'amount',
+    'Copies to mint right away (defaults to the maximum supply)',
+    undefined,
+    types.bigint
+  )
+  .addParam(
+    'salesRoyalty',
+    'Sales royalty in basis points',
+    undefined,
+    types.int
+  )
+  .addParam(
+    'streamingRoyalty',
+    'Streaming royalty shared by the holders in basis points',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const musicEditions = requireMusicEditions(clients);
+
+    return withReadableErrors(async () => {
+      const { value: editionId, receipt } = await musicEditions.createEdition(
+        args.uri,
+        args.maxSupply,
+        args.amount ?? args.maxSupply,
+        args.salesRoyalty,
+        args.streamingRoyalty
+      );
+
+      printEvents(clients, receipt);
+      return editionId;
+    });
+  });
+
+task(
+  'music:set-edition-payout',
+  'Chooses whether edition holders or the creator receive the streaming royalty'
+)
+  .addParam('editionId', 'ID of the edition', undefined, types.bigint)
+  .addParam('payout', 'Either "holders" or "creator"')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const payouts: Record<string, StreamingPayout> = {
+      holders: StreamingPayout.Holders,
+      creator: StreamingPayout.Creator,
+    };
+    const payout = payouts[args.payout];
+    if (payout === undefined) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Invalid payout "${args.payout}", expected holders or creator`
+      );
+    }
+
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const musicEditions = requireMusicEditions(clients);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await musicEditions.setStreamingPayout(
+        args.editionId,
+        payout
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'music:claim-edition-royalties',
+  'Claims the streaming royalties earned by the copies of an edition'
+)
+  .addParam('editionId', 'ID of the edition', undefined, types.bigint)
+  .addOptionalParam(
+    'currency',
+    'ERC-20 token to claim (defaults to ETH)',
+    ZeroAddress
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const musicEditions = requireMusicEditions(clients);
+
+    return withReadableErrors(async () => {
+      const { value: amount, receipt } =
+        await musicEditions.claimHolderRoyalties(args.editionId, args.currency);
+
+      printEvents(clients, receipt);
+      return amount;
+    });
+  });
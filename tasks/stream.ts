@@ -0,0 +1,204 @@
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { ZeroAddress } from 'ethers';
+import { buildListenReport } from '../sdk/listenReports';
+import {
+  PLUGIN_NAME,
+  ensureCurrencyAllowance,
+  getEcosystem,
+  parseCurrencyAmount,
+  printEvents,
+  withReadableErrors,
+} from './utils';
+
+// Parses "<tokenId>:<count>,<tokenId>:<count>" into subscription listens
+function parseSubscriptionListens(value: string, nftContract: string) {
+  return value.split(',').map((entry) => {
+    const [tokenId, count] = entry.split(':').map((part) => part.trim());
+    if (!/^\d+$/.test(tokenId ?? '') || !/^\d+$/.test(count ?? '')) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Invalid listens "${entry}", expected <tokenId>:<count>`
+      );
+    }
+    return { nftContract, tokenId: BigInt(tokenId), count: BigInt(count) };
+  });
+}
+
+// Parses "<tokenId>,<tokenId>" into token IDs
+function parseTokenIds(value: string) {
+  return value.split(',').map((entry) => {
+    const tokenId = entry.trim();
+    if (!/^\d+$/.test(tokenId)) {
+      throw new HardhatPluginError(PLUGIN_NAME, `Invalid token ID "${entry}"`);
+    }
+    return BigInt(tokenId);
+  });
+}
+
+task(
+  'stream:record',
+  'Reports a batch of listens as an authorized reporter and pays streaming royalties'
+)
+  .addParam('tokenId', 'ID of the listened token', undefined, types.bigint)
+  .addParam('count', 'Number of listens', undefined, types.bigint)
+  .addParam('rate', 'Payment per listen in units of the currency')
+  .addOptionalParam(
+    'period',
+    'Reporting period of the listens (defaults to the current period)',
+    undefined,
+    types.bigint
+  )
+  .addOptionalParam(
+    'nonce',
+    'Unused report nonce (defaults to a random one)',
+    undefined,
+    types.bigint
+  )
+  .addOptionalParam(
+    'nftContract',
+    'NFT contract address (defaults to the deployed MusicNFT)'
+  )
+  .addOptionalParam(
+    'currency',
+    'Allow-listed ERC-20 token to pay in (defaults to ETH)',
+    ZeroAddress
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const nftContract = args.nftContract ?? clients.musicNFT.address;
+    const rate = await parseCurrencyAmount(hre, args.rate, args.currency);
+
+    return withReadableErrors(async () => {
+      const report = buildListenReport({
+        nftContract,
+        tokenId: args.tokenId,
+        count: args.count,
+        rate,
+        currency: args.currency,
+        period: args.period ?? (await clients.nftStreaming.getCurrentPeriod()),
+        nonce: args.nonce,
+      });
+
+      await ensureCurrencyAllowance(
+        hre,
+        args.currency,
+        clients.nftStreaming.address,
+        BigInt(report.amount)
+      );
+
+      const { receipt } = await clients.nftStreaming.recordListens(report);
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'stream:buy-pass',
+  'Buys a subscription pass covering a number of listen periods'
+)
+  .addParam('periods', 'Number of periods to cover', undefined, types.bigint)
+  .addOptionalParam(
+    'listener',
+    'Listener receiving the pass (defaults to the first signer)'
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const [signer] = await hre.ethers.getSigners();
+      const { value: endPeriod, receipt } =
+        await clients.nftStreaming.buySubscriptionPass(
+          args.listener ?? signer.address,
+          args.periods
+        );
+
+      printEvents(clients, receipt);
+      return endPeriod;
+    });
+  });
+
+task(
+  'stream:record-subscription',
+  'Reports listens by subscription pass holders as an authorized reporter'
+)
+  .addParam('listens', 'Listens as <tokenId>:<count>, comma separated')
+  .addOptionalParam(
+    'period',
+    'Reporting period of the listens (defaults to the current period)',
+    undefined,
+    types.bigint
+  )
+  .addOptionalParam(
+    'nftContract',
+    'NFT contract address of every token (defaults to the deployed MusicNFT)'
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const nftContract = args.nftContract ?? clients.musicNFT.address;
+    const listens = parseSubscriptionListens(args.listens, nftContract);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftStreaming.recordSubscriptionListens(
+        args.period ?? (await clients.nftStreaming.getCurrentPeriod()),
+        listens
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'stream:close-period',
+  'Makes the subscription listens of an ended period final so its pool can be claimed'
+)
+  .addParam('period', 'Period to close', undefined, types.bigint)
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+
+    return withReadableErrors(async () => {
+      const { receipt } = await clients.nftStreaming.closeSubscriptionPeriod(
+        args.period
+      );
+      printEvents(clients, receipt);
+    });
+  });
+
+task(
+  'stream:claim-subscription',
+  'Credits the subscription pool shares of a closed period to its tokens'
+)
+  .addParam('period', 'Closed period', undefined, types.bigint)
+  .addOptionalParam(
+    'tokenIds',
+    'Comma separated token IDs (defaults to every token listened in the period)'
+  )
+  .addOptionalParam(
+    'nftContract',
+    'NFT contract address (defaults to the deployed MusicNFT)'
+  )
+  .addOptionalParam('deploymentId', 'Ignition deployment ID to read from')
+  .setAction(async (args, hre) => {
+    const clients = await getEcosystem(hre, args.deploymentId);
+    const nftContract = args.nftContract ?? clients.musicNFT.address;
+    const tokenIds =
+      args.tokenIds === undefined ? undefined : parseTokenIds(args.tokenIds);
+
+    return withReadableErrors(async () => {
+      const { value: total, receipt } =
+        await clients.nftStreaming.claimSubscriptionPayouts(
+          nftContract,
+          args.period,
+          tokenIds ??
+            (await clients.nftStreaming.getTokensListenedInPeriod(
+              nftContract,
+              args.period
+            ))
+        );
+
+      printEvents(clients, receipt);
+      return total;
+    });
+  });
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  ContractTransactionReceipt,
+  Interface,
+  ZeroAddress,
+  parseUnits,
+} from 'ethers';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { EcosystemAddresses, EcosystemClients } from '../sdk';
+
+export const PLUGIN_NAME = 'nft-ecosystem-tasks';
+
+// Future IDs of the contracts deployed through NFTEcosystemModule
+const FUTURE_IDS: Record<keyof EcosystemAddresses, string> = {
+  musicNFT: 'MusicNFTModule#MusicNFT',
+  nftMarketplace: 'NFTMarketplaceModule#NFTMarketplace',
+  nftStreaming: 'NFTStreamingModule#NFTStreaming',
+  musicEditions: 'MusicEditionsModule#MusicEditions',
+};
+
+// Contracts that older deployments may not contain
+const OPTIONAL_CONTRACTS: (keyof EcosystemAddresses)[] = ['musicEditions'];
+
+export async function getEcosystemAddresses(
+  hre: HardhatRuntimeEnvironment,
+  deploymentId?: string
+): Promise<EcosystemAddresses> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const id = deploymentId ?? `chain-${chainId}`;
+  const addressesPath = path.join(
+    hre.config.paths.ignition,
+    'deployments',
+    id,
+    'deployed_addresses.json'
+  );
+
+  if (!fs.existsSync(addressesPath)) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `No deployment found at ${addressesPath}. Deploy NFTEcosystemModule with Hardhat Ignition first.`
+    );
+  }
+
+  const deployed: Record<string, string> = JSON.parse(
+    fs.readFileSync(addressesPath, 'utf8')
+  );
+
+  const addresses = {} as EcosystemAddresses;
+  for (const [key, futureId] of Object.entries(FUTURE_IDS)) {
+    if (deployed[futureId] === undefined) {
+      if (OPTIONAL_CONTRACTS.includes(key as keyof EcosystemAddresses)) {
+        continue;
+      }
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Deployment ${id} does not contain ${futureId}`
+      );
+    }
+    addresses[key as keyof EcosystemAddresses] = deployed[futureId];
+  }
+
+  return addresses;
+}
+
+// Connects SDK clients to the deployed ecosystem using the first signer
+export async function getEcosystem(
+  hre: HardhatRuntimeEnvironment,
+  deploymentId?: string
+): Promise<EcosystemClients> {
+  // Loaded lazily because the SDK depends on TypeChain output, which does
+  // not exist until the contracts have been compiled
+  const { connectEcosystem } = await import('../sdk');
+  const [signer] = await hre.ethers.getSigners();
+
+  return connectEcosystem(
+    await getEcosystemAddresses(hre, deploymentId),
+    signer
+  );
+}
+
+// Returns the MusicEditions client, failing for deployments without it
+export function requireMusicEditions(clients: EcosystemClients) {
+  if (clients.musicEditions === undefined) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      'The deployment does not contain MusicEditions. Redeploy NFTEcosystemModule to add it.'
+    );
+  }
+  return clients.musicEditions;
+}
+
+// Prints every ecosystem event found in the receipt with its named arguments
+export function printEvents(
+  clients: EcosystemClients,
+  receipt: ContractTransactionReceipt
+) {
+  const interfaces: Interface[] = [
+    clients.musicNFT.contract.interface,
+    clients.nftMarketplace.contract.interface,
+    clients.nftStreaming.contract.interface,
+  ];
+  if (clients.musicEditions !== undefined) {
+    interfaces.push(clients.musicEditions.contract.interface);
+  }
+
+  console.log(
+    `Transaction ${receipt.hash} mined in block ${receipt.blockNumber}`
+  );
+
+  for (const log of receipt.logs) {
+    for (const iface of interfaces) {
+      const parsed = iface.parseLog(log);
+      if (parsed === null) {
+        continue;
+      }
+
+      const args = parsed.fragment.inputs
+        .map((input, i) => `${input.name}=${parsed.args[i]}`)
+        .join(', ');
+      console.log(`  ${parsed.name}(${args})`);
+      break;
+    }
+  }
+}
+
+// Parses a human readable amount in the currency's own decimals, where the
+// zero address stands for native ETH
+export async function parseCurrencyAmount(
+  hre: HardhatRuntimeEnvironment,
+  amount: string,
+  currency: string
+): Promise<bigint> {
+  if (currency === ZeroAddress) {
+    return hre.ethers.parseEther(amount);
+  }
+
+  const token = await hre.ethers.getContractAt('IERC20Metadata', currency);
+  return parseUnits(amount, await token.decimals());
+}
+
+// Approves an ERC-20 spend for the first signer when the allowance is too low
+export async function ensureCurrencyAllowance(
+  hre: HardhatRuntimeEnvironment,
+  currency: string,
+  spender: string,
+  amount: bigint
+) {
+  if (currency === ZeroAddress || amount === 0n) {
+    return;
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+  const token = await hre.ethers.getContractAt('IERC20', currency);
+  if ((await token.allowance(signer.address, spender)) < amount) {
+    await (await token.approve(spender, amount)).wait();
+  }
+}
+
+// Reports contract reverts as readable task errors instead of raw stack traces
+export async function withReadableErrors<T>(action: () => Promise<T>) {
+  const { ContractError } = await import('../sdk');
+
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof ContractError) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Transaction reverted with ${error.message}`,
+        error
+      );
+    }
+    throw error;
+  }
+}
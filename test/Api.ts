@@ -0,0 +1,391 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import { AddressInfo } from 'net';
+import hre, { ethers } from 'hardhat';
+import { createApiServer, Serialized } from '../api';
+import { encodeCursor } from '../api/params';
+import { Indexer, IndexerStore, ListingRecord, TokenRecord } from '../indexer';
+import { ListenStats } from '../sdk';
+import { listenReport } from './helpers';
+
+describe('Api', function () {
+  async function deployApiFixture() {
+    const [owner, creator, buyer, listener] = await hre.ethers.getSigners();
+
+    const musicNFT = await hre.ethers.deployContract('MusicNFT');
+    const marketplace = await hre.ethers.deployContract('NFTMarketplace');
+    const streaming = await hre.ethers.deployContract('NFTStreaming');
+
+    const addresses = {
+      musicNFT: await musicNFT.getAddress(),
+      nftMarketplace: await marketplace.getAddress(),
+      nftStreaming: await streaming.getAddress(),
+    };
+
+    for (let i = 1; i <= 4; i++) {
+      await musicNFT.connect(creator).mintNFT(`uri${i}`, 500, 2000);
+    }
+    await musicNFT.connect(creator).setApprovalForAll(marketplace.target, true);
+
+    const prices = ['3.0', '1.0', '2.0'].map((price) =>
+      ethers.parseEther(price)
+    );
+    for (let i = 0; i < prices.length; i++) {
+      await marketplace
+        .connect(creator)
+        .createListing(
+          musicNFT.target,
+          i + 1,
+          prices[i],
+          ethers.ZeroAddress,
+          0
+        );
+    }
+    await marketplace.connect(buyer).buyNFT(2, prices[1], { value: prices[1] });
+    await streaming.addReporter(listener.address);
+
+    return {
+      musicNFT,
+      marketplace,
+      streaming,
+      addresses,
+      owner,
+      creator,
+      buyer,
+      listener,
+      prices,
+    };
+  }
+
+  async function startApi(
+    addresses: Awaited<ReturnType<typeof deployApiFixture>>['addresses']
+  ) {
+    const store = new IndexerStore();
+    const indexer = new Indexer({
+      provider: hre.ethers.provider,
+      addresses,
+      store,
+    });
+    await indexer.sync();
+
+    const latest = await time.latest();
+    const server = createApiServer({
+      store,
+      defaultNFTContract: addresses.musicNFT,
+      now: () => latest,
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    const { port } = server.address() as AddressInfo;
+    const get = async (path: string) => {
+      const response = await fetch(`http://localhost:${port}${path}`);
+      return { status: response.status, body: await response.json() };
+    };
+
+    return { server, store, get };
+  }
+
+  let close: (() => Promise<unknown>) | undefined;
+
+  afterEach(async function () {
+    await close?.();
+    close = undefined;
+  });
+
+  async function setup() {
+    const fixture = await loadFixture(deployApiFixture);
+    const api = await startApi(fixture.addresses);
+    close = () => new Promise((resolve) => api.server.close(resolve));
+    return { ...fixture, ...api };
+  }
+
+  describe('GET /tokens/:id', function () {
+    it('Should return the indexed token with its active listing', async function () {
+      const { get, creator, addresses, prices } = await setup();
+
+      const { status, body } = await get('/tokens/1');
+
+      expect(status).to.equal(200);
+      expect(body).to.deep.include({
+        nftContract: addresses.musicNFT,
+        tokenId: '1',
+        creator: creator.address,
+        owner: addresses.nftMarketplace,
+        tokenURI: 'uri1',
+        salesRoyaltyPercentage: '500',
+        streamingRoyaltyPercentage: '2000',
+        listenCount: '0',
+      });
+      expect(body.activeListing).to.include({
+        listingId: '1',
+        price: prices[0].toString(),
+        status: 'active',
+      });
+    });
+
+    it('Should return 404 for unknown tokens and 400 for invalid IDs', async function () {
+      const { get } = await setup();
+
+      expect((await get('/tokens/99')).status).to.equal(404);
+      expect((await get('/tokens/abc')).status).to.equal(400);
+      expect((await get('/unknown')).status).to.equal(404);
+    });
+  });
+
+  describe('GET /creators/:address/tokens', function () {
+    it('Should paginate the creator tokens with a cursor', async function () {
+      const { get, creator } = await setup();
+
+      const first = await get(`/creators/${creator.address}/tokens?limit=3`);
+      expect(
+        first.body.items.map((t: Serialized<TokenRecord>) => t.tokenId)
+      ).to.deep.equal(['1', '2', '3']);
+      expect(first.body.nextCursor).to.be.a('string');
+
+      const second = await get(
+        `/creators/${creator.address}/tokens?limit=3&cursor=${first.body.nextCursor}`
+      );
+      expect(
+        second.body.items.map((t: Serialized<TokenRecord>) => t.tokenId)
+      ).to.deep.equal(['4']);
+      expect(second.body.nextCursor).to.be.null;
+    });
+
+    it('Should leave out burned tokens', async function () {
+      const fixture = await loadFixture(deployApiFixture);
+      const { musicNFT, creator } = fixture;
+      await musicNFT.connect(creator).burn(4);
+
+      const api = await startApi(fixture.addresses);
+      close = () => new Promise((resolve) => api.server.close(resolve));
+
+      expect((await api.get('/tokens/4')).status).to.equal(404);
+      const { body } = await api.get(`/creators/${creator.address}/tokens`);
+      expect(
+        body.items.map((t: Serialized<TokenRecord>) => t.tokenId)
+      ).to.deep.equal(['1', '2', '3']);
+    });
+
+    it('Should reject invalid addresses and cursors', async function () {
+      const { get, creator } = await setup();
+
+      expect((await get('/creators/0x123/tokens')).status).to.equal(400);
+      expect(
+        (await get(`/creators/${creator.address}/tokens?cursor=nope`)).status
+      ).to.equal(400);
+
+      const cursor = encodeCursor({
+        nftContract: creator.address,
+        tokenId: '1x',
+      });
+      expect(
+        (await get(`/creators/${creator.address}/tokens?cursor=${cursor}`))
+          .status
+      ).to.equal(400);
+    });
+  });
+
+  describe('GET /listings', function () {
+    it('Should filter active listings and sort them by price', async function () {
+      const { get, prices } = await setup();
+
+      const { body } = await get('/listings?active=true&sort=price');
+      expect(
+        body.items.map((l: Serialized<ListingRecord>) => l.listingId)
+      ).to.deep.equal(['3', '1']);
+      expect(body.items[0].price).to.equal(prices[2].toString());
+
+      const descending = await get('/listings?active=true&sort=-price');
+      expect(
+        descending.body.items.map((l: Serialized<ListingRecord>) => l.listingId)
+      ).to.deep.equal(['1', '3']);
+
+      const inactive = await get('/listings?active=false');
+      expect(inactive.body.items).to.have.lengthOf(1);
+      expect(inactive.body.items[0]).to.include({
+        listingId: '2',
+        status: 'sold',
+      });
+    });
+
+    it('Should report expired and cancelled listings as inactive', async function () {
+      const fixture = await loadFixture(deployApiFixture);
+      const { musicNFT, marketplace, creator, prices } = fixture;
+
+      const expiresAt = (await time.latest()) + 100;
+      await marketplace
+        .connect(creator)
+        .createListing(
+          musicNFT.target,
+          4,
+          prices[0],
+          ethers.ZeroAddress,
+          expiresAt
+        );
+      await marketplace.connect(creator).cancelListing(3);
+      await time.increaseTo(expiresAt);
+
+      const api = await startApi(fixture.addresses);
+      close = () => new Promise((resolve) => api.server.close(resolve));
+
+      const active = await api.get('/listings?active=true');
+      expect(
+        active.body.items.map((l: Serialized<ListingRecord>) => l.listingId)
+      ).to.deep.equal(['1']);
+
+      // The expired listing is not reclaimed yet, so its status is unchanged
+      const inactive = await api.get('/listings?active=false');
+      expect(
+        inactive.body.items.map((l: Serialized<ListingRecord>) => [
+          l.listingId,
+          l.status,
+        ])
+      ).to.deep.equal([
+        ['2', 'sold'],
+        ['3', 'cancelled'],
+        ['4', 'active'],
+      ]);
+    });
+
+    it('Should apply price filters and cursor pagination', async function () {
+      const { get, prices } = await setup();
+
+      const filtered = await get(
+        `/listings?minPrice=${prices[2]}&maxPrice=${prices[0]}&sort=price`
+      );
+      expect(
+        filtered.body.items.map((l: Serialized<ListingRecord>) => l.listingId)
+      ).to.deep.equal(['3', '1']);
+
+      const page1 = await get('/listings?sort=price&limit=2');
+      expect(
+        page1.body.items.map((l: Serialized<ListingRecord>) => l.listingId)
+      ).to.deep.equal(['2', '3']);
+
+      const page2 = await get(
+        `/listings?sort=price&limit=2&cursor=${page1.body.nextCursor}`
+      );
+      expect(
+        page2.body.items.map((l: Serialized<ListingRecord>) => l.listingId)
+      ).to.deep.equal(['1']);
+      expect(page2.body.nextCursor).to.be.null;
+    });
+
+    it('Should reject unknown sort orders', async function () {
+      const { get } = await setup();
+
+      expect((await get('/listings?sort=random')).status).to.equal(400);
+    });
+
+    it('Should reject cursors with non-numeric keys', async function () {
+      const { get } = await setup();
+
+      for (const key of [
+        { listingId: '1', price: '-5' },
+        { listingId: 'abc', price: '5' },
+      ]) {
+        const response = await get(`/listings?cursor=${encodeCursor(key)}`);
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('cursor is invalid');
+      }
+    });
+  });
+
+  describe('GET /charts/top-listened', function () {
+    it('Should rank tokens by listens inside the window', async function () {
+      const { musicNFT, streaming, listener, addresses } = await loadFixture(
+        deployApiFixture
+      );
+
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 1, 500, 500, ethers.ZeroAddress),
+          { value: 500 }
+        );
+      await time.increase(30 * 24 * 60 * 60);
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 2, 20, 20, ethers.ZeroAddress),
+          { value: 20 }
+        );
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 3, 40, 40, ethers.ZeroAddress),
+          { value: 40 }
+        );
+
+      const { server, get } = await startApi(addresses);
+      close = () => new Promise((resolve) => server.close(resolve));
+
+      const weekly = await get('/charts/top-listened?window=7d');
+      expect(
+        weekly.body.items.map((s: Serialized<ListenStats>) => s.tokenId)
+      ).to.deep.equal(['3', '2']);
+
+      const allTime = await get('/charts/top-listened?limit=1');
+      expect(allTime.body.items).to.deep.equal([
+        { nftContract: addresses.musicNFT, tokenId: '1', listenCount: '500' },
+      ]);
+
+      expect((await get('/charts/top-listened?window=soon')).status).to.equal(
+        400
+      );
+    });
+  });
+
+  describe('GET /accounts/:address/pending', function () {
+    it('Should match the on-chain pending payments', async function () {
+      const {
+        musicNFT,
+        marketplace,
+        streaming,
+        listener,
+        creator,
+        buyer,
+        owner,
+      } = await loadFixture(deployApiFixture);
+
+      const amount = ethers.parseEther('0.3');
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            2,
+            10,
+            amount,
+            ethers.ZeroAddress
+          ),
+          { value: amount }
+        );
+
+      const { server, get } = await startApi({
+        musicNFT: await musicNFT.getAddress(),
+        nftMarketplace: await marketplace.getAddress(),
+        nftStreaming: await streaming.getAddress(),
+      });
+      close = () => new Promise((resolve) => server.close(resolve));
+
+      for (const account of [creator, buyer, owner]) {
+        const { body } = await get(`/accounts/${account.address}/pending`);
+        const onChain =
+          (await marketplace.getPendingPayment(
+            account.address,
+            ethers.ZeroAddress
+          )) +
+          (await streaming.getPendingPayment(
+            account.address,
+            ethers.ZeroAddress
+          ));
+
+        expect(body.totals[ethers.ZeroAddress]).to.equal(onChain.toString());
+      }
+    });
+  });
+});
@@ -0,0 +1,977 @@
+import {
+  loadFixture,
+  mine,
+  takeSnapshot,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { Indexer, IndexerStore } from '../indexer';
+import { buildListenReport, listenPeriodOf, signMintVoucher } from '../sdk';
+import { listenReport } from './helpers';
+
+describe('Indexer', function () {
+  async function deployIndexerFixture() {
+    const [owner, creator, buyer, listener] = await hre.ethers.getSigners();
+
+    const musicNFT = await hre.ethers.deployContract('MusicNFT');
+    const marketplace = await hre.ethers.deployContract('NFTMarketplace');
+    const streaming = await hre.ethers.deployContract('NFTStreaming');
+
+    const addresses = {
+      musicNFT: await musicNFT.getAddress(),
+      nftMarketplace: await marketplace.getAddress(),
+      nftStreaming: await streaming.getAddress(),
+    };
+
+    await musicNFT.connect(creator).mintNFT('uri1', 500, 1000);
+    await musicNFT.connect(creator).mintNFT('uri2', 300, 2000);
+    await streaming.addReporter(listener.address);
+
+    return {
+      musicNFT,
+      marketplace,
+      streaming,
+      addresses,
+      owner,
+      creator,
+      buyer,
+      listener,
+    };
+  }
+
+  function createIndexer(
+    addresses: Awaited<ReturnType<typeof deployIndexerFixture>>['addresses'],
+    batchSize?: number
+  ) {
+    return new Indexer({
+      provider: hre.ethers.provider,
+      addresses,
+      store: new IndexerStore(),
+      batchSize,
+    });
+  }
+
+  describe('Syncing', function () {
+    it('Should index minted tokens, transfers and metadata updates', async function () {
+      const { musicNFT, addresses, creator, buyer } = await loadFixture(
+        deployIndexerFixture
+      );
+
+      await musicNFT.connect(creator).updateTokenURI(1, 'uri1-v2');
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, buyer.address, 2);
+
+      const indexer = createIndexer(addresses);
+      const cursor = await indexer.sync();
+
+      expect(cursor).to.equal(await ethers.provider.getBlockNumber());
+
+      const token1 = indexer.store.getToken(addresses.musicNFT, 1n);
+      expect(token1).to.include({
+        creator: creator.address,
+        owner: creator.address,
+        tokenURI: 'uri1-v2',
+        salesRoyaltyPercentage: 500n,
+        streamingRoyaltyPercentage: 1000n,
+      });
+
+      const token2 = indexer.store.getToken(addresses.musicNFT, 2n);
+      expect(token2?.owner).to.equal(buyer.address);
+      expect(token2?.creator).to.equal(creator.address);
+
+      expect(
+        indexer.store.getTokensByCreator(creator.address).map((t) => t.tokenId)
+      ).to.deep.equal([1n, 2n]);
+      expect(
+        indexer.store.getTokensByOwner(buyer.address).map((t) => t.tokenId)
+      ).to.deep.equal([2n]);
+    });
+
+    it('Should index listings, sales and cancellations', async function () {
+      const { musicNFT, marketplace, addresses, creator, buyer } =
+        await loadFixture(deployIndexerFixture);
+
+      const price = ethers.parseEther('1.0');
+      await musicNFT
+        .connect(creator)
+        .setApprovalForAll(marketplace.target, true);
+      await marketplace
+        .connect(creator)
+        .createListing(musicNFT.target, 1, price, ethers.ZeroAddress, 0);
+      await marketplace
+        .connect(creator)
+        .createListing(musicNFT.target, 2, price * 2n, ethers.ZeroAddress, 0);
+      await marketplace.connect(buyer).buyNFT(1, price, { value: price });
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(indexer.store.getListing(1n)).to.include({
+        status: 'sold',
+        buyer: buyer.address,
+        price,
+      });
+      expect(
+        indexer.store.getActiveListingByToken(addresses.musicNFT, 2n)
+      ).to.include({ listingId: 2n, seller: creator.address });
+      expect(indexer.store.getActiveListingsCount()).to.equal(
+        Number(await marketplace.getActiveListingsCount())
+      );
+      expect(indexer.store.getToken(addresses.musicNFT, 1n)?.owner).to.equal(
+        buyer.address
+      );
+
+      await marketplace.connect(creator).cancelListing(2);
+      await indexer.sync();
+
+      expect(indexer.store.getListing(2n)?.status).to.equal('cancelled');
+      expect(indexer.store.getActiveListingByToken(addresses.musicNFT, 2n)).to
+        .be.undefined;
+      expect(indexer.store.getActiveListingsCount()).to.equal(0);
+    });
+
+    it('Should index price updates and reclaimed expired listings', async function () {
+      const { musicNFT, marketplace, addresses, creator, buyer } =
+        await loadFixture(deployIndexerFixture);
+
+      const price = ethers.parseEther('1.0');
+      const expiresAt = BigInt(await time.latest()) + 3600n;
+      await musicNFT
+        .connect(creator)
+        .setApprovalForAll(marketplace.target, true);
+      await marketplace
+        .connect(creator)
+        .createListing(
+          musicNFT.target,
+          1,
+          price,
+          ethers.ZeroAddress,
+          expiresAt
+        );
+      await marketplace.connect(creator).updateListingPrice(1, price * 3n);
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(indexer.store.getListing(1n)).to.include({
+        status: 'active',
+        price: price * 3n,
+        expiresAt,
+      });
+
+      await time.increaseTo(expiresAt);
+      await marketplace.connect(buyer).reclaimExpiredListing(1);
+      await indexer.sync();
+
+      expect(indexer.store.getListing(1n)?.status).to.equal('expired');
+      expect(indexer.store.getActiveListingsCount()).to.equal(0);
+    });
+
+    it('Should index non-custodial listings replaced after a transfer', async function () {
+      const { musicNFT, marketplace, addresses, creator, buyer } =
+        await loadFixture(deployIndexerFixture);
+
+      const price = ethers.parseEther('1.0');
+      await musicNFT.connect(creator).approve(marketplace.target, 1);
+      await marketplace
+        .connect(creator)
+        .createNonCustodialListing(
+          musicNFT.target,
+          1,
+          price,
+          ethers.ZeroAddress,
+          0
+        );
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, buyer.address, 1);
+      await musicNFT.connect(buyer).approve(marketplace.target, 1);
+      await marketplace
+        .connect(buyer)
+        .createListing(musicNFT.target, 1, price, ethers.ZeroAddress, 0);
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(indexer.store.getListing(1n)).to.include({
+        status: 'invalidated',
+        escrowed: false,
+      });
+      expect(
+        indexer.store.getActiveListingByToken(addresses.musicNFT, 1n)
+      ).to.include({ listingId: 2n, seller: buyer.address, escrowed: true });
+      expect(indexer.store.getActiveListingsCount()).to.equal(1);
+    });
+
+    it('Should invalidate non-custodial listings when the token leaves the seller', async function () {
+      const { musicNFT, marketplace, addresses, creator, buyer } =
+        await loadFixture(deployIndexerFixture);
+
+      const price = ethers.parseEther('1.0');
+      await musicNFT
+        .connect(creator)
+        .setApprovalForAll(marketplace.target, true);
+      for (const tokenId of [1, 2]) {
+        await marketplace
+          .connect(creator)
+          .createNonCustodialListing(
+            musicNFT.target,
+            tokenId,
+            price,
+            ethers.ZeroAddress,
+            0
+          );
+      }
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, buyer.address, 1);
+      await musicNFT
+        .connect(buyer)
+        .transferFrom(buyer.address, creator.address, 1);
+      await marketplace.connect(buyer).buyNFT(2, price, { value: price });
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(await marketplace.isListingValid(1)).to.be.false;
+      expect(indexer.store.getListing(1n)?.status).to.equal('invalidated');
+      // The sale transfers the token before NFTSold closes the listing
+      expect(indexer.store.getListing(2n)).to.include({
+        status: 'sold',
+        buyer: buyer.address,
+      });
+      expect(indexer.store.queryListings({ active: true })).to.be.empty;
+    });
+
+    it('Should index listens and withdrawals', async function () {
+      const { musicNFT, streaming, addresses, creator, listener } =
+        await loadFixture(deployIndexerFixture);
+
+      const amount = ethers.parseEther('0.1');
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            1,
+            10,
+            amount,
+            ethers.ZeroAddress
+          ),
+          { value: amount }
+        );
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            2,
+            25,
+            amount,
+            ethers.ZeroAddress
+          ),
+          { value: amount }
+        );
+      await streaming.connect(creator).withdrawPayments(ethers.ZeroAddress);
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(indexer.store.getListenCount(addresses.musicNFT, 1n)).to.equal(
+        10n
+      );
+      expect(indexer.store.getTotalListenCount(addresses.musicNFT)).to.equal(
+        await streaming.getTotalListenCount(musicNFT.target)
+      );
+      expect(
+        indexer.store.getTopListenedTokens(addresses.musicNFT, 1)
+      ).to.deep.equal([
+        { nftContract: addresses.musicNFT, tokenId: 2n, listenCount: 25n },
+      ]);
+
+      const [withdrawal] = indexer.store.getWithdrawals(creator.address);
+      expect(withdrawal.contract).to.equal(addresses.nftStreaming);
+      expect(withdrawal.amount).to.equal(amount * 2n);
+    });
+
+    it('Should index subscription listens and pool payouts', async function () {
+      const { musicNFT, streaming, addresses, creator, buyer, listener } =
+        await loadFixture(deployIndexerFixture);
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, buyer.address, 1);
+      await streaming.setSubscriptionPrice(1000);
+      await streaming.buySubscriptionPass(listener.address, 1, {
+        value: 1000,
+      });
+
+      const period = await streaming.currentPeriod();
+      await streaming.connect(listener).recordSubscriptionListens(period, [
+        { nftContract: musicNFT.target, tokenId: 1, count: 30 },
+        { nftContract: musicNFT.target, tokenId: 2, count: 10 },
+      ]);
+      await time.increase(24 * 60 * 60);
+      await streaming.connect(listener).closeSubscriptionPeriod(period);
+      await streaming.claimSubscriptionPayouts(musicNFT.target, period, [1, 2]);
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(indexer.store.getTotalListenCount(addresses.musicNFT)).to.equal(
+        40n
+      );
+      for (const account of [creator, buyer]) {
+        const [payment] = indexer.store.getPendingPayments(account.address);
+        expect(payment.amount).to.equal(
+          await streaming.getPendingPayment(account.address, ethers.ZeroAddress)
+        );
+      }
+    });
+
+    it('Should credit listens with executed royalty updates', async function () {
+      const { musicNFT, streaming, addresses, creator, buyer, listener } =
+        await loadFixture(deployIndexerFixture);
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, buyer.address, 1);
+      await musicNFT.connect(creator).proposeRoyaltyUpdate(1, 800, 4000);
+      await time.increase(7 * 24 * 60 * 60);
+      await musicNFT.executeRoyaltyUpdate(1);
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 1, 10, 1000, ethers.ZeroAddress),
+          { value: 1000 }
+        );
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(indexer.store.getToken(addresses.musicNFT, 1n)).to.include({
+        salesRoyaltyPercentage: 800n,
+        streamingRoyaltyPercentage: 4000n,
+      });
+      const [payment] = indexer.store.getPendingPayments(buyer.address);
+      expect(payment.amount).to.equal(400n);
+    });
+
+    it('Should credit royalty splits like the contracts do', async function () {
+      const {
+        musicNFT,
+        marketplace,
+        streaming,
+        addresses,
+        owner,
+        creator,
+        buyer,
+        listener,
+      } = await loadFixture(deployIndexerFixture);
+
+      await musicNFT
+        .connect(creator)
+        .mintNFTWithSplits(
+          'uri3',
+          1000,
+          2000,
+          [creator.address, listener.address],
+          [3333, 6667]
+        );
+      const price = 1000003n;
+      await musicNFT.connect(creator).approve(marketplace.target, 3);
+      await marketplace
+        .connect(creator)
+        .createListing(musicNFT.target, 3, price, ethers.ZeroAddress, 0);
+      await marketplace.connect(buyer).buyNFT(1, price, { value: price });
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 3, 7, 777n, ethers.ZeroAddress),
+          {
+            value: 777n,
+          }
+        );
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(
+        indexer.store.getToken(addresses.musicNFT, 3n)?.royaltySplit
+      ).to.deep.equal([
+        { recipient: creator.address, share: 3333n },
+        { recipient: listener.address, share: 6667n },
+      ]);
+
+      for (const account of [owner, creator, buyer, listener]) {
+        const pending = indexer.store.getPendingPayments(account.address);
+        const amountFor = (contract: string) =>
+          pending.find((payment) => payment.contract === contract)?.amount ??
+          0n;
+
+        expect(amountFor(addresses.nftMarketplace)).to.equal(
+          await marketplace.getPendingPayment(
+            account.address,
+            ethers.ZeroAddress
+          )
+        );
+        expect(amountFor(addresses.nftStreaming)).to.equal(
+          await streaming.getPendingPayment(account.address, ethers.ZeroAddress)
+        );
+      }
+    });
+
+    it('Should credit streaming royalties of escrowed tokens to the seller', async function () {
+      const {
+        musicNFT,
+        marketplace,
+        streaming,
+        addresses,
+        creator,
+        buyer,
+        listener,
+      } = await loadFixture(deployIndexerFixture);
+
+      await streaming.setEscrowContract(marketplace.target, true);
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, buyer.address, 1);
+      await musicNFT.connect(buyer).approve(marketplace.target, 1);
+      await marketplace
+        .connect(buyer)
+        .createListing(musicNFT.target, 1, 1000n, ethers.ZeroAddress, 0);
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 1, 10, 1000n, ethers.ZeroAddress),
+          { value: 1000n }
+        );
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      for (const account of [
+        buyer.address,
+        creator.address,
+        addresses.nftMarketplace,
+      ]) {
+        const streamed =
+          indexer.store
+            .getPendingPayments(account)
+            .find((payment) => payment.contract === addresses.nftStreaming)
+            ?.amount ?? 0n;
+        expect(streamed).to.equal(
+          await streaming.getPendingPayment(account, ethers.ZeroAddress)
+        );
+      }
+      expect(
+        await streaming.getPendingPayment(buyer.address, ethers.ZeroAddress)
+      ).to.equal(100n);
+    });
+
+    it('Should credit streaming royalties of bundled tokens to the seller', async function () {
+      const {
+        musicNFT,
+        marketplace,
+        streaming,
+        addresses,
+        creator,
+        buyer,
+        listener,
+      } = await loadFixture(deployIndexerFixture);
+
+      await streaming.setEscrowContract(marketplace.target, true);
+      for (const tokenId of [1, 2]) {
+        await musicNFT
+          .connect(creator)
+          .transferFrom(creator.address, buyer.address, tokenId);
+      }
+      await musicNFT.connect(buyer).setApprovalForAll(marketplace.target, true);
+      await marketplace.connect(buyer).createBundleListing(
+        [
+          { nftContract: musicNFT.target, tokenId: 1, weight: 1 },
+          { nftContract: musicNFT.target, tokenId: 2, weight: 1 },
+        ],
+        10000n,
+        ethers.ZeroAddress
+      );
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 2, 10, 1000n, ethers.ZeroAddress),
+          { value: 1000n }
+        );
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      for (const account of [
+        buyer.address,
+        creator.address,
+        addresses.nftMarketplace,
+      ]) {
+        const streamed =
+          indexer.store
+            .getPendingPayments(account)
+            .find((payment) => payment.contract === addresses.nftStreaming)
+            ?.amount ?? 0n;
+        expect(streamed).to.equal(
+          await streaming.getPendingPayment(account, ethers.ZeroAddress)
+        );
+      }
+      // Token 2 has a 20% streaming royalty
+      expect(
+        await streaming.getPendingPayment(buyer.address, ethers.ZeroAddress)
+      ).to.equal(200n);
+    });
+
+    it('Should index lazy mints and credit voucher proceeds', async function () {
+      const { musicNFT, addresses, creator, buyer } = await loadFixture(
+        deployIndexerFixture
+      );
+
+      const expiresAt = (await time.latest()) + 3600;
+      for (const nonce of [1, 2]) {
+        const { voucher, signature } = await signMintVoucher(
+          creator,
+          addresses.musicNFT,
+          {
+            creator: creator.address,
+            tokenURI: `lazy${nonce}`,
+            salesRoyaltyPercentage: 500,
+            streamingRoyaltyPercentage: 1000,
+            minPrice: ethers.parseEther('0.1'),
+            nonce,
+            expiresAt,
+          }
+        );
+        await musicNFT
+          .connect(buyer)
+          .redeemVoucher(voucher, signature, { value: voucher.minPrice });
+
+        if (nonce === 1) {
+          await musicNFT.connect(creator).withdrawPayments();
+        }
+      }
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      const token = indexer.store.getToken(addresses.musicNFT, 4n);
+      expect(token?.creator).to.equal(creator.address);
+      expect(token?.owner).to.equal(buyer.address);
+      expect(token?.tokenURI).to.equal('lazy2');
+
+      const [payment] = indexer.store.getPendingPayments(creator.address);
+      expect(payment.contract).to.equal(addresses.musicNFT);
+      expect(payment.amount).to.equal(
+        await musicNFT.getPendingPayment(creator.address)
+      );
+
+      const [withdrawal] = indexer.store.getWithdrawals(creator.address);
+      expect(withdrawal.currency).to.equal(ethers.ZeroAddress);
+      expect(withdrawal.amount).to.equal(ethers.parseEther('0.1'));
+    });
+
+    it('Should follow market fee and fee treasury changes', async function () {
+      const { musicNFT, marketplace, addresses, owner, creator, buyer } =
+        await loadFixture(deployIndexerFixture);
+      const [, , , , treasury] = await hre.ethers.getSigners();
+
+      const price = ethers.parseEther('1.0');
+      await musicNFT
+        .connect(creator)
+        .setApprovalForAll(marketplace.target, true);
+      await marketplace
+        .connect(creator)
+        .createListing(musicNFT.target, 1, price, ethers.ZeroAddress, 0);
+      await marketplace
+        .connect(creator)
+        .createListing(musicNFT.target, 2, price, ethers.ZeroAddress, 0);
+
+      await marketplace.connect(buyer).buyNFT(1, price, { value: price });
+      await marketplace.setMarketFeePercentage(1000);
+      await marketplace.setFeeTreasury(treasury.address);
+      await marketplace.connect(buyer).buyNFT(2, price, { value: price });
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      for (const account of [owner, treasury, creator]) {
+        const [payment] = indexer.store.getPendingPayments(account.address);
+        expect(payment.amount).to.equal(
+          await marketplace.getPendingPayment(
+            account.address,
+            ethers.ZeroAddress
+          )
+        );
+      }
+    });
+
+    it('Should credit auction sales and outbid refunds like the marketplace', async function () {
+      const {
+        musicNFT,
+        marketplace,
+        streaming,
+        addresses,
+        owner,
+        creator,
+        buyer,
+        listener,
+      } = await loadFixture(deployIndexerFixture);
+
+      await streaming.setEscrowContract(marketplace.target, true);
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, buyer.address, 2);
+      await musicNFT
+        .connect(creator)
+        .setApprovalForAll(marketplace.target, true);
+      await musicNFT.connect(buyer).setApprovalForAll(marketplace.target, true);
+
+      await marketplace
+        .connect(creator)
+        .createEnglishAuction(musicNFT.target, 1, 10000n, 1000n, 3600);
+      await marketplace.connect(buyer).placeBid(1, { value: 10000n });
+      await marketplace.connect(listener).placeBid(1, { value: 20000n });
+
+      // The owner share of listens on an auctioned token goes to its seller
+      await marketplace
+        .connect(buyer)
+        .createDutchAuction(musicNFT.target, 2, 50000n, 10000n, 3600);
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 2, 10, 1000n, ethers.ZeroAddress),
+          { value: 1000n }
+        );
+      await marketplace.connect(creator).buyDutchAuction(2, { value: 50000n });
+
+      await time.increase(3600);
+      await marketplace.settleAuction(1);
+      await marketplace.connect(creator).withdrawPayments(ethers.ZeroAddress);
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      for (const account of [owner, creator, buyer, listener]) {
+        const payments = indexer.store.getPendingPayments(account.address);
+        for (const [contract, client] of [
+          [addresses.nftMarketplace, marketplace],
+          [addresses.nftStreaming, streaming],
+        ] as const) {
+          const pending =
+            payments.find((payment) => payment.contract === contract)?.amount ??
+            0n;
+          expect(pending).to.equal(
+            await client.getPendingPayment(account.address, ethers.ZeroAddress)
+          );
+        }
+      }
+      expect(
+        await marketplace.getPendingPayment(buyer.address, ethers.ZeroAddress)
+      ).to.be.greaterThan(10000n);
+      expect(
+        await streaming.getPendingPayment(buyer.address, ethers.ZeroAddress)
+      ).to.equal(200n);
+    });
+
+    it('Should credit accepted offers and offer refunds like the marketplace', async function () {
+      const { musicNFT, marketplace, addresses, owner, creator, buyer } =
+        await loadFixture(deployIndexerFixture);
+
+      const expiresAt = (await time.latest()) + 3600;
+      await marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, 1, expiresAt, { value: 10000n });
+      await marketplace
+        .connect(buyer)
+        .makeCollectionOffer(musicNFT.target, expiresAt, { value: 20000n });
+      await marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, 2, expiresAt, { value: 30000n });
+      await marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, 2, expiresAt, { value: 40000n });
+
+      await musicNFT
+        .connect(creator)
+        .setApprovalForAll(marketplace.target, true);
+      await marketplace.connect(creator).acceptOffer(1, 1);
+      await marketplace.connect(creator).acceptOffer(2, 2);
+      await marketplace.connect(buyer).cancelOffer(3);
+      await time.increaseTo(expiresAt);
+      await marketplace.refundExpiredOffer(4);
+      await marketplace.connect(creator).withdrawPayments(ethers.ZeroAddress);
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      for (const account of [owner, creator, buyer]) {
+        const [payment] = indexer.store.getPendingPayments(account.address);
+        expect(payment.amount).to.equal(
+          await marketplace.getPendingPayment(
+            account.address,
+            ethers.ZeroAddress
+          )
+        );
+      }
+      expect(
+        await marketplace.getPendingPayment(buyer.address, ethers.ZeroAddress)
+      ).to.equal(70000n);
+    });
+
+    it('Should credit every item of a sold bundle like the marketplace', async function () {
+      const { musicNFT, marketplace, addresses, owner, creator, buyer } =
+        await loadFixture(deployIndexerFixture);
+      const [, , , , seller] = await hre.ethers.getSigners();
+
+      for (const tokenId of [1, 2]) {
+        await musicNFT
+          .connect(creator)
+          .transferFrom(creator.address, seller.address, tokenId);
+      }
+      await musicNFT
+        .connect(seller)
+        .setApprovalForAll(marketplace.target, true);
+      await marketplace.connect(seller).createBundleListing(
+        [
+          { nftContract: musicNFT.target, tokenId: 1, weight: 1 },
+          { nftContract: musicNFT.target, tokenId: 2, weight: 2 },
+        ],
+        10000n,
+        ethers.ZeroAddress
+      );
+      await marketplace.connect(buyer).buyBundle(1, 10000n, { value: 10000n });
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      for (const account of [owner, creator, seller]) {
+        const [payment] = indexer.store.getPendingPayments(account.address);
+        expect(payment.amount).to.equal(
+          await marketplace.getPendingPayment(
+            account.address,
+            ethers.ZeroAddress
+          )
+        );
+      }
+      expect(indexer.store.getToken(addresses.musicNFT, 2n)?.owner).to.equal(
+        buyer.address
+      );
+    });
+
+    it('Should credit edition sales and edition listens like the contracts', async function () {
+      const {
+        marketplace,
+        streaming,
+        addresses,
+        owner,
+        creator,
+        buyer,
+        listener,
+      } = await loadFixture(deployIndexerFixture);
+
+      const editions = await hre.ethers.deployContract('MusicEditions');
+      await editions.setRoyaltyDepositor(streaming.target, true);
+      await streaming.setEditionContract(editions.target, true);
+
+      const recordListens = async (editionId: number) =>
+        streaming
+          .connect(listener)
+          .recordBatchListens(
+            await listenReport(
+              editions.target,
+              editionId,
+              10,
+              1000n,
+              ethers.ZeroAddress
+            ),
+            { value: 1000n }
+          );
+
+      // Without copies in circulation the creator receives everything
+      await editions.connect(creator).createEdition('e1', 100, 0, 500, 3000);
+      await recordListens(1);
+      await editions.connect(creator).mintCopies(1, buyer.address, 10);
+      await recordListens(1);
+
+      await editions.connect(creator).createEdition('e2', 10, 5, 500, 3000);
+      await editions.connect(creator).setStreamingPayout(2, 1);
+      await recordListens(2);
+
+      await editions.connect(buyer).setApprovalForAll(marketplace.target, true);
+      await marketplace
+        .connect(buyer)
+        .createEditionListing(editions.target, 1, 4, 1000n, ethers.ZeroAddress);
+      await marketplace
+        .connect(listener)
+        .buyEditionCopies(1, 2, { value: 2000n });
+
+      const indexer = new Indexer({
+        provider: hre.ethers.provider,
+        addresses: { ...addresses, musicEditions: await editions.getAddress() },
+        store: new IndexerStore(),
+      });
+      await indexer.sync();
+
+      for (const account of [owner, creator, buyer]) {
+        const payments = indexer.store.getPendingPayments(account.address);
+        for (const [contract, client] of [
+          [addresses.nftMarketplace, marketplace],
+          [addresses.nftStreaming, streaming],
+        ] as const) {
+          const pending =
+            payments.find((payment) => payment.contract === contract)?.amount ??
+            0n;
+          expect(pending).to.equal(
+            await client.getPendingPayment(account.address, ethers.ZeroAddress)
+          );
+        }
+      }
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(2700n);
+    });
+
+    it('Should only count listens inside the requested window', async function () {
+      const { musicNFT, streaming, addresses, listener } = await loadFixture(
+        deployIndexerFixture
+      );
+
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 1, 50, 50, ethers.ZeroAddress),
+          { value: 50 }
+        );
+      await time.increase(7 * 24 * 60 * 60);
+      const since = await time.latest();
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 2, 5, 5, ethers.ZeroAddress),
+          { value: 5 }
+        );
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(
+        indexer.store.getTopListenedTokens(addresses.musicNFT, 10, since)
+      ).to.deep.equal([
+        { nftContract: addresses.musicNFT, tokenId: 2n, listenCount: 5n },
+      ]);
+    });
+
+    it('Should count late reports in the period they were listened in', async function () {
+      const { musicNFT, streaming, addresses, listener } = await loadFixture(
+        deployIndexerFixture
+      );
+
+      const earlierPeriod = listenPeriodOf(await time.latest());
+      await time.increase(7 * 24 * 60 * 60);
+      const since = await time.latest();
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 2, 5, 5, ethers.ZeroAddress),
+          { value: 5 }
+        );
+      // Recorded inside the window, but for listens from a week before
+      await streaming.connect(listener).recordBatchListens(
+        buildListenReport({
+          nftContract: addresses.musicNFT,
+          tokenId: 1,
+          count: 50,
+          rate: 1,
+          period: earlierPeriod,
+        }),
+        { value: 50 }
+      );
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      expect(
+        indexer.store.getTopListenedTokens(addresses.musicNFT, 10, since)
+      ).to.deep.equal([
+        { nftContract: addresses.musicNFT, tokenId: 2n, listenCount: 5n },
+      ]);
+      expect(
+        indexer.store.getTopListenedTokens(addresses.musicNFT, 10)
+      ).to.deep.equal([
+        { nftContract: addresses.musicNFT, tokenId: 1n, listenCount: 50n },
+        { nftContract: addresses.musicNFT, tokenId: 2n, listenCount: 5n },
+      ]);
+    });
+
+    it('Should produce the same state in small batches', async function () {
+      const { musicNFT, streaming, addresses, listener } = await loadFixture(
+        deployIndexerFixture
+      );
+
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 1, 10, 10, ethers.ZeroAddress),
+          { value: 10 }
+        );
+      await mine(5);
+
+      const whole = createIndexer(addresses);
+      const batched = createIndexer(addresses, 1);
+      await whole.sync();
+      await batched.sync();
+
+      expect(batched.store.getEvents()).to.deep.equal(whole.store.getEvents());
+      expect(batched.store.getCursor()).to.equal(whole.store.getCursor());
+    });
+  });
+
+  describe('Reorgs', function () {
+    it('Should roll back to the last valid checkpoint after a reorg', async function () {
+      const { musicNFT, streaming, addresses, creator, listener } =
+        await loadFixture(deployIndexerFixture);
+
+      const indexer = createIndexer(addresses);
+      await indexer.sync();
+
+      const snapshot = await takeSnapshot();
+
+      await musicNFT.connect(creator).mintNFT('orphaned-uri', 500, 1000);
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 1, 100, 100, ethers.ZeroAddress),
+          { value: 100 }
+        );
+      await indexer.sync();
+
+      expect(indexer.store.getToken(addresses.musicNFT, 3n)?.tokenURI).to.equal(
+        'orphaned-uri'
+      );
+      expect(indexer.store.getListenCount(addresses.musicNFT, 1n)).to.equal(
+        100n
+      );
+
+      // Replace the indexed blocks with a different chain of the same height
+      await snapshot.restore();
+      await musicNFT.connect(creator).mintNFT('canonical-uri', 500, 1000);
+      await mine(1);
+
+      await indexer.sync();
+
+      expect(indexer.store.getToken(addresses.musicNFT, 3n)?.tokenURI).to.equal(
+        'canonical-uri'
+      );
+      expect(indexer.store.getListenCount(addresses.musicNFT, 1n)).to.equal(0n);
+      expect(
+        indexer.store.getTokensByCreator(creator.address)
+      ).to.have.lengthOf(3);
+      expect(indexer.store.getCursor()).to.equal(
+        await ethers.provider.getBlockNumber()
+      );
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+
+describe('MusicEditions', function () {
+  async function deployEditionsFixture() {
+    const [owner, creator, holder, otherHolder, depositor] =
+      await hre.ethers.getSigners();
+
+    const MusicEditions = await hre.ethers.getContractFactory('MusicEditions');
+    const editions = await MusicEditions.deploy();
+    await editions.setRoyaltyDepositor(depositor.address, true);
+
+    const MockERC20 = await hre.ethers.getContractFactory('MockERC20');
+    const paymentToken = await MockERC20.deploy('Mock USD', 'mUSD');
+    await paymentToken.mint(depositor.address, ethers.parseEther('1000'));
+
+    // Edition 1: 500 copies, 100 minted to the creator
+    await editions
+      .connect(creator)
+      .createEdition('https://example.com/edition/1', 500, 100, 500, 3000);
+
+    return {
+      editions,
+      paymentToken,
+      owner,
+      creator,
+      holder,
+      otherHolder,
+      depositor,
+    };
+  }
+
+  describe('Creating Editions', function () {
+    it('Should create an edition and mint the initial copies to the creator', async function () {
+      const { editions, creator } = await loadFixture(deployEditionsFixture);
+
+      await expect(
+        editions.connect(creator).createEdition('uri-2', 10, 4, 700, 1000)
+      )
+        .to.emit(editions, 'EditionCreated')
+        .withArgs(2, creator.address, 'uri-2', 10, 700, 1000)
+        .and.to.emit(editions, 'TransferSingle')
+        .withArgs(creator.address, ethers.ZeroAddress, creator.address, 2, 4);
+
+      const edition = await editions.getEdition(2);
+      expect(edition.creator).to.equal(creator.address);
+      expect(edition.editionURI).to.equal('uri-2');
+      expect(edition.maxSupply).to.equal(10);
+      expect(edition.minted).to.equal(4);
+      expect(edition.streamingRoyaltyPercentage).to.equal(1000);
+      expect(edition.streamingPayout).to.equal(0);
+      expect(await editions.uri(2)).to.equal('uri-2');
+      expect(await editions.balanceOf(creator.address, 2)).to.equal(4);
+    });
+
+    it('Should track the creator like MusicNFT', async function () {
+      const { editions, creator, holder } = await loadFixture(
+        deployEditionsFixture
+      );
+      await editions.connect(holder).createEdition('uri-2', 10, 0, 500, 1000);
+      await editions.connect(creator).createEdition('uri-3', 10, 0, 500, 1000);
+
+      expect(await editions.getCreator(2)).to.equal(holder.address);
+      expect(await editions.getTokensCreatedBy(creator.address)).to.deep.equal([
+        1n,
+        3n,
+      ]);
+      expect(await editions.getTotalSupply()).to.equal(3);
+      expect(await editions.tokenExists(3)).to.be.true;
+      expect(await editions.tokenExists(4)).to.be.false;
+      await expect(editions.getCreator(4))
+        .to.be.revertedWithCustomError(editions, 'NonexistentToken')
+        .withArgs(4);
+    });
+
+    it('Should pay ERC-2981 sales royalties to the creator', async function () {
+      const { editions, creator } = await loadFixture(deployEditionsFixture);
+
+      const [receiver, amount] = await editions.royaltyInfo(1, 10000);
+      expect(receiver).to.equal(creator.address);
+      expect(amount).to.equal(500);
+      expect(await editions.supportsInterface('0x2a55205a')).to.be.true;
+      expect(await editions.supportsInterface('0xd9b67a26')).to.be.true;
+    });
+
+    it('Should validate the edition parameters', async function () {
+      const { editions } = await loadFixture(deployEditionsFixture);
+
+      await expect(
+        editions.createEdition('', 10, 0, 500, 1000)
+      ).to.be.revertedWithCustomError(editions, 'EmptyTokenURI');
+      await expect(
+        editions.createEdition('uri', 0, 0, 500, 1000)
+      ).to.be.revertedWithCustomError(editions, 'InvalidMaxSupply');
+      await expect(editions.createEdition('uri', 10, 0, 500, 6000))
+        .to.be.revertedWithCustomError(editions, 'MaxRoyaltyExceeded')
+        .withArgs(6000, 5000);
+      await expect(editions.createEdition('uri', 10, 11, 500, 1000))
+        .to.be.revertedWithCustomError(editions, 'EditionSupplyExceeded')
+        .withArgs(2, 10);
+    });
+  });
+
+  describe('Minting Copies', function () {
+    it('Should let the creator mint copies up to the maximum supply', async function () {
+      const { editions, creator, holder } = await loadFixture(
+        deployEditionsFixture
+      );
+
+      await editions.connect(creator).mintCopies(1, holder.address, 400);
+      expect(await editions.balanceOf(holder.address, 1)).to.equal(400);
+      expect((await editions.getEdition(1)).minted).to.equal(500);
+      expect(await editions['totalSupply(uint256)'](1)).to.equal(500);
+
+      await expect(editions.connect(creator).mintCopies(1, holder.address, 1))
+        .to.be.revertedWithCustomError(editions, 'EditionSupplyExceeded')
+        .withArgs(1, 500);
+    });
+
+    it('Should only let the creator mint copies', async function () {
+      const { editions, creator, holder } = await loadFixture(
+        deployEditionsFixture
+      );
+
+      await expect(
+        editions.connect(holder).mintCopies(1, holder.address, 1)
+      ).to.be.revertedWithCustomError(editions, 'NotAuthorized');
+      await expect(
+        editions.connect(creator).mintCopies(1, holder.address, 0)
+      ).to.be.revertedWithCustomError(editions, 'InvalidAmount');
+    });
+
+    it('Should let the creator choose the streaming payout', async function () {
+      const { editions, creator, holder } = await loadFixture(
+        deployEditionsFixture
+      );
+
+      await expect(editions.connect(creator).setStreamingPayout(1, 1))
+        .to.emit(editions, 'StreamingPayoutUpdated')
+        .withArgs(1, 1);
+      expect(await editions.getStreamingPayout(1)).to.equal(1);
+
+      await expect(
+        editions.connect(holder).setStreamingPayout(1, 0)
+      ).to.be.revertedWithCustomError(editions, 'NotAuthorized');
+    });
+  });
+
+  describe('Holder Royalties', function () {
+    it('Should divide deposits among holders by copies held', async function () {
+      const { editions, creator, holder, depositor } = await loadFixture(
+        deployEditionsFixture
+      );
+      // Creator holds 75 copies and the holder 25
+      await editions
+        .connect(creator)
+        .safeTransferFrom(creator.address, holder.address, 1, 25, '0x');
+
+      await expect(
+        editions
+          .connect(depositor)
+          .depositHolderRoyalties(1, ethers.ZeroAddress, 1000, { value: 1000 })
+      )
+        .to.emit(editions, 'HolderRoyaltiesDeposited')
+        .withArgs(1, ethers.ZeroAddress, 1000);
+
+      expect(
+        await editions.getClaimableHolderRoyalties(
+          1,
+          creator.address,
+          ethers.ZeroAddress
+        )
+      ).to.equal(750);
+      expect(
+        await editions.getClaimableHolderRoyalties(
+          1,
+          holder.address,
+          ethers.ZeroAddress
+        )
+      ).to.equal(250);
+
+      const tx = editions
+        .connect(holder)
+        .claimHolderRoyalties(1, ethers.ZeroAddress);
+      await expect(tx)
+        .to.emit(editions, 'HolderRoyaltiesClaimed')
+        .withArgs(1, holder.address, ethers.ZeroAddress, 250);
+      await expect(tx).to.changeEtherBalance(holder, 250);
+
+      await expect(
+        editions.connect(holder).claimHolderRoyalties(1, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(editions, 'NoPaymentsPending');
+    });
+
+    it('Should only credit copies for deposits made while they are held', async function () {
+      const { editions, creator, holder, otherHolder, depositor } =
+        await loadFixture(deployEditionsFixture);
+
+      await editions
+        .connect(depositor)
+        .depositHolderRoyalties(1, ethers.ZeroAddress, 1000, { value: 1000 });
+
+      // The holder buys 50 copies after the first deposit
+      await editions
+        .connect(creator)
+        .safeTransferFrom(creator.address, holder.address, 1, 50, '0x');
+      // A newly minted copy does not share the first deposit either
+      await editions.connect(creator).mintCopies(1, otherHolder.address, 100);
+
+      await editions
+        .connect(depositor)
+        .depositHolderRoyalties(1, ethers.ZeroAddress, 2000, { value: 2000 });
+
+      const claimable = async (account: string) =>
+        editions.getClaimableHolderRoyalties(1, account, ethers.ZeroAddress);
+      expect(await claimable(creator.address)).to.equal(1000 + 500);
+      expect(await claimable(holder.address)).to.equal(500);
+      expect(await claimable(otherHolder.address)).to.equal(1000);
+    });
+
+    it('Should account for ERC-20 deposits separately', async function () {
+      const { editions, paymentToken, creator, depositor } = await loadFixture(
+        deployEditionsFixture
+      );
+      await paymentToken.connect(depositor).approve(editions.target, 500);
+
+      await editions
+        .connect(depositor)
+        .depositHolderRoyalties(1, paymentToken.target, 500);
+
+      expect(
+        await editions.getClaimableHolderRoyalties(
+          1,
+          creator.address,
+          paymentToken.target
+        )
+      ).to.equal(500);
+      await expect(
+        editions.connect(creator).claimHolderRoyalties(1, paymentToken.target)
+      ).to.changeTokenBalance(paymentToken, creator, 500);
+      await expect(
+        editions.connect(creator).claimHolderRoyalties(1, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(editions, 'NoPaymentsPending');
+    });
+
+    it('Should only accept deposits from registered depositors', async function () {
+      const { editions, creator, depositor } = await loadFixture(
+        deployEditionsFixture
+      );
+
+      await expect(
+        editions
+          .connect(creator)
+          .depositHolderRoyalties(1, ethers.ZeroAddress, 10, { value: 10 })
+      )
+        .to.be.revertedWithCustomError(editions, 'UnauthorizedDepositor')
+        .withArgs(creator.address);
+
+      await expect(
+        editions
+          .connect(depositor)
+          .depositHolderRoyalties(1, ethers.ZeroAddress, 10, { value: 9 })
+      ).to.be.revertedWithCustomError(editions, 'InsufficientPayment');
+
+      await editions.connect(creator).createEdition('uri-2', 10, 0, 500, 1000);
+      await expect(
+        editions
+          .connect(depositor)
+          .depositHolderRoyalties(2, ethers.ZeroAddress, 10, { value: 10 })
+      )
+        .to.be.revertedWithCustomError(editions, 'NoEditionHolders')
+        .withArgs(2);
+    });
+  });
+});
@@ -1,6 +1,10 @@
-import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
 import { expect } from 'chai';
 import hre, { ethers } from 'hardhat';
+import { MintVoucher, signMintVoucher } from '../sdk';
 
 describe('MusicNFT', function () {
   // Basic fixture that just deploys the contract
@@ -333,4 +337,957 @@ describe('MusicNFT', function () {
       expect(details.salesRoyaltyPercentage).to.equal(salesRoyaltyPercentage);
     });
   });
+
+  describe('Royalty Splits', function () {
+    it('Should mint with a collaborator split and emit it', async function () {
+      const { musicNFT, owner } = await loadFixture(deployMusicNFTFixture);
+      const [, producer, songwriter] = await hre.ethers.getSigners();
+      const recipients = [owner.address, producer.address, songwriter.address];
+      const shares = [5000, 3000, 2000];
+
+      await expect(
+        musicNFT.mintNFTWithSplits('uri', 500, 1000, recipients, shares)
+      )
+        .to.emit(musicNFT, 'RoyaltySplitSet')
+        .withArgs(1, recipients, shares);
+
+      const split = await musicNFT.getRoyaltySplit(1);
+      expect(split.recipients).to.deep.equal(recipients);
+      expect(split.shares).to.deep.equal(shares.map(BigInt));
+      expect(await musicNFT.getCreator(1)).to.equal(owner.address);
+    });
+
+    it('Should return the creator with the full share when no split was set', async function () {
+      const { musicNFT, owner } = await loadFixture(deployMusicNFTFixture);
+      await musicNFT.mintNFT('uri', 500, 1000);
+
+      const split = await musicNFT.getRoyaltySplit(1);
+      expect(split.recipients).to.deep.equal([owner.address]);
+      expect(split.shares).to.deep.equal([10000n]);
+    });
+
+    it('Should revert when the shares do not sum to 10000', async function () {
+      const { musicNFT, owner, otherAccount } = await loadFixture(
+        deployMusicNFTFixture
+      );
+
+      await expect(
+        musicNFT.mintNFTWithSplits(
+          'uri',
+          500,
+          1000,
+          [owner.address, otherAccount.address],
+          [5000, 4000]
+        )
+      )
+        .to.be.revertedWithCustomError(musicNFT, 'InvalidSplitTotal')
+        .withArgs(9000, 10000);
+    });
+
+    it('Should revert on malformed splits', async function () {
+      const { musicNFT, owner, otherAccount } = await loadFixture(
+        deployMusicNFTFixture
+      );
+
+      const invalidSplits: [string[], number[]][] = [
+        [[], []],
+        [[owner.address], [5000, 5000]],
+        [
+          [owner.address, ethers.ZeroAddress],
+          [5000, 5000],
+        ],
+        [
+          [owner.address, otherAccount.address],
+          [10000, 0],
+        ],
+        [Array(11).fill(owner.address), Array(11).fill(1000)],
+      ];
+
+      for (const [recipients, shares] of invalidSplits) {
+        await expect(
+          musicNFT.mintNFTWithSplits('uri', 500, 1000, recipients, shares)
+        ).to.be.revertedWithCustomError(musicNFT, 'InvalidRoyaltySplit');
+      }
+    });
+
+    it('Should revert when querying the split of a non-existent token', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+
+      await expect(musicNFT.getRoyaltySplit(1))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(1);
+    });
+  });
+
+  describe('Lazy Minting', function () {
+    async function deployVoucherFixture() {
+      const [owner, creator, buyer] = await hre.ethers.getSigners();
+
+      const MusicNFT = await hre.ethers.getContractFactory('MusicNFT');
+      const musicNFT = await MusicNFT.deploy();
+      const musicNFTAddress = await musicNFT.getAddress();
+
+      const voucher: MintVoucher = {
+        creator: creator.address,
+        tokenURI: 'https://example.com/token/lazy',
+        salesRoyaltyPercentage: 500,
+        streamingRoyaltyPercentage: 1000,
+        minPrice: ethers.parseEther('1'),
+        nonce: 1,
+        expiresAt: (await time.latest()) + 3600,
+      };
+      const signed = await signMintVoucher(creator, musicNFTAddress, voucher);
+
+      return {
+        musicNFT,
+        musicNFTAddress,
+        owner,
+        creator,
+        buyer,
+        voucher,
+        signed,
+      };
+    }
+
+    it('Should mint to the buyer and record the signer as creator', async function () {
+      const { musicNFT, creator, buyer, signed } = await loadFixture(
+        deployVoucherFixture
+      );
+      const price = ethers.parseEther('1');
+
+      await expect(
+        musicNFT
+          .connect(buyer)
+          .redeemVoucher(signed.voucher, signed.signature, { value: price })
+      )
+        .to.emit(musicNFT, 'VoucherRedeemed')
+        .withArgs(1, creator.address, buyer.address, price, 1)
+        .and.to.emit(musicNFT, 'NFTMinted')
+        .withArgs(
+          1,
+          creator.address,
+          'https://example.com/token/lazy',
+          500,
+          1000
+        );
+
+      expect(await musicNFT.ownerOf(1)).to.equal(buyer.address);
+      expect(await musicNFT.getCreator(1)).to.equal(creator.address);
+      expect(await musicNFT.getTokensCreatedBy(creator.address)).to.deep.equal([
+        1n,
+      ]);
+
+      const [receiver, royaltyAmount] = await musicNFT.royaltyInfo(1, 10000);
+      expect(receiver).to.equal(creator.address);
+      expect(royaltyAmount).to.equal(500);
+      expect(await musicNFT.isVoucherNonceUsed(creator.address, 1)).to.be.true;
+    });
+
+    it('Should credit the payment to the creator for withdrawal', async function () {
+      const { musicNFT, creator, buyer, signed } = await loadFixture(
+        deployVoucherFixture
+      );
+      const price = ethers.parseEther('1.5');
+
+      await musicNFT
+        .connect(buyer)
+        .redeemVoucher(signed.voucher, signed.signature, { value: price });
+
+      expect(await musicNFT.getPendingPayment(creator.address)).to.equal(price);
+
+      const withdrawal = musicNFT.connect(creator).withdrawPayments();
+      await expect(withdrawal)
+        .to.emit(musicNFT, 'PaymentWithdrawn')
+        .withArgs(creator.address, price);
+      await expect(withdrawal).to.changeEtherBalance(creator, price);
+
+      expect(await musicNFT.getPendingPayment(creator.address)).to.equal(0);
+      await expect(
+        musicNFT.connect(creator).withdrawPayments()
+      ).to.be.revertedWithCustomError(musicNFT, 'NoPaymentsPending');
+    });
+
+    it('Should not allow a voucher to be redeemed twice', async function () {
+      const { musicNFT, creator, buyer, signed } = await loadFixture(
+        deployVoucherFixture
+      );
+      const price = ethers.parseEther('1');
+
+      await musicNFT
+        .connect(buyer)
+        .redeemVoucher(signed.voucher, signed.signature, { value: price });
+
+      await expect(
+        musicNFT
+          .connect(buyer)
+          .redeemVoucher(signed.voucher, signed.signature, { value: price })
+      )
+        .to.be.revertedWithCustomError(musicNFT, 'VoucherNonceUsed')
+        .withArgs(creator.address, 1);
+    });
+
+    it('Should revert when the voucher has expired', async function () {
+      const { musicNFT, buyer, voucher, signed } = await loadFixture(
+        deployVoucherFixture
+      );
+
+      await time.increaseTo(BigInt(voucher.expiresAt) + 1n);
+
+      await expect(
+        musicNFT
+          .connect(buyer)
+          .redeemVoucher(signed.voucher, signed.signature, {
+            value: ethers.parseEther('1'),
+          })
+      ).to.be.revertedWithCustomError(musicNFT, 'VoucherExpired');
+    });
+
+    it('Should revert when the voucher was not signed by its creator', async function () {
+      const { musicNFT, musicNFTAddress, buyer, voucher } = await loadFixture(
+        deployVoucherFixture
+      );
+      const forged = await signMintVoucher(buyer, musicNFTAddress, voucher);
+
+      await expect(
+        musicNFT
+          .connect(buyer)
+          .redeemVoucher(forged.voucher, forged.signature, {
+            value: ethers.parseEther('1'),
+          })
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidVoucherSignature');
+    });
+
+    it('Should revert when the voucher fields were tampered with', async function () {
+      const { musicNFT, buyer, signed } = await loadFixture(
+        deployVoucherFixture
+      );
+      const tampered = { ...signed.voucher, minPrice: 0 };
+
+      await expect(
+        musicNFT
+          .connect(buyer)
+          .redeemVoucher(tampered, signed.signature, { value: 0 })
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidVoucherSignature');
+    });
+
+    it('Should revert when paying less than the minimum price', async function () {
+      const { musicNFT, buyer, signed } = await loadFixture(
+        deployVoucherFixture
+      );
+
+      await expect(
+        musicNFT
+          .connect(buyer)
+          .redeemVoucher(signed.voucher, signed.signature, {
+            value: ethers.parseEther('0.5'),
+          })
+      ).to.be.revertedWithCustomError(musicNFT, 'InsufficientPayment');
+    });
+
+    it('Should validate royalties before minting', async function () {
+      const { musicNFT, musicNFTAddress, creator, buyer, voucher } =
+        await loadFixture(deployVoucherFixture);
+      const signed = await signMintVoucher(creator, musicNFTAddress, {
+        ...voucher,
+        streamingRoyaltyPercentage: 6000,
+      });
+
+      await expect(
+        musicNFT
+          .connect(buyer)
+          .redeemVoucher(signed.voucher, signed.signature, {
+            value: ethers.parseEther('1'),
+          })
+      ).to.be.revertedWithCustomError(musicNFT, 'MaxRoyaltyExceeded');
+    });
+
+    it('Should let the creator cancel an unredeemed voucher', async function () {
+      const { musicNFT, creator, buyer, signed } = await loadFixture(
+        deployVoucherFixture
+      );
+
+      await expect(musicNFT.connect(creator).cancelVoucher(1))
+        .to.emit(musicNFT, 'VoucherCancelled')
+        .withArgs(creator.address, 1);
+
+      await expect(
+        musicNFT
+          .connect(buyer)
+          .redeemVoucher(signed.voucher, signed.signature, {
+            value: ethers.parseEther('1'),
+          })
+      )
+        .to.be.revertedWithCustomError(musicNFT, 'VoucherNonceUsed')
+        .withArgs(creator.address, 1);
+      await expect(
+        musicNFT.connect(creator).cancelVoucher(1)
+      ).to.be.revertedWithCustomError(musicNFT, 'VoucherNonceUsed');
+    });
+  });
+
+  describe('Albums', function () {
+    it('Should mint a tracklist into a new album in one call', async function () {
+      const { musicNFT, owner } = await loadFixture(deployMusicNFTFixture);
+
+      await expect(
+        musicNFT.mintAlbum(
+          'album-uri',
+          ['track-1', 'track-2', 'track-3'],
+          500,
+          1000
+        )
+      )
+        .to.emit(musicNFT, 'AlbumCreated')
+        .withArgs(1, owner.address, 'album-uri')
+        .and.to.emit(musicNFT, 'AlbumTrackAdded')
+        .withArgs(1, 3);
+
+      const album = await musicNFT.getAlbum(1);
+      expect(album.creator).to.equal(owner.address);
+      expect(album.metadataURI).to.equal('album-uri');
+      expect(album.trackCount).to.equal(3);
+      expect(await musicNFT.getAlbumTracks(1)).to.deep.equal([1n, 2n, 3n]);
+      expect(await musicNFT.tokenURI(2)).to.equal('track-2');
+      expect(await musicNFT.getStreamingRoyalty(3)).to.equal(1000);
+      expect(await musicNFT.getTotalAlbums()).to.equal(1);
+
+      const [albumId, trackIndex] = await musicNFT.getTokenAlbum(2);
+      expect(albumId).to.equal(1);
+      expect(trackIndex).to.equal(1);
+    });
+
+    it('Should add tracks minted by the album creator', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+      await musicNFT.mintNFT('uri1', 500, 1000);
+      await musicNFT.mintNFT('uri2', 500, 1000);
+      await musicNFT.createAlbum('album-uri');
+
+      await musicNFT.addTrackToAlbum(1, 2);
+      await expect(musicNFT.addTrackToAlbum(1, 1))
+        .to.emit(musicNFT, 'AlbumTrackAdded')
+        .withArgs(1, 1);
+
+      expect(await musicNFT.getAlbumTracks(1)).to.deep.equal([2n, 1n]);
+    });
+
+    it('Should report tokens outside of albums with albumId 0', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+      await musicNFT.mintNFT('uri', 500, 1000);
+
+      const [albumId] = await musicNFT.getTokenAlbum(1);
+      expect(albumId).to.equal(0);
+      await expect(musicNFT.getTokenAlbum(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+    });
+
+    it('Should only let the album creator add their own tokens', async function () {
+      const { musicNFT, otherAccount } = await loadFixture(
+        deployMusicNFTFixture
+      );
+      await musicNFT.mintNFT('uri1', 500, 1000);
+      await musicNFT.connect(otherAccount).mintNFT('uri2', 500, 1000);
+      await musicNFT.createAlbum('album-uri');
+
+      await expect(
+        musicNFT.connect(otherAccount).addTrackToAlbum(1, 2)
+      ).to.be.revertedWithCustomError(musicNFT, 'NotAuthorized');
+      await expect(
+        musicNFT.addTrackToAlbum(1, 2)
+      ).to.be.revertedWithCustomError(musicNFT, 'NotAuthorized');
+    });
+
+    it('Should keep a token in at most one album', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+      await musicNFT.mintAlbum('album-1', ['track-1'], 500, 1000);
+      await musicNFT.createAlbum('album-2');
+
+      await expect(musicNFT.addTrackToAlbum(2, 1))
+        .to.be.revertedWithCustomError(musicNFT, 'TrackAlreadyInAlbum')
+        .withArgs(1, 1);
+    });
+
+    it('Should revert on unknown albums and empty album URIs', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+
+      await expect(musicNFT.getAlbum(1))
+        .to.be.revertedWithCustomError(musicNFT, 'AlbumNotFound')
+        .withArgs(1);
+      await expect(musicNFT.createAlbum('')).to.be.revertedWithCustomError(
+        musicNFT,
+        'EmptyAlbumURI'
+      );
+      await expect(
+        musicNFT.mintAlbum('', ['track-1'], 500, 1000)
+      ).to.be.revertedWithCustomError(musicNFT, 'EmptyAlbumURI');
+    });
+
+    it('Should cap the number of tracks of an album', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+      const max = await musicNFT.MAX_ALBUM_TRACKS();
+      const tokenURIs = Array.from(
+        { length: Number(max) + 1 },
+        (_, i) => `track-${i}`
+      );
+
+      await expect(musicNFT.mintAlbum('album-uri', tokenURIs, 500, 1000))
+        .to.be.revertedWithCustomError(musicNFT, 'AlbumFull')
+        .withArgs(1);
+    });
+
+    it('Should remove a track and keep the order of the others', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+      await musicNFT.mintAlbum(
+        'album-uri',
+        ['t1', 't2', 't3', 't4'],
+        500,
+        1000
+      );
+
+      await expect(musicNFT.removeTrackFromAlbum(1, 2))
+        .to.emit(musicNFT, 'AlbumTrackRemoved')
+        .withArgs(1, 2);
+
+      expect(await musicNFT.getAlbumTracks(1)).to.deep.equal([1n, 3n, 4n]);
+      expect((await musicNFT.getTokenAlbum(2)).albumId).to.equal(0);
+      expect((await musicNFT.getTokenAlbum(4)).trackIndex).to.equal(2);
+
+      await expect(musicNFT.removeTrackFromAlbum(1, 2))
+        .to.be.revertedWithCustomError(musicNFT, 'TrackNotInAlbum')
+        .withArgs(2, 1);
+
+      // A removed track can join another album
+      await musicNFT.createAlbum('album-2');
+      await musicNFT.addTrackToAlbum(2, 2);
+      expect(await musicNFT.getAlbumTracks(2)).to.deep.equal([2n]);
+    });
+
+    it('Should reorder the tracks of an album', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+      await musicNFT.mintAlbum('album-uri', ['t1', 't2', 't3'], 500, 1000);
+
+      await expect(musicNFT.setAlbumTrackOrder(1, [3, 1, 2]))
+        .to.emit(musicNFT, 'AlbumTracksReordered')
+        .withArgs(1, [3, 1, 2]);
+
+      expect(await musicNFT.getAlbumTracks(1)).to.deep.equal([3n, 1n, 2n]);
+      expect((await musicNFT.getTokenAlbum(3)).trackIndex).to.equal(0);
+      expect((await musicNFT.getTokenAlbum(2)).trackIndex).to.equal(2);
+    });
+
+    it('Should reject track orders that are not a permutation of the album', async function () {
+      const { musicNFT, otherAccount } = await loadFixture(
+        deployMusicNFTFixture
+      );
+      await musicNFT.mintAlbum('album-uri', ['t1', 't2', 't3'], 500, 1000);
+      await musicNFT.mintNFT('t4', 500, 1000);
+
+      await expect(
+        musicNFT.setAlbumTrackOrder(1, [1, 2])
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidTrackOrder');
+      await expect(
+        musicNFT.setAlbumTrackOrder(1, [1, 2, 2])
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidTrackOrder');
+      await expect(musicNFT.setAlbumTrackOrder(1, [1, 2, 4]))
+        .to.be.revertedWithCustomError(musicNFT, 'TrackNotInAlbum')
+        .withArgs(4, 1);
+      await expect(
+        musicNFT.connect(otherAccount).setAlbumTrackOrder(1, [3, 2, 1])
+      ).to.be.revertedWithCustomError(musicNFT, 'NotAuthorized');
+    });
+  });
+
+  describe('Royalty Updates', function () {
+    const DELAY = 7 * 24 * 60 * 60;
+
+    // Token 1 is minted by the owner with a 5% sales and 10% streaming
+    // royalty and sold to the other account
+    async function deployRoyaltyUpdateFixture() {
+      const fixture = await deployMusicNFTFixture();
+      const { musicNFT, owner, otherAccount } = fixture;
+      await musicNFT.mintNFT('uri', 500, 1000);
+      await musicNFT.transferFrom(owner.address, otherAccount.address, 1);
+
+      return fixture;
+    }
+
+    it('Should apply a proposed update only after the timelock', async function () {
+      const { musicNFT, owner, otherAccount } = await loadFixture(
+        deployRoyaltyUpdateFixture
+      );
+
+      const executableAt = (await time.latest()) + 1 + DELAY;
+      await expect(musicNFT.proposeRoyaltyUpdate(1, 800, 2500))
+        .to.emit(musicNFT, 'RoyaltyUpdateProposed')
+        .withArgs(1, 800, 2500, executableAt);
+
+      const pending = await musicNFT.getPendingRoyaltyUpdate(1);
+      expect(pending.salesRoyaltyPercentage).to.equal(800);
+      expect(pending.streamingRoyaltyPercentage).to.equal(2500);
+      expect(pending.executableAt).to.equal(executableAt);
+
+      // The next block is mined one second after the current one
+      await time.increaseTo(executableAt - 2);
+      await expect(musicNFT.connect(otherAccount).executeRoyaltyUpdate(1))
+        .to.be.revertedWithCustomError(musicNFT, 'RoyaltyUpdateTimelocked')
+        .withArgs(1, executableAt);
+      expect(await musicNFT.getStreamingRoyalty(1)).to.equal(1000);
+
+      // Anyone can execute once the timelock has passed
+      await expect(musicNFT.connect(otherAccount).executeRoyaltyUpdate(1))
+        .to.emit(musicNFT, 'RoyaltyUpdateExecuted')
+        .withArgs(1, 800, 2500);
+
+      expect(await musicNFT.getStreamingRoyalty(1)).to.equal(2500);
+      const [receiver, amount] = await musicNFT.royaltyInfo(1, 10000);
+      expect(receiver).to.equal(owner.address);
+      expect(amount).to.equal(800);
+      expect((await musicNFT.getPendingRoyaltyUpdate(1)).executableAt).to.equal(
+        0
+      );
+      await expect(musicNFT.executeRoyaltyUpdate(1))
+        .to.be.revertedWithCustomError(musicNFT, 'NoRoyaltyUpdatePending')
+        .withArgs(1);
+    });
+
+    it('Should restart the timelock when a new update is proposed', async function () {
+      const { musicNFT } = await loadFixture(deployRoyaltyUpdateFixture);
+
+      await musicNFT.proposeRoyaltyUpdate(1, 800, 2500);
+      await time.increase(DELAY - 60);
+      await musicNFT.proposeRoyaltyUpdate(1, 0, 0);
+
+      await time.increase(60);
+      await expect(
+        musicNFT.executeRoyaltyUpdate(1)
+      ).to.be.revertedWithCustomError(musicNFT, 'RoyaltyUpdateTimelocked');
+
+      await time.increase(DELAY);
+      await musicNFT.executeRoyaltyUpdate(1);
+      expect(await musicNFT.getStreamingRoyalty(1)).to.equal(0);
+      expect((await musicNFT.royaltyInfo(1, 10000))[1]).to.equal(0);
+    });
+
+    it('Should let the creator cancel a pending update', async function () {
+      const { musicNFT, otherAccount } = await loadFixture(
+        deployRoyaltyUpdateFixture
+      );
+      await musicNFT.proposeRoyaltyUpdate(1, 800, 2500);
+
+      await expect(
+        musicNFT.connect(otherAccount).cancelRoyaltyUpdate(1)
+      ).to.be.revertedWithCustomError(musicNFT, 'NotAuthorized');
+      await expect(musicNFT.cancelRoyaltyUpdate(1))
+        .to.emit(musicNFT, 'RoyaltyUpdateCancelled')
+        .withArgs(1);
+
+      await time.increase(DELAY);
+      await expect(musicNFT.executeRoyaltyUpdate(1))
+        .to.be.revertedWithCustomError(musicNFT, 'NoRoyaltyUpdatePending')
+        .withArgs(1);
+      await expect(musicNFT.cancelRoyaltyUpdate(1))
+        .to.be.revertedWithCustomError(musicNFT, 'NoRoyaltyUpdatePending')
+        .withArgs(1);
+      expect(await musicNFT.getStreamingRoyalty(1)).to.equal(1000);
+    });
+
+    it('Should only let the creator propose royalties within the cap', async function () {
+      const { musicNFT, otherAccount } = await loadFixture(
+        deployRoyaltyUpdateFixture
+      );
+
+      // The current owner is not the creator
+      await expect(
+        musicNFT.connect(otherAccount).proposeRoyaltyUpdate(1, 800, 2500)
+      ).to.be.revertedWithCustomError(musicNFT, 'NotAuthorized');
+      await expect(musicNFT.proposeRoyaltyUpdate(1, 5001, 2500))
+        .to.be.revertedWithCustomError(musicNFT, 'MaxRoyaltyExceeded')
+        .withArgs(5001, 5000);
+      await expect(musicNFT.proposeRoyaltyUpdate(1, 800, 6000))
+        .to.be.revertedWithCustomError(musicNFT, 'MaxRoyaltyExceeded')
+        .withArgs(6000, 5000);
+      await expect(musicNFT.proposeRoyaltyUpdate(2, 800, 2500))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+    });
+  });
+
+  describe('Metadata Freezing and History', function () {
+    // Token 1 is minted by the owner and sold to the other account
+    async function deployMetadataFixture() {
+      const fixture = await deployMusicNFTFixture();
+      const { musicNFT, owner, otherAccount } = fixture;
+      await musicNFT.mintNFT('uri-1', 500, 1000);
+      await musicNFT.transferFrom(owner.address, otherAccount.address, 1);
+
+      return fixture;
+    }
+
+    it('Should emit the ERC-4906 MetadataUpdate event on updates', async function () {
+      const { musicNFT } = await loadFixture(deployMetadataFixture);
+
+      await expect(musicNFT.updateTokenURI(1, 'uri-2'))
+        .to.emit(musicNFT, 'MetadataUpdate')
+        .withArgs(1);
+      expect(await musicNFT.supportsInterface('0x49064906')).to.be.true;
+    });
+
+    it('Should let the creator permanently freeze the metadata', async function () {
+      const { musicNFT, otherAccount } = await loadFixture(
+        deployMetadataFixture
+      );
+
+      await expect(
+        musicNFT.connect(otherAccount).freezeMetadata(1)
+      ).to.be.revertedWithCustomError(musicNFT, 'NotAuthorized');
+
+      expect(await musicNFT.isMetadataFrozen(1)).to.be.false;
+      await expect(musicNFT.freezeMetadata(1))
+        .to.emit(musicNFT, 'PermanentURI')
+        .withArgs('uri-1', 1);
+      expect(await musicNFT.isMetadataFrozen(1)).to.be.true;
+
+      await expect(musicNFT.updateTokenURI(1, 'uri-2'))
+        .to.be.revertedWithCustomError(musicNFT, 'MetadataIsFrozen')
+        .withArgs(1);
+      await expect(
+        musicNFT.connect(otherAccount).updateTokenURI(1, 'uri-2')
+      ).to.be.revertedWithCustomError(musicNFT, 'MetadataIsFrozen');
+      await expect(musicNFT.freezeMetadata(1))
+        .to.be.revertedWithCustomError(musicNFT, 'MetadataIsFrozen')
+        .withArgs(1);
+      expect(await musicNFT.tokenURI(1)).to.equal('uri-1');
+    });
+
+    it('Should let the creator restrict updates to creator-only', async function () {
+      const { musicNFT, otherAccount } = await loadFixture(
+        deployMetadataFixture
+      );
+
+      await expect(
+        musicNFT.connect(otherAccount).setCreatorOnlyUpdates(1, true)
+      ).to.be.revertedWithCustomError(musicNFT, 'NotAuthorized');
+
+      await expect(musicNFT.setCreatorOnlyUpdates(1, true))
+        .to.emit(musicNFT, 'CreatorOnlyUpdatesSet')
+        .withArgs(1, true);
+      expect(await musicNFT.isCreatorOnlyUpdates(1)).to.be.true;
+
+      await expect(
+        musicNFT.connect(otherAccount).updateTokenURI(1, 'owner-uri')
+      ).to.be.revertedWithCustomError(musicNFT, 'NotAuthorized');
+      await musicNFT.updateTokenURI(1, 'creator-uri');
+
+      await musicNFT.setCreatorOnlyUpdates(1, false);
+      await musicNFT.connect(otherAccount).updateTokenURI(1, 'owner-uri');
+      expect(await musicNFT.tokenURI(1)).to.equal('owner-uri');
+    });
+
+    it('Should record every URI with who set it and when', async function () {
+      const { musicNFT, owner, otherAccount } = await loadFixture(
+        deployMetadataFixture
+      );
+      const mintedAt = await time.latest();
+
+      let history = await musicNFT.getTokenURIHistory(1);
+      expect(history.uris).to.deep.equal(['uri-1']);
+      expect(history.setters).to.deep.equal([owner.address]);
+      // The token was transferred one block after the mint
+      expect(history.timestamps).to.deep.equal([mintedAt - 1]);
+
+      await musicNFT.connect(otherAccount).updateTokenURI(1, 'uri-2');
+      const ownerUpdatedAt = await time.latest();
+      await musicNFT.updateTokenURI(1, 'uri-3');
+      const creatorUpdatedAt = await time.latest();
+
+      history = await musicNFT.getTokenURIHistory(1);
+      expect(history.uris).to.deep.equal(['uri-1', 'uri-2', 'uri-3']);
+      expect(history.setters).to.deep.equal([
+        owner.address,
+        otherAccount.address,
+        owner.address,
+      ]);
+      expect(history.timestamps).to.deep.equal([
+        mintedAt - 1,
+        ownerUpdatedAt,
+        creatorUpdatedAt,
+      ]);
+
+      await expect(musicNFT.getTokenURIHistory(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+    });
+
+    it('Should record the voucher creator as the first URI setter', async function () {
+      const { musicNFT, owner, otherAccount } = await loadFixture(
+        deployMusicNFTFixture
+      );
+      const voucher: MintVoucher = {
+        creator: owner.address,
+        tokenURI: 'voucher-uri',
+        salesRoyaltyPercentage: 500,
+        streamingRoyaltyPercentage: 1000,
+        minPrice: 0,
+        nonce: 1,
+        expiresAt: (await time.latest()) + 3600,
+      };
+      const signed = await signMintVoucher(
+        owner,
+        await musicNFT.getAddress(),
+        voucher
+      );
+
+      await musicNFT
+        .connect(otherAccount)
+        .redeemVoucher(signed.voucher, signed.signature);
+
+      const history = await musicNFT.getTokenURIHistory(1);
+      expect(history.setters).to.deep.equal([owner.address]);
+    });
+  });
+
+  describe('On-chain Metadata', function () {
+    const metadata = {
+      title: 'Midnight Drive',
+      artist: 'The Tokens',
+      isrc: 'USRC17607839',
+      duration: 215,
+      contentHash: ethers.keccak256(ethers.toUtf8Bytes('audio bytes')),
+      artworkHash: ethers.keccak256(ethers.toUtf8Bytes('artwork bytes')),
+    };
+
+    // Decodes a base64 JSON data URI
+    function decodeTokenURI(uri: string) {
+      const prefix = 'data:application/json;base64,';
+      expect(uri.startsWith(prefix)).to.be.true;
+      return JSON.parse(
+        Buffer.from(uri.slice(prefix.length), 'base64').toString()
+      );
+    }
+
+    it('Should mint with track metadata and return a generated JSON document', async function () {
+      const { musicNFT, owner } = await loadFixture(deployMusicNFTFixture);
+
+      await expect(
+        musicNFT.mintNFTWithMetadata('ipfs://audio', metadata, 500, 1000)
+      )
+        .to.emit(musicNFT, 'TrackMetadataSet')
+        .withArgs(1, metadata.contentHash, metadata.artworkHash)
+        .and.to.emit(musicNFT, 'NFTMinted')
+        .withArgs(1, owner.address, 'ipfs://audio', 500, 1000);
+
+      expect(decodeTokenURI(await musicNFT.tokenURI(1))).to.deep.equal({
+        name: 'Midnight Drive',
+        artist: 'The Tokens',
+        isrc: 'USRC17607839',
+        duration: 215,
+        content_hash: metadata.contentHash,
+        artwork_hash: metadata.artworkHash,
+        animation_url: 'ipfs://audio',
+      });
+
+      const stored = await musicNFT.getTrackMetadata(1);
+      expect(stored.title).to.equal(metadata.title);
+      expect(stored.duration).to.equal(215);
+      expect(stored.contentHash).to.equal(metadata.contentHash);
+    });
+
+    it('Should keep returning the stored URI for tokens without metadata', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+
+      await musicNFT.mintNFT('ipfs://metadata.json', 500, 1000);
+
+      expect(await musicNFT.tokenURI(1)).to.equal('ipfs://metadata.json');
+      expect((await musicNFT.getTrackMetadata(1)).title).to.equal('');
+      await expect(musicNFT.getTrackMetadata(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+    });
+
+    it('Should update the audio URI of the document and its history', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+      await musicNFT.mintNFTWithMetadata('ipfs://audio', metadata, 500, 1000);
+
+      await musicNFT.updateTokenURI(1, 'ipfs://audio-remaster');
+
+      const document = decodeTokenURI(await musicNFT.tokenURI(1));
+      expect(document.animation_url).to.equal('ipfs://audio-remaster');
+      expect(document.content_hash).to.equal(metadata.contentHash);
+      expect((await musicNFT.getTokenURIHistory(1)).uris).to.deep.equal([
+        'ipfs://audio',
+        'ipfs://audio-remaster',
+      ]);
+
+      await expect(
+        musicNFT.updateTokenURI(1, 'ipfs://"quoted"')
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidTrackMetadata');
+    });
+
+    it('Should reject metadata that would break the JSON document', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+
+      await expect(
+        musicNFT.mintNFTWithMetadata(
+          'ipfs://audio',
+          { ...metadata, title: '' },
+          500,
+          1000
+        )
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidTrackMetadata');
+      await expect(
+        musicNFT.mintNFTWithMetadata(
+          'ipfs://audio',
+          { ...metadata, title: 'Say "hi"' },
+          500,
+          1000
+        )
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidTrackMetadata');
+      await expect(
+        musicNFT.mintNFTWithMetadata(
+          'ipfs://audio',
+          { ...metadata, artist: 'Back\\slash' },
+          500,
+          1000
+        )
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidTrackMetadata');
+      await expect(
+        musicNFT.mintNFTWithMetadata(
+          'ipfs://audio',
+          { ...metadata, isrc: 'line\nbreak' },
+          500,
+          1000
+        )
+      ).to.be.revertedWithCustomError(musicNFT, 'InvalidTrackMetadata');
+      await expect(
+        musicNFT.mintNFTWithMetadata('', metadata, 500, 1000)
+      ).to.be.revertedWithCustomError(musicNFT, 'EmptyTokenURI');
+    });
+  });
+
+  describe('Burning', function () {
+    // The owner mints tokens 1 to 3 as an album and sells token 2 to the
+    // other account
+    async function deployBurnFixture() {
+      const fixture = await deployMusicNFTFixture();
+      const { musicNFT, owner, otherAccount } = fixture;
+      await musicNFT.mintAlbum('album-uri', ['t1', 't2', 't3'], 500, 1000);
+      await musicNFT.transferFrom(owner.address, otherAccount.address, 2);
+
+      return fixture;
+    }
+
+    it('Should let the owner burn and clear the token state', async function () {
+      const { musicNFT, owner, otherAccount } = await loadFixture(
+        deployBurnFixture
+      );
+      await musicNFT.proposeRoyaltyUpdate(2, 700, 2000);
+      await musicNFT.updateTokenURI(2, 't2-v2');
+      await musicNFT.setCreatorOnlyUpdates(2, true);
+      await musicNFT.freezeMetadata(2);
+
+      await expect(musicNFT.connect(otherAccount).burn(2))
+        .to.emit(musicNFT, 'NFTBurned')
+        .withArgs(2, owner.address)
+        .and.to.emit(musicNFT, 'AlbumTrackRemoved')
+        .withArgs(1, 2)
+        .and.to.emit(musicNFT, 'Transfer')
+        .withArgs(otherAccount.address, ethers.ZeroAddress, 2);
+
+      expect(await musicNFT.tokenExists(2)).to.be.false;
+      expect(await musicNFT.getTokensOfOwner(otherAccount.address)).to.be.empty;
+      expect(await musicNFT.getAlbumTracks(1)).to.deep.equal([1n, 3n]);
+      const [receiver, amount] = await musicNFT.royaltyInfo(2, 10000);
+      expect(receiver).to.equal(ethers.ZeroAddress);
+      expect(amount).to.equal(0);
+      await expect(musicNFT.getStreamingRoyalty(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+      await expect(musicNFT.getCreator(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+      await expect(musicNFT.executeRoyaltyUpdate(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NoRoyaltyUpdatePending')
+        .withArgs(2);
+      await expect(musicNFT.tokenURI(2)).to.be.revertedWithCustomError(
+        musicNFT,
+        'ERC721NonexistentToken'
+      );
+      await expect(musicNFT.isMetadataFrozen(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+      await expect(musicNFT.isCreatorOnlyUpdates(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+      await expect(musicNFT.getTokenURIHistory(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+    });
+
+    it('Should keep the circulating supply separate from the minted count', async function () {
+      const { musicNFT, owner } = await loadFixture(deployBurnFixture);
+
+      await musicNFT.burn(1);
+      await musicNFT.mintNFT('t4', 500, 1000);
+
+      expect(await musicNFT.getTotalSupply()).to.equal(3);
+      expect(await musicNFT.getTotalMinted()).to.equal(4);
+      // Token 3 takes the place of the burned token in the creator index
+      expect(await musicNFT.getTokensCreatedBy(owner.address)).to.deep.equal([
+        3n,
+        2n,
+        4n,
+      ]);
+    });
+
+    it('Should only let the owner or an approved operator burn', async function () {
+      const { musicNFT, owner, otherAccount } = await loadFixture(
+        deployBurnFixture
+      );
+
+      // The creator cannot burn a token it sold without the owner's approval
+      await expect(musicNFT.burn(2)).to.be.revertedWithCustomError(
+        musicNFT,
+        'NotAuthorized'
+      );
+      await expect(musicNFT.burn(4))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(4);
+
+      await musicNFT.connect(otherAccount).approve(owner.address, 2);
+      await musicNFT.burn(2);
+      expect(await musicNFT.tokenExists(2)).to.be.false;
+
+      await expect(musicNFT.burn(2))
+        .to.be.revertedWithCustomError(musicNFT, 'NonexistentToken')
+        .withArgs(2);
+    });
+
+    it('Should clear on-chain track metadata', async function () {
+      const { musicNFT } = await loadFixture(deployMusicNFTFixture);
+      await musicNFT.mintNFTWithMetadata(
+        'ipfs://audio',
+        {
+          title: 'Track',
+          artist: 'Artist',
+          isrc: '',
+          duration: 180,
+          contentHash: ethers.ZeroHash,
+          artworkHash: ethers.ZeroHash,
+        },
+        500,
+        1000
+      );
+
+      await musicNFT.burn(1);
+
+      await expect(musicNFT.tokenURI(1)).to.be.revertedWithCustomError(
+        musicNFT,
+        'ERC721NonexistentToken'
+      );
+      await expect(musicNFT.getTrackMetadata(1)).to.be.revertedWithCustomError(
+        musicNFT,
+        'NonexistentToken'
+      );
+    });
+  });
 });
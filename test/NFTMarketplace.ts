@@ -1,8 +1,12 @@
-import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
 import { expect } from 'chai';
 import hre, { ethers } from 'hardhat';
 import { NFTMarketplace, MusicNFT } from '../typechain-types/contracts';
 import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import { buildListenReport, listenPeriodOf } from '../sdk';
 
 describe('NFTMarketplace', function () {
   async function deployMarketplaceFixture() {
@@ -16,6 +20,11 @@ describe('NFTMarketplace', function () {
     );
     const marketplace = await NFTMarketplace.deploy();
 
+    const MockERC20 = await hre.ethers.getContractFactory('MockERC20');
+    const paymentToken = await MockERC20.deploy('Mock USD', 'mUSD');
+    await paymentToken.mint(buyer.address, ethers.parseEther('1000'));
+    await marketplace.setCurrencyAllowed(paymentToken.target, true);
+
     const tokenURI = 'https://example.com/token/1';
     const salesRoyaltyPercentage = 500;
     const streamingRoyaltyPercentage = 1000;
@@ -25,7 +34,15 @@ describe('NFTMarketplace', function () {
 
     const tokenId = 1;
 
-    return { marketplace, musicNFT, owner, seller, buyer, tokenId };
+    return {
+      marketplace,
+      musicNFT,
+      paymentToken,
+      owner,
+      seller,
+      buyer,
+      tokenId,
+    };
   }
 
   async function createListing(
@@ -38,7 +55,7 @@ describe('NFTMarketplace', function () {
     await musicNFT.connect(seller).approve(marketplace.target, tokenId);
     const listingTx = await marketplace
       .connect(seller)
-      .createListing(musicNFT.target, tokenId, price);
+      .createListing(musicNFT.target, tokenId, price, ethers.ZeroAddress, 0);
     await listingTx.wait();
     return { listingId: tokenId, price };
   }
@@ -109,7 +126,13 @@ describe('NFTMarketplace', function () {
       await expect(
         marketplace
           .connect(seller)
-          .createListing(musicNFT.target, tokenId, ethers.parseEther('1.0'))
+          .createListing(
+            musicNFT.target,
+            tokenId,
+            ethers.parseEther('1.0'),
+            ethers.ZeroAddress,
+            0
+          )
       ).to.be.reverted;
     });
 
@@ -121,7 +144,13 @@ describe('NFTMarketplace', function () {
       await expect(
         marketplace
           .connect(buyer)
-          .createListing(musicNFT.target, tokenId, ethers.parseEther('1.0'))
+          .createListing(
+            musicNFT.target,
+            tokenId,
+            ethers.parseEther('1.0'),
+            ethers.ZeroAddress,
+            0
+          )
       ).to.be.reverted;
     });
   });
@@ -139,7 +168,7 @@ describe('NFTMarketplace', function () {
       );
 
       await expect(
-        marketplace.connect(buyer).buyNFT(listingId, { value: price })
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
       )
         .to.emit(marketplace, 'NFTSold')
         .withArgs(
@@ -181,14 +210,16 @@ describe('NFTMarketplace', function () {
 
       const tx = await marketplace
         .connect(buyer)
-        .buyNFT(listingId, { value: price });
+        .buyNFT(listingId, price, { value: price });
       await tx.wait();
 
       const pendingPaymentSeller = await marketplace.getPendingPayment(
-        seller.address
+        seller.address,
+        ethers.ZeroAddress
       );
       const pendingPaymentOwner = await marketplace.getPendingPayment(
-        owner.address
+        owner.address,
+        ethers.ZeroAddress
       );
       expect(pendingPaymentSeller).to.equal(sellerProceeds + royaltyAmount);
       expect(pendingPaymentOwner).to.equal(marketFee);
@@ -213,7 +244,7 @@ describe('NFTMarketplace', function () {
       const paymentAmount = ethers.parseEther('1.5');
       const tx = await marketplace
         .connect(buyer)
-        .buyNFT(listingId, { value: paymentAmount });
+        .buyNFT(listingId, price, { value: paymentAmount });
       const receipt = await tx.wait();
 
       const gasUsed = receipt?.gasUsed ?? 0n;
@@ -231,7 +262,7 @@ describe('NFTMarketplace', function () {
       const { marketplace, musicNFT, seller, buyer, tokenId } =
         await loadFixture(deployMarketplaceFixture);
 
-      const { listingId } = await createListing(
+      const { listingId, price } = await createListing(
         marketplace,
         musicNFT,
         seller,
@@ -242,7 +273,7 @@ describe('NFTMarketplace', function () {
       await expect(
         marketplace
           .connect(buyer)
-          .buyNFT(listingId, { value: insufficientAmount })
+          .buyNFT(listingId, price, { value: insufficientAmount })
       ).to.be.revertedWithCustomError(marketplace, 'InsufficientFunds');
     });
 
@@ -257,10 +288,12 @@ describe('NFTMarketplace', function () {
         tokenId
       );
 
-      await marketplace.connect(buyer).buyNFT(listingId, { value: price });
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, price, { value: price });
 
       await expect(
-        marketplace.connect(buyer).buyNFT(listingId, { value: price })
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
       ).to.be.revertedWithCustomError(marketplace, 'ListingNotActive');
     });
 
@@ -275,7 +308,7 @@ describe('NFTMarketplace', function () {
       await expect(
         marketplace
           .connect(buyer)
-          .buyNFT(nonExistentListingId, { value: amount })
+          .buyNFT(nonExistentListingId, amount, { value: amount })
       ).to.be.revertedWithCustomError(marketplace, 'ListingNotFound');
     });
 
@@ -304,10 +337,10 @@ describe('NFTMarketplace', function () {
 
       await marketplace
         .connect(buyer)
-        .buyNFT(firstListingId, { value: firstPrice });
-      await marketplace
-        .connect(buyer)
-        .buyNFT(2, { value: ethers.parseEther('2.0') });
+        .buyNFT(firstListingId, firstPrice, { value: firstPrice });
+      await marketplace.connect(buyer).buyNFT(2, ethers.parseEther('2.0'), {
+        value: ethers.parseEther('2.0'),
+      });
 
       const [, firstRoyaltyAmount] = await musicNFT.royaltyInfo(1, firstPrice);
       const [, secondRoyaltyAmount] = await musicNFT.royaltyInfo(
@@ -324,19 +357,22 @@ describe('NFTMarketplace', function () {
 
       const firstSellerProceeds =
         firstPrice - firstRoyaltyAmount - firstMarketFee;
-      expect(await marketplace.getPendingPayment(seller.address)).to.equal(
-        firstSellerProceeds + firstRoyaltyAmount
-      );
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(firstSellerProceeds + firstRoyaltyAmount);
 
       const secondSellerProceeds =
         ethers.parseEther('2.0') - secondRoyaltyAmount - secondMarketFee;
       expect(
-        await marketplace.getPendingPayment(secondSeller.address)
+        await marketplace.getPendingPayment(
+          secondSeller.address,
+          ethers.ZeroAddress
+        )
       ).to.equal(secondSellerProceeds + secondRoyaltyAmount);
 
-      expect(await marketplace.getPendingPayment(owner.address)).to.equal(
-        firstMarketFee + secondMarketFee
-      );
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(firstMarketFee + secondMarketFee);
     });
   });
 
@@ -404,7 +440,9 @@ describe('NFTMarketplace', function () {
         tokenId
       );
 
-      await marketplace.connect(buyer).buyNFT(listingId, { value: price });
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, price, { value: price });
 
       await expect(
         marketplace.connect(seller).cancelListing(listingId)
@@ -425,7 +463,7 @@ describe('NFTMarketplace', function () {
       await marketplace.connect(seller).cancelListing(listingId);
 
       await expect(
-        marketplace.connect(buyer).buyNFT(listingId, { value: price })
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
       ).to.be.revertedWithCustomError(marketplace, 'ListingNotActive');
     });
   });
@@ -453,20 +491,24 @@ describe('NFTMarketplace', function () {
 
       const sellerProceeds = price - royaltyAmount - marketFee;
 
-      await marketplace.connect(buyer).buyNFT(listingId, { value: price });
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, price, { value: price });
 
-      expect(await marketplace.getPendingPayment(seller.address)).to.equal(
-        sellerProceeds + royaltyAmount
-      );
-      expect(await marketplace.getPendingPayment(owner.address)).to.equal(
-        marketFee
-      );
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(sellerProceeds + royaltyAmount);
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(marketFee);
 
       const initialSellerBalance = await ethers.provider.getBalance(
         seller.address
       );
 
-      const withdrawTx = await marketplace.connect(seller).withdrawPayments();
+      const withdrawTx = await marketplace
+        .connect(seller)
+        .withdrawPayments(ethers.ZeroAddress);
       const receipt = await withdrawTx.wait();
 
       const gasUsed = receipt?.gasUsed ?? 0n;
@@ -480,18 +522,22 @@ describe('NFTMarketplace', function () {
         initialSellerBalance + sellerProceeds + royaltyAmount - gasCost
       );
 
-      expect(await marketplace.getPendingPayment(seller.address)).to.equal(0);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(0);
 
       const initialOwnerBalance = await ethers.provider.getBalance(
         owner.address
       );
 
-      await marketplace.connect(owner).withdrawPayments();
+      await marketplace.connect(owner).withdrawPayments(ethers.ZeroAddress);
 
       const finalOwnerBalance = await ethers.provider.getBalance(owner.address);
       expect(finalOwnerBalance).to.be.greaterThan(initialOwnerBalance);
 
-      expect(await marketplace.getPendingPayment(owner.address)).to.equal(0);
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(0);
     });
 
     it('Should revert withdrawal when no payments are pending', async function () {
@@ -500,7 +546,7 @@ describe('NFTMarketplace', function () {
       );
 
       await expect(
-        marketplace.connect(buyer).withdrawPayments()
+        marketplace.connect(buyer).withdrawPayments(ethers.ZeroAddress)
       ).to.be.revertedWithCustomError(marketplace, 'NoPaymentsPending');
     });
   });
@@ -584,7 +630,7 @@ describe('NFTMarketplace', function () {
         seller,
         tokenId1
       );
-      await marketplace.connect(buyer).buyNFT(1, { value: price });
+      await marketplace.connect(buyer).buyNFT(1, price, { value: price });
 
       expect(await marketplace.getTotalListings()).to.equal(1);
 
@@ -696,7 +742,7 @@ describe('NFTMarketplace', function () {
         .true;
 
       // Buy the token and verify it's no longer listed
-      await marketplace.connect(buyer).buyNFT(1, { value: price });
+      await marketplace.connect(buyer).buyNFT(1, price, { value: price });
       expect(await marketplace.isTokenListed(musicNFT.target, tokenId1)).to.be
         .false;
 
@@ -704,4 +750,2506 @@ describe('NFTMarketplace', function () {
       expect(await marketplace.isTokenListed(musicNFT.target, 999)).to.be.false;
     });
   });
+
+  describe('English Auctions', function () {
+    const ONE_DAY = 24 * 60 * 60;
+    const reservePrice = ethers.parseEther('1.0');
+    const minBidIncrement = ethers.parseEther('0.1');
+
+    async function createEnglishAuctionFixture() {
+      const fixture = await deployMarketplaceFixture();
+      const { marketplace, musicNFT, seller, tokenId } = fixture;
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await marketplace
+        .connect(seller)
+        .createEnglishAuction(
+          musicNFT.target,
+          tokenId,
+          reservePrice,
+          minBidIncrement,
+          ONE_DAY
+        );
+
+      return { ...fixture, auctionId: 1 };
+    }
+
+    it('Should create an auction and escrow the NFT', async function () {
+      const { marketplace, musicNFT, seller, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      const endTime = (await time.latest()) + 1 + ONE_DAY;
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEnglishAuction(
+            musicNFT.target,
+            tokenId,
+            reservePrice,
+            minBidIncrement,
+            ONE_DAY
+          )
+      )
+        .to.emit(marketplace, 'EnglishAuctionCreated')
+        .withArgs(
+          1,
+          seller.address,
+          musicNFT.target,
+          tokenId,
+          reservePrice,
+          minBidIncrement,
+          endTime
+        );
+
+      const auction = await marketplace.auctions(1);
+      expect(auction.seller).to.equal(seller.address);
+      expect(auction.endTime).to.equal(endTime);
+      expect(auction.isActive).to.be.true;
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(marketplace.target);
+      expect(await marketplace.getTotalAuctions()).to.equal(1);
+    });
+
+    it('Should reject bids below the reserve price or minimum increment', async function () {
+      const { marketplace, buyer, owner, auctionId } = await loadFixture(
+        createEnglishAuctionFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .placeBid(auctionId, { value: reservePrice - 1n })
+      )
+        .to.be.revertedWithCustomError(marketplace, 'BidTooLow')
+        .withArgs(reservePrice);
+
+      await marketplace
+        .connect(buyer)
+        .placeBid(auctionId, { value: reservePrice });
+
+      await expect(
+        marketplace
+          .connect(owner)
+          .placeBid(auctionId, { value: reservePrice + minBidIncrement - 1n })
+      )
+        .to.be.revertedWithCustomError(marketplace, 'BidTooLow')
+        .withArgs(reservePrice + minBidIncrement);
+    });
+
+    it('Should refund outbid bidders through pending payments', async function () {
+      const { marketplace, buyer, owner, auctionId } = await loadFixture(
+        createEnglishAuctionFixture
+      );
+
+      await expect(
+        marketplace.connect(buyer).placeBid(auctionId, { value: reservePrice })
+      )
+        .to.emit(marketplace, 'BidPlaced')
+        .withArgs(auctionId, buyer.address, reservePrice);
+
+      const higherBid = ethers.parseEther('1.5');
+      await marketplace
+        .connect(owner)
+        .placeBid(auctionId, { value: higherBid });
+
+      expect(
+        await marketplace.getPendingPayment(buyer.address, ethers.ZeroAddress)
+      ).to.equal(reservePrice);
+
+      const auction = await marketplace.auctions(auctionId);
+      expect(auction.highestBidder).to.equal(owner.address);
+      expect(auction.highestBid).to.equal(higherBid);
+
+      await expect(
+        marketplace.connect(buyer).withdrawPayments(ethers.ZeroAddress)
+      ).to.changeEtherBalance(buyer, reservePrice);
+    });
+
+    it('Should extend the auction when a bid arrives near the end', async function () {
+      const { marketplace, buyer, auctionId } = await loadFixture(
+        createEnglishAuctionFixture
+      );
+
+      const window = await marketplace.AUCTION_EXTENSION_WINDOW();
+      const { endTime } = await marketplace.auctions(auctionId);
+
+      await time.increaseTo(endTime - 60n);
+
+      const bidTime = BigInt(await time.latest()) + 1n;
+      await expect(
+        marketplace.connect(buyer).placeBid(auctionId, { value: reservePrice })
+      )
+        .to.emit(marketplace, 'AuctionExtended')
+        .withArgs(auctionId, bidTime + window);
+
+      expect((await marketplace.auctions(auctionId)).endTime).to.equal(
+        bidTime + window
+      );
+    });
+
+    it('Should not extend the auction for early bids', async function () {
+      const { marketplace, buyer, auctionId } = await loadFixture(
+        createEnglishAuctionFixture
+      );
+
+      await expect(
+        marketplace.connect(buyer).placeBid(auctionId, { value: reservePrice })
+      ).not.to.emit(marketplace, 'AuctionExtended');
+    });
+
+    it('Should settle to the highest bidder with royalties and market fee', async function () {
+      const {
+        marketplace,
+        musicNFT,
+        seller,
+        buyer,
+        owner,
+        tokenId,
+        auctionId,
+      } = await loadFixture(createEnglishAuctionFixture);
+
+      const winningBid = ethers.parseEther('2.0');
+      await marketplace
+        .connect(buyer)
+        .placeBid(auctionId, { value: winningBid });
+
+      await expect(
+        marketplace.settleAuction(auctionId)
+      ).to.be.revertedWithCustomError(marketplace, 'AuctionNotEnded');
+
+      await time.increase(ONE_DAY);
+
+      await expect(marketplace.connect(owner).settleAuction(auctionId))
+        .to.emit(marketplace, 'AuctionSettled')
+        .withArgs(
+          auctionId,
+          seller.address,
+          buyer.address,
+          musicNFT.target,
+          tokenId,
+          winningBid
+        );
+
+      const [, royaltyAmount] = await musicNFT.royaltyInfo(tokenId, winningBid);
+      const marketFee =
+        (winningBid * (await marketplace.marketFeePercentage())) / 10000n;
+
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(winningBid - marketFee);
+      expect(royaltyAmount).to.be.gt(0);
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(marketFee);
+      expect((await marketplace.auctions(auctionId)).isActive).to.be.false;
+    });
+
+    it('Should return the NFT when an auction ends without bids', async function () {
+      const { marketplace, musicNFT, seller, tokenId, auctionId } =
+        await loadFixture(createEnglishAuctionFixture);
+
+      await time.increase(ONE_DAY);
+
+      await expect(marketplace.settleAuction(auctionId))
+        .to.emit(marketplace, 'AuctionCancelled')
+        .withArgs(auctionId, seller.address, musicNFT.target, tokenId);
+
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+    });
+
+    it('Should reject bids after the auction has ended', async function () {
+      const { marketplace, buyer, auctionId } = await loadFixture(
+        createEnglishAuctionFixture
+      );
+
+      await time.increase(ONE_DAY);
+
+      await expect(
+        marketplace.connect(buyer).placeBid(auctionId, { value: reservePrice })
+      ).to.be.revertedWithCustomError(marketplace, 'AuctionEnded');
+    });
+
+    it('Should only let the seller cancel an auction without bids', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId, auctionId } =
+        await loadFixture(createEnglishAuctionFixture);
+
+      await expect(
+        marketplace.connect(buyer).cancelAuction(auctionId)
+      ).to.be.revertedWithCustomError(marketplace, 'NotAuctionSeller');
+
+      await marketplace
+        .connect(buyer)
+        .placeBid(auctionId, { value: reservePrice });
+
+      await expect(
+        marketplace.connect(seller).cancelAuction(auctionId)
+      ).to.be.revertedWithCustomError(marketplace, 'AuctionHasBids');
+
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(marketplace.target);
+    });
+
+    it('Should revert for non-existent auctions and invalid parameters', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+
+      await expect(
+        marketplace.connect(buyer).placeBid(99, { value: reservePrice })
+      ).to.be.revertedWithCustomError(marketplace, 'AuctionNotFound');
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEnglishAuction(
+            musicNFT.target,
+            tokenId,
+            reservePrice,
+            minBidIncrement,
+            0
+          )
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidAuctionDuration');
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEnglishAuction(
+            musicNFT.target,
+            tokenId,
+            reservePrice,
+            0,
+            ONE_DAY
+          )
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidAuctionPrice');
+    });
+  });
+
+  describe('Dutch Auctions', function () {
+    const ONE_DAY = 24 * 60 * 60;
+    const startPrice = ethers.parseEther('2.0');
+    const endPrice = ethers.parseEther('1.0');
+
+    async function createDutchAuctionFixture() {
+      const fixture = await deployMarketplaceFixture();
+      const { marketplace, musicNFT, seller, tokenId } = fixture;
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await marketplace
+        .connect(seller)
+        .createDutchAuction(
+          musicNFT.target,
+          tokenId,
+          startPrice,
+          endPrice,
+          ONE_DAY
+        );
+
+      return { ...fixture, auctionId: 1 };
+    }
+
+    it('Should create a Dutch auction', async function () {
+      const { marketplace, musicNFT, seller, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      const startTime = (await time.latest()) + 1;
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createDutchAuction(
+            musicNFT.target,
+            tokenId,
+            startPrice,
+            endPrice,
+            ONE_DAY
+          )
+      )
+        .to.emit(marketplace, 'DutchAuctionCreated')
+        .withArgs(
+          1,
+          seller.address,
+          musicNFT.target,
+          tokenId,
+          startPrice,
+          endPrice,
+          startTime,
+          startTime + ONE_DAY
+        );
+    });
+
+    it('Should decrease the price linearly over time', async function () {
+      const { marketplace, auctionId } = await loadFixture(
+        createDutchAuctionFixture
+      );
+
+      expect(await marketplace.getDutchAuctionPrice(auctionId)).to.equal(
+        startPrice
+      );
+
+      await time.increase(ONE_DAY / 2);
+      expect(await marketplace.getDutchAuctionPrice(auctionId)).to.equal(
+        (startPrice + endPrice) / 2n
+      );
+
+      await time.increase(ONE_DAY);
+      expect(await marketplace.getDutchAuctionPrice(auctionId)).to.equal(
+        endPrice
+      );
+    });
+
+    it('Should sell at the current price and refund the excess', async function () {
+      const {
+        marketplace,
+        musicNFT,
+        seller,
+        buyer,
+        owner,
+        tokenId,
+        auctionId,
+      } = await loadFixture(createDutchAuctionFixture);
+
+      await time.increase(ONE_DAY / 4 - 1);
+      const price = startPrice - (startPrice - endPrice) / 4n;
+
+      const tx = marketplace
+        .connect(buyer)
+        .buyDutchAuction(auctionId, { value: startPrice });
+
+      await expect(tx)
+        .to.emit(marketplace, 'AuctionSettled')
+        .withArgs(
+          auctionId,
+          seller.address,
+          buyer.address,
+          musicNFT.target,
+          tokenId,
+          price
+        );
+      await expect(tx).to.changeEtherBalance(buyer, -price);
+
+      const marketFee =
+        (price * (await marketplace.marketFeePercentage())) / 10000n;
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(price - marketFee);
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(marketFee);
+    });
+
+    it('Should revert when paying less than the current price', async function () {
+      const { marketplace, buyer, auctionId } = await loadFixture(
+        createDutchAuctionFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .buyDutchAuction(auctionId, { value: endPrice })
+      ).to.be.revertedWithCustomError(marketplace, 'InsufficientFunds');
+    });
+
+    it('Should not allow buying after the auction has ended', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId, auctionId } =
+        await loadFixture(createDutchAuctionFixture);
+
+      await time.increase(ONE_DAY);
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .buyDutchAuction(auctionId, { value: startPrice })
+      ).to.be.revertedWithCustomError(marketplace, 'AuctionEnded');
+
+      await marketplace.connect(seller).cancelAuction(auctionId);
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+    });
+
+    it('Should reject calls meant for the other auction type', async function () {
+      const { marketplace, buyer, auctionId } = await loadFixture(
+        createDutchAuctionFixture
+      );
+
+      await expect(
+        marketplace.connect(buyer).placeBid(auctionId, { value: startPrice })
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidAuctionType');
+      await expect(
+        marketplace.settleAuction(auctionId)
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidAuctionType');
+    });
+
+    it('Should revert when the start price is not above the end price', async function () {
+      const { marketplace, musicNFT, seller, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await expect(
+        marketplace
+          .connect(seller)
+          .createDutchAuction(
+            musicNFT.target,
+            tokenId,
+            endPrice,
+            endPrice,
+            ONE_DAY
+          )
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidAuctionPrice');
+    });
+  });
+
+  describe('Offers', function () {
+    const ONE_DAY = 24 * 60 * 60;
+    const offerAmount = ethers.parseEther('1.0');
+
+    async function expiresIn(seconds: number) {
+      return (await time.latest()) + seconds;
+    }
+
+    it('Should escrow the offer amount', async function () {
+      const { marketplace, musicNFT, buyer, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      const expiresAt = await expiresIn(ONE_DAY);
+      const tx = marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, tokenId, expiresAt, {
+          value: offerAmount,
+        });
+
+      await expect(tx)
+        .to.emit(marketplace, 'OfferCreated')
+        .withArgs(
+          1,
+          buyer.address,
+          musicNFT.target,
+          tokenId,
+          offerAmount,
+          expiresAt,
+          false
+        );
+      await expect(tx).to.changeEtherBalances(
+        [buyer, marketplace],
+        [-offerAmount, offerAmount]
+      );
+
+      const offer = await marketplace.offers(1);
+      expect(offer.buyer).to.equal(buyer.address);
+      expect(offer.amount).to.equal(offerAmount);
+      expect(offer.isActive).to.be.true;
+      expect(await marketplace.getTotalOffers()).to.equal(1);
+    });
+
+    it('Should let the owner accept an offer with royalties and market fee', async function () {
+      const { marketplace, musicNFT, seller, buyer, owner, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+
+      await marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, tokenId, await expiresIn(ONE_DAY), {
+          value: offerAmount,
+        });
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await expect(marketplace.connect(seller).acceptOffer(1, tokenId))
+        .to.emit(marketplace, 'OfferAccepted')
+        .withArgs(
+          1,
+          seller.address,
+          buyer.address,
+          musicNFT.target,
+          tokenId,
+          offerAmount
+        );
+
+      const marketFee =
+        (offerAmount * (await marketplace.marketFeePercentage())) / 10000n;
+
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(offerAmount - marketFee);
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(marketFee);
+      expect((await marketplace.offers(1)).isActive).to.be.false;
+    });
+
+    it('Should pay ERC-2981 royalties to the creator when a holder accepts', async function () {
+      const { marketplace, musicNFT, seller, buyer, owner, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+
+      await musicNFT
+        .connect(seller)
+        .transferFrom(seller.address, owner.address, tokenId);
+
+      await marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, tokenId, await expiresIn(ONE_DAY), {
+          value: offerAmount,
+        });
+
+      await musicNFT.connect(owner).approve(marketplace.target, tokenId);
+      await marketplace.connect(owner).acceptOffer(1, tokenId);
+
+      const [, royaltyAmount] = await musicNFT.royaltyInfo(
+        tokenId,
+        offerAmount
+      );
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(royaltyAmount);
+    });
+
+    it('Should accept a collection offer for any token of the contract', async function () {
+      const { marketplace, musicNFT, seller, buyer } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await musicNFT.connect(seller).mintNFT('uri2', 500, 1000);
+
+      const expiresAt = await expiresIn(ONE_DAY);
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeCollectionOffer(musicNFT.target, expiresAt, {
+            value: offerAmount,
+          })
+      )
+        .to.emit(marketplace, 'OfferCreated')
+        .withArgs(
+          1,
+          buyer.address,
+          musicNFT.target,
+          0,
+          offerAmount,
+          expiresAt,
+          true
+        );
+
+      await musicNFT.connect(seller).approve(marketplace.target, 2);
+      await marketplace.connect(seller).acceptOffer(1, 2);
+
+      expect(await musicNFT.ownerOf(2)).to.equal(buyer.address);
+    });
+
+    it('Should reject acceptance by non-owners or for other tokens', async function () {
+      const { marketplace, musicNFT, seller, buyer, owner, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+
+      await musicNFT.connect(seller).mintNFT('uri2', 500, 1000);
+      await marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, tokenId, await expiresIn(ONE_DAY), {
+          value: offerAmount,
+        });
+
+      await expect(
+        marketplace.connect(owner).acceptOffer(1, tokenId)
+      ).to.be.revertedWithCustomError(marketplace, 'NotTokenOwner');
+      await expect(
+        marketplace.connect(seller).acceptOffer(1, 2)
+      ).to.be.revertedWithCustomError(marketplace, 'OfferTokenMismatch');
+    });
+
+    it('Should refund cancelled offers through pending payments', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+
+      await marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, tokenId, await expiresIn(ONE_DAY), {
+          value: offerAmount,
+        });
+
+      await expect(
+        marketplace.connect(seller).cancelOffer(1)
+      ).to.be.revertedWithCustomError(marketplace, 'NotOfferBuyer');
+
+      await expect(marketplace.connect(buyer).cancelOffer(1))
+        .to.emit(marketplace, 'OfferCancelled')
+        .withArgs(1, buyer.address);
+
+      expect(
+        await marketplace.getPendingPayment(buyer.address, ethers.ZeroAddress)
+      ).to.equal(offerAmount);
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await expect(
+        marketplace.connect(seller).acceptOffer(1, tokenId)
+      ).to.be.revertedWithCustomError(marketplace, 'OfferNotActive');
+    });
+
+    it('Should not accept expired offers and let anyone refund them', async function () {
+      const { marketplace, musicNFT, seller, buyer, owner, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+
+      await marketplace
+        .connect(buyer)
+        .makeOffer(musicNFT.target, tokenId, await expiresIn(ONE_DAY), {
+          value: offerAmount,
+        });
+
+      await expect(
+        marketplace.connect(owner).refundExpiredOffer(1)
+      ).to.be.revertedWithCustomError(marketplace, 'OfferNotExpired');
+
+      await time.increase(ONE_DAY);
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await expect(
+        marketplace.connect(seller).acceptOffer(1, tokenId)
+      ).to.be.revertedWithCustomError(marketplace, 'OfferExpired');
+
+      await expect(marketplace.connect(owner).refundExpiredOffer(1))
+        .to.emit(marketplace, 'OfferExpiredRefunded')
+        .withArgs(1, buyer.address);
+
+      expect(
+        await marketplace.getPendingPayment(buyer.address, ethers.ZeroAddress)
+      ).to.equal(offerAmount);
+    });
+
+    it('Should revert for invalid offers', async function () {
+      const { marketplace, musicNFT, buyer, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeOffer(musicNFT.target, tokenId, await expiresIn(ONE_DAY))
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidOfferAmount');
+
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeOffer(musicNFT.target, tokenId, await time.latest(), {
+            value: offerAmount,
+          })
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidExpiration');
+
+      await expect(
+        marketplace.connect(buyer).cancelOffer(42)
+      ).to.be.revertedWithCustomError(marketplace, 'OfferNotFound');
+    });
+  });
+
+  describe('ERC-20 Currencies', function () {
+    async function createTokenListing(
+      marketplace: NFTMarketplace,
+      musicNFT: MusicNFT,
+      seller: HardhatEthersSigner,
+      tokenId: number,
+      currency: string,
+      price = ethers.parseEther('100')
+    ) {
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await marketplace
+        .connect(seller)
+        .createListing(musicNFT.target, tokenId, price, currency, 0);
+      return { listingId: tokenId, price };
+    }
+
+    it('Should store and emit the listing currency', async function () {
+      const { marketplace, musicNFT, paymentToken, seller, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const price = ethers.parseEther('100');
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await expect(
+        marketplace
+          .connect(seller)
+          .createListing(
+            musicNFT.target,
+            tokenId,
+            price,
+            paymentToken.target,
+            0
+          )
+      )
+        .to.emit(marketplace, 'NFTListed')
+        .withArgs(
+          1,
+          seller.address,
+          musicNFT.target,
+          tokenId,
+          price,
+          paymentToken.target,
+          0,
+          true
+        );
+
+      expect((await marketplace.listings(1)).currency).to.equal(
+        paymentToken.target
+      );
+    });
+
+    it('Should revert when listing in a currency that is not allow-listed', async function () {
+      const { marketplace, musicNFT, seller, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      const otherToken = await hre.ethers.deployContract('MockERC20', [
+        'Other',
+        'OTH',
+      ]);
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await expect(
+        marketplace
+          .connect(seller)
+          .createListing(
+            musicNFT.target,
+            tokenId,
+            ethers.parseEther('1'),
+            otherToken.target,
+            0
+          )
+      )
+        .to.be.revertedWithCustomError(marketplace, 'CurrencyNotAllowed')
+        .withArgs(otherToken.target);
+    });
+
+    it('Should only let the owner change the allow-list', async function () {
+      const { marketplace, paymentToken, seller } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .setCurrencyAllowed(paymentToken.target, false)
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        'OwnableUnauthorizedAccount'
+      );
+
+      await expect(marketplace.setCurrencyAllowed(paymentToken.target, false))
+        .to.emit(marketplace, 'CurrencyAllowed')
+        .withArgs(paymentToken.target, false);
+      expect(await marketplace.allowedCurrencies(paymentToken.target)).to.be
+        .false;
+    });
+
+    it('Should pull the token price and split it like an ETH sale', async function () {
+      const {
+        marketplace,
+        musicNFT,
+        paymentToken,
+        owner,
+        seller,
+        buyer,
+        tokenId,
+      } = await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createTokenListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId,
+        await paymentToken.getAddress()
+      );
+
+      await paymentToken.connect(buyer).approve(marketplace.target, price);
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price)
+      ).to.changeTokenBalances(
+        paymentToken,
+        [buyer, marketplace],
+        [-price, price]
+      );
+
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+
+      // The seller is also the creator, so they receive the royalty too
+      const marketFee = (price * 250n) / 10000n;
+      expect(
+        await marketplace.getPendingPayment(seller.address, paymentToken.target)
+      ).to.equal(price - marketFee);
+      expect(
+        await marketplace.getPendingPayment(owner.address, paymentToken.target)
+      ).to.equal(marketFee);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(0);
+    });
+
+    it('Should reject ETH sent for a token listing', async function () {
+      const { marketplace, musicNFT, paymentToken, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createTokenListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId,
+        await paymentToken.getAddress()
+      );
+
+      await paymentToken.connect(buyer).approve(marketplace.target, price);
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: 1 })
+      ).to.be.revertedWithCustomError(marketplace, 'NativePaymentNotAccepted');
+    });
+
+    it('Should not charge a raised price against a larger allowance', async function () {
+      const { marketplace, musicNFT, paymentToken, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createTokenListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId,
+        await paymentToken.getAddress()
+      );
+
+      await paymentToken
+        .connect(buyer)
+        .approve(marketplace.target, ethers.MaxUint256);
+      await marketplace
+        .connect(seller)
+        .updateListingPrice(listingId, price * 2n);
+
+      await expect(marketplace.connect(buyer).buyNFT(listingId, price))
+        .to.be.revertedWithCustomError(marketplace, 'PriceAboveMaximum')
+        .withArgs(price * 2n, price);
+    });
+
+    it('Should revert when the buyer has not approved the price', async function () {
+      const { marketplace, musicNFT, paymentToken, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createTokenListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId,
+        await paymentToken.getAddress()
+      );
+
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price)
+      ).to.be.revertedWithCustomError(
+        paymentToken,
+        'ERC20InsufficientAllowance'
+      );
+    });
+
+    it('Should withdraw token balances per currency', async function () {
+      const { marketplace, musicNFT, paymentToken, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createTokenListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId,
+        await paymentToken.getAddress()
+      );
+      await paymentToken.connect(buyer).approve(marketplace.target, price);
+      await marketplace.connect(buyer).buyNFT(listingId, price);
+
+      const pending = await marketplace.getPendingPayment(
+        seller.address,
+        paymentToken.target
+      );
+
+      await expect(
+        marketplace.connect(seller).withdrawPayments(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(marketplace, 'NoPaymentsPending');
+
+      const withdrawTx = marketplace
+        .connect(seller)
+        .withdrawPayments(paymentToken.target);
+      await expect(withdrawTx)
+        .to.emit(marketplace, 'PaymentWithdrawn')
+        .withArgs(seller.address, paymentToken.target, pending);
+      await expect(withdrawTx).to.changeTokenBalances(
+        paymentToken,
+        [seller, marketplace],
+        [pending, -pending]
+      );
+
+      expect(
+        await marketplace.getPendingPayment(seller.address, paymentToken.target)
+      ).to.equal(0);
+    });
+  });
+
+  describe('Royalty Splits', function () {
+    it('Should divide the sales royalty among collaborators', async function () {
+      const { marketplace, musicNFT, owner, seller, buyer } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      const [, , , producer, songwriter] = await hre.ethers.getSigners();
+
+      await musicNFT
+        .connect(seller)
+        .mintNFTWithSplits(
+          'uri2',
+          1000,
+          1000,
+          [seller.address, producer.address, songwriter.address],
+          [5000, 3000, 2000]
+        );
+      // The second owner sells, so the seller proceeds and royalty are separate
+      await musicNFT
+        .connect(seller)
+        .transferFrom(seller.address, buyer.address, 2);
+      const price = ethers.parseEther('1.0');
+      await createListing(marketplace, musicNFT, buyer, 2, price);
+      await marketplace.connect(owner).buyNFT(1, price, { value: price });
+
+      const royalty = (price * 1000n) / 10000n;
+      const marketFee = (price * 250n) / 10000n;
+      const pending = (account: { address: string }) =>
+        marketplace.getPendingPayment(account.address, ethers.ZeroAddress);
+
+      expect(await pending(seller)).to.equal((royalty * 5000n) / 10000n);
+      expect(await pending(producer)).to.equal((royalty * 3000n) / 10000n);
+      expect(await pending(songwriter)).to.equal((royalty * 2000n) / 10000n);
+      expect(await pending(buyer)).to.equal(price - royalty - marketFee);
+      expect(await pending(owner)).to.equal(marketFee);
+    });
+
+    it('Should give the rounding remainder to the last collaborator', async function () {
+      const { marketplace, musicNFT, owner, seller, buyer } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      const [, , , producer] = await hre.ethers.getSigners();
+
+      await musicNFT
+        .connect(seller)
+        .mintNFTWithSplits(
+          'uri2',
+          5000,
+          1000,
+          [seller.address, producer.address],
+          [3333, 6667]
+        );
+      await createListing(marketplace, musicNFT, seller, 2, 10n);
+      await marketplace.connect(buyer).buyNFT(1, 10n, { value: 10n });
+
+      // Royalty of 5 wei: 5 * 3333 / 10000 rounds down to 1
+      expect(
+        await marketplace.getPendingPayment(
+          producer.address,
+          ethers.ZeroAddress
+        )
+      ).to.equal(4n);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(10n - 4n);
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(0n);
+    });
+  });
+
+  describe('Admin Controls', function () {
+    it('Should let the owner change the market fee within the cap', async function () {
+      const { marketplace, musicNFT, owner, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+
+      await expect(marketplace.setMarketFeePercentage(500))
+        .to.emit(marketplace, 'MarketFeeUpdated')
+        .withArgs(250, 500);
+      expect(await marketplace.marketFeePercentage()).to.equal(500);
+
+      const { listingId, price } = await createListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, price, { value: price });
+
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal((price * 500n) / 10000n);
+    });
+
+    it('Should reject market fees above the cap and non-owner changes', async function () {
+      const { marketplace, seller } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await expect(marketplace.setMarketFeePercentage(1001))
+        .to.be.revertedWithCustomError(marketplace, 'MarketFeeTooHigh')
+        .withArgs(1001, 1000);
+      await expect(
+        marketplace.connect(seller).setMarketFeePercentage(100)
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        'OwnableUnauthorizedAccount'
+      );
+    });
+
+    it('Should send market fees to the fee treasury', async function () {
+      const { marketplace, musicNFT, owner, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const [, , , treasury] = await hre.ethers.getSigners();
+
+      expect(await marketplace.feeTreasury()).to.equal(owner.address);
+      await expect(marketplace.setFeeTreasury(treasury.address))
+        .to.emit(marketplace, 'FeeTreasuryUpdated')
+        .withArgs(owner.address, treasury.address);
+
+      const { listingId, price } = await createListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, price, { value: price });
+
+      expect(
+        await marketplace.getPendingPayment(
+          treasury.address,
+          ethers.ZeroAddress
+        )
+      ).to.equal((price * 250n) / 10000n);
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(0);
+    });
+
+    it('Should reject a zero fee treasury and non-owner changes', async function () {
+      const { marketplace, seller } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await expect(
+        marketplace.setFeeTreasury(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidFeeTreasury');
+      await expect(
+        marketplace.connect(seller).setFeeTreasury(seller.address)
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        'OwnableUnauthorizedAccount'
+      );
+    });
+
+    it('Should block listing and buying while paused', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+      await musicNFT.connect(seller).mintNFT('uri2', 500, 1000);
+      await musicNFT.connect(seller).approve(marketplace.target, 2);
+
+      await expect(marketplace.pause())
+        .to.emit(marketplace, 'Paused')
+        .withArgs(await marketplace.owner());
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createListing(musicNFT.target, 2, price, ethers.ZeroAddress, 0)
+      ).to.be.revertedWithCustomError(marketplace, 'EnforcedPause');
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
+      ).to.be.revertedWithCustomError(marketplace, 'EnforcedPause');
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEnglishAuction(musicNFT.target, 2, price, 1, 3600)
+      ).to.be.revertedWithCustomError(marketplace, 'EnforcedPause');
+      await expect(
+        marketplace
+          .connect(buyer)
+          .makeOffer(musicNFT.target, tokenId, (await time.latest()) + 3600, {
+            value: price,
+          })
+      ).to.be.revertedWithCustomError(marketplace, 'EnforcedPause');
+
+      await expect(marketplace.unpause()).to.emit(marketplace, 'Unpaused');
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, price, { value: price });
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+    });
+
+    it('Should keep cancellations and withdrawals working while paused', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      await musicNFT.connect(seller).mintNFT('uri2', 500, 1000);
+      await createListing(marketplace, musicNFT, seller, tokenId);
+      await createListing(marketplace, musicNFT, seller, 2);
+      await marketplace.connect(buyer).buyNFT(1, ethers.parseEther('1.0'), {
+        value: ethers.parseEther('1.0'),
+      });
+
+      await marketplace.pause();
+
+      await marketplace.connect(seller).cancelListing(2);
+      expect(await musicNFT.ownerOf(2)).to.equal(seller.address);
+
+      const pending = await marketplace.getPendingPayment(
+        seller.address,
+        ethers.ZeroAddress
+      );
+      await expect(
+        marketplace.connect(seller).withdrawPayments(ethers.ZeroAddress)
+      ).to.changeEtherBalance(seller, pending);
+    });
+
+    it('Should only let the owner pause and unpause', async function () {
+      const { marketplace, seller } = await loadFixture(
+        deployMarketplaceFixture
+      );
+
+      await expect(
+        marketplace.connect(seller).pause()
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        'OwnableUnauthorizedAccount'
+      );
+      await marketplace.pause();
+      await expect(
+        marketplace.connect(seller).unpause()
+      ).to.be.revertedWithCustomError(
+        marketplace,
+        'OwnableUnauthorizedAccount'
+      );
+    });
+  });
+
+  describe('Indexed Lookups', function () {
+    it('Should keep the token, active and seller indexes in sync', async function () {
+      const { marketplace, musicNFT, seller, buyer } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      await musicNFT.connect(seller).mintNFT('uri2', 500, 1000);
+      await musicNFT.connect(seller).mintNFT('uri3', 500, 1000);
+      for (const tokenId of [1, 2, 3]) {
+        await createListing(marketplace, musicNFT, seller, tokenId);
+      }
+
+      await marketplace.connect(buyer).buyNFT(1, ethers.parseEther('1.0'), {
+        value: ethers.parseEther('1.0'),
+      });
+      await marketplace.connect(seller).cancelListing(2);
+
+      expect(await marketplace.isTokenListed(musicNFT.target, 1)).to.be.false;
+      expect(await marketplace.isTokenListed(musicNFT.target, 2)).to.be.false;
+      expect(
+        await marketplace.getListingByToken(musicNFT.target, 2)
+      ).to.deep.equal([0n, ethers.ZeroAddress, 0n, false]);
+      expect(await marketplace.getActiveListingsCount()).to.equal(1);
+      expect((await marketplace.getActiveListings(0, 10))[0]).to.deep.equal([
+        3n,
+      ]);
+
+      // Relisting a cancelled token creates a new active listing
+      await musicNFT.connect(seller).approve(marketplace.target, 2);
+      await marketplace
+        .connect(seller)
+        .createListing(
+          musicNFT.target,
+          2,
+          ethers.parseEther('2.0'),
+          ethers.ZeroAddress,
+          0
+        );
+      expect(
+        await marketplace.getListingByToken(musicNFT.target, 2)
+      ).to.deep.equal([4n, seller.address, ethers.parseEther('2.0'), true]);
+
+      const [listingIds, , , , isActive] =
+        await marketplace.getListingsBySeller(seller.address, 0, 10);
+      expect(listingIds).to.deep.equal([1n, 2n, 3n, 4n]);
+      expect(isActive).to.deep.equal([false, false, true, true]);
+      expect(
+        (await marketplace.getListingsBySeller(seller.address, 1, 2))[0]
+      ).to.deep.equal([2n, 3n]);
+    });
+
+    it('Should keep view costs bounded with thousands of listings', async function () {
+      this.timeout(600000);
+      const { marketplace, musicNFT, seller, buyer } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      const listingCount = 2000;
+      await musicNFT
+        .connect(seller)
+        .setApprovalForAll(marketplace.target, true);
+
+      const measure = async () => ({
+        byToken: await marketplace.getListingByToken.estimateGas(
+          musicNFT.target,
+          1
+        ),
+        listed: await marketplace.isTokenListed.estimateGas(musicNFT.target, 1),
+        count: await marketplace.getActiveListingsCount.estimateGas(),
+        active: await marketplace.getActiveListings.estimateGas(0, 20),
+        bySeller: await marketplace.getListingsBySeller.estimateGas(
+          seller.address,
+          0,
+          20
+        ),
+      });
+
+      await marketplace
+        .connect(seller)
+        .createListing(musicNFT.target, 1, 1000, ethers.ZeroAddress, 0);
+      for (let tokenId = 2; tokenId <= 20; tokenId++) {
+        await musicNFT.connect(seller).mintNFT(`uri${tokenId}`, 500, 1000);
+        await marketplace
+          .connect(seller)
+          .createListing(musicNFT.target, tokenId, 1000, ethers.ZeroAddress, 0);
+      }
+      const before = await measure();
+
+      for (let tokenId = 21; tokenId <= listingCount; tokenId++) {
+        await musicNFT.connect(seller).mintNFT(`uri${tokenId}`, 500, 1000);
+        await marketplace
+          .connect(seller)
+          .createListing(musicNFT.target, tokenId, 1000, ethers.ZeroAddress, 0);
+      }
+      await marketplace.connect(buyer).buyNFT(10, 1000, { value: 1000 });
+
+      expect(await marketplace.getActiveListingsCount()).to.equal(
+        listingCount - 1
+      );
+      const after = await measure();
+      // The old implementation looped over every listing ever created
+      for (const view of Object.keys(before) as (keyof typeof before)[]) {
+        expect(after[view]).to.be.lessThan((before[view] * 11n) / 10n);
+      }
+    });
+  });
+
+  describe('Listing Expiry and Repricing', function () {
+    const ONE_DAY = 24 * 60 * 60;
+
+    async function createExpiringListing(
+      marketplace: NFTMarketplace,
+      musicNFT: MusicNFT,
+      seller: HardhatEthersSigner,
+      tokenId: number,
+      price = ethers.parseEther('1.0')
+    ) {
+      const expiresAt = (await time.latest()) + ONE_DAY;
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await marketplace
+        .connect(seller)
+        .createListing(
+          musicNFT.target,
+          tokenId,
+          price,
+          ethers.ZeroAddress,
+          expiresAt
+        );
+      return { listingId: tokenId, price, expiresAt };
+    }
+
+    it('Should store the expiry and emit it with the listing', async function () {
+      const { marketplace, musicNFT, seller, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      const price = ethers.parseEther('1.0');
+      const expiresAt = (await time.latest()) + ONE_DAY;
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createListing(
+            musicNFT.target,
+            tokenId,
+            price,
+            ethers.ZeroAddress,
+            expiresAt
+          )
+      )
+        .to.emit(marketplace, 'NFTListed')
+        .withArgs(
+          1,
+          seller.address,
+          musicNFT.target,
+          tokenId,
+          price,
+          ethers.ZeroAddress,
+          expiresAt,
+          true
+        );
+      expect((await marketplace.listings(1)).expiresAt).to.equal(expiresAt);
+    });
+
+    it('Should reject an expiry that is not in the future', async function () {
+      const { marketplace, musicNFT, seller, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createListing(
+            musicNFT.target,
+            tokenId,
+            ethers.parseEther('1.0'),
+            ethers.ZeroAddress,
+            await time.latest()
+          )
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidExpiration');
+    });
+
+    it('Should let the seller update the price of an active listing', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+      const newPrice = ethers.parseEther('2.0');
+
+      await expect(
+        marketplace.connect(seller).updateListingPrice(listingId, newPrice)
+      )
+        .to.emit(marketplace, 'ListingPriceUpdated')
+        .withArgs(listingId, price, newPrice);
+      expect((await marketplace.listings(listingId)).price).to.equal(newPrice);
+
+      // A purchase sent at the old price cannot be charged the new one
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: newPrice })
+      )
+        .to.be.revertedWithCustomError(marketplace, 'PriceAboveMaximum')
+        .withArgs(newPrice, price);
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, newPrice, { value: price })
+      ).to.be.revertedWithCustomError(marketplace, 'InsufficientFunds');
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, newPrice, { value: newPrice });
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+    });
+
+    it('Should only let the seller update the price of an active listing', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId } = await createListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await expect(
+        marketplace.connect(buyer).updateListingPrice(listingId, 1n)
+      ).to.be.revertedWithCustomError(marketplace, 'NotListingOwner');
+      await expect(
+        marketplace.connect(seller).updateListingPrice(99, 1n)
+      ).to.be.revertedWithCustomError(marketplace, 'ListingNotFound');
+
+      await marketplace.connect(seller).cancelListing(listingId);
+      await expect(
+        marketplace.connect(seller).updateListingPrice(listingId, 1n)
+      ).to.be.revertedWithCustomError(marketplace, 'ListingNotActive');
+    });
+
+    it('Should reject buying or repricing an expired listing', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price, expiresAt } = await createExpiringListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await time.increaseTo(expiresAt);
+
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
+      ).to.be.revertedWithCustomError(marketplace, 'ListingExpired');
+      await expect(
+        marketplace.connect(seller).updateListingPrice(listingId, 1n)
+      ).to.be.revertedWithCustomError(marketplace, 'ListingExpired');
+    });
+
+    it('Should allow buying a listing before it expires', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price, expiresAt } = await createExpiringListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await time.setNextBlockTimestamp(expiresAt - 1);
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, price, { value: price });
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+    });
+
+    it('Should let anyone return an expired listing to its seller', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, expiresAt } = await createExpiringListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await time.increaseTo(expiresAt);
+
+      await expect(marketplace.connect(buyer).reclaimExpiredListing(listingId))
+        .to.emit(marketplace, 'ListingExpiredReclaimed')
+        .withArgs(listingId, seller.address, buyer.address);
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+      expect((await marketplace.listings(listingId)).isActive).to.be.false;
+      expect(await marketplace.getActiveListingsCount()).to.equal(0);
+      expect(await marketplace.isTokenListed(musicNFT.target, tokenId)).to.be
+        .false;
+
+      await expect(
+        marketplace.connect(seller).reclaimExpiredListing(listingId)
+      ).to.be.revertedWithCustomError(marketplace, 'ListingNotActive');
+    });
+
+    it('Should not reclaim listings that have not expired', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId } = await createExpiringListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+      await musicNFT.connect(seller).mintNFT('ipfs://2', 500, 1000);
+      const { listingId: openListingId } = await createListing(
+        marketplace,
+        musicNFT,
+        seller,
+        2
+      );
+
+      await time.increase(ONE_DAY * 365);
+
+      await expect(
+        marketplace.connect(buyer).reclaimExpiredListing(openListingId)
+      ).to.be.revertedWithCustomError(marketplace, 'ListingNotExpired');
+      await marketplace.connect(buyer).reclaimExpiredListing(listingId);
+      await expect(
+        marketplace.connect(buyer).reclaimExpiredListing(99)
+      ).to.be.revertedWithCustomError(marketplace, 'ListingNotFound');
+    });
+
+    it('Should let the seller cancel an expired listing', async function () {
+      const { marketplace, musicNFT, seller, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      const { listingId, expiresAt } = await createExpiringListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await time.increaseTo(expiresAt + 1);
+
+      await marketplace.connect(seller).cancelListing(listingId);
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+    });
+  });
+
+  describe('Non-custodial Listings', function () {
+    async function createNonCustodialListing(
+      marketplace: NFTMarketplace,
+      musicNFT: MusicNFT,
+      seller: HardhatEthersSigner,
+      tokenId: number,
+      price = ethers.parseEther('1.0')
+    ) {
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await marketplace
+        .connect(seller)
+        .createNonCustodialListing(
+          musicNFT.target,
+          tokenId,
+          price,
+          ethers.ZeroAddress,
+          0
+        );
+      return { listingId: tokenId, price };
+    }
+
+    it('Should list without taking custody of the NFT', async function () {
+      const { marketplace, musicNFT, seller, tokenId } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      const price = ethers.parseEther('1.0');
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createNonCustodialListing(
+            musicNFT.target,
+            tokenId,
+            price,
+            ethers.ZeroAddress,
+            0
+          )
+      )
+        .to.emit(marketplace, 'NFTListed')
+        .withArgs(
+          1,
+          seller.address,
+          musicNFT.target,
+          tokenId,
+          price,
+          ethers.ZeroAddress,
+          0,
+          false
+        );
+
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+      expect(await musicNFT.getTokensOfOwner(seller.address)).to.deep.equal([
+        BigInt(tokenId),
+      ]);
+      expect((await marketplace.listings(1)).isEscrowed).to.be.false;
+      expect(await marketplace.isListingValid(1)).to.be.true;
+      expect(await marketplace.isTokenListed(musicNFT.target, tokenId)).to.be
+        .true;
+    });
+
+    it('Should require the seller to own and approve the token', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createNonCustodialListing(
+            musicNFT.target,
+            tokenId,
+            1000,
+            ethers.ZeroAddress,
+            0
+          )
+      ).to.be.revertedWithCustomError(marketplace, 'MarketplaceNotApproved');
+
+      await musicNFT.connect(seller).approve(marketplace.target, tokenId);
+      await expect(
+        marketplace
+          .connect(buyer)
+          .createNonCustodialListing(
+            musicNFT.target,
+            tokenId,
+            1000,
+            ethers.ZeroAddress,
+            0
+          )
+      ).to.be.revertedWithCustomError(marketplace, 'NotTokenOwner');
+    });
+
+    it('Should transfer the NFT from the seller on purchase', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createNonCustodialListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
+      )
+        .to.emit(marketplace, 'NFTSold')
+        .withArgs(
+          listingId,
+          seller.address,
+          buyer.address,
+          musicNFT.target,
+          tokenId,
+          price
+        );
+
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+      // The seller is also the creator and receives the royalty
+      const fee = (price * 250n) / 10000n;
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(price - fee);
+      expect(await marketplace.isListingValid(listingId)).to.be.false;
+    });
+
+    it('Should invalidate the listing when the seller transfers the token', async function () {
+      const { marketplace, musicNFT, owner, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createNonCustodialListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await musicNFT
+        .connect(seller)
+        .transferFrom(seller.address, owner.address, tokenId);
+
+      expect(await marketplace.isListingValid(listingId)).to.be.false;
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
+      ).to.be.revertedWithCustomError(marketplace, 'ListingInvalid');
+    });
+
+    it('Should keep the listing invalid when the token returns to the seller', async function () {
+      const { marketplace, musicNFT, owner, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createNonCustodialListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+      await musicNFT
+        .connect(seller)
+        .setApprovalForAll(marketplace.target, true);
+      expect(await marketplace.getActiveListingsCount()).to.equal(1);
+
+      await musicNFT
+        .connect(seller)
+        .transferFrom(seller.address, owner.address, tokenId);
+      await musicNFT
+        .connect(owner)
+        .transferFrom(owner.address, seller.address, tokenId);
+
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+      expect(await marketplace.isListingValid(listingId)).to.be.false;
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
+      ).to.be.revertedWithCustomError(marketplace, 'ListingInvalid');
+
+      // The stale listing is left out of the active pages, but still counts
+      // until it is replaced
+      expect(await marketplace.getActiveListingsCount()).to.equal(1);
+      const [listingIds] = await marketplace.getActiveListings(0, 10);
+      expect(listingIds).to.be.empty;
+
+      // Listing the token again snapshots its new transfer count
+      await marketplace
+        .connect(seller)
+        .createNonCustodialListing(
+          musicNFT.target,
+          tokenId,
+          price,
+          ethers.ZeroAddress,
+          0
+        );
+      expect(await marketplace.isListingValid(listingId + 1)).to.be.true;
+      expect(await marketplace.getActiveListingsCount()).to.equal(1);
+    });
+
+    it('Should only tell a returned token apart on contracts that count transfers', async function () {
+      const { marketplace, owner, seller } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      // An ERC-721 without getTransferCount
+      const MockLegacyMusicNFT = await hre.ethers.getContractFactory(
+        'MockLegacyMusicNFT'
+      );
+      const otherNFT = await MockLegacyMusicNFT.deploy();
+      await otherNFT.mint(seller.address);
+      await otherNFT
+        .connect(seller)
+        .setApprovalForAll(marketplace.target, true);
+      await marketplace
+        .connect(seller)
+        .createNonCustodialListing(
+          otherNFT.target,
+          1,
+          1000,
+          ethers.ZeroAddress,
+          0
+        );
+
+      await otherNFT
+        .connect(seller)
+        .transferFrom(seller.address, owner.address, 1);
+      expect(await marketplace.isListingValid(1)).to.be.false;
+
+      await otherNFT
+        .connect(owner)
+        .transferFrom(owner.address, seller.address, 1);
+      expect(await marketplace.isListingValid(1)).to.be.true;
+    });
+
+    it('Should return empty pages of invalid listings while more follow', async function () {
+      const { marketplace, musicNFT, owner, seller } = await loadFixture(
+        deployMarketplaceFixture
+      );
+      await musicNFT
+        .connect(seller)
+        .setApprovalForAll(marketplace.target, true);
+      for (let tokenId = 1; tokenId <= 3; tokenId++) {
+        if (tokenId > 1) {
+          await musicNFT.connect(seller).mintNFT(`uri${tokenId}`, 500, 1000);
+        }
+        await marketplace
+          .connect(seller)
+          .createNonCustodialListing(
+            musicNFT.target,
+            tokenId,
+            1000,
+            ethers.ZeroAddress,
+            0
+          );
+      }
+      for (const tokenId of [1, 2]) {
+        await musicNFT
+          .connect(seller)
+          .transferFrom(seller.address, owner.address, tokenId);
+      }
+
+      expect(await marketplace.getActiveListingsCount()).to.equal(3);
+      const [firstPage] = await marketplace.getActiveListings(0, 2);
+      expect(firstPage).to.be.empty;
+      const [secondPage] = await marketplace.getActiveListings(2, 2);
+      expect(secondPage).to.deep.equal([3n]);
+    });
+
+    it('Should invalidate the listing when the approval is revoked', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createNonCustodialListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await musicNFT.connect(seller).approve(ethers.ZeroAddress, tokenId);
+
+      expect(await marketplace.isListingValid(listingId)).to.be.false;
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
+      ).to.be.revertedWithCustomError(marketplace, 'ListingInvalid');
+
+      // Approving the whole collection makes the listing valid again
+      await musicNFT
+        .connect(seller)
+        .setApprovalForAll(marketplace.target, true);
+      expect(await marketplace.isListingValid(listingId)).to.be.true;
+      await marketplace
+        .connect(buyer)
+        .buyNFT(listingId, price, { value: price });
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(buyer.address);
+    });
+
+    it('Should replace a stale listing when the token is listed again', async function () {
+      const { marketplace, musicNFT, owner, seller, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId } = await createNonCustodialListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createNonCustodialListing(
+            musicNFT.target,
+            tokenId,
+            1000,
+            ethers.ZeroAddress,
+            0
+          )
+      )
+        .to.be.revertedWithCustomError(marketplace, 'TokenAlreadyListed')
+        .withArgs(listingId);
+
+      await musicNFT
+        .connect(seller)
+        .transferFrom(seller.address, owner.address, tokenId);
+      await musicNFT.connect(owner).approve(marketplace.target, tokenId);
+
+      await expect(
+        marketplace
+          .connect(owner)
+          .createListing(musicNFT.target, tokenId, 1000, ethers.ZeroAddress, 0)
+      )
+        .to.emit(marketplace, 'ListingInvalidated')
+        .withArgs(listingId);
+
+      expect((await marketplace.listings(listingId)).isActive).to.be.false;
+      expect(
+        (await marketplace.getListingByToken(musicNFT.target, tokenId))
+          .listingId
+      ).to.equal(2);
+      expect(await marketplace.getActiveListingsCount()).to.equal(1);
+
+      // Cancelling the stale listing is no longer possible and the new
+      // listing keeps its index entry
+      await expect(
+        marketplace.connect(seller).cancelListing(listingId)
+      ).to.be.revertedWithCustomError(marketplace, 'ListingNotActive');
+      expect(await marketplace.isTokenListed(musicNFT.target, tokenId)).to.be
+        .true;
+    });
+
+    it('Should cancel and reclaim without moving the NFT', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId } = await createNonCustodialListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await expect(
+        marketplace.connect(seller).cancelListing(listingId)
+      ).to.emit(marketplace, 'NFTListingCancelled');
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+
+      const expiresAt = (await time.latest()) + 60;
+      await marketplace
+        .connect(seller)
+        .createNonCustodialListing(
+          musicNFT.target,
+          tokenId,
+          1000,
+          ethers.ZeroAddress,
+          expiresAt
+        );
+      await time.increaseTo(expiresAt);
+
+      await marketplace.connect(buyer).reclaimExpiredListing(2);
+      expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+      expect(await marketplace.getActiveListingsCount()).to.equal(0);
+    });
+
+    it('Should keep paying streaming royalties to the seller while listed', async function () {
+      const { marketplace, musicNFT, owner, seller, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const streaming = await hre.ethers.deployContract('NFTStreaming');
+      await streaming.addReporter(owner.address);
+      await createNonCustodialListing(marketplace, musicNFT, seller, tokenId);
+
+      const report = buildListenReport({
+        nftContract: musicNFT.target as string,
+        tokenId,
+        count: 100,
+        rate: 1000,
+        period: listenPeriodOf(await time.latest()),
+      });
+      await streaming.recordBatchListens(report, { value: report.amount });
+
+      // 10% streaming royalty to the owner, the rest to the creator, who is
+      // the same account here
+      expect(
+        await streaming.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(report.amount);
+      expect(
+        await streaming.getPendingPayment(
+          marketplace.target,
+          ethers.ZeroAddress
+        )
+      ).to.equal(0);
+    });
+
+    it('Should report the listing of a burned token as inactive', async function () {
+      const { marketplace, musicNFT, seller, buyer, tokenId } =
+        await loadFixture(deployMarketplaceFixture);
+      const { listingId, price } = await createNonCustodialListing(
+        marketplace,
+        musicNFT,
+        seller,
+        tokenId
+      );
+
+      await musicNFT.connect(seller).burn(tokenId);
+
+      expect(await marketplace.isTokenListed(musicNFT.target, tokenId)).to.be
+        .false;
+      expect(await marketplace.isListingValid(listingId)).to.be.false;
+      const byToken = await marketplace.getListingByToken(
+        musicNFT.target,
+        tokenId
+      );
+      expect(byToken.listingId).to.equal(0);
+      expect(byToken.seller).to.equal(ethers.ZeroAddress);
+      expect(byToken.isActive).to.be.false;
+      const [, , , , isActive] = await marketplace.getListingsBySeller(
+        seller.address,
+        0,
+        10
+      );
+      expect(isActive).to.deep.equal([false]);
+      const [listingIds] = await marketplace.getActiveListings(0, 10);
+      expect(listingIds).to.be.empty;
+      await expect(
+        marketplace.connect(buyer).buyNFT(listingId, price, { value: price })
+      ).to.be.revertedWithCustomError(marketplace, 'ListingInvalid');
+
+      // The seller can still clear the listing from the active set
+      expect(await marketplace.getActiveListingsCount()).to.equal(1);
+      await marketplace.connect(seller).cancelListing(listingId);
+      expect(await marketplace.getActiveListingsCount()).to.equal(0);
+    });
+  });
+
+  describe('Bundle Listings', function () {
+    // The owner creates tokens 2 and 3 and gives them to the seller, so the
+    // owner receives their sales royalties
+    async function deployBundleFixture() {
+      const fixture = await deployMarketplaceFixture();
+      const { marketplace, musicNFT, owner, seller } = fixture;
+
+      await musicNFT.connect(owner).mintNFT('ipfs://2', 1000, 1000);
+      await musicNFT.connect(owner).mintNFT('ipfs://3', 300, 1000);
+      for (const tokenId of [2, 3]) {
+        await musicNFT
+          .connect(owner)
+          .transferFrom(owner.address, seller.address, tokenId);
+      }
+      await musicNFT
+        .connect(seller)
+        .setApprovalForAll(marketplace.target, true);
+
+      return fixture;
+    }
+
+    function bundleItems(
+      musicNFT: MusicNFT,
+      weights: [tokenId: number, weight: number][]
+    ) {
+      return weights.map(([tokenId, weight]) => ({
+        nftContract: musicNFT.target as string,
+        tokenId,
+        weight,
+      }));
+    }
+
+    it('Should escrow every item under one price', async function () {
+      const { marketplace, musicNFT, seller } = await loadFixture(
+        deployBundleFixture
+      );
+      const price = ethers.parseEther('4.0');
+      const items = bundleItems(musicNFT, [
+        [2, 1],
+        [3, 3],
+      ]);
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createBundleListing(items, price, ethers.ZeroAddress)
+      )
+        .to.emit(marketplace, 'BundleListed')
+        .withArgs(1, seller.address, price, ethers.ZeroAddress, 2)
+        .and.to.emit(marketplace, 'BundleItemListed')
+        .withArgs(1, musicNFT.target, 3);
+
+      for (const tokenId of [2, 3]) {
+        expect(await musicNFT.ownerOf(tokenId)).to.equal(marketplace.target);
+        expect(
+          await marketplace.getEscrowedTokenSeller(musicNFT.target, tokenId)
+        ).to.equal(seller.address);
+      }
+
+      const bundle = await marketplace.bundles(1);
+      expect(bundle.seller).to.equal(seller.address);
+      expect(bundle.price).to.equal(price);
+      expect(bundle.totalWeight).to.equal(4);
+      expect(bundle.isActive).to.be.true;
+      expect(
+        (await marketplace.getBundleItems(1)).map((item) => [
+          item.tokenId,
+          item.weight,
+        ])
+      ).to.deep.equal([
+        [2n, 1n],
+        [3n, 3n],
+      ]);
+      expect(await marketplace.getActiveBundlesCount()).to.equal(1);
+      expect(await marketplace.getTotalBundles()).to.equal(1);
+    });
+
+    it('Should reject invalid bundles', async function () {
+      const { marketplace, musicNFT, seller } = await loadFixture(
+        deployBundleFixture
+      );
+      const maxSize = Number(await marketplace.MAX_BUNDLE_SIZE());
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createBundleListing(
+            bundleItems(musicNFT, [[2, 1]]),
+            1000,
+            ethers.ZeroAddress
+          )
+      )
+        .to.be.revertedWithCustomError(marketplace, 'InvalidBundleSize')
+        .withArgs(1);
+      await expect(
+        marketplace.connect(seller).createBundleListing(
+          bundleItems(
+            musicNFT,
+            Array.from({ length: maxSize + 1 }, () => [2, 1])
+          ),
+          1000,
+          ethers.ZeroAddress
+        )
+      )
+        .to.be.revertedWithCustomError(marketplace, 'InvalidBundleSize')
+        .withArgs(maxSize + 1);
+      await expect(
+        marketplace.connect(seller).createBundleListing(
+          bundleItems(musicNFT, [
+            [2, 1],
+            [3, 0],
+          ]),
+          1000,
+          ethers.ZeroAddress
+        )
+      ).to.be.revertedWithCustomError(marketplace, 'InvalidBundleWeight');
+      await expect(
+        marketplace.connect(seller).createBundleListing(
+          bundleItems(musicNFT, [
+            [2, 1],
+            [3, 1],
+          ]),
+          1000,
+          seller.address
+        )
+      )
+        .to.be.revertedWithCustomError(marketplace, 'CurrencyNotAllowed')
+        .withArgs(seller.address);
+    });
+
+    it('Should not bundle a token that is still listed', async function () {
+      const { marketplace, musicNFT, seller } = await loadFixture(
+        deployBundleFixture
+      );
+      await marketplace
+        .connect(seller)
+        .createNonCustodialListing(
+          musicNFT.target,
+          2,
+          1000,
+          ethers.ZeroAddress,
+          0
+        );
+
+      await expect(
+        marketplace.connect(seller).createBundleListing(
+          bundleItems(musicNFT, [
+            [2, 1],
+            [3, 1],
+          ]),
+          1000,
+          ethers.ZeroAddress
+        )
+      )
+        .to.be.revertedWithCustomError(marketplace, 'TokenAlreadyListed')
+        .withArgs(1);
+    });
+
+    it('Should sell every item and split royalties by weight', async function () {
+      const { marketplace, musicNFT, owner, seller, buyer } = await loadFixture(
+        deployBundleFixture
+      );
+      const price = ethers.parseEther('4.0');
+      await marketplace.connect(seller).createBundleListing(
+        bundleItems(musicNFT, [
+          [2, 1],
+          [3, 3],
+        ]),
+        price,
+        ethers.ZeroAddress
+      );
+
+      const tx = marketplace
+        .connect(buyer)
+        .buyBundle(1, price, { value: price + ethers.parseEther('1.0') });
+      await expect(tx)
+        .to.emit(marketplace, 'BundleSold')
+        .withArgs(1, seller.address, buyer.address, price);
+      await expect(tx)
+        .to.emit(marketplace, 'BundleItemSold')
+        .withArgs(1, musicNFT.target, 3, ethers.parseEther('3.0'));
+      await expect(tx).to.changeEtherBalance(buyer, -price);
+
+      expect(await musicNFT.ownerOf(2)).to.equal(buyer.address);
+      expect(await musicNFT.ownerOf(3)).to.equal(buyer.address);
+
+      // Token 2 sells for 1 ETH at 10%, token 3 for 3 ETH at 3%
+      const royalties = ethers.parseEther('0.1') + ethers.parseEther('0.09');
+      const fee = (price * 250n) / 10000n;
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(royalties + fee);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(price - royalties - fee);
+
+      expect((await marketplace.bundles(1)).isActive).to.be.false;
+      expect(await marketplace.getActiveBundlesCount()).to.equal(0);
+      expect(
+        await marketplace.getEscrowedTokenSeller(musicNFT.target, 2)
+      ).to.equal(ethers.ZeroAddress);
+      await expect(
+        marketplace.connect(buyer).buyBundle(1, price, { value: price })
+      ).to.be.revertedWithCustomError(marketplace, 'BundleNotActive');
+    });
+
+    it('Should give the rounding remainder to the last item', async function () {
+      const { marketplace, musicNFT, owner, seller, buyer } = await loadFixture(
+        deployBundleFixture
+      );
+      await marketplace.setMarketFeePercentage(0);
+      await marketplace.connect(seller).createBundleListing(
+        bundleItems(musicNFT, [
+          [1, 1],
+          [2, 1],
+          [3, 1],
+        ]),
+        10000n,
+        ethers.ZeroAddress
+      );
+
+      await marketplace.connect(buyer).buyBundle(1, 10000n, { value: 10000n });
+
+      // Items sell for 3333, 3333 and 3334; the owner earns 10% of token 2
+      // and 3% of token 3, the seller keeps the rest including token 1
+      const ownerRoyalty = 333n + 100n;
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(ownerRoyalty);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(10000n - ownerRoyalty);
+    });
+
+    it('Should sell bundles priced in an ERC-20 token', async function () {
+      const { marketplace, musicNFT, paymentToken, seller, buyer } =
+        await loadFixture(deployBundleFixture);
+      const price = ethers.parseEther('20');
+      await marketplace.connect(seller).createBundleListing(
+        bundleItems(musicNFT, [
+          [2, 1],
+          [3, 1],
+        ]),
+        price,
+        paymentToken.target
+      );
+
+      await expect(
+        marketplace.connect(buyer).buyBundle(1, price, { value: 1 })
+      ).to.be.revertedWithCustomError(marketplace, 'NativePaymentNotAccepted');
+
+      await paymentToken.connect(buyer).approve(marketplace.target, price);
+      await expect(marketplace.connect(buyer).buyBundle(1, price - 1n))
+        .to.be.revertedWithCustomError(marketplace, 'PriceAboveMaximum')
+        .withArgs(price, price - 1n);
+      await expect(
+        marketplace.connect(buyer).buyBundle(1, price)
+      ).to.changeTokenBalances(
+        paymentToken,
+        [buyer, marketplace],
+        [-price, price]
+      );
+      expect(await musicNFT.ownerOf(3)).to.equal(buyer.address);
+    });
+
+    it('Should return every item when the bundle is cancelled', async function () {
+      const { marketplace, musicNFT, seller, buyer } = await loadFixture(
+        deployBundleFixture
+      );
+      await marketplace.connect(seller).createBundleListing(
+        bundleItems(musicNFT, [
+          [1, 1],
+          [2, 1],
+          [3, 1],
+        ]),
+        1000,
+        ethers.ZeroAddress
+      );
+
+      await expect(
+        marketplace.connect(buyer).cancelBundleListing(1)
+      ).to.be.revertedWithCustomError(marketplace, 'NotBundleSeller');
+      await expect(
+        marketplace.connect(seller).cancelBundleListing(2)
+      ).to.be.revertedWithCustomError(marketplace, 'BundleNotFound');
+
+      await expect(marketplace.connect(seller).cancelBundleListing(1))
+        .to.emit(marketplace, 'BundleListingCancelled')
+        .withArgs(1, seller.address);
+      for (const tokenId of [1, 2, 3]) {
+        expect(await musicNFT.ownerOf(tokenId)).to.equal(seller.address);
+      }
+      expect(await marketplace.getActiveBundlesCount()).to.equal(0);
+    });
+
+    it('Should paginate active bundles', async function () {
+      const { marketplace, musicNFT, seller } = await loadFixture(
+        deployBundleFixture
+      );
+      for (let i = 0; i < 3; i++) {
+        await musicNFT.connect(seller).mintNFT(`ipfs://${i + 4}`, 500, 1000);
+      }
+      for (const pair of [
+        [1, 2],
+        [3, 4],
+        [5, 6],
+      ]) {
+        await marketplace.connect(seller).createBundleListing(
+          bundleItems(
+            musicNFT,
+            pair.map((tokenId) => [tokenId, 1])
+          ),
+          1000,
+          ethers.ZeroAddress
+        );
+      }
+      await marketplace.connect(seller).cancelBundleListing(1);
+
+      const firstPage = await marketplace.getActiveBundles(0, 1);
+      const secondPage = await marketplace.getActiveBundles(1, 10);
+      expect(firstPage.bundleIds.length).to.equal(1);
+      expect(secondPage.bundleIds.length).to.equal(1);
+      expect(
+        [...firstPage.bundleIds, ...secondPage.bundleIds].sort()
+      ).to.deep.equal([2n, 3n]);
+      expect(secondPage.itemCounts[0]).to.equal(2);
+      expect(secondPage.sellers[0]).to.equal(seller.address);
+      expect(
+        (await marketplace.getActiveBundles(5, 10)).bundleIds
+      ).to.deep.equal([]);
+    });
+  });
+
+  describe('Edition Listings', function () {
+    // A separate creator makes edition 1 with a 10% sales royalty and gives
+    // 10 copies to the seller
+    async function deployEditionFixture() {
+      const fixture = await deployMarketplaceFixture();
+      const { marketplace, seller } = fixture;
+      const [, , , creator] = await hre.ethers.getSigners();
+
+      const MusicEditions = await hre.ethers.getContractFactory(
+        'MusicEditions'
+      );
+      const editions = await MusicEditions.deploy();
+      await editions.connect(creator).createEdition('uri', 100, 100, 1000, 0);
+      await editions
+        .connect(creator)
+        .safeTransferFrom(creator.address, seller.address, 1, 10, '0x');
+      await editions
+        .connect(seller)
+        .setApprovalForAll(marketplace.target, true);
+
+      return { ...fixture, editions, creator };
+    }
+
+    it('Should list copies while the seller keeps them', async function () {
+      const { marketplace, editions, seller } = await loadFixture(
+        deployEditionFixture
+      );
+      const pricePerCopy = ethers.parseEther('0.1');
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEditionListing(
+            editions.target,
+            1,
+            6,
+            pricePerCopy,
+            ethers.ZeroAddress
+          )
+      )
+        .to.emit(marketplace, 'EditionListed')
+        .withArgs(
+          1,
+          seller.address,
+          editions.target,
+          1,
+          6,
+          pricePerCopy,
+          ethers.ZeroAddress
+        );
+
+      const listing = await marketplace.editionListings(1);
+      expect(listing.quantity).to.equal(6);
+      expect(listing.isActive).to.be.true;
+      expect(await editions.balanceOf(seller.address, 1)).to.equal(10);
+      expect(await marketplace.getTotalEditionListings()).to.equal(1);
+    });
+
+    it('Should sell part of the copies and pay the royalty on their price', async function () {
+      const { marketplace, editions, owner, seller, buyer, creator } =
+        await loadFixture(deployEditionFixture);
+      const pricePerCopy = ethers.parseEther('0.1');
+      await marketplace
+        .connect(seller)
+        .createEditionListing(
+          editions.target,
+          1,
+          6,
+          pricePerCopy,
+          ethers.ZeroAddress
+        );
+
+      const price = pricePerCopy * 4n;
+      const tx = marketplace
+        .connect(buyer)
+        .buyEditionCopies(1, 4, { value: ethers.parseEther('1.0') });
+      await expect(tx)
+        .to.emit(marketplace, 'EditionSold')
+        .withArgs(1, seller.address, buyer.address, 4, price);
+      await expect(tx).to.changeEtherBalance(buyer, -price);
+
+      expect(await editions.balanceOf(buyer.address, 1)).to.equal(4);
+      expect(await editions.balanceOf(seller.address, 1)).to.equal(6);
+      expect((await marketplace.editionListings(1)).quantity).to.equal(2);
+
+      const royalty = price / 10n;
+      const fee = (price * 250n) / 10000n;
+      expect(
+        await marketplace.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(royalty);
+      expect(
+        await marketplace.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(fee);
+      expect(
+        await marketplace.getPendingPayment(seller.address, ethers.ZeroAddress)
+      ).to.equal(price - royalty - fee);
+
+      // Buying the rest closes the listing
+      await marketplace
+        .connect(buyer)
+        .buyEditionCopies(1, 2, { value: pricePerCopy * 2n });
+      expect((await marketplace.editionListings(1)).isActive).to.be.false;
+      await expect(
+        marketplace
+          .connect(buyer)
+          .buyEditionCopies(1, 1, { value: pricePerCopy })
+      ).to.be.revertedWithCustomError(marketplace, 'EditionListingNotActive');
+    });
+
+    it('Should sell copies for an ERC-20 currency', async function () {
+      const { marketplace, editions, paymentToken, seller, buyer } =
+        await loadFixture(deployEditionFixture);
+      await marketplace
+        .connect(seller)
+        .createEditionListing(editions.target, 1, 5, 100, paymentToken.target);
+      await paymentToken.connect(buyer).approve(marketplace.target, 300);
+
+      await expect(
+        marketplace.connect(buyer).buyEditionCopies(1, 3)
+      ).to.changeTokenBalances(paymentToken, [buyer, marketplace], [-300, 300]);
+      expect(await editions.balanceOf(buyer.address, 1)).to.equal(3);
+    });
+
+    it('Should reject quantities above the listing or the balance', async function () {
+      const { marketplace, editions, seller, buyer } = await loadFixture(
+        deployEditionFixture
+      );
+
+      await expect(
+        marketplace
+          .connect(seller)
+          .createEditionListing(editions.target, 1, 11, 1, ethers.ZeroAddress)
+      )
+        .to.be.revertedWithCustomError(marketplace, 'InvalidQuantity')
+        .withArgs(11, 10);
+
+      await marketplace
+        .connect(seller)
+        .createEditionListing(editions.target, 1, 3, 1, ethers.ZeroAddress);
+      await expect(
+        marketplace.connect(buyer).buyEditionCopies(1, 4, { value: 4 })
+      )
+        .to.be.revertedWithCustomError(marketplace, 'InvalidQuantity')
+        .withArgs(4, 3);
+      await expect(
+        marketplace.connect(buyer).buyEditionCopies(1, 2, { value: 1 })
+      ).to.be.revertedWithCustomError(marketplace, 'InsufficientFunds');
+    });
+
+    it('Should require the marketplace approval', async function () {
+      const { marketplace, editions, seller, buyer } = await loadFixture(
+        deployEditionFixture
+      );
+
+      await editions
+        .connect(buyer)
+        .setApprovalForAll(marketplace.target, false);
+      await editions
+        .connect(seller)
+        .safeTransferFrom(seller.address, buyer.address, 1, 1, '0x');
+      await expect(
+        marketplace
+          .connect(buyer)
+          .createEditionListing(editions.target, 1, 1, 1, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(marketplace, 'MarketplaceNotApproved');
+    });
+
+    it('Should refuse sales once the seller moved the copies', async function () {
+      const { marketplace, editions, seller, buyer, owner } = await loadFixture(
+        deployEditionFixture
+      );
+      await marketplace
+        .connect(seller)
+        .createEditionListing(editions.target, 1, 5, 1, ethers.ZeroAddress);
+      await editions
+        .connect(seller)
+        .safeTransferFrom(seller.address, owner.address, 1, 8, '0x');
+
+      await expect(
+        marketplace.connect(buyer).buyEditionCopies(1, 3, { value: 3 })
+      ).to.be.revertedWithCustomError(marketplace, 'ListingInvalid');
+      // The copies still held can be bought
+      await marketplace.connect(buyer).buyEditionCopies(1, 2, { value: 2 });
+      expect(await editions.balanceOf(buyer.address, 1)).to.equal(2);
+    });
+
+    it('Should let only the seller cancel an edition listing', async function () {
+      const { marketplace, editions, seller, buyer } = await loadFixture(
+        deployEditionFixture
+      );
+      await marketplace
+        .connect(seller)
+        .createEditionListing(editions.target, 1, 5, 1, ethers.ZeroAddress);
+
+      await expect(
+        marketplace.connect(buyer).cancelEditionListing(1)
+      ).to.be.revertedWithCustomError(marketplace, 'NotListingOwner');
+      await expect(marketplace.connect(seller).cancelEditionListing(1))
+        .to.emit(marketplace, 'EditionListingCancelled')
+        .withArgs(1, seller.address);
+      await expect(
+        marketplace.connect(seller).cancelEditionListing(1)
+      ).to.be.revertedWithCustomError(marketplace, 'EditionListingNotActive');
+      await expect(
+        marketplace.connect(seller).cancelEditionListing(2)
+      ).to.be.revertedWithCustomError(marketplace, 'EditionListingNotFound');
+    });
+  });
 });
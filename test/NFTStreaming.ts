@@ -1,6 +1,13 @@
-import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import {
+  loadFixture,
+  takeSnapshot,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
 import { expect } from 'chai';
+import { Addressable, BigNumberish } from 'ethers';
 import hre, { ethers } from 'hardhat';
+import { signListenReport } from '../sdk';
+import { listenReport } from './helpers';
 
 describe('NFTStreaming', function () {
   async function deployStreamingFixture() {
@@ -12,6 +19,12 @@ describe('NFTStreaming', function () {
     const NFTStreaming = await hre.ethers.getContractFactory('NFTStreaming');
     const streaming = await NFTStreaming.deploy();
 
+    const MockERC20 = await hre.ethers.getContractFactory('MockERC20');
+    const paymentToken = await MockERC20.deploy('Mock USD', 'mUSD');
+    await paymentToken.mint(listener.address, ethers.parseEther('1000'));
+    await streaming.setCurrencyAllowed(paymentToken.target, true);
+    await streaming.addReporter(listener.address);
+
     const tokenURI = 'https://example.com/token/1';
     const salesRoyaltyPercentage = 500;
     const streamingRoyaltyPercentage = 3000;
@@ -25,6 +38,7 @@ describe('NFTStreaming', function () {
     return {
       streaming,
       musicNFT,
+      paymentToken,
       owner,
       creator,
       listener,
@@ -63,26 +77,35 @@ describe('NFTStreaming', function () {
         streaming
           .connect(listener)
           .recordBatchListens(
-            musicNFT.target,
-            tokenId,
-            listenCount,
-            paymentAmount,
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              listenCount,
+              paymentAmount,
+              ethers.ZeroAddress
+            ),
             {
               value: paymentAmount,
             }
           )
       )
         .to.emit(streaming, 'BatchListensRecorded')
-        .withArgs(musicNFT.target, tokenId, listenCount, paymentAmount);
+        .withArgs(
+          musicNFT.target,
+          tokenId,
+          listenCount,
+          paymentAmount,
+          ethers.ZeroAddress
+        );
 
       expect(await streaming.getListenCount(musicNFT.target, tokenId)).to.equal(
         listenCount
       );
 
       const expectedCreatorPayment = royaltyAmount + remainingAmount;
-      expect(await streaming.getPendingPayment(creator.address)).to.equal(
-        expectedCreatorPayment
-      );
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(expectedCreatorPayment);
     });
 
     it('Should handle excess payment correctly', async function () {
@@ -100,10 +123,13 @@ describe('NFTStreaming', function () {
       const tx = await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          tokenId,
-          listenCount,
-          paymentAmount,
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            listenCount,
+            paymentAmount,
+            ethers.ZeroAddress
+          ),
           {
             value: totalSent,
           }
@@ -134,10 +160,13 @@ describe('NFTStreaming', function () {
         streaming
           .connect(listener)
           .recordBatchListens(
-            musicNFT.target,
-            nonExistentTokenId,
-            listenCount,
-            paymentAmount,
+            await listenReport(
+              musicNFT.target,
+              nonExistentTokenId,
+              listenCount,
+              paymentAmount,
+              ethers.ZeroAddress
+            ),
             {
               value: paymentAmount,
             }
@@ -158,10 +187,13 @@ describe('NFTStreaming', function () {
         streaming
           .connect(listener)
           .recordBatchListens(
-            musicNFT.target,
-            tokenId,
-            listenCount,
-            paymentAmount,
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              listenCount,
+              paymentAmount,
+              ethers.ZeroAddress
+            ),
             {
               value: insufficientPayment,
             }
@@ -181,10 +213,13 @@ describe('NFTStreaming', function () {
         streaming
           .connect(listener)
           .recordBatchListens(
-            musicNFT.target,
-            tokenId,
-            invalidListenCount,
-            paymentAmount,
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              invalidListenCount,
+              paymentAmount,
+              ethers.ZeroAddress
+            ),
             {
               value: paymentAmount,
             }
@@ -214,10 +249,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          tokenId,
-          listenCount,
-          paymentAmount,
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            listenCount,
+            paymentAmount,
+            ethers.ZeroAddress
+          ),
           {
             value: paymentAmount,
           }
@@ -227,12 +265,12 @@ describe('NFTStreaming', function () {
         (paymentAmount * BigInt(streamingRoyaltyPercentage)) / 10000n;
       const remainingAmount = paymentAmount - royaltyAmount;
 
-      expect(await streaming.getPendingPayment(newOwner.address)).to.equal(
-        royaltyAmount
-      );
-      expect(await streaming.getPendingPayment(creator.address)).to.equal(
-        remainingAmount
-      );
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(royaltyAmount);
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(remainingAmount);
     });
 
     it('Should allow withdrawal of streaming royalties', async function () {
@@ -244,23 +282,29 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          tokenId,
-          listenCount,
-          paymentAmount,
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            listenCount,
+            paymentAmount,
+            ethers.ZeroAddress
+          ),
           {
             value: paymentAmount,
           }
         );
 
       const pendingRoyalties = await streaming.getPendingPayment(
-        creator.address
+        creator.address,
+        ethers.ZeroAddress
       );
       expect(pendingRoyalties).to.be.gt(0);
 
       const initialBalance = await ethers.provider.getBalance(creator.address);
 
-      const withdrawTx = await streaming.connect(creator).withdrawPayments();
+      const withdrawTx = await streaming
+        .connect(creator)
+        .withdrawPayments(ethers.ZeroAddress);
       const receipt = await withdrawTx.wait();
 
       const gasUsed = receipt?.gasUsed ?? 0n;
@@ -272,14 +316,16 @@ describe('NFTStreaming', function () {
         initialBalance + pendingRoyalties - gasCost
       );
 
-      expect(await streaming.getPendingPayment(creator.address)).to.equal(0);
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(0);
     });
 
     it('Should revert withdrawal when no payments are pending', async function () {
       const { streaming, listener } = await loadFixture(deployStreamingFixture);
 
       await expect(
-        streaming.connect(listener).withdrawPayments()
+        streaming.connect(listener).withdrawPayments(ethers.ZeroAddress)
       ).to.be.revertedWithCustomError(streaming, 'NoPaymentsPending');
     });
   });
@@ -299,10 +345,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          tokenId,
-          listenCount1,
-          paymentAmount1,
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            listenCount1,
+            paymentAmount1,
+            ethers.ZeroAddress
+          ),
           {
             value: paymentAmount1,
           }
@@ -319,10 +368,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          tokenId,
-          listenCount2,
-          paymentAmount2,
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            listenCount2,
+            paymentAmount2,
+            ethers.ZeroAddress
+          ),
           {
             value: paymentAmount2,
           }
@@ -355,10 +407,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          tokenId1,
-          listenCount1,
-          paymentAmount1,
+          await listenReport(
+            musicNFT.target,
+            tokenId1,
+            listenCount1,
+            paymentAmount1,
+            ethers.ZeroAddress
+          ),
           {
             value: paymentAmount1,
           }
@@ -370,10 +425,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          tokenId2,
-          listenCount2,
-          paymentAmount2,
+          await listenReport(
+            musicNFT.target,
+            tokenId2,
+            listenCount2,
+            paymentAmount2,
+            ethers.ZeroAddress
+          ),
           {
             value: paymentAmount2,
           }
@@ -415,9 +473,18 @@ describe('NFTStreaming', function () {
 
         await streaming
           .connect(listener)
-          .recordBatchListens(musicNFT.target, tokenId, listens, payment, {
-            value: payment,
-          });
+          .recordBatchListens(
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              listens,
+              payment,
+              ethers.ZeroAddress
+            ),
+            {
+              value: payment,
+            }
+          );
       }
 
       // Get top 3 tokens
@@ -460,10 +527,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          1,
-          listenCount1,
-          ethers.parseEther('1.0'),
+          await listenReport(
+            musicNFT.target,
+            1,
+            listenCount1,
+            ethers.parseEther('1.0'),
+            ethers.ZeroAddress
+          ),
           {
             value: ethers.parseEther('1.0'),
           }
@@ -472,10 +542,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          2,
-          listenCount2,
-          ethers.parseEther('2.0'),
+          await listenReport(
+            musicNFT.target,
+            2,
+            listenCount2,
+            ethers.parseEther('2.0'),
+            ethers.ZeroAddress
+          ),
           {
             value: ethers.parseEther('2.0'),
           }
@@ -514,10 +587,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          1,
-          listenCount1,
-          ethers.parseEther('1.0'),
+          await listenReport(
+            musicNFT.target,
+            1,
+            listenCount1,
+            ethers.parseEther('1.0'),
+            ethers.ZeroAddress
+          ),
           {
             value: ethers.parseEther('1.0'),
           }
@@ -526,10 +602,13 @@ describe('NFTStreaming', function () {
       await streaming
         .connect(listener)
         .recordBatchListens(
-          musicNFT.target,
-          2,
-          listenCount2,
-          ethers.parseEther('2.0'),
+          await listenReport(
+            musicNFT.target,
+            2,
+            listenCount2,
+            ethers.parseEther('2.0'),
+            ethers.ZeroAddress
+          ),
           {
             value: ethers.parseEther('2.0'),
           }
@@ -574,28 +653,1719 @@ describe('NFTStreaming', function () {
       const paymentAmount = ethers.parseEther('1.0');
       await streaming
         .connect(listener)
-        .recordBatchListens(musicNFT.target, 1, listenCount, paymentAmount, {
-          value: paymentAmount,
-        });
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            1,
+            listenCount,
+            paymentAmount,
+            ethers.ZeroAddress
+          ),
+          {
+            value: paymentAmount,
+          }
+        );
 
       // Check creator payments
-      const creatorPayment = await streaming.getPendingPayment(creator.address);
+      const creatorPayment = await streaming.getPendingPayment(
+        creator.address,
+        ethers.ZeroAddress
+      );
       expect(creatorPayment).to.be.gt(0);
 
       // Check owner payments
-      const ownerPayment = await streaming.getPendingPayment(newOwner.address);
+      const ownerPayment = await streaming.getPendingPayment(
+        newOwner.address,
+        ethers.ZeroAddress
+      );
       expect(ownerPayment).to.be.gt(0);
 
       // After one party withdraws, their payment should be zero
-      await streaming.connect(creator).withdrawPayments();
-      expect(await streaming.getPendingPayment(creator.address)).to.equal(0);
-      expect(await streaming.getPendingPayment(newOwner.address)).to.equal(
-        ownerPayment
-      );
+      await streaming.connect(creator).withdrawPayments(ethers.ZeroAddress);
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(0);
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(ownerPayment);
 
       // After all withdrawals, all payments should be zero
-      await streaming.connect(newOwner).withdrawPayments();
-      expect(await streaming.getPendingPayment(newOwner.address)).to.equal(0);
+      await streaming.connect(newOwner).withdrawPayments(ethers.ZeroAddress);
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(0);
+    });
+  });
+
+  describe('ERC-20 Payments', function () {
+    it('Should pull token payments and split them like ETH payments', async function () {
+      const {
+        streaming,
+        musicNFT,
+        paymentToken,
+        creator,
+        listener,
+        newOwner,
+        tokenId,
+        streamingRoyaltyPercentage,
+      } = await loadFixture(deployStreamingFixture);
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, newOwner.address, tokenId);
+
+      const amount = ethers.parseEther('50');
+      await paymentToken.connect(listener).approve(streaming.target, amount);
+
+      const recordTx = streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            10,
+            amount,
+            paymentToken.target
+          )
+        );
+      await expect(recordTx)
+        .to.emit(streaming, 'BatchListensRecorded')
+        .withArgs(musicNFT.target, tokenId, 10, amount, paymentToken.target);
+      await expect(recordTx).to.changeTokenBalances(
+        paymentToken,
+        [listener, streaming],
+        [-amount, amount]
+      );
+
+      const royaltyAmount =
+        (amount * BigInt(streamingRoyaltyPercentage)) / 10000n;
+      expect(
+        await streaming.getPendingPayment(newOwner.address, paymentToken.target)
+      ).to.equal(royaltyAmount);
+      expect(
+        await streaming.getPendingPayment(creator.address, paymentToken.target)
+      ).to.equal(amount - royaltyAmount);
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(0);
+
+      await expect(
+        streaming.connect(creator).withdrawPayments(paymentToken.target)
+      ).to.changeTokenBalance(paymentToken, creator, amount - royaltyAmount);
+    });
+
+    it('Should revert for currencies that are not allow-listed', async function () {
+      const { streaming, musicNFT, paymentToken, listener, tokenId } =
+        await loadFixture(deployStreamingFixture);
+      await streaming.setCurrencyAllowed(paymentToken.target, false);
+
+      await expect(
+        streaming
+          .connect(listener)
+          .recordBatchListens(
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              1,
+              1,
+              paymentToken.target
+            )
+          )
+      )
+        .to.be.revertedWithCustomError(streaming, 'CurrencyNotAllowed')
+        .withArgs(paymentToken.target);
+    });
+
+    it('Should reject ETH sent with a token payment', async function () {
+      const { streaming, musicNFT, paymentToken, listener, tokenId } =
+        await loadFixture(deployStreamingFixture);
+      await paymentToken.connect(listener).approve(streaming.target, 1);
+
+      await expect(
+        streaming
+          .connect(listener)
+          .recordBatchListens(
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              1,
+              1,
+              paymentToken.target
+            ),
+            { value: 1 }
+          )
+      ).to.be.revertedWithCustomError(streaming, 'NativePaymentNotAccepted');
+    });
+  });
+
+  describe('Royalty Splits', function () {
+    it("Should divide the creator's part among collaborators", async function () {
+      const { streaming, musicNFT, creator, listener, newOwner } =
+        await loadFixture(deployStreamingFixture);
+      const [, , , , producer] = await hre.ethers.getSigners();
+
+      await musicNFT
+        .connect(creator)
+        .mintNFTWithSplits(
+          'uri2',
+          500,
+          2000,
+          [creator.address, producer.address],
+          [7000, 3000]
+        );
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, newOwner.address, 2);
+
+      const amount = ethers.parseEther('1.0');
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            2,
+            100,
+            amount,
+            ethers.ZeroAddress
+          ),
+          { value: amount }
+        );
+
+      const ownerRoyalty = (amount * 2000n) / 10000n;
+      const creatorsPart = amount - ownerRoyalty;
+
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(ownerRoyalty);
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal((creatorsPart * 7000n) / 10000n);
+      expect(
+        await streaming.getPendingPayment(producer.address, ethers.ZeroAddress)
+      ).to.equal((creatorsPart * 3000n) / 10000n);
+    });
+  });
+
+  describe('Pausing', function () {
+    it('Should block listen recording while paused', async function () {
+      const { streaming, musicNFT, owner, listener, tokenId } =
+        await loadFixture(deployStreamingFixture);
+      const amount = ethers.parseEther('0.1');
+
+      await expect(streaming.pause())
+        .to.emit(streaming, 'Paused')
+        .withArgs(owner.address);
+      await expect(
+        streaming
+          .connect(listener)
+          .recordBatchListens(
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              1,
+              amount,
+              ethers.ZeroAddress
+            ),
+            { value: amount }
+          )
+      ).to.be.revertedWithCustomError(streaming, 'EnforcedPause');
+
+      await expect(streaming.unpause())
+        .to.emit(streaming, 'Unpaused')
+        .withArgs(owner.address);
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            1,
+            amount,
+            ethers.ZeroAddress
+          ),
+          { value: amount }
+        );
+      expect(await streaming.getListenCount(musicNFT.target, tokenId)).to.equal(
+        1
+      );
+    });
+
+    it('Should keep withdrawals working while paused', async function () {
+      const { streaming, musicNFT, creator, listener, tokenId } =
+        await loadFixture(deployStreamingFixture);
+      const amount = ethers.parseEther('0.1');
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            1,
+            amount,
+            ethers.ZeroAddress
+          ),
+          { value: amount }
+        );
+
+      await streaming.pause();
+
+      await expect(
+        streaming.connect(creator).withdrawPayments(ethers.ZeroAddress)
+      ).to.changeEtherBalance(creator, amount);
+    });
+
+    it('Should only let the owner pause', async function () {
+      const { streaming, listener } = await loadFixture(deployStreamingFixture);
+
+      await expect(
+        streaming.connect(listener).pause()
+      ).to.be.revertedWithCustomError(streaming, 'OwnableUnauthorizedAccount');
+    });
+  });
+
+  describe('Listen Reports', function () {
+    it('Should only accept reports from authorized reporters', async function () {
+      const { streaming, musicNFT, owner, newOwner, tokenId } =
+        await loadFixture(deployStreamingFixture);
+
+      await expect(
+        streaming
+          .connect(newOwner)
+          .recordBatchListens(
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              1,
+              1,
+              ethers.ZeroAddress
+            ),
+            { value: 1 }
+          )
+      )
+        .to.be.revertedWithCustomError(streaming, 'UnauthorizedReporter')
+        .withArgs(newOwner.address);
+
+      await expect(
+        streaming.connect(newOwner).addReporter(newOwner.address)
+      ).to.be.revertedWithCustomError(streaming, 'OwnableUnauthorizedAccount');
+
+      await expect(streaming.connect(owner).addReporter(newOwner.address))
+        .to.emit(streaming, 'ReporterAdded')
+        .withArgs(newOwner.address);
+      expect(await streaming.authorizedReporters(newOwner.address)).to.be.true;
+    });
+
+    it('Should reject reports from revoked reporters', async function () {
+      const { streaming, musicNFT, listener, tokenId } = await loadFixture(
+        deployStreamingFixture
+      );
+
+      await expect(streaming.revokeReporter(listener.address))
+        .to.emit(streaming, 'ReporterRevoked')
+        .withArgs(listener.address);
+
+      await expect(
+        streaming
+          .connect(listener)
+          .recordBatchListens(
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              1,
+              1,
+              ethers.ZeroAddress
+            ),
+            { value: 1 }
+          )
+      ).to.be.revertedWithCustomError(streaming, 'UnauthorizedReporter');
+    });
+
+    it('Should require the amount to equal count times rate', async function () {
+      const { streaming, musicNFT, listener, tokenId } = await loadFixture(
+        deployStreamingFixture
+      );
+      const report = {
+        ...(await listenReport(
+          musicNFT.target,
+          tokenId,
+          10,
+          1000,
+          ethers.ZeroAddress
+        )),
+        amount: 0,
+      };
+
+      await expect(streaming.connect(listener).recordBatchListens(report))
+        .to.be.revertedWithCustomError(streaming, 'InvalidListenAmount')
+        .withArgs(0, 1000);
+
+      await expect(
+        streaming.connect(listener).recordBatchListens({ ...report, rate: 0 })
+      ).to.be.revertedWithCustomError(streaming, 'InvalidListenRate');
+    });
+
+    it('Should reject reports for future periods', async function () {
+      const { streaming, musicNFT, listener, tokenId } = await loadFixture(
+        deployStreamingFixture
+      );
+      const period = (await streaming.currentPeriod()) + 1n;
+
+      await expect(
+        streaming.connect(listener).recordBatchListens(
+          {
+            ...(await listenReport(
+              musicNFT.target,
+              tokenId,
+              1,
+              1,
+              ethers.ZeroAddress
+            )),
+            period,
+          },
+          { value: 1 }
+        )
+      )
+        .to.be.revertedWithCustomError(streaming, 'InvalidReportPeriod')
+        .withArgs(period);
+    });
+
+    it('Should not accept a report nonce twice', async function () {
+      const { streaming, musicNFT, listener, tokenId } = await loadFixture(
+        deployStreamingFixture
+      );
+      const report = await listenReport(
+        musicNFT.target,
+        tokenId,
+        5,
+        500,
+        ethers.ZeroAddress
+      );
+
+      await expect(
+        streaming.connect(listener).recordBatchListens(report, { value: 500 })
+      )
+        .to.emit(streaming, 'ListenReportAccepted')
+        .withArgs(listener.address, report.period, report.nonce, 100);
+      expect(await streaming.isReportNonceUsed(listener.address, report.nonce))
+        .to.be.true;
+
+      await expect(
+        streaming.connect(listener).recordBatchListens(report, { value: 500 })
+      )
+        .to.be.revertedWithCustomError(streaming, 'ReportNonceUsed')
+        .withArgs(listener.address, report.nonce);
+    });
+
+    it('Should let any relayer submit a signed report', async function () {
+      const { streaming, musicNFT, creator, listener, newOwner, tokenId } =
+        await loadFixture(deployStreamingFixture);
+      const { report, signature } = await signListenReport(
+        listener,
+        await streaming.getAddress(),
+        await listenReport(
+          musicNFT.target,
+          tokenId,
+          20,
+          2000,
+          ethers.ZeroAddress
+        )
+      );
+
+      await expect(
+        streaming
+          .connect(newOwner)
+          .submitListenReport(report, signature, { value: 2000 })
+      )
+        .to.emit(streaming, 'ListenReportAccepted')
+        .withArgs(listener.address, report.period, report.nonce, 100)
+        .and.to.emit(streaming, 'BatchListensRecorded');
+
+      expect(await streaming.getListenCount(musicNFT.target, tokenId)).to.equal(
+        20
+      );
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(2000);
+    });
+
+    it('Should reject signed reports from unauthorized or tampered signers', async function () {
+      const { streaming, musicNFT, listener, newOwner, tokenId } =
+        await loadFixture(deployStreamingFixture);
+      const streamingAddress = await streaming.getAddress();
+      const report = await listenReport(
+        musicNFT.target,
+        tokenId,
+        20,
+        2000,
+        ethers.ZeroAddress
+      );
+
+      const forged = await signListenReport(newOwner, streamingAddress, report);
+      await expect(
+        streaming.submitListenReport(report, forged.signature, { value: 2000 })
+      )
+        .to.be.revertedWithCustomError(streaming, 'UnauthorizedReporter')
+        .withArgs(newOwner.address);
+
+      const signed = await signListenReport(listener, streamingAddress, report);
+      await expect(
+        streaming.submitListenReport(
+          { ...report, count: 200, amount: 20000 },
+          signed.signature,
+          { value: 20000 }
+        )
+      ).to.be.revertedWithCustomError(streaming, 'UnauthorizedReporter');
+    });
+
+    it('Should cap the listens accepted per token and period', async function () {
+      const { streaming, musicNFT, listener, tokenId } = await loadFixture(
+        deployStreamingFixture
+      );
+
+      await expect(streaming.setListenCapPerPeriod(100))
+        .to.emit(streaming, 'ListenCapUpdated')
+        .withArgs(0, 100);
+
+      const report = await listenReport(
+        musicNFT.target,
+        tokenId,
+        80,
+        80,
+        ethers.ZeroAddress
+      );
+      await streaming
+        .connect(listener)
+        .recordBatchListens(report, { value: 80 });
+
+      await expect(
+        streaming
+          .connect(listener)
+          .recordBatchListens(
+            await listenReport(
+              musicNFT.target,
+              tokenId,
+              30,
+              30,
+              ethers.ZeroAddress
+            ),
+            { value: 30 }
+          )
+      )
+        .to.be.revertedWithCustomError(streaming, 'ListenCapExceeded')
+        .withArgs(musicNFT.target, tokenId, report.period, 100);
+      expect(
+        await streaming.getPeriodListenCount(
+          musicNFT.target,
+          tokenId,
+          report.period
+        )
+      ).to.equal(80);
+
+      // The next period starts with a fresh allowance
+      await time.increase(24 * 60 * 60);
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            30,
+            30,
+            ethers.ZeroAddress
+          ),
+          { value: 30 }
+        );
+      expect(await streaming.getListenCount(musicNFT.target, tokenId)).to.equal(
+        110
+      );
+    });
+  });
+
+  describe('Batch Settlement', function () {
+    async function deployBatchFixture() {
+      const fixture = await deployStreamingFixture();
+      const { musicNFT, creator, newOwner } = fixture;
+
+      await musicNFT.connect(creator).mintNFT('uri2', 500, 1000);
+      await musicNFT
+        .connect(newOwner)
+        .mintNFTWithSplits(
+          'uri3',
+          500,
+          0,
+          [newOwner.address, creator.address],
+          [7000, 3000]
+        );
+
+      return fixture;
+    }
+
+    it('Should settle reports for several tokens in one transaction', async function () {
+      const { streaming, musicNFT, creator, listener, newOwner } =
+        await loadFixture(deployBatchFixture);
+      const reports = [
+        await listenReport(musicNFT.target, 1, 100, 10000, ethers.ZeroAddress),
+        await listenReport(musicNFT.target, 2, 50, 5000, ethers.ZeroAddress),
+        await listenReport(musicNFT.target, 3, 10, 1000, ethers.ZeroAddress),
+      ];
+
+      const settlement = streaming
+        .connect(listener)
+        .settleListenReports(reports, false, { value: 20000 });
+      await expect(settlement)
+        .to.emit(streaming, 'ListenReportsSettled')
+        .withArgs(listener.address, 3, 0, 160, 16000);
+      await expect(settlement).to.changeEtherBalance(listener, -16000);
+
+      expect(await streaming.getListenCount(musicNFT.target, 1)).to.equal(100);
+      expect(await streaming.getListenCount(musicNFT.target, 2)).to.equal(50);
+      expect(await streaming.getListenCount(musicNFT.target, 3)).to.equal(10);
+
+      // Token 3 pays no streaming royalty and splits 70/30 between creators
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(10000 + 5000 + 300);
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(700);
+    });
+
+    it('Should revert when the value does not cover the sum', async function () {
+      const { streaming, musicNFT, listener } = await loadFixture(
+        deployBatchFixture
+      );
+      const reports = [
+        await listenReport(musicNFT.target, 1, 10, 1000, ethers.ZeroAddress),
+        await listenReport(musicNFT.target, 2, 10, 1000, ethers.ZeroAddress),
+      ];
+
+      await expect(
+        streaming
+          .connect(listener)
+          .settleListenReports(reports, false, { value: 1999 })
+      ).to.be.revertedWithCustomError(streaming, 'InsufficientPayment');
+    });
+
+    it('Should fail or skip nonexistent tokens depending on the mode', async function () {
+      const { streaming, musicNFT, listener } = await loadFixture(
+        deployBatchFixture
+      );
+      const reports = [
+        await listenReport(musicNFT.target, 1, 10, 1000, ethers.ZeroAddress),
+        await listenReport(musicNFT.target, 99, 10, 1000, ethers.ZeroAddress),
+      ];
+
+      await expect(
+        streaming
+          .connect(listener)
+          .settleListenReports(reports, false, { value: 2000 })
+      )
+        .to.be.revertedWithCustomError(streaming, 'NonexistentToken')
+        .withArgs(musicNFT.target, 99);
+
+      const settlement = streaming
+        .connect(listener)
+        .settleListenReports(reports, true, { value: 2000 });
+      await expect(settlement)
+        .to.emit(streaming, 'ListenReportSkipped')
+        .withArgs(musicNFT.target, 99, reports[1].nonce)
+        .and.to.emit(streaming, 'ListenReportsSettled')
+        .withArgs(listener.address, 1, 1, 10, 1000);
+      await expect(settlement).to.changeEtherBalance(listener, -1000);
+
+      expect(
+        await streaming.isReportNonceUsed(listener.address, reports[1].nonce)
+      ).to.be.false;
+    });
+
+    it('Should validate every report like single reports', async function () {
+      const { streaming, musicNFT, listener, newOwner } = await loadFixture(
+        deployBatchFixture
+      );
+      const report = await listenReport(
+        musicNFT.target,
+        1,
+        10,
+        1000,
+        ethers.ZeroAddress
+      );
+
+      await expect(
+        streaming
+          .connect(newOwner)
+          .settleListenReports([report], false, { value: 1000 })
+      ).to.be.revertedWithCustomError(streaming, 'UnauthorizedReporter');
+
+      await expect(
+        streaming
+          .connect(listener)
+          .settleListenReports([report, report], false, { value: 2000 })
+      ).to.be.revertedWithCustomError(streaming, 'ReportNonceUsed');
+
+      await expect(
+        streaming
+          .connect(listener)
+          .settleListenReports([{ ...report, amount: 999 }], false, {
+            value: 1000,
+          })
+      ).to.be.revertedWithCustomError(streaming, 'InvalidListenAmount');
+    });
+
+    it('Should settle ETH and ERC-20 reports together', async function () {
+      const { streaming, musicNFT, paymentToken, creator, listener } =
+        await loadFixture(deployBatchFixture);
+      const reports = [
+        await listenReport(musicNFT.target, 1, 10, 1000, ethers.ZeroAddress),
+        await listenReport(musicNFT.target, 2, 10, 5000, paymentToken.target),
+      ];
+      await paymentToken.connect(listener).approve(streaming.target, 5000);
+
+      const settlement = streaming
+        .connect(listener)
+        .settleListenReports(reports, false, { value: 1000 });
+      await expect(settlement)
+        .to.emit(streaming, 'ListenReportsSettled')
+        .withArgs(listener.address, 2, 0, 20, 1000);
+      await expect(settlement).to.changeTokenBalances(
+        paymentToken,
+        [listener, streaming],
+        [-5000, 5000]
+      );
+
+      expect(
+        await streaming.getPendingPayment(creator.address, paymentToken.target)
+      ).to.equal(5000);
+    });
+
+    it('Should use less gas than separate calls', async function () {
+      const { streaming, musicNFT, creator, listener } = await loadFixture(
+        deployBatchFixture
+      );
+      const tokenCount = 20;
+      for (let i = 4; i <= tokenCount; i++) {
+        await musicNFT.connect(creator).mintNFT(`uri${i}`, 500, 1000);
+      }
+      const reports = [];
+      for (let tokenId = 1; tokenId <= tokenCount; tokenId++) {
+        reports.push(
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            10,
+            1000,
+            ethers.ZeroAddress
+          )
+        );
+      }
+
+      const snapshot = await takeSnapshot();
+      let separateGas = 0n;
+      for (const report of reports) {
+        const tx = await streaming
+          .connect(listener)
+          .recordBatchListens(report, { value: report.amount });
+        separateGas += (await tx.wait())!.gasUsed;
+      }
+      await snapshot.restore();
+
+      const tx = await streaming
+        .connect(listener)
+        .settleListenReports(reports, false, { value: 1000 * tokenCount });
+      const batchGas = (await tx.wait())!.gasUsed;
+
+      console.log(
+        `      ${tokenCount} tokens: ${separateGas} gas in separate calls, ${batchGas} gas in one batch`
+      );
+      expect(batchGas).to.be.lessThan(separateGas);
+    });
+  });
+
+  describe('Listen Windows', function () {
+    async function deployWindowFixture() {
+      const fixture = await deployStreamingFixture();
+      const { streaming, musicNFT, creator, newOwner, listener } = fixture;
+
+      await musicNFT.connect(creator).mintNFT('uri2', 500, 1000);
+      await musicNFT.connect(newOwner).mintNFT('uri3', 500, 1000);
+      await musicNFT.connect(creator).mintNFT('uri4', 500, 1000);
+
+      const today = await streaming.currentPeriod();
+      // [tokenId, listens, days ago]
+      const listens: [number, number, bigint][] = [
+        [1, 500, 20n],
+        [1, 10, 2n],
+        [2, 30, 6n],
+        [3, 25, 1n],
+        [4, 5, 0n],
+        [2, 10, 0n],
+        [3, 20, 0n],
+      ];
+      for (const [tokenId, count, daysAgo] of listens) {
+        const report = await listenReport(
+          musicNFT.target,
+          tokenId,
+          count,
+          count,
+          ethers.ZeroAddress
+        );
+        await streaming
+          .connect(listener)
+          .recordBatchListens(
+            { ...report, period: today - daysAgo },
+            { value: count }
+          );
+      }
+
+      return { ...fixture, today };
+    }
+
+    it('Should bucket listens by reporting period', async function () {
+      const { streaming, musicNFT, today } = await loadFixture(
+        deployWindowFixture
+      );
+
+      expect(
+        await streaming.getPeriodListenCount(musicNFT.target, 1, today - 20n)
+      ).to.equal(500);
+      expect(
+        await streaming.getListenCountInRange(
+          musicNFT.target,
+          1,
+          today - 6n,
+          today
+        )
+      ).to.equal(10);
+      expect(
+        await streaming.getListenCountInRange(
+          musicNFT.target,
+          1,
+          today - 30n,
+          today
+        )
+      ).to.equal(await streaming.getListenCount(musicNFT.target, 1));
+      expect(
+        await streaming.getTokensListenedInPeriod(musicNFT.target, today)
+      ).to.deep.equal([4n, 2n, 3n]);
+
+      await expect(
+        streaming.getListenCountInRange(musicNFT.target, 1, today, today - 1n)
+      )
+        .to.be.revertedWithCustomError(streaming, 'InvalidPeriodRange')
+        .withArgs(today, today - 1n);
+    });
+
+    it('Should return the top tokens of a window', async function () {
+      const { streaming, musicNFT, today } = await loadFixture(
+        deployWindowFixture
+      );
+
+      // Tokens 2 and 3 were listened on several days of the week
+      const [tokenIds, listenCounts] =
+        await streaming.getTopListenedTokensInWindow(
+          musicNFT.target,
+          today - 6n,
+          today,
+          3
+        );
+      expect(tokenIds).to.deep.equal([3n, 2n, 1n]);
+      expect(listenCounts).to.deep.equal([45n, 40n, 10n]);
+
+      const [todayIds, todayCounts] =
+        await streaming.getTopListenedTokensInWindow(
+          musicNFT.target,
+          today,
+          today,
+          10
+        );
+      expect(todayIds).to.deep.equal([3n, 2n, 4n]);
+      expect(todayCounts).to.deep.equal([20n, 10n, 5n]);
+
+      const [allTimeIds] = await streaming.getTopListenedTokens(
+        musicNFT.target,
+        1
+      );
+      expect(allTimeIds).to.deep.equal([1n]);
+    });
+
+    it('Should return an empty ranking for a window without listens', async function () {
+      const { streaming, musicNFT, today } = await loadFixture(
+        deployWindowFixture
+      );
+
+      const [tokenIds, listenCounts] =
+        await streaming.getTopListenedTokensInWindow(
+          musicNFT.target,
+          today - 19n,
+          today - 7n,
+          5
+        );
+      expect(tokenIds).to.deep.equal([]);
+      expect(listenCounts).to.deep.equal([]);
+    });
+
+    it('Should report creator listens per period', async function () {
+      const { streaming, musicNFT, creator, today } = await loadFixture(
+        deployWindowFixture
+      );
+
+      expect(
+        await streaming.getCreatorListensByPeriod(
+          musicNFT.target,
+          creator.address,
+          today - 2n,
+          today
+        )
+      ).to.deep.equal([10n, 0n, 15n]);
+
+      const [tokenIds, listenCounts] =
+        await streaming.getListenDataByCreatorInRange(
+          musicNFT.target,
+          creator.address,
+          today - 6n,
+          today
+        );
+      expect(tokenIds).to.deep.equal([1n, 2n, 4n]);
+      expect(listenCounts).to.deep.equal([10n, 40n, 5n]);
+    });
+  });
+
+  describe('Escrowed Tokens', function () {
+    // newOwner buys the token from the creator and lists it, so that the
+    // owner royalty and the creator share go to different accounts
+    async function deployEscrowFixture() {
+      const fixture = await deployStreamingFixture();
+      const { streaming, musicNFT, creator, newOwner, tokenId } = fixture;
+
+      const marketplace = await hre.ethers.deployContract('NFTMarketplace');
+      await streaming.setEscrowContract(marketplace.target, true);
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, newOwner.address, tokenId);
+      await musicNFT
+        .connect(newOwner)
+        .setApprovalForAll(marketplace.target, true);
+
+      return { ...fixture, marketplace };
+    }
+
+    async function recordListens(
+      fixture: Awaited<ReturnType<typeof deployEscrowFixture>>,
+      amount = ethers.parseEther('1.0')
+    ) {
+      const { streaming, musicNFT, listener, tokenId } = fixture;
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(
+            musicNFT.target,
+            tokenId,
+            100,
+            amount,
+            ethers.ZeroAddress
+          ),
+          { value: amount }
+        );
+      return (amount * BigInt(fixture.streamingRoyaltyPercentage)) / 10000n;
+    }
+
+    it('Should let the owner register escrow contracts', async function () {
+      const { streaming, listener } = await loadFixture(deployStreamingFixture);
+
+      await expect(streaming.setEscrowContract(listener.address, true))
+        .to.emit(streaming, 'EscrowContractUpdated')
+        .withArgs(listener.address, true);
+      expect(await streaming.escrowContracts(listener.address)).to.be.true;
+
+      await streaming.setEscrowContract(listener.address, false);
+      expect(await streaming.escrowContracts(listener.address)).to.be.false;
+
+      await expect(
+        streaming.connect(listener).setEscrowContract(listener.address, true)
+      ).to.be.revertedWithCustomError(streaming, 'OwnableUnauthorizedAccount');
+    });
+
+    it('Should credit the seller of an escrowed listing', async function () {
+      const fixture = await loadFixture(deployEscrowFixture);
+      const { streaming, marketplace, musicNFT, creator, newOwner, tokenId } =
+        fixture;
+      await marketplace
+        .connect(newOwner)
+        .createListing(
+          musicNFT.target,
+          tokenId,
+          ethers.parseEther('1.0'),
+          ethers.ZeroAddress,
+          0
+        );
+      expect(
+        await marketplace.getEscrowedTokenSeller(musicNFT.target, tokenId)
+      ).to.equal(newOwner.address);
+
+      const royalty = await recordListens(fixture);
+
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(royalty);
+      expect(
+        await streaming.getPendingPayment(
+          marketplace.target,
+          ethers.ZeroAddress
+        )
+      ).to.equal(0);
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(ethers.parseEther('1.0') - royalty);
+    });
+
+    it('Should credit the seller of an escrowed auction', async function () {
+      const fixture = await loadFixture(deployEscrowFixture);
+      const { streaming, marketplace, musicNFT, newOwner, tokenId } = fixture;
+      await marketplace
+        .connect(newOwner)
+        .createEnglishAuction(
+          musicNFT.target,
+          tokenId,
+          ethers.parseEther('1.0'),
+          ethers.parseEther('0.1'),
+          24 * 60 * 60
+        );
+
+      const royalty = await recordListens(fixture);
+
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(royalty);
+    });
+
+    it('Should credit the buyer once the listing is sold', async function () {
+      const fixture = await loadFixture(deployEscrowFixture);
+      const { streaming, marketplace, musicNFT, owner, newOwner, tokenId } =
+        fixture;
+      const price = ethers.parseEther('1.0');
+      await marketplace
+        .connect(newOwner)
+        .createListing(musicNFT.target, tokenId, price, ethers.ZeroAddress, 0);
+      await marketplace.connect(owner).buyNFT(1, price, { value: price });
+
+      expect(
+        await marketplace.getEscrowedTokenSeller(musicNFT.target, tokenId)
+      ).to.equal(ethers.ZeroAddress);
+
+      const royalty = await recordListens(fixture);
+
+      expect(
+        await streaming.getPendingPayment(owner.address, ethers.ZeroAddress)
+      ).to.equal(royalty);
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(0);
+    });
+
+    it('Should credit the token holder when the escrow is not registered', async function () {
+      const fixture = await loadFixture(deployEscrowFixture);
+      const { streaming, marketplace, musicNFT, newOwner, tokenId } = fixture;
+      await streaming.setEscrowContract(marketplace.target, false);
+      await marketplace
+        .connect(newOwner)
+        .createListing(
+          musicNFT.target,
+          tokenId,
+          ethers.parseEther('1.0'),
+          ethers.ZeroAddress,
+          0
+        );
+
+      const royalty = await recordListens(fixture);
+
+      expect(
+        await streaming.getPendingPayment(
+          marketplace.target,
+          ethers.ZeroAddress
+        )
+      ).to.equal(royalty);
+    });
+
+    it('Should credit a registered escrow that holds a token without a seller', async function () {
+      const fixture = await loadFixture(deployEscrowFixture);
+      const { streaming, marketplace, musicNFT, newOwner, tokenId } = fixture;
+      await musicNFT
+        .connect(newOwner)
+        ['safeTransferFrom(address,address,uint256)'](
+          newOwner.address,
+          marketplace.target,
+          tokenId
+        );
+
+      const royalty = await recordListens(fixture);
+
+      expect(
+        await streaming.getPendingPayment(
+          marketplace.target,
+          ethers.ZeroAddress
+        )
+      ).to.equal(royalty);
+    });
+  });
+
+  describe('Album Listens', function () {
+    async function deployAlbumFixture() {
+      const fixture = await deployStreamingFixture();
+      const { streaming, musicNFT, creator, listener } = fixture;
+
+      // Token 1 stays a single, tokens 2 to 4 form album 1
+      await musicNFT
+        .connect(creator)
+        .mintAlbum('album-uri', ['t2', 't3', 't4'], 500, 1000);
+
+      const today = await streaming.currentPeriod();
+      // [tokenId, listens, days ago]
+      const listens: [number, number, bigint][] = [
+        [1, 100, 0n],
+        [2, 10, 3n],
+        [3, 20, 1n],
+        [4, 5, 0n],
+      ];
+      for (const [tokenId, count, daysAgo] of listens) {
+        const report = await listenReport(
+          musicNFT.target,
+          tokenId,
+          count,
+          count,
+          ethers.ZeroAddress
+        );
+        await streaming
+          .connect(listener)
+          .recordBatchListens(
+            { ...report, period: today - daysAgo },
+            { value: count }
+          );
+      }
+
+      return { ...fixture, today };
+    }
+
+    it('Should aggregate the listens of all tracks of an album', async function () {
+      const { streaming, musicNFT } = await loadFixture(deployAlbumFixture);
+
+      const data = await streaming.getAlbumListenData(musicNFT.target, 1);
+      expect(data.tokenIds).to.deep.equal([2n, 3n, 4n]);
+      expect(data.listenCounts).to.deep.equal([10n, 20n, 5n]);
+      expect(data.totalListens).to.equal(35);
+    });
+
+    it('Should follow the track order of the album', async function () {
+      const { streaming, musicNFT, creator } = await loadFixture(
+        deployAlbumFixture
+      );
+      await musicNFT.connect(creator).setAlbumTrackOrder(1, [4, 2, 3]);
+
+      const data = await streaming.getAlbumListenData(musicNFT.target, 1);
+      expect(data.tokenIds).to.deep.equal([4n, 2n, 3n]);
+      expect(data.listenCounts).to.deep.equal([5n, 10n, 20n]);
+    });
+
+    it('Should sum the album listens over a range of periods', async function () {
+      const { streaming, musicNFT, today } = await loadFixture(
+        deployAlbumFixture
+      );
+
+      expect(
+        await streaming.getAlbumListenCountInRange(
+          musicNFT.target,
+          1,
+          today - 1n,
+          today
+        )
+      ).to.equal(25);
+      await expect(
+        streaming.getAlbumListenCountInRange(
+          musicNFT.target,
+          1,
+          today,
+          today - 1n
+        )
+      )
+        .to.be.revertedWithCustomError(streaming, 'InvalidPeriodRange')
+        .withArgs(today, today - 1n);
+    });
+
+    it('Should bubble up unknown albums', async function () {
+      const { streaming, musicNFT } = await loadFixture(deployAlbumFixture);
+
+      await expect(streaming.getAlbumListenData(musicNFT.target, 2))
+        .to.be.revertedWithCustomError(musicNFT, 'AlbumNotFound')
+        .withArgs(2);
+    });
+
+    it('Should reject contracts without albums', async function () {
+      const { streaming } = await loadFixture(deployAlbumFixture);
+      const MockERC20 = await hre.ethers.getContractFactory('MockERC20');
+      const notMusic = await MockERC20.deploy('Mock', 'M');
+
+      await expect(streaming.getAlbumListenData(notMusic.target, 1))
+        .to.be.revertedWithCustomError(streaming, 'UnsupportedNFTContract')
+        .withArgs(notMusic.target);
+    });
+  });
+
+  describe('Editions', function () {
+    // Edition 1 has 100 copies with a 30% streaming royalty for the holders,
+    // 75 held by the creator and 25 by the new owner
+    async function deployEditionFixture() {
+      const fixture = await deployStreamingFixture();
+      const { streaming, creator, newOwner } = fixture;
+
+      const MusicEditions = await hre.ethers.getContractFactory(
+        'MusicEditions'
+      );
+      const editions = await MusicEditions.deploy();
+      await editions.setRoyaltyDepositor(streaming.target, true);
+      await streaming.setEditionContract(editions.target, true);
+
+      await editions.connect(creator).createEdition('uri', 100, 100, 500, 3000);
+      await editions
+        .connect(creator)
+        .safeTransferFrom(creator.address, newOwner.address, 1, 25, '0x');
+
+      return { ...fixture, editions };
+    }
+
+    it('Should register edition contracts', async function () {
+      const { streaming, editions, listener } = await loadFixture(
+        deployEditionFixture
+      );
+
+      expect(await streaming.editionContracts(editions.target)).to.be.true;
+      await expect(streaming.setEditionContract(editions.target, false))
+        .to.emit(streaming, 'EditionContractUpdated')
+        .withArgs(editions.target, false);
+      await expect(
+        streaming.connect(listener).setEditionContract(editions.target, true)
+      ).to.be.revertedWithCustomError(streaming, 'OwnableUnauthorizedAccount');
+    });
+
+    it('Should share the holder royalty by copies held', async function () {
+      const { streaming, editions, creator, newOwner, listener } =
+        await loadFixture(deployEditionFixture);
+      const report = await listenReport(
+        editions.target,
+        1,
+        100,
+        10000,
+        ethers.ZeroAddress
+      );
+
+      await expect(
+        streaming.connect(listener).recordBatchListens(report, { value: 10000 })
+      )
+        .to.emit(editions, 'HolderRoyaltiesDeposited')
+        .withArgs(1, ethers.ZeroAddress, 3000);
+
+      // The creator keeps the remaining 70% besides their holder share
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(7000);
+      expect(
+        await editions.getClaimableHolderRoyalties(
+          1,
+          creator.address,
+          ethers.ZeroAddress
+        )
+      ).to.equal(2250);
+      expect(
+        await editions.getClaimableHolderRoyalties(
+          1,
+          newOwner.address,
+          ethers.ZeroAddress
+        )
+      ).to.equal(750);
+      expect(await streaming.getListenCount(editions.target, 1)).to.equal(100);
+    });
+
+    it('Should credit everything to the creator when the edition pays the creator', async function () {
+      const { streaming, editions, creator, newOwner, listener } =
+        await loadFixture(deployEditionFixture);
+      await editions.connect(creator).setStreamingPayout(1, 1);
+      const report = await listenReport(
+        editions.target,
+        1,
+        100,
+        10000,
+        ethers.ZeroAddress
+      );
+
+      await streaming
+        .connect(listener)
+        .recordBatchListens(report, { value: 10000 });
+
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(10000);
+      expect(
+        await editions.getClaimableHolderRoyalties(
+          1,
+          newOwner.address,
+          ethers.ZeroAddress
+        )
+      ).to.equal(0);
+    });
+
+    it('Should deposit ERC-20 holder royalties', async function () {
+      const { streaming, editions, paymentToken, creator, newOwner, listener } =
+        await loadFixture(deployEditionFixture);
+      const report = await listenReport(
+        editions.target,
+        1,
+        10,
+        1000,
+        paymentToken.target
+      );
+      await paymentToken.connect(listener).approve(streaming.target, 1000);
+
+      await streaming.connect(listener).recordBatchListens(report);
+
+      expect(
+        await streaming.getPendingPayment(creator.address, paymentToken.target)
+      ).to.equal(700);
+      expect(await paymentToken.balanceOf(editions.target)).to.equal(300);
+      await expect(
+        editions.connect(newOwner).claimHolderRoyalties(1, paymentToken.target)
+      ).to.changeTokenBalance(paymentToken, newOwner, 75);
+    });
+
+    it('Should reject listens for editions that do not exist', async function () {
+      const { streaming, editions, listener } = await loadFixture(
+        deployEditionFixture
+      );
+      const report = await listenReport(
+        editions.target,
+        2,
+        10,
+        100,
+        ethers.ZeroAddress
+      );
+
+      await expect(
+        streaming.connect(listener).recordBatchListens(report, { value: 100 })
+      )
+        .to.be.revertedWithCustomError(streaming, 'NonexistentToken')
+        .withArgs(editions.target, 2);
+    });
+
+    it('Should report edition listens by creator', async function () {
+      const { streaming, editions, creator, listener } = await loadFixture(
+        deployEditionFixture
+      );
+      await editions.connect(creator).createEdition('uri-2', 5, 5, 500, 0);
+      const report = await listenReport(
+        editions.target,
+        2,
+        7,
+        70,
+        ethers.ZeroAddress
+      );
+      await streaming
+        .connect(listener)
+        .recordBatchListens(report, { value: 70 });
+
+      const data = await streaming.getListenDataByCreator(
+        editions.target,
+        creator.address
+      );
+      expect(data.tokenIds).to.deep.equal([1n, 2n]);
+      expect(data.listenCounts).to.deep.equal([0n, 7n]);
+    });
+  });
+
+  describe('Subscriptions', function () {
+    // Passes cost 1000 wei per period. Token 1 is owned by the new owner and
+    // token 2, without a streaming royalty, by the creator
+    async function deploySubscriptionFixture() {
+      const fixture = await deployStreamingFixture();
+      const { streaming, musicNFT, creator, newOwner, tokenId } = fixture;
+
+      await musicNFT
+        .connect(creator)
+        .transferFrom(creator.address, newOwner.address, tokenId);
+      await musicNFT.connect(creator).mintNFT('uri-2', 500, 0);
+      await streaming.setSubscriptionPrice(1000);
+
+      return { ...fixture, period: await streaming.currentPeriod() };
+    }
+
+    function subscriptionListens(
+      nftContract: string | Addressable,
+      tokenId: BigNumberish,
+      count: BigNumberish
+    ) {
+      return { nftContract: nftContract as string, tokenId, count };
+    }
+
+    it('Should sell passes that fund each covered period', async function () {
+      const { streaming, owner, listener, newOwner, period } =
+        await loadFixture(deploySubscriptionFixture);
+
+      const tx = streaming.buySubscriptionPass(listener.address, 3, {
+        value: 3500,
+      });
+      await expect(tx)
+        .to.emit(streaming, 'SubscriptionPassPurchased')
+        .withArgs(listener.address, owner.address, period, period + 3n, 3000);
+      await expect(tx).to.changeEtherBalance(owner, -3000);
+
+      expect(await streaming.passEndPeriods(listener.address)).to.equal(
+        period + 3n
+      );
+      expect(await streaming.hasActivePass(listener.address)).to.be.true;
+      expect(await streaming.hasActivePass(newOwner.address)).to.be.false;
+      expect((await streaming.getSubscriptionPool(period + 2n)).pool).to.equal(
+        1000
+      );
+      expect((await streaming.getSubscriptionPool(period + 3n)).pool).to.equal(
+        0
+      );
+
+      // A second pass starts when the first one ends
+      await streaming
+        .connect(listener)
+        .buySubscriptionPass(listener.address, 2, { value: 2000 });
+      expect(await streaming.passEndPeriods(listener.address)).to.equal(
+        period + 5n
+      );
+      expect((await streaming.getSubscriptionPool(period + 4n)).pool).to.equal(
+        1000
+      );
+
+      await time.increase(5 * 24 * 60 * 60);
+      expect(await streaming.hasActivePass(listener.address)).to.be.false;
+    });
+
+    it('Should validate pass purchases', async function () {
+      const { streaming, listener } = await loadFixture(
+        deploySubscriptionFixture
+      );
+
+      await expect(
+        streaming.buySubscriptionPass(listener.address, 0)
+      ).to.be.revertedWithCustomError(streaming, 'InvalidPassDuration');
+      await expect(
+        streaming.buySubscriptionPass(listener.address, 32, { value: 32000 })
+      )
+        .to.be.revertedWithCustomError(streaming, 'InvalidPassDuration')
+        .withArgs(32);
+      await expect(
+        streaming.buySubscriptionPass(listener.address, 2, { value: 1999 })
+      ).to.be.revertedWithCustomError(streaming, 'InsufficientPayment');
+
+      await expect(
+        streaming.connect(listener).setSubscriptionPrice(0)
+      ).to.be.revertedWithCustomError(streaming, 'OwnableUnauthorizedAccount');
+      await expect(streaming.setSubscriptionPrice(0))
+        .to.emit(streaming, 'SubscriptionPriceUpdated')
+        .withArgs(1000, 0);
+      await expect(
+        streaming.buySubscriptionPass(listener.address, 1)
+      ).to.be.revertedWithCustomError(streaming, 'SubscriptionsNotOnSale');
+    });
+
+    it('Should divide the pool by subscription listens with the streaming split', async function () {
+      const { streaming, musicNFT, creator, listener, newOwner, period } =
+        await loadFixture(deploySubscriptionFixture);
+      await streaming.buySubscriptionPass(listener.address, 1, {
+        value: 1000,
+      });
+
+      await expect(
+        streaming
+          .connect(listener)
+          .recordSubscriptionListens(period, [
+            subscriptionListens(musicNFT.target, 1, 30),
+            subscriptionListens(musicNFT.target, 2, 10),
+          ])
+      )
+        .to.emit(streaming, 'SubscriptionListensRecorded')
+        .withArgs(musicNFT.target, 1, period, 30);
+      expect(await streaming.getListenCount(musicNFT.target, 2)).to.equal(10);
+
+      await time.increase(24 * 60 * 60);
+      await expect(streaming.connect(listener).closeSubscriptionPeriod(period))
+        .to.emit(streaming, 'SubscriptionPeriodClosed')
+        .withArgs(period, 1000, 40);
+
+      const payout = await streaming.getSubscriptionPayout(
+        musicNFT.target,
+        1,
+        period
+      );
+      expect(payout.listens).to.equal(30);
+      expect(payout.amount).to.equal(750);
+      expect(payout.claimed).to.be.false;
+
+      // Anyone can claim, one batch of tokens at a time
+      await expect(
+        streaming
+          .connect(newOwner)
+          .claimSubscriptionPayouts(musicNFT.target, period, [1])
+      )
+        .to.emit(streaming, 'SubscriptionPayoutClaimed')
+        .withArgs(musicNFT.target, 1, period, 30, 750);
+      await streaming
+        .connect(newOwner)
+        .claimSubscriptionPayouts(musicNFT.target, period, [2]);
+
+      // 30% of token 1's share goes to its owner, the rest to the creator
+      expect(
+        await streaming.getPendingPayment(newOwner.address, ethers.ZeroAddress)
+      ).to.equal(225);
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(525 + 250);
+      expect(
+        (await streaming.getSubscriptionPayout(musicNFT.target, 1, period))
+          .claimed
+      ).to.be.true;
+    });
+
+    it('Should pay each token once and skip tokens without subscription listens', async function () {
+      const { streaming, musicNFT, creator, listener, period } =
+        await loadFixture(deploySubscriptionFixture);
+      await streaming.buySubscriptionPass(listener.address, 1, {
+        value: 1000,
+      });
+      await streaming
+        .connect(listener)
+        .recordSubscriptionListens(period, [
+          subscriptionListens(musicNFT.target, 2, 5),
+        ]);
+      // Paid listens count towards statistics but not towards the pool
+      await streaming
+        .connect(listener)
+        .recordBatchListens(
+          await listenReport(musicNFT.target, 1, 100, 100, ethers.ZeroAddress),
+          { value: 100 }
+        );
+
+      await time.increase(24 * 60 * 60);
+      await streaming.connect(listener).closeSubscriptionPeriod(period);
+
+      const tx = streaming.claimSubscriptionPayouts(
+        musicNFT.target,
+        period,
+        [1, 2, 2]
+      );
+      await expect(tx)
+        .to.emit(streaming, 'SubscriptionPayoutClaimed')
+        .withArgs(musicNFT.target, 2, period, 5, 1000);
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(70 + 1000);
+
+      await expect(
+        streaming.claimSubscriptionPayouts(musicNFT.target, period, [2])
+      ).not.to.emit(streaming, 'SubscriptionPayoutClaimed');
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(70 + 1000);
+    });
+
+    it('Should only close ended periods once', async function () {
+      const { streaming, musicNFT, creator, listener, period } =
+        await loadFixture(deploySubscriptionFixture);
+
+      await expect(
+        streaming.claimSubscriptionPayouts(musicNFT.target, period, [1])
+      )
+        .to.be.revertedWithCustomError(streaming, 'PeriodNotClosed')
+        .withArgs(period);
+      await expect(streaming.connect(listener).closeSubscriptionPeriod(period))
+        .to.be.revertedWithCustomError(streaming, 'PeriodNotEnded')
+        .withArgs(period);
+
+      await time.increase(24 * 60 * 60);
+      await expect(streaming.connect(creator).closeSubscriptionPeriod(period))
+        .to.be.revertedWithCustomError(streaming, 'UnauthorizedReporter')
+        .withArgs(creator.address);
+      await streaming.connect(listener).closeSubscriptionPeriod(period);
+
+      await expect(streaming.connect(listener).closeSubscriptionPeriod(period))
+        .to.be.revertedWithCustomError(streaming, 'PeriodAlreadyClosed')
+        .withArgs(period);
+      await expect(
+        streaming
+          .connect(listener)
+          .recordSubscriptionListens(period, [
+            subscriptionListens(musicNFT.target, 1, 5),
+          ])
+      )
+        .to.be.revertedWithCustomError(streaming, 'PeriodAlreadyClosed')
+        .withArgs(period);
+    });
+
+    it('Should validate subscription listens', async function () {
+      const { streaming, musicNFT, creator, listener, period } =
+        await loadFixture(deploySubscriptionFixture);
+
+      await expect(
+        streaming
+          .connect(creator)
+          .recordSubscriptionListens(period, [
+            subscriptionListens(musicNFT.target, 1, 5),
+          ])
+      ).to.be.revertedWithCustomError(streaming, 'UnauthorizedReporter');
+      await expect(
+        streaming
+          .connect(listener)
+          .recordSubscriptionListens(period + 1n, [
+            subscriptionListens(musicNFT.target, 1, 5),
+          ])
+      )
+        .to.be.revertedWithCustomError(streaming, 'InvalidReportPeriod')
+        .withArgs(period + 1n);
+      await expect(
+        streaming
+          .connect(listener)
+          .recordSubscriptionListens(period, [
+            subscriptionListens(musicNFT.target, 1, 0),
+          ])
+      ).to.be.revertedWithCustomError(streaming, 'InvalidListenCount');
+      await expect(
+        streaming
+          .connect(listener)
+          .recordSubscriptionListens(period, [
+            subscriptionListens(musicNFT.target, 3, 5),
+          ])
+      )
+        .to.be.revertedWithCustomError(streaming, 'NonexistentToken')
+        .withArgs(musicNFT.target, 3);
+    });
+
+    it('Should move a pool without listens to the current period', async function () {
+      const { streaming, listener, period } = await loadFixture(
+        deploySubscriptionFixture
+      );
+      await streaming.buySubscriptionPass(listener.address, 2, {
+        value: 2000,
+      });
+
+      await time.increase(24 * 60 * 60);
+      await expect(streaming.connect(listener).closeSubscriptionPeriod(period))
+        .to.emit(streaming, 'SubscriptionPeriodClosed')
+        .withArgs(period, 1000, 0);
+
+      const closed = await streaming.getSubscriptionPool(period);
+      expect(closed.pool).to.equal(0);
+      expect(closed.closed).to.be.true;
+      expect((await streaming.getSubscriptionPool(period + 1n)).pool).to.equal(
+        2000
+      );
+    });
+  });
+
+  describe('Burned Tokens', function () {
+    // The creator holds tokens 1 to 3, which received 30, 10 and 20
+    // subscription listens in the current period before token 1 was burned
+    async function deployBurnedTokenFixture() {
+      const fixture = await deployStreamingFixture();
+      const { streaming, musicNFT, creator, listener, tokenId } = fixture;
+
+      await musicNFT.connect(creator).mintNFT('uri-2', 500, 3000);
+      await musicNFT.connect(creator).mintNFT('uri-3', 500, 3000);
+      await streaming.setSubscriptionPrice(1000);
+      await streaming.buySubscriptionPass(listener.address, 1, {
+        value: 1000,
+      });
+
+      const period = await streaming.currentPeriod();
+      await streaming.connect(listener).recordSubscriptionListens(period, [
+        { nftContract: musicNFT.target, tokenId: 1, count: 30 },
+        { nftContract: musicNFT.target, tokenId: 2, count: 10 },
+        { nftContract: musicNFT.target, tokenId: 3, count: 20 },
+      ]);
+      await musicNFT.connect(creator).burn(tokenId);
+
+      return { ...fixture, period };
+    }
+
+    it('Should leave burned tokens out of listen queries', async function () {
+      const { streaming, musicNFT, creator, tokenId } = await loadFixture(
+        deployBurnedTokenFixture
+      );
+
+      await expect(streaming.getListenCount(musicNFT.target, tokenId))
+        .to.be.revertedWithCustomError(streaming, 'NonexistentToken')
+        .withArgs(musicNFT.target, tokenId);
+      expect(await streaming.getTotalListenCount(musicNFT.target)).to.equal(30);
+
+      // Token 3 is ranked although only two tokens are left in circulation
+      const top = await streaming.getTopListenedTokens(musicNFT.target, 3);
+      expect(top.tokenIds).to.deep.equal([3n, 2n]);
+      expect(top.listenCounts).to.deep.equal([20n, 10n]);
+
+      const byCreator = await streaming.getListenDataByCreator(
+        musicNFT.target,
+        creator.address
+      );
+      expect(byCreator.tokenIds).to.deep.equal([3n, 2n]);
+      expect(byCreator.listenCounts).to.deep.equal([20n, 10n]);
+    });
+
+    it('Should rank tokens of contracts without getTotalMinted', async function () {
+      const { streaming, creator, listener } = await loadFixture(
+        deployStreamingFixture
+      );
+      const MockLegacyMusicNFT = await hre.ethers.getContractFactory(
+        'MockLegacyMusicNFT'
+      );
+      const legacyNFT = await MockLegacyMusicNFT.deploy();
+      await legacyNFT.mint(creator.address);
+      await legacyNFT.mint(creator.address);
+
+      await streaming
+        .connect(listener)
+        .recordSubscriptionListens(await streaming.currentPeriod(), [
+          { nftContract: legacyNFT.target, tokenId: 1, count: 5 },
+          { nftContract: legacyNFT.target, tokenId: 2, count: 8 },
+        ]);
+
+      expect(await streaming.getTotalListenCount(legacyNFT.target)).to.equal(
+        13
+      );
+      const top = await streaming.getTopListenedTokens(legacyNFT.target, 5);
+      expect(top.tokenIds).to.deep.equal([2n, 1n]);
+      expect(top.listenCounts).to.deep.equal([8n, 5n]);
+    });
+
+    it('Should move the share of burned tokens to the current pool', async function () {
+      const { streaming, musicNFT, creator, listener, period } =
+        await loadFixture(deployBurnedTokenFixture);
+      await time.increase(24 * 60 * 60);
+      await streaming.connect(listener).closeSubscriptionPeriod(period);
+
+      await expect(
+        streaming.claimSubscriptionPayouts(musicNFT.target, period, [1, 2, 3])
+      )
+        .to.emit(streaming, 'SubscriptionPayoutRolledOver')
+        .withArgs(musicNFT.target, 1, period, 500)
+        .and.to.emit(streaming, 'SubscriptionPayoutClaimed')
+        .withArgs(musicNFT.target, 3, period, 20, 333);
+
+      expect(
+        (await streaming.getSubscriptionPayout(musicNFT.target, 1, period))
+          .claimed
+      ).to.be.true;
+      expect(
+        await streaming.getPendingPayment(creator.address, ethers.ZeroAddress)
+      ).to.equal(166 + 333);
+      expect(
+        (await streaming.getSubscriptionPool(await streaming.currentPeriod()))
+          .pool
+      ).to.equal(500);
+
+      // The share is only moved once
+      await streaming.claimSubscriptionPayouts(musicNFT.target, period, [1]);
+      expect(
+        (await streaming.getSubscriptionPool(await streaming.currentPeriod()))
+          .pool
+      ).to.equal(500);
     });
   });
 });
@@ -0,0 +1,817 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers } from 'hardhat';
+import {
+  AlbumNotFoundError,
+  buildListenReport,
+  connectEcosystem,
+  ContractError,
+  hashFile,
+  InsufficientFundsError,
+  InvalidQuantityError,
+  InvalidSplitTotalError,
+  InvalidTrackMetadataError,
+  ListingNotActiveError,
+  MaxRoyaltyExceededError,
+  MetadataIsFrozenError,
+  NonexistentTokenError,
+  NoPaymentsPendingError,
+  NotAuthorizedError,
+  NotListingOwnerError,
+  PeriodNotClosedError,
+  PriceAboveMaximumError,
+  RoyaltyUpdateTimelockedError,
+  SDKError,
+  signListenReport,
+  signMintVoucher,
+  StreamingPayout,
+  UnauthorizedReporterError,
+  verifyTrackFile,
+  VoucherNonceUsedError,
+} from '../sdk';
+
+describe('SDK', function () {
+  async function deploySDKFixture() {
+    const [owner, creator, buyer, listener] = await hre.ethers.getSigners();
+
+    const musicNFT = await hre.ethers.deployContract('MusicNFT');
+    const marketplace = await hre.ethers.deployContract('NFTMarketplace');
+    const streaming = await hre.ethers.deployContract('NFTStreaming');
+    await streaming.addReporter(listener.address);
+
+    const addresses = {
+      musicNFT: await musicNFT.getAddress(),
+      nftMarketplace: await marketplace.getAddress(),
+      nftStreaming: await streaming.getAddress(),
+    };
+
+    const creatorClients = connectEcosystem(addresses, creator);
+    const buyerClients = connectEcosystem(addresses, buyer);
+    const listenerClients = connectEcosystem(addresses, listener);
+
+    return {
+      addresses,
+      owner,
+      creator,
+      buyer,
+      listener,
+      creatorClients,
+      buyerClients,
+      listenerClients,
+    };
+  }
+
+  async function mintAndListFixture() {
+    const fixture = await deploySDKFixture();
+    const { creatorClients, addresses } = fixture;
+
+    const { value: tokenId } = await creatorClients.musicNFT.mint(
+      'https://example.com/token/1',
+      500,
+      1000
+    );
+    await creatorClients.musicNFT.approve(addresses.nftMarketplace, tokenId);
+
+    const price = ethers.parseEther('1.0');
+    const { value: listingId } =
+      await creatorClients.nftMarketplace.createListing(
+        addresses.musicNFT,
+        tokenId,
+        price
+      );
+
+    return { ...fixture, tokenId, listingId, price };
+  }
+
+  describe('MusicNFTClient', function () {
+    it('Should mint and return the new token ID', async function () {
+      const { creatorClients } = await loadFixture(deploySDKFixture);
+
+      const first = await creatorClients.musicNFT.mint('uri1', 500, 1000);
+      const second = await creatorClients.musicNFT.mint('uri2', 300, 800);
+
+      expect(first.value).to.equal(1n);
+      expect(second.value).to.equal(2n);
+      expect(second.receipt.status).to.equal(1);
+    });
+
+    it('Should return token details as a domain object', async function () {
+      const { creatorClients, creator } = await loadFixture(deploySDKFixture);
+
+      const { value: tokenId } = await creatorClients.musicNFT.mint(
+        'https://example.com/token/1',
+        500,
+        1000
+      );
+
+      expect(
+        await creatorClients.musicNFT.getTokenDetails(tokenId)
+      ).to.deep.equal({
+        tokenId,
+        tokenURI: 'https://example.com/token/1',
+        creator: creator.address,
+        owner: creator.address,
+        streamingRoyaltyPercentage: 1000n,
+        salesRoyaltyReceiver: creator.address,
+        salesRoyaltyPercentage: 500n,
+      });
+    });
+
+    it('Should map MaxRoyaltyExceeded to a typed error', async function () {
+      const { creatorClients } = await loadFixture(deploySDKFixture);
+
+      const error = await creatorClients.musicNFT
+        .mint('uri', 5001, 1000)
+        .catch((e) => e);
+
+      expect(error).to.be.instanceOf(MaxRoyaltyExceededError);
+      expect(error).to.be.instanceOf(ContractError);
+      expect(error.percentage).to.equal(5001n);
+      expect(error.maxAllowed).to.equal(5000n);
+    });
+
+    it('Should propose and execute a timelocked royalty update', async function () {
+      const { creatorClients, buyerClients } = await loadFixture(
+        deploySDKFixture
+      );
+      const { value: tokenId } = await creatorClients.musicNFT.mint(
+        'uri',
+        500,
+        1000
+      );
+      expect(
+        await creatorClients.musicNFT.getPendingRoyaltyUpdate(tokenId)
+      ).to.equal(null);
+
+      const { value: executableAt } =
+        await creatorClients.musicNFT.proposeRoyaltyUpdate(tokenId, 700, 2000);
+      expect(
+        await creatorClients.musicNFT.getPendingRoyaltyUpdate(tokenId)
+      ).to.deep.equal({
+        tokenId,
+        salesRoyaltyPercentage: 700n,
+        streamingRoyaltyPercentage: 2000n,
+        executableAt,
+      });
+
+      const error = await buyerClients.musicNFT
+        .executeRoyaltyUpdate(tokenId)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(RoyaltyUpdateTimelockedError);
+      expect(error.executableAt).to.equal(executableAt);
+
+      await time.increaseTo(executableAt);
+      await buyerClients.musicNFT.executeRoyaltyUpdate(tokenId);
+      expect(
+        await creatorClients.musicNFT.getStreamingRoyalty(tokenId)
+      ).to.equal(2000n);
+    });
+
+    it('Should read the URI history and map MetadataIsFrozen', async function () {
+      const { creatorClients, creator } = await loadFixture(deploySDKFixture);
+      const { value: tokenId } = await creatorClients.musicNFT.mint(
+        'uri-1',
+        500,
+        1000
+      );
+      await creatorClients.musicNFT.updateTokenURI(tokenId, 'uri-2');
+      const updatedAt = BigInt(await time.latest());
+
+      const history = await creatorClients.musicNFT.getTokenURIHistory(tokenId);
+      expect(history.map((version) => version.uri)).to.deep.equal([
+        'uri-1',
+        'uri-2',
+      ]);
+      expect(history[1]).to.deep.equal({
+        uri: 'uri-2',
+        setBy: creator.address,
+        setAt: updatedAt,
+      });
+
+      await creatorClients.musicNFT.setCreatorOnlyUpdates(tokenId);
+      expect(await creatorClients.musicNFT.isCreatorOnlyUpdates(tokenId)).to.be
+        .true;
+      await creatorClients.musicNFT.freezeMetadata(tokenId);
+      expect(await creatorClients.musicNFT.isMetadataFrozen(tokenId)).to.be
+        .true;
+
+      const error = await creatorClients.musicNFT
+        .updateTokenURI(tokenId, 'uri-3')
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(MetadataIsFrozenError);
+      expect(error.tokenId).to.equal(tokenId);
+    });
+
+    it('Should mint with track metadata and verify local files', async function () {
+      const { creatorClients } = await loadFixture(deploySDKFixture);
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'music-nft-'));
+      const audioFile = path.join(dir, 'track.mp3');
+      const otherFile = path.join(dir, 'other.mp3');
+      fs.writeFileSync(audioFile, 'audio bytes');
+      fs.writeFileSync(otherFile, 'other bytes');
+
+      try {
+        const contentHash = await hashFile(audioFile);
+        expect(contentHash).to.equal(
+          ethers.keccak256(ethers.toUtf8Bytes('audio bytes'))
+        );
+        const metadata = {
+          title: 'Track',
+          artist: 'Artist',
+          isrc: '',
+          duration: 180n,
+          contentHash,
+          artworkHash: ethers.ZeroHash,
+        };
+
+        const { value: tokenId } =
+          await creatorClients.musicNFT.mintWithMetadata(
+            'ipfs://audio',
+            metadata,
+            500,
+            1000
+          );
+        expect(
+          await creatorClients.musicNFT.getTrackMetadata(tokenId)
+        ).to.deep.equal(metadata);
+
+        expect(
+          await verifyTrackFile(creatorClients.musicNFT, tokenId, audioFile)
+        ).to.deep.equal({
+          expected: contentHash,
+          actual: contentHash,
+          matches: true,
+        });
+        expect(
+          (await verifyTrackFile(creatorClients.musicNFT, tokenId, otherFile))
+            .matches
+        ).to.be.false;
+        expect(
+          await verifyTrackFile(
+            creatorClients.musicNFT,
+            tokenId,
+            audioFile,
+            'artwork'
+          )
+        ).to.include({ expected: null, matches: false });
+
+        const { value: plain } = await creatorClients.musicNFT.mint(
+          'uri',
+          500,
+          1000
+        );
+        expect(await creatorClients.musicNFT.getTrackMetadata(plain)).to.be
+          .null;
+
+        const error = await creatorClients.musicNFT
+          .mintWithMetadata('ipfs://audio', { ...metadata, title: '' }, 0, 0)
+          .catch((e) => e);
+        expect(error).to.be.instanceOf(InvalidTrackMetadataError);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('Should burn a token and report the supply', async function () {
+      const { creatorClients, buyerClients, buyer } = await loadFixture(
+        deploySDKFixture
+      );
+      await creatorClients.musicNFT.mint('uri1', 500, 1000);
+      await creatorClients.musicNFT.mint('uri2', 500, 1000);
+
+      const error = await buyerClients.musicNFT.burn(1).catch((e) => e);
+      expect(error).to.be.instanceOf(NotAuthorizedError);
+
+      await creatorClients.musicNFT.approve(buyer.address, 1);
+      await buyerClients.musicNFT.burn(1);
+
+      expect(await creatorClients.musicNFT.tokenExists(1)).to.be.false;
+      expect(await creatorClients.musicNFT.getTotalSupply()).to.equal(1n);
+      expect(await creatorClients.musicNFT.getTotalMinted()).to.equal(2n);
+    });
+
+    it('Should map NonexistentToken on view calls', async function () {
+      const { creatorClients } = await loadFixture(deploySDKFixture);
+
+      const error = await creatorClients.musicNFT
+        .getTokenDetails(999)
+        .catch((e) => e);
+
+      expect(error).to.be.instanceOf(NonexistentTokenError);
+      expect(error.tokenId).to.equal(999n);
+    });
+
+    it('Should mint with royalty splits and read them back', async function () {
+      const { creatorClients, creator, listener } = await loadFixture(
+        deploySDKFixture
+      );
+      const splits = [
+        { recipient: creator.address, share: 6000n },
+        { recipient: listener.address, share: 4000n },
+      ];
+
+      const { value: tokenId } = await creatorClients.musicNFT.mintWithSplits(
+        'uri',
+        500,
+        1000,
+        splits
+      );
+      expect(
+        await creatorClients.musicNFT.getRoyaltySplit(tokenId)
+      ).to.deep.equal(splits);
+
+      const error = await creatorClients.musicNFT
+        .mintWithSplits('uri', 500, 1000, [{ ...splits[0], share: 9000n }])
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(InvalidSplitTotalError);
+      expect(error.total).to.equal(9000n);
+    });
+
+    it('Should redeem a signed voucher and withdraw the proceeds', async function () {
+      const { creatorClients, buyerClients, creator, buyer, addresses } =
+        await loadFixture(deploySDKFixture);
+      const signed = await signMintVoucher(creator, addresses.musicNFT, {
+        creator: creator.address,
+        tokenURI: 'uri',
+        salesRoyaltyPercentage: 500,
+        streamingRoyaltyPercentage: 1000,
+        minPrice: ethers.parseEther('1'),
+        nonce: 7,
+        expiresAt:
+          (await ethers.provider.getBlock('latest'))!.timestamp + 86400,
+      });
+
+      const { value: tokenId } = await buyerClients.musicNFT.redeemVoucher(
+        signed
+      );
+      const details = await buyerClients.musicNFT.getTokenDetails(tokenId);
+      expect(details.owner).to.equal(buyer.address);
+      expect(details.creator).to.equal(creator.address);
+      expect(await creatorClients.musicNFT.isVoucherNonceUsed(creator, 7)).to.be
+        .true;
+
+      const { value: withdrawn } =
+        await creatorClients.musicNFT.withdrawPayments();
+      expect(withdrawn).to.equal(ethers.parseEther('1'));
+
+      const error = await buyerClients.musicNFT
+        .redeemVoucher(signed)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(VoucherNonceUsedError);
+      expect(error.nonce).to.equal(7n);
+    });
+
+    it('Should mint an album and read it back', async function () {
+      const { creatorClients, creator } = await loadFixture(deploySDKFixture);
+
+      const { value } = await creatorClients.musicNFT.mintAlbum(
+        'album-uri',
+        ['t1', 't2'],
+        500,
+        1000
+      );
+      expect(value).to.deep.equal({ albumId: 1n, tokenIds: [1n, 2n] });
+
+      expect(await creatorClients.musicNFT.getAlbum(1)).to.deep.equal({
+        albumId: 1n,
+        creator: creator.address,
+        metadataURI: 'album-uri',
+        tracks: [1n, 2n],
+      });
+      expect(await creatorClients.musicNFT.getTokenAlbum(2)).to.deep.equal({
+        albumId: 1n,
+        trackIndex: 1n,
+      });
+
+      const { value: single } = await creatorClients.musicNFT.mint(
+        'uri',
+        500,
+        1000
+      );
+      expect(await creatorClients.musicNFT.getTokenAlbum(single)).to.be.null;
+
+      const error = await creatorClients.musicNFT.getAlbum(2).catch((e) => e);
+      expect(error).to.be.instanceOf(AlbumNotFoundError);
+      expect(error.albumId).to.equal(2n);
+    });
+  });
+
+  describe('MusicEditionsClient', function () {
+    async function deployEditionsFixture() {
+      const fixture = await deploySDKFixture();
+      const musicEditions = await hre.ethers.deployContract('MusicEditions');
+      const addresses = {
+        ...fixture.addresses,
+        musicEditions: await musicEditions.getAddress(),
+      };
+
+      return {
+        ...fixture,
+        addresses,
+        creatorClients: connectEcosystem(addresses, fixture.creator),
+        buyerClients: connectEcosystem(addresses, fixture.buyer),
+      };
+    }
+
+    it('Should only connect MusicEditions when its address is known', async function () {
+      const { creatorClients } = await loadFixture(deploySDKFixture);
+      expect(creatorClients.musicEditions).to.be.undefined;
+    });
+
+    it('Should create an edition and sell copies of it', async function () {
+      const { creatorClients, buyerClients, creator, buyer, addresses } =
+        await loadFixture(deployEditionsFixture);
+      const musicEditions = creatorClients.musicEditions!;
+
+      const { value: editionId } = await musicEditions.createEdition(
+        'uri',
+        50,
+        20,
+        500,
+        1000
+      );
+      expect(await musicEditions.getEdition(editionId)).to.deep.equal({
+        editionId,
+        creator: creator.address,
+        uri: 'uri',
+        maxSupply: 50n,
+        minted: 20n,
+        streamingRoyaltyPercentage: 1000n,
+        streamingPayout: StreamingPayout.Holders,
+      });
+
+      await musicEditions.setApprovalForAll(addresses.nftMarketplace);
+      const { value: listingId } =
+        await creatorClients.nftMarketplace.createEditionListing(
+          addresses.musicEditions,
+          editionId,
+          10,
+          ethers.parseEther('0.1')
+        );
+      await buyerClients.nftMarketplace.buyEditionCopies(listingId, 3);
+
+      expect(await musicEditions.balanceOf(buyer, editionId)).to.equal(3n);
+      expect(
+        await buyerClients.nftMarketplace.getEditionListing(listingId)
+      ).to.include({ quantity: 7n, isActive: true });
+
+      const error = await buyerClients.nftMarketplace
+        .buyEditionCopies(listingId, 8)
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(InvalidQuantityError);
+      expect(error.available).to.equal(7n);
+    });
+  });
+
+  describe('NFTMarketplaceClient', function () {
+    it('Should create listings and read them back', async function () {
+      const { creatorClients, creator, addresses, tokenId, listingId, price } =
+        await loadFixture(mintAndListFixture);
+
+      const expected = {
+        listingId,
+        seller: creator.address,
+        nftContract: addresses.musicNFT,
+        tokenId,
+        price,
+        isActive: true,
+      };
+
+      const marketplace = creatorClients.nftMarketplace;
+      expect(await marketplace.getListing(listingId)).to.deep.equal({
+        ...expected,
+        currency: ethers.ZeroAddress,
+        expiresAt: 0n,
+        isEscrowed: true,
+      });
+      expect(
+        await marketplace.getListingByToken(addresses.musicNFT, tokenId)
+      ).to.deep.equal(expected);
+      expect(await marketplace.getActiveListings()).to.deep.equal([expected]);
+      expect(
+        await marketplace.getListingsBySeller(creator.address, { limit: 10 })
+      ).to.deep.equal([expected]);
+      expect(await marketplace.getListing(42)).to.be.null;
+    });
+
+    it('Should buy a listing at its price and credit the seller', async function () {
+      const {
+        creatorClients,
+        buyerClients,
+        buyer,
+        addresses,
+        tokenId,
+        listingId,
+        price,
+      } = await loadFixture(mintAndListFixture);
+
+      await buyerClients.nftMarketplace.buy(listingId);
+
+      const details = await buyerClients.musicNFT.getTokenDetails(tokenId);
+      expect(details.owner).to.equal(buyer.address);
+
+      const listing = await buyerClients.nftMarketplace.getListing(listingId);
+      expect(listing?.isActive).to.be.false;
+      expect(
+        await buyerClients.nftMarketplace.getListingByToken(
+          addresses.musicNFT,
+          tokenId
+        )
+      ).to.be.null;
+
+      const fee = (price * 250n) / 10000n;
+      const { value: withdrawn } =
+        await creatorClients.nftMarketplace.withdrawPayments();
+      expect(withdrawn).to.equal(price - fee);
+    });
+
+    it('Should map marketplace custom errors to typed errors', async function () {
+      const { buyerClients, listingId, price } = await loadFixture(
+        mintAndListFixture
+      );
+
+      await expect(
+        buyerClients.nftMarketplace.buy(listingId, price - 1n)
+      ).to.be.rejectedWith(InsufficientFundsError);
+      await expect(
+        buyerClients.nftMarketplace.buy(listingId, price, price - 1n)
+      ).to.be.rejectedWith(PriceAboveMaximumError);
+
+      await expect(
+        buyerClients.nftMarketplace.cancelListing(listingId)
+      ).to.be.rejectedWith(NotListingOwnerError);
+
+      await buyerClients.nftMarketplace.buy(listingId);
+
+      await expect(
+        buyerClients.nftMarketplace.buy(listingId, price)
+      ).to.be.rejectedWith(ListingNotActiveError);
+
+      await expect(
+        buyerClients.nftMarketplace.withdrawPayments()
+      ).to.be.rejectedWith(NoPaymentsPendingError);
+    });
+  });
+
+  describe('NFTStreamingClient', function () {
+    it('Should record listens and return listen stats', async function () {
+      const { creatorClients, listenerClients, addresses, creator } =
+        await loadFixture(deploySDKFixture);
+
+      await creatorClients.musicNFT.mint('uri1', 500, 1000);
+      await creatorClients.musicNFT.mint('uri2', 500, 1000);
+
+      const streaming = listenerClients.nftStreaming;
+      const rate = ethers.parseEther('0.01');
+      const period = await streaming.getCurrentPeriod();
+      for (const [tokenId, count] of [
+        [1, 10],
+        [2, 30],
+      ]) {
+        await streaming.recordListens(
+          buildListenReport({
+            nftContract: addresses.musicNFT,
+            tokenId,
+            count,
+            rate,
+            period,
+          })
+        );
+      }
+
+      expect(
+        await streaming.getListenStats(addresses.musicNFT, 1)
+      ).to.deep.equal({
+        nftContract: addresses.musicNFT,
+        tokenId: 1n,
+        listenCount: 10n,
+      });
+      expect(
+        await streaming.getTopListenedTokens(addresses.musicNFT, 5)
+      ).to.deep.equal([
+        { nftContract: addresses.musicNFT, tokenId: 2n, listenCount: 30n },
+        { nftContract: addresses.musicNFT, tokenId: 1n, listenCount: 10n },
+      ]);
+      expect(
+        await streaming.getListenDataByCreator(
+          addresses.musicNFT,
+          creator.address
+        )
+      ).to.have.lengthOf(2);
+      expect(await streaming.getTotalListenCount(addresses.musicNFT)).to.equal(
+        40n
+      );
+      expect(await streaming.getPendingPayment(creator.address)).to.equal(
+        rate * 40n
+      );
+      expect(
+        await streaming.getPeriodListenCount(addresses.musicNFT, 2, period)
+      ).to.equal(30n);
+      expect(
+        await streaming.getTopListenedTokensInWindow(
+          addresses.musicNFT,
+          period - 6n,
+          period,
+          1
+        )
+      ).to.deep.equal([
+        { nftContract: addresses.musicNFT, tokenId: 2n, listenCount: 30n },
+      ]);
+      expect(
+        await streaming.getCreatorListensByPeriod(
+          addresses.musicNFT,
+          creator.address,
+          period - 1n,
+          period
+        )
+      ).to.deep.equal([0n, 40n]);
+    });
+
+    it('Should settle listen reports for several tokens', async function () {
+      const { creatorClients, listenerClients, addresses } = await loadFixture(
+        deploySDKFixture
+      );
+
+      await creatorClients.musicNFT.mint('uri1', 500, 1000);
+
+      const streaming = listenerClients.nftStreaming;
+      const period = await streaming.getCurrentPeriod();
+      const reports = [1, 2].map((tokenId) =>
+        buildListenReport({
+          nftContract: addresses.musicNFT,
+          tokenId,
+          count: 10,
+          rate: 100n,
+          period,
+        })
+      );
+
+      const { value } = await streaming.settleListenReports(reports, true);
+      expect(value).to.deep.equal({
+        recordedCount: 1n,
+        skippedCount: 1n,
+        totalListens: 10n,
+        nativeAmount: 1000n,
+      });
+    });
+
+    it('Should relay a listen report signed by a reporter', async function () {
+      const { creatorClients, buyerClients, listener, buyer, addresses } =
+        await loadFixture(deploySDKFixture);
+
+      await creatorClients.musicNFT.mint('uri1', 500, 1000);
+
+      const streaming = buyerClients.nftStreaming;
+      const report = buildListenReport({
+        nftContract: addresses.musicNFT,
+        tokenId: 1,
+        count: 25,
+        rate: 1000n,
+        period: await streaming.getCurrentPeriod(),
+      });
+      const signed = await signListenReport(
+        listener,
+        addresses.nftStreaming,
+        report
+      );
+
+      await streaming.submitListenReport(signed);
+      expect(
+        (await streaming.getListenStats(addresses.musicNFT, 1)).listenCount
+      ).to.equal(25n);
+      expect(await streaming.isReportNonceUsed(listener, report.nonce)).to.be
+        .true;
+
+      const forged = await signListenReport(
+        buyer,
+        addresses.nftStreaming,
+        report
+      );
+      const error = await streaming.submitListenReport(forged).catch((e) => e);
+      expect(error).to.be.instanceOf(UnauthorizedReporterError);
+      expect(error.reporter).to.equal(buyer.address);
+    });
+
+    it('Should refuse to sign without a provider for the chain ID', async function () {
+      const { addresses } = await loadFixture(deploySDKFixture);
+      const signer = ethers.Wallet.createRandom();
+
+      const reportError = await signListenReport(
+        signer,
+        addresses.nftStreaming,
+        buildListenReport({
+          nftContract: addresses.musicNFT,
+          tokenId: 1,
+          count: 1,
+          rate: 1n,
+          period: 0,
+        })
+      ).catch((e) => e);
+      expect(reportError).to.be.instanceOf(SDKError);
+      expect(reportError.message).to.equal(
+        'Signer must be connected to a provider to read the chain ID'
+      );
+
+      const voucherError = await signMintVoucher(signer, addresses.musicNFT, {
+        creator: signer.address,
+        tokenURI: 'uri',
+        salesRoyaltyPercentage: 500,
+        streamingRoyaltyPercentage: 1000,
+        minPrice: 0,
+        nonce: 1,
+        expiresAt: 0,
+      }).catch((e) => e);
+      expect(voucherError).to.be.instanceOf(SDKError);
+    });
+
+    it('Should sell subscription passes and pay out the pool', async function () {
+      const { creatorClients, listenerClients, addresses, owner, creator } =
+        await loadFixture(deploySDKFixture);
+      await connectEcosystem(
+        addresses,
+        owner
+      ).nftStreaming.setSubscriptionPrice(1000);
+      await creatorClients.musicNFT.mint('uri1', 500, 0);
+
+      const streaming = listenerClients.nftStreaming;
+      const period = await streaming.getCurrentPeriod();
+      const { value: endPeriod } = await streaming.buySubscriptionPass(
+        creator.address,
+        2
+      );
+      expect(endPeriod).to.equal(period + 2n);
+      expect(await streaming.hasActivePass(creator.address)).to.be.true;
+
+      await streaming.recordSubscriptionListens(period, [
+        { nftContract: addresses.musicNFT, tokenId: 1, count: 12 },
+      ]);
+      const error = await streaming
+        .claimSubscriptionPayouts(addresses.musicNFT, period, [1])
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(PeriodNotClosedError);
+      expect(error.period).to.equal(period);
+
+      await time.increase(24 * 60 * 60);
+      await streaming.closeSubscriptionPeriod(period);
+      expect(await streaming.getSubscriptionPool(period)).to.deep.equal({
+        period,
+        pool: 1000n,
+        totalListens: 12n,
+        closed: true,
+      });
+
+      const tokenIds = await streaming.getTokensListenedInPeriod(
+        addresses.musicNFT,
+        period
+      );
+      const { value: total } =
+        await creatorClients.nftStreaming.claimSubscriptionPayouts(
+          addresses.musicNFT,
+          period,
+          tokenIds
+        );
+      expect(total).to.equal(1000n);
+      expect(
+        await streaming.getSubscriptionPayout(addresses.musicNFT, 1, period)
+      ).to.deep.equal({
+        nftContract: addresses.musicNFT,
+        tokenId: 1n,
+        period,
+        listens: 12n,
+        amount: 1000n,
+        claimed: true,
+      });
+      expect(await streaming.getPendingPayment(creator.address)).to.equal(
+        1000n
+      );
+    });
+
+    it('Should map streaming custom errors to typed errors', async function () {
+      const { listenerClients, addresses } = await loadFixture(
+        deploySDKFixture
+      );
+
+      const error = await listenerClients.nftStreaming
+        .recordListens(
+          buildListenReport({
+            nftContract: addresses.musicNFT,
+            tokenId: 7,
+            count: 1,
+            rate: 1,
+            period: await listenerClients.nftStreaming.getCurrentPeriod(),
+          })
+        )
+        .catch((e) => e);
+
+      expect(error).to.be.instanceOf(NonexistentTokenError);
+      expect(error.nftContract).to.equal(addresses.musicNFT);
+      expect(error.tokenId).to.equal(7n);
+    });
+  });
+});
@@ -0,0 +1,525 @@
+import {
+  loadFixture,
+  time,
+} from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import fs from 'fs';
+import path from 'path';
+import hre, { ethers } from 'hardhat';
+import NFTEcosystemModule from '../ignition/modules/NFTEcosystem';
+
+describe('Tasks', function () {
+  const deploymentId = 'tasks-test';
+  const deploymentDir = path.join(
+    hre.config.paths.ignition,
+    'deployments',
+    deploymentId
+  );
+
+  async function deployEcosystemFixture() {
+    const { musicNFT, nftMarketplace, nftStreaming, musicEditions } =
+      await hre.ignition.deploy(NFTEcosystemModule);
+
+    fs.mkdirSync(deploymentDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(deploymentDir, 'deployed_addresses.json'),
+      JSON.stringify({
+        'MusicNFTModule#MusicNFT': await musicNFT.getAddress(),
+        'NFTMarketplaceModule#NFTMarketplace':
+          await nftMarketplace.getAddress(),
+        'NFTStreamingModule#NFTStreaming': await nftStreaming.getAddress(),
+        'MusicEditionsModule#MusicEditions': await musicEditions.getAddress(),
+      })
+    );
+
+    const [owner] = await hre.ethers.getSigners();
+
+    return { musicNFT, nftMarketplace, nftStreaming, musicEditions, owner };
+  }
+
+  const log = console.log;
+
+  before(function () {
+    // Keep the task output out of the test report
+    console.log = () => {};
+  });
+
+  after(function () {
+    console.log = log;
+    fs.rmSync(deploymentDir, { recursive: true, force: true });
+  });
+
+  it('Should mint, list, cancel and record listens through the tasks', async function () {
+    const { musicNFT, nftMarketplace, nftStreaming, owner } = await loadFixture(
+      deployEcosystemFixture
+    );
+
+    const tokenId = await hre.run('music:mint', {
+      uri: 'https://example.com/token/1',
+      salesRoyalty: 500,
+      streamingRoyalty: 1000,
+      deploymentId,
+    });
+    expect(tokenId).to.equal(1n);
+    expect(await musicNFT.ownerOf(tokenId)).to.equal(owner.address);
+
+    const listingId = await hre.run('market:list', {
+      tokenId,
+      price: '1.0',
+      deploymentId,
+    });
+    expect(await nftMarketplace.isTokenListed(musicNFT.target, tokenId)).to.be
+      .true;
+
+    await hre.run('market:cancel', { listingId, deploymentId });
+    expect(await musicNFT.ownerOf(tokenId)).to.equal(owner.address);
+
+    await hre.run('admin:add-reporter', {
+      reporter: owner.address,
+      deploymentId,
+    });
+    await hre.run('stream:record', {
+      tokenId,
+      count: 10n,
+      rate: '0.01',
+      deploymentId,
+    });
+    expect(
+      await nftStreaming.getListenCount(musicNFT.target, tokenId)
+    ).to.equal(10n);
+  });
+
+  it('Should buy a listing and withdraw the proceeds', async function () {
+    const { musicNFT, nftMarketplace, owner } = await loadFixture(
+      deployEcosystemFixture
+    );
+
+    const tokenId = await hre.run('music:mint', {
+      uri: 'https://example.com/token/1',
+      salesRoyalty: 500,
+      streamingRoyalty: 1000,
+      deploymentId,
+    });
+    const listingId = await hre.run('market:list', {
+      tokenId,
+      price: '1.0',
+      deploymentId,
+    });
+
+    await hre.run('market:buy', { listingId, deploymentId });
+    expect(await musicNFT.ownerOf(tokenId)).to.equal(owner.address);
+
+    const pending = await nftMarketplace.getPendingPayment(
+      owner.address,
+      ethers.ZeroAddress
+    );
+    expect(pending).to.equal(ethers.parseEther('1.0'));
+
+    expect(await hre.run('market:withdraw', { deploymentId })).to.equal(
+      pending
+    );
+  });
+
+  it('Should list, buy and cancel bundles through the tasks', async function () {
+    const { musicNFT, nftMarketplace, owner } = await loadFixture(
+      deployEcosystemFixture
+    );
+
+    for (let i = 1; i <= 4; i++) {
+      await hre.run('music:mint', {
+        uri: `https://example.com/token/${i}`,
+        salesRoyalty: 500,
+        streamingRoyalty: 1000,
+        deploymentId,
+      });
+    }
+
+    const bundleId = await hre.run('market:list-bundle', {
+      items: '1:1, 2:3',
+      price: '2.0',
+      deploymentId,
+    });
+    expect(bundleId).to.equal(1n);
+    expect(await musicNFT.ownerOf(2)).to.equal(nftMarketplace.target);
+
+    await hre.run('market:buy-bundle', { bundleId, deploymentId });
+    expect(await musicNFT.ownerOf(2)).to.equal(owner.address);
+
+    await hre.run('market:list-bundle', {
+      items: '3:1,4:1',
+      price: '1.0',
+      deploymentId,
+    });
+    await hre.run('market:cancel-bundle', { bundleId: 2n, deploymentId });
+    expect(await musicNFT.ownerOf(4)).to.equal(owner.address);
+
+    await expect(
+      hre.run('market:list-bundle', {
+        items: '3',
+        price: '1.0',
+        deploymentId,
+      })
+    ).to.be.rejectedWith('Invalid bundle item "3"');
+  });
+
+  it('Should mint with collaborator royalty splits', async function () {
+    const { musicNFT, owner } = await loadFixture(deployEcosystemFixture);
+    const [, producer] = await hre.ethers.getSigners();
+
+    const tokenId = await hre.run('music:mint', {
+      uri: 'https://example.com/token/1',
+      salesRoyalty: 500,
+      streamingRoyalty: 1000,
+      splits: `${owner.address}:7000,${producer.address}:3000`,
+      deploymentId,
+    });
+
+    const split = await musicNFT.getRoyaltySplit(tokenId);
+    expect(split.recipients).to.deep.equal([owner.address, producer.address]);
+    expect(split.shares).to.deep.equal([7000n, 3000n]);
+
+    await expect(
+      hre.run('music:mint', {
+        uri: 'https://example.com/token/2',
+        salesRoyalty: 500,
+        streamingRoyalty: 1000,
+        splits: `${owner.address}=7000`,
+        deploymentId,
+      })
+    ).to.be.rejectedWith('Invalid split');
+  });
+
+  it('Should mint an album and add tracks through the tasks', async function () {
+    const { musicNFT } = await loadFixture(deployEcosystemFixture);
+
+    const { albumId, tokenIds } = await hre.run('music:mint-album', {
+      uri: 'https://example.com/album/1',
+      tracks: 'https://example.com/token/1, https://example.com/token/2',
+      salesRoyalty: 500,
+      streamingRoyalty: 1000,
+      deploymentId,
+    });
+    expect(albumId).to.equal(1n);
+    expect(tokenIds).to.deep.equal([1n, 2n]);
+    expect(await musicNFT.tokenURI(2)).to.equal('https://example.com/token/2');
+
+    const tokenId = await hre.run('music:mint', {
+      uri: 'https://example.com/token/3',
+      salesRoyalty: 500,
+      streamingRoyalty: 1000,
+      deploymentId,
+    });
+    const emptyAlbumId = await hre.run('music:create-album', {
+      uri: 'https://example.com/album/2',
+      deploymentId,
+    });
+    await hre.run('music:add-track', {
+      albumId: emptyAlbumId,
+      tokenId,
+      deploymentId,
+    });
+    expect(await musicNFT.getAlbumTracks(emptyAlbumId)).to.deep.equal([3n]);
+
+    await expect(
+      hre.run('music:add-track', { albumId: 1n, tokenId, deploymentId })
+    ).to.be.rejectedWith('Transaction reverted with TrackAlreadyInAlbum(3, 2)');
+  });
+
+  it('Should propose, cancel and execute royalty updates through the tasks', async function () {
+    const { musicNFT } = await loadFixture(deployEcosystemFixture);
+
+    const tokenId = await hre.run('music:mint', {
+      uri: 'https://example.com/token/1',
+      salesRoyalty: 500,
+      streamingRoyalty: 1000,
+      deploymentId,
+    });
+    await hre.run('music:propose-royalty', {
+      tokenId,
+      salesRoyalty: 700,
+      streamingRoyalty: 2000,
+      deploymentId,
+    });
+    await hre.run('music:cancel-royalty', { tokenId, deploymentId });
+
+    const executableAt = await hre.run('music:propose-royalty', {
+      tokenId,
+      salesRoyalty: 300,
+      streamingRoyalty: 1500,
+      deploymentId,
+    });
+    await expect(
+      hre.run('music:execute-royalty', { tokenId, deploymentId })
+    ).to.be.rejectedWith('RoyaltyUpdateTimelocked');
+
+    await time.increaseTo(executableAt);
+    await hre.run('music:execute-royalty', { tokenId, deploymentId });
+    expect(await musicNFT.getStreamingRoyalty(tokenId)).to.equal(1500n);
+  });
+
+  it('Should update, restrict, freeze and burn through the tasks', async function () {
+    const { musicNFT } = await loadFixture(deployEcosystemFixture);
+
+    const tokenId = await hre.run('music:mint', {
+      uri: 'https://example.com/token/1',
+      salesRoyalty: 500,
+      streamingRoyalty: 1000,
+      deploymentId,
+    });
+    await hre.run('music:update-uri', {
+      tokenId,
+      uri: 'https://example.com/token/1-v2',
+      deploymentId,
+    });
+    await hre.run('music:set-creator-only', { tokenId, deploymentId });
+    expect(await musicNFT.isCreatorOnlyUpdates(tokenId)).to.be.true;
+    await hre.run('music:set-creator-only', {
+      tokenId,
+      disable: true,
+      deploymentId,
+    });
+    expect(await musicNFT.isCreatorOnlyUpdates(tokenId)).to.be.false;
+
+    await hre.run('music:freeze-metadata', { tokenId, deploymentId });
+    await expect(
+      hre.run('music:update-uri', { tokenId, uri: 'uri-3', deploymentId })
+    ).to.be.rejectedWith('MetadataIsFrozen');
+    expect((await musicNFT.getTokenURIHistory(tokenId)).uris).to.deep.equal([
+      'https://example.com/token/1',
+      'https://example.com/token/1-v2',
+    ]);
+
+    await hre.run('music:burn', { tokenId, deploymentId });
+    expect(await musicNFT.tokenExists(tokenId)).to.be.false;
+    await expect(
+      hre.run('music:burn', { tokenId, deploymentId })
+    ).to.be.rejectedWith('NonexistentToken');
+  });
+
+  it('Should mint a track with file hashes and verify files through the tasks', async function () {
+    const { musicNFT } = await loadFixture(deployEcosystemFixture);
+    const audioFile = path.join(deploymentDir, 'track.mp3');
+    const artworkFile = path.join(deploymentDir, 'cover.png');
+    fs.writeFileSync(audioFile, 'audio bytes');
+    fs.writeFileSync(artworkFile, 'artwork bytes');
+
+    const tokenId = await hre.run('music:mint-track', {
+      uri: 'ipfs://audio',
+      title: 'Track',
+      artist: 'Artist',
+      duration: 180,
+      audioFile,
+      artworkFile,
+      salesRoyalty: 500,
+      streamingRoyalty: 1000,
+      deploymentId,
+    });
+    expect((await musicNFT.getTrackMetadata(tokenId)).contentHash).to.equal(
+      ethers.keccak256(ethers.toUtf8Bytes('audio bytes'))
+    );
+
+    await hre.run('music:verify-file', {
+      tokenId,
+      file: audioFile,
+      deploymentId,
+    });
+    await hre.run('music:verify-file', {
+      tokenId,
+      file: artworkFile,
+      artwork: true,
+      deploymentId,
+    });
+    await expect(
+      hre.run('music:verify-file', {
+        tokenId,
+        file: artworkFile,
+        deploymentId,
+      })
+    ).to.be.rejectedWith('expected 0x');
+  });
+
+  it('Should create, sell and stream editions through the tasks', async function () {
+    const { musicEditions, nftStreaming, owner } = await loadFixture(
+      deployEcosystemFixture
+    );
+    const [, buyer] = await hre.ethers.getSigners();
+
+    const editionId = await hre.run('music:create-edition', {
+      uri: 'https://example.com/edition/1',
+      maxSupply: 10n,
+      salesRoyalty: 500,
+      streamingRoyalty: 5000,
+      deploymentId,
+    });
+    expect(await musicEditions.balanceOf(owner.address, editionId)).to.equal(
+      10
+    );
+
+    const listingId = await hre.run('market:list-edition', {
+      editionId,
+      quantity: 5n,
+      price: '0.1',
+      deploymentId,
+    });
+    // Buys from the seller's own account, which only moves copies around
+    await hre.run('market:buy-edition', {
+      listingId,
+      quantity: 2n,
+      deploymentId,
+    });
+    await hre.run('market:cancel-edition', { listingId, deploymentId });
+
+    await musicEditions.safeTransferFrom(
+      owner.address,
+      buyer.address,
+      editionId,
+      5,
+      '0x'
+    );
+    await hre.run('admin:add-reporter', {
+      reporter: owner.address,
+      deploymentId,
+    });
+    await hre.run('stream:record', {
+      tokenId: editionId,
+      count: 10n,
+      rate: '0.01',
+      nftContract: await musicEditions.getAddress(),
+      deploymentId,
+    });
+
+    // Half of the 0.1 ETH goes to the holders, who hold half of the copies each
+    expect(
+      await nftStreaming.getPendingPayment(owner.address, ethers.ZeroAddress)
+    ).to.equal(ethers.parseEther('0.05'));
+    expect(
+      await hre.run('music:claim-edition-royalties', {
+        editionId,
+        deploymentId,
+      })
+    ).to.equal(ethers.parseEther('0.025'));
+
+    await hre.run('music:set-edition-payout', {
+      editionId,
+      payout: 'creator',
+      deploymentId,
+    });
+    expect(await musicEditions.getStreamingPayout(editionId)).to.equal(1);
+    await expect(
+      hre.run('music:set-edition-payout', {
+        editionId,
+        payout: 'everyone',
+        deploymentId,
+      })
+    ).to.be.rejectedWith('Invalid payout');
+  });
+
+  it('Should sell passes and pay out subscription pools through the tasks', async function () {
+    const { musicNFT, nftStreaming, owner } = await loadFixture(
+      deployEcosystemFixture
+    );
+
+    await hre.run('music:mint', {
+      uri: 'https://example.com/token/1',
+      salesRoyalty: 500,
+      streamingRoyalty: 0,
+      deploymentId,
+    });
+    await hre.run('admin:set-subscription-price', {
+      price: '0.01',
+      deploymentId,
+    });
+    const period = await nftStreaming.currentPeriod();
+    expect(
+      await hre.run('stream:buy-pass', { periods: 30n, deploymentId })
+    ).to.equal(period + 30n);
+
+    await hre.run('admin:add-reporter', {
+      reporter: owner.address,
+      deploymentId,
+    });
+    await hre.run('stream:record-subscription', {
+      listens: '1:25',
+      deploymentId,
+    });
+    await expect(
+      hre.run('stream:record-subscription', { listens: '1', deploymentId })
+    ).to.be.rejectedWith('expected <tokenId>:<count>');
+
+    await time.increase(24 * 60 * 60);
+    await hre.run('stream:close-period', { period, deploymentId });
+    expect(
+      await hre.run('stream:claim-subscription', { period, deploymentId })
+    ).to.equal(ethers.parseEther('0.01'));
+    expect(await nftStreaming.getListenCount(musicNFT.target, 1)).to.equal(25n);
+  });
+
+  it('Should update fees and pause both contracts through the admin tasks', async function () {
+    const { nftMarketplace, nftStreaming } = await loadFixture(
+      deployEcosystemFixture
+    );
+    const [, treasury] = await hre.ethers.getSigners();
+
+    await hre.run('admin:set-fee', { percentage: 500, deploymentId });
+    await hre.run('admin:set-treasury', {
+      treasury: treasury.address,
+      deploymentId,
+    });
+    expect(await nftMarketplace.marketFeePercentage()).to.equal(500);
+    expect(await nftMarketplace.feeTreasury()).to.equal(treasury.address);
+
+    await hre.run('admin:pause', { deploymentId });
+    expect(await nftMarketplace.paused()).to.be.true;
+    expect(await nftStreaming.paused()).to.be.true;
+
+    await expect(
+      hre
+        .run('music:mint', {
+          uri: 'https://example.com/token/1',
+          salesRoyalty: 500,
+          streamingRoyalty: 1000,
+          deploymentId,
+        })
+        .then((tokenId) =>
+          hre.run('market:list', { tokenId, price: '1.0', deploymentId })
+        )
+    ).to.be.rejectedWith('Transaction reverted with EnforcedPause()');
+
+    await hre.run('admin:unpause', { deploymentId });
+    expect(await nftMarketplace.paused()).to.be.false;
+    expect(await nftStreaming.paused()).to.be.false;
+
+    await expect(
+      hre.run('admin:set-fee', { percentage: 2000, deploymentId })
+    ).to.be.rejectedWith(
+      'Transaction reverted with MarketFeeTooHigh(2000, 1000)'
+    );
+  });
+
+  it('Should report custom errors as readable messages', async function () {
+    await loadFixture(deployEcosystemFixture);
+
+    await expect(
+      hre.run('music:mint', {
+        uri: 'https://example.com/token/1',
+        salesRoyalty: 6000,
+        streamingRoyalty: 1000,
+        deploymentId,
+      })
+    ).to.be.rejectedWith(
+      'Transaction reverted with MaxRoyaltyExceeded(6000, 5000)'
+    );
+
+    await expect(
+      hre.run('market:cancel', { listingId: 1n, deploymentId })
+    ).to.be.rejectedWith('Transaction reverted with ListingNotFound()');
+  });
+
+  it('Should fail when the deployment does not exist', async function () {
+    await loadFixture(deployEcosystemFixture);
+
+    await expect(
+      hre.run('market:withdraw', { deploymentId: 'missing' })
+    ).to.be.rejectedWith('No deployment found');
+  });
+});
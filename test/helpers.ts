@@ -0,0 +1,22 @@
+import { time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { Addressable, BigNumberish } from 'ethers';
+import { buildListenReport, ListenReport, listenPeriodOf } from '../sdk';
+
+// Builds a report for the current period whose rate makes count * rate
+// equal the amount
+export async function listenReport(
+  nftContract: string | Addressable,
+  tokenId: BigNumberish,
+  count: BigNumberish,
+  amount: BigNumberish,
+  currency: string | Addressable
+): Promise<ListenReport> {
+  return buildListenReport({
+    nftContract: nftContract as string,
+    tokenId,
+    count,
+    rate: BigInt(count) > 0n ? BigInt(amount) / BigInt(count) : 0n,
+    currency: currency as string,
+    period: listenPeriodOf(await time.latest()),
+  });
+}